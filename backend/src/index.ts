@@ -25,6 +25,10 @@ import videoRoutes from './routes/video.js';
 import searchRoutes from './routes/search.js';
 import scienceRoutes from './routes/science.js';
 import asciiRoutes from './routes/ascii.js';
+import jobRoutes from './routes/jobs.js';
+import exportRoutes from './routes/export.js';
+import charsetRoutes from './routes/charsets.js';
+import { checkPythonAvailable } from './services/pythonBridge.js';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
@@ -71,6 +75,9 @@ app.use('/api/video', videoRoutes);
 app.use('/api/search', searchRoutes);
 app.use('/api/science', scienceRoutes);
 app.use('/api/ascii', asciiRoutes);
+app.use('/api/jobs', jobRoutes);
+app.use('/api/export', exportRoutes);
+app.use('/api/charsets', charsetRoutes);
 
 // Health check endpoint
 app.get('/api/health', (_req: Request, res: Response) => {
@@ -78,7 +85,8 @@ app.get('/api/health', (_req: Request, res: Response) => {
     status: 'ok', 
     timestamp: new Date().toISOString(),
     version: '1.0.0',
-    name: 'ASCII Oracle API'
+    name: 'ASCII Oracle API',
+    python: checkPythonAvailable()
   });
 });
 
@@ -0,0 +1,262 @@
+"""
+Chemical Equation Balancer
+Balances reactions through the rational null space of the element matrix
+Reads species the way services/chemFormula.ts does: parentheses/brackets, hydrates
+(CuSO4*5H2O or CuSO4·5H2O), state symbols, isotopes ([13C], ¹³C, D, T) and ionic
+charges written as Fe3+, NH4+, SO4^2-, SO4 2-, Fe³⁺ or e-
+The TypeScript balancer (services/chemBalance.ts) answers when Python can't
+
+Usage: python3 chem_balance.py '{"equation": "Fe + O2 -> Fe2O3"}'
+"""
+
+import re
+from collections import Counter
+from functools import reduce
+from math import gcd
+
+import sympy as sp
+
+from common import InputError, run_cli
+
+ARROW = re.compile(r"\s*(?:<=>|<->|->|=>|→|⇌|=)\s*")
+SPECIES_SEPARATOR = re.compile(r"\s+\+\s+")
+# "H2+O2" or "H2+ O2": a + followed by the start of a species separates the two, the +
+# in Fe3+ or NH4+ is a charge
+UNSPACED_SEPARATOR = re.compile(r"\s*\+\s*(?=[A-Z0-9(\[¹²³⁴⁵⁶⁷⁸⁹⁰]|e\^?[-⁻])")
+STATE = re.compile(r"\s*\((?:aq|s|l|g)\)$")
+ELECTRON = re.compile(r"^e\^?[-⁻]$")
+SUPERSCRIPTS = "⁰¹²³⁴⁵⁶⁷⁸⁹"
+SUBSCRIPT_DIGITS = str.maketrans("₀₁₂₃₄₅₆₇₈₉", "0123456789")
+SUPERSCRIPT_DIGITS = str.maketrans(SUPERSCRIPTS, "0123456789")
+# Charges: ²⁻, then ^2- / " 2-" / ^+2, then a bare trailing sign (NH4+, Fe3+)
+SUPERSCRIPT_CHARGE = re.compile(rf"([{SUPERSCRIPTS}]*)([⁺⁻])$")
+SEPARATE_CHARGE = re.compile(r"(?:\s*\^\s*|\s+)(\d*)([+-])$|\s*\^?\s*([+-])(\d+)$")
+LONE_ATOM = re.compile(r"^([A-Z][a-z]?)(\d+)$")
+SUPERSCRIPT_ISOTOPE = re.compile(rf"([{SUPERSCRIPTS}]+)([A-Z][a-z]?)")
+TOKEN = re.compile(r"(\[\d+[A-Z][a-z]?\]|[A-Z][a-z]?|\(|\)|\[|\]|\d+)")
+# Deuterium and tritium count as their own kind of atom, like [2H] and [3H]
+ISOTOPE_SYMBOLS = {"D": "2H", "T": "3H"}
+
+MAX_SPECIES = 20
+
+ELEMENTS = set(
+    """H He Li Be B C N O F Ne Na Mg Al Si P S Cl Ar K Ca Sc Ti V Cr Mn Fe Co Ni Cu Zn Ga Ge
+    As Se Br Kr Rb Sr Y Zr Nb Mo Tc Ru Rh Pd Ag Cd In Sn Sb Te I Xe Cs Ba La Ce Pr Nd Pm Sm
+    Eu Gd Tb Dy Ho Er Tm Yb Lu Hf Ta W Re Os Ir Pt Au Hg Tl Pb Bi Po At Rn Fr Ra Ac Th Pa U
+    Np Pu Am Cm Bk Cf Es Fm Md No Lr Rf Db Sg Bh Hs Mt Ds Rg Cn Nh Fl Mc Lv Ts Og""".split()
+)
+
+
+def split_side(side):
+    """Species on one side of the arrow, with or without spaces around the + signs"""
+    side = side.strip()
+    if re.search(r"(^|\s)\+$|^\+\s", side):
+        raise InputError("Empty species: check the + signs")
+    spaced = SPECIES_SEPARATOR.split(side)
+    return spaced if len(spaced) > 1 else UNSPACED_SEPARATOR.split(side)
+
+
+def split_charge(text):
+    """Formula and charge; digits glued to a lone atom are its charge (Fe3+), not a count"""
+    match = SUPERSCRIPT_CHARGE.search(text)
+    if match:
+        size = int(match.group(1).translate(SUPERSCRIPT_DIGITS) or 1)
+        return text[: match.start()], size if match.group(2) == "⁺" else -size
+
+    match = SEPARATE_CHARGE.search(text)
+    if match:
+        sign, size = (match.group(2), match.group(1)) if match.group(2) else match.group(3, 4)
+        size = int(size or 1)
+        return text[: match.start()], size if sign == "+" else -size
+
+    if text.endswith(("+", "-")):
+        sign = 1 if text[-1] == "+" else -1
+        lone = LONE_ATOM.match(text[:-1])
+        if lone and lone.group(1) in ELEMENTS:
+            return lone.group(1), sign * int(lone.group(2))
+        return text[:-1], sign
+    return text, 0
+
+
+def parse_species(text):
+    """Split a leading coefficient and state symbol off a species,
+    returns (written, formula, charge)"""
+    written = re.sub(r"^\d+\s*(?=\D)", "", text.strip())
+    if not written:
+        raise InputError("Empty species: check the + signs")
+    bare = STATE.sub("", written).translate(SUBSCRIPT_DIGITS)
+    if ELECTRON.match(bare):
+        return written, "e", -1
+
+    # ¹³CO2 is [13C]O2
+    bare = SUPERSCRIPT_ISOTOPE.sub(
+        lambda m: f"[{m.group(1).translate(SUPERSCRIPT_DIGITS)}{m.group(2)}]", bare
+    )
+    formula, charge = split_charge(bare)
+    if not formula:
+        raise InputError(f"Expected an element in {written}")
+    return written, formula, charge
+
+
+def count_atoms(formula):
+    """Element counts for a formula with nested groups and hydrate dots"""
+    if formula == "e":
+        return Counter()
+
+    total = Counter()
+    for part in re.split(r"[*·•⋅.]", formula):
+        match = re.match(r"^(\d+)(.*)$", part)
+        multiplier, body = (int(match.group(1)), match.group(2)) if match else (1, part)
+        for element, count in _count_group(body).items():
+            total[element] += count * multiplier
+    return total
+
+
+def _count_group(formula):
+    tokens = TOKEN.findall(formula)
+    if "".join(tokens) != formula:
+        raise InputError(f"Invalid formula: {formula}")
+
+    # `last` is the element or closed group a following count multiplies
+    stack = [Counter()]
+    last = None
+    for token in tokens:
+        if token in "([":
+            stack.append(Counter())
+            last = None
+        elif token in ")]":
+            if len(stack) == 1:
+                raise InputError(f"Unbalanced brackets in {formula}")
+            last = stack.pop()
+            stack[-1].update(last)
+        elif token.isdigit():
+            if last is None:
+                raise InputError(f"Unexpected number in {formula}")
+            for element, count in last.items():
+                stack[-1][element] += count * (int(token) - 1)
+            last = None
+        else:
+            atom = _atom(token)
+            last = Counter({atom: 1})
+            stack[-1][atom] += 1
+
+    if len(stack) != 1:
+        raise InputError(f"Unbalanced brackets in {formula}")
+    return stack[0]
+
+
+def _atom(token):
+    """Count key for an element token: "Fe", or "13C" for the isotopes [13C] and ¹³C"""
+    if token in ISOTOPE_SYMBOLS:
+        return ISOTOPE_SYMBOLS[token]
+    isotope = re.match(r"^\[(\d+)([A-Za-z]+)\]$", token)
+    symbol = isotope.group(2) if isotope else token
+    if symbol not in ELEMENTS:
+        raise InputError(f"Unknown element: {symbol}")
+    return f"{isotope.group(1)}{symbol}" if isotope else symbol
+
+
+def _charge_label(charge):
+    return f"{abs(charge) if abs(charge) != 1 else ''}{'+' if charge > 0 else '-'}"
+
+
+def format_species(coefficient, written):
+    """Species as written with its coefficient, 1 left out"""
+    return f"{coefficient if coefficient != 1 else ''}{written}"
+
+
+def latex_species(coefficient, formula, charge):
+    prefix = str(coefficient) if coefficient != 1 else ""
+    body = re.sub(r"(?<=[A-Za-z)\]])(\d+)", r"_{\1}", formula)
+    body = re.sub(r"[*·•⋅.]", r" \\cdot ", body)
+    suffix = f"^{{{_charge_label(charge)}}}" if charge else ""
+    return rf"{prefix}\mathrm{{{body}}}{suffix}"
+
+
+def run(args):
+    """Same result fields as the TypeScript balancer, plus result/latex/steps"""
+    equation = args.get("equation")
+    if not isinstance(equation, str) or not equation.strip():
+        raise InputError("Chemical equation is required")
+
+    sides = ARROW.split(equation.strip())
+    if len(sides) != 2 or not all(side.strip() for side in sides):
+        raise InputError("Write the equation as reactants -> products, e.g. H2 + O2 -> H2O")
+
+    reactants = [parse_species(s) for s in split_side(sides[0])]
+    products = [parse_species(s) for s in split_side(sides[1])]
+    species = reactants + products
+    if len(species) > MAX_SPECIES:
+        raise InputError(f"Equations are limited to {MAX_SPECIES} species")
+
+    counts = [count_atoms(formula) for _, formula, _ in species]
+    elements = sorted({element for count in counts for element in count})
+    charged = any(charge for _, _, charge in species)
+
+    # One row per element (plus charge), reactant columns positive, product columns negative
+    rows = [
+        [count[element] * (1 if j < len(reactants) else -1) for j, count in enumerate(counts)]
+        for element in elements
+    ]
+    if charged:
+        rows.append(
+            [charge * (1 if j < len(reactants) else -1) for j, (*_, charge) in enumerate(species)]
+        )
+    matrix = sp.Matrix(rows)
+
+    nullspace = matrix.nullspace()
+    if not nullspace:
+        raise InputError("Equation cannot be balanced (no solution)")
+    if len(nullspace) > 1:
+        raise InputError("Equation has several independent balancings, split it into reactions")
+
+    vector = nullspace[0]
+    multiple = reduce(sp.ilcm, [term.q for term in vector], 1)
+    coefficients = [int(term * multiple) for term in vector]
+    if all(c < 0 for c in coefficients):
+        coefficients = [-c for c in coefficients]
+    if any(c <= 0 for c in coefficients):
+        raise InputError("Equation cannot be balanced with positive coefficients")
+    divisor = reduce(gcd, coefficients)
+    coefficients = [c // divisor for c in coefficients]
+
+    reactant_terms = list(zip(coefficients, reactants))
+    product_terms = list(zip(coefficients[len(reactants) :], products))
+    balanced = (
+        " + ".join(format_species(c, written) for c, (written, *_) in reactant_terms)
+        + " → "
+        + " + ".join(format_species(c, written) for c, (written, *_) in product_terms)
+    )
+    latex = (
+        " + ".join(latex_species(c, *s[1:]) for c, s in reactant_terms)
+        + r" \rightarrow "
+        + " + ".join(latex_species(c, *s[1:]) for c, s in product_terms)
+    )
+
+    steps = [
+        f"Species: {', '.join(written for written, *_ in species)}",
+        f"Elements: {', '.join(elements)}" + (" + charge" if charged else ""),
+    ]
+    steps += [f"{label}: {row}" for label, row in zip(elements + ["charge"], rows)]
+    steps += [
+        f"Null space vector: {[str(term) for term in vector]}",
+        f"Scale to smallest integers: {coefficients}",
+        f"Balanced: {balanced}",
+    ]
+
+    return {
+        "success": True,
+        "result": balanced,
+        "latex": latex,
+        "steps": steps,
+        "original": equation,
+        "balanced": balanced,
+        "reactants": [{"formula": s[0], "coefficient": c} for c, s in reactant_terms],
+        "products": [{"formula": s[0], "coefficient": c} for c, s in product_terms],
+        "coefficients": coefficients,
+        "elements": elements + (["charge"] if charged else []),
+    }
+
+
+if __name__ == "__main__":
+    run_cli(run)
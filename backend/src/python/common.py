@@ -0,0 +1,173 @@
+"""
+Shared helpers for the SymPy scripts
+Safe expression parsing and the JSON protocol the Node bridge expects:
+{"success": bool, "result": ..., "latex": str, "pretty": str, "steps": [str], "error": str}
+"""
+
+import json
+import keyword
+import re
+import sys
+
+import sympy as sp
+from sympy.parsing.sympy_parser import (
+    convert_xor,
+    implicit_multiplication_application,
+    parse_expr,
+    standard_transformations,
+)
+
+MAX_EXPRESSION_LENGTH = 500
+
+TRANSFORMATIONS = standard_transformations + (
+    implicit_multiplication_application,
+    convert_xor,
+)
+
+# Input is evaluated by parse_expr, so only arithmetic characters are accepted
+# and names resolve against this namespace (anything else becomes a Symbol)
+ALLOWED_CHARACTERS = re.compile(r"^[\w\s+\-*/^().,!=<>]*$")
+VARIABLE_PATTERN = re.compile(r"^[A-Za-z][A-Za-z0-9_]{0,15}$")
+
+FUNCTION_NAMES = (
+    "sin cos tan cot sec csc asin acos atan acot atan2 sinh cosh tanh coth "
+    "asinh acosh atanh exp log sqrt cbrt root Abs sign floor ceiling factorial "
+    "binomial gamma erf re im conjugate Min Max pi E I oo zoo"
+).split()
+
+NAMESPACE = {name: getattr(sp, name) for name in FUNCTION_NAMES}
+NAMESPACE.update(
+    {
+        # Names the parser transformations emit
+        "Symbol": sp.Symbol,
+        "Integer": sp.Integer,
+        "Float": sp.Float,
+        "Rational": sp.Rational,
+        "Function": sp.Function,
+        # Common spellings
+        "e": sp.E,
+        "ln": sp.log,
+        "abs": sp.Abs,
+        "inf": sp.oo,
+        "infinity": sp.oo,
+        "arcsin": sp.asin,
+        "arccos": sp.acos,
+        "arctan": sp.atan,
+        "__builtins__": {},
+    }
+)
+
+
+class InputError(ValueError):
+    """Invalid user input, reported back as the error message"""
+
+
+def parse_expression(text):
+    """Parse a user expression such as "2x^2 + sin(x)" into a SymPy expression"""
+    if not isinstance(text, str) or not text.strip():
+        raise InputError("Expression is required")
+    if len(text) > MAX_EXPRESSION_LENGTH:
+        raise InputError(f"Expression is longer than {MAX_EXPRESSION_LENGTH} characters")
+    if not ALLOWED_CHARACTERS.match(text) or "__" in text:
+        raise InputError("Expression contains unsupported characters")
+
+    for name in re.findall(r"[A-Za-z_]\w*", text):
+        if keyword.iskeyword(name):
+            raise InputError(f"Unsupported name: {name}")
+
+    try:
+        return parse_expr(text, global_dict=dict(NAMESPACE), transformations=TRANSFORMATIONS)
+    except Exception as error:
+        raise InputError(f"Could not parse expression: {text}") from error
+
+
+def parse_equation(text):
+    """Parse "lhs = rhs" into an Eq, a bare expression is taken as expr = 0"""
+    if isinstance(text, str) and text.count("=") == 1 and not re.search(r"[<>!]=", text):
+        lhs, rhs = text.split("=")
+        return sp.Eq(parse_expression(lhs), parse_expression(rhs), evaluate=False)
+    return sp.Eq(parse_expression(text), 0, evaluate=False)
+
+
+def parse_variables(text, default="x"):
+    """Comma separated variable names to Symbols"""
+    names = [name.strip() for name in str(text or default).split(",") if name.strip()]
+    for name in names:
+        if not VARIABLE_PATTERN.match(name):
+            raise InputError(f"Invalid variable name: {name}")
+    return [sp.Symbol(name) for name in names]
+
+
+def split_top_level(text, separators=",;"):
+    """Split on separators that are not nested inside parentheses"""
+    parts, depth, current = [], 0, ""
+    for char in text:
+        if char == "(":
+            depth += 1
+        elif char == ")":
+            depth -= 1
+        if char in separators and depth == 0:
+            parts.append(current)
+            current = ""
+        else:
+            current += char
+    parts.append(current)
+    return [part.strip() for part in parts if part.strip()]
+
+
+def format_value(value):
+    """JSON friendly representation of SymPy results"""
+    if isinstance(value, sp.MatrixBase):
+        return [[str(entry) for entry in value.row(i)] for i in range(value.rows)]
+    if isinstance(value, dict):
+        return {str(key): format_value(item) for key, item in value.items()}
+    if isinstance(value, (list, tuple, set, sp.FiniteSet)):
+        return [format_value(item) for item in value]
+    return str(value)
+
+
+def pretty(value):
+    """Two-dimensional Unicode rendering, unwrapped so the terminal decides the width"""
+    return sp.pretty(value, use_unicode=True, wrap_line=False)
+
+
+def pretty_lines(values):
+    """Several pretty printed values, one block after another"""
+    return "\n\n".join(pretty(value) for value in values)
+
+
+def numeric_value(expr):
+    """Float approximation of a real constant, None for symbolic results"""
+    try:
+        if isinstance(expr, sp.Basic) and expr.is_number and expr.is_finite:
+            value = complex(expr.evalf())
+            if abs(value.imag) < 1e-12:
+                return float(value.real)
+    except (TypeError, ValueError):
+        pass
+    return None
+
+
+def safe_run(run, args):
+    """Run a script entry point, turning exceptions into error responses"""
+    try:
+        return run(args)
+    except InputError as error:
+        return {"success": False, "error": str(error)}
+    except Exception as error:  # SymPy raises many exception types
+        return {"success": False, "error": f"{type(error).__name__}: {error}"}
+
+
+def run_cli(run):
+    """Run a script: JSON args from argv[1], JSON result on stdout"""
+    try:
+        args = json.loads(sys.argv[1]) if len(sys.argv) > 1 else {}
+    except ValueError:
+        args = None
+
+    if isinstance(args, dict):
+        output = safe_run(run, args)
+    else:
+        output = {"success": False, "error": "Arguments must be a JSON object"}
+
+    print(json.dumps(output))
@@ -0,0 +1,357 @@
+"""
+Math Solver
+Symbolic math with SymPy: simplify, expand, factor, solve, integrate,
+diff, limit, series and LaTeX conversion
+Steps for diff, integrate and solve name the rule applied ("Chain rule: ...")
+
+Usage: python3 math_solver.py '{"expression": "x^2 - 4", "operation": "factor"}'
+"""
+
+import dataclasses
+import re
+
+import sympy as sp
+
+from common import (
+    InputError,
+    format_value,
+    numeric_value,
+    parse_equation,
+    parse_expression,
+    parse_variables,
+    pretty,
+    pretty_lines,
+    run_cli,
+    split_top_level,
+)
+
+MAX_DIFF_ORDER = 10
+MAX_SERIES_ORDER = 20
+
+
+def _int_arg(args, key, default, highest):
+    try:
+        value = int(args.get(key) or default)
+    except (TypeError, ValueError):
+        raise InputError(f"{key} must be an integer") from None
+    if not 1 <= value <= highest:
+        raise InputError(f"{key} must be between 1 and {highest}")
+    return value
+
+
+def _result(result, latex, steps, display=None, **extra):
+    """`display` is what gets pretty printed, the result itself by default"""
+    output = {
+        "success": True,
+        "result": format_value(result),
+        "latex": latex,
+        "pretty": pretty(result if display is None else display),
+        "steps": steps,
+    }
+    numeric = numeric_value(result)
+    if numeric is not None:
+        output["numeric"] = numeric
+    output.update(extra)
+    return output
+
+
+def _rewrite(function, verb):
+    def operation(args):
+        expr = parse_expression(args.get("expression"))
+        result = function(expr)
+        steps = [f"Parse: {expr}", f"{verb}: {result}"]
+        return _result(result, sp.latex(result), steps)
+
+    return operation
+
+
+def _derivative_rule(node, var):
+    if isinstance(node, sp.Add):
+        return "Sum rule"
+    if isinstance(node, sp.Mul):
+        dependent = [arg for arg in node.args if arg.has(var)]
+        if len(dependent) == 1:
+            return "Constant multiple"
+        if any(arg.is_Pow and arg.exp.is_negative for arg in dependent):
+            return "Quotient rule"
+        return "Product rule"
+    if isinstance(node, sp.Pow):
+        if node.base.has(var) and node.exp.has(var):
+            return "Logarithmic differentiation"
+        if node.exp.has(var):
+            return "Exponential rule" if node.exp == var else "Exponential rule + chain rule"
+        return "Power rule" if node.base == var else "Power rule + chain rule"
+    if isinstance(node, sp.Function):
+        return f"Derivative of {node.func}" if node.args[0] == var else "Chain rule"
+    return "Differentiate"
+
+
+def derivative_steps(expr, var):
+    """One step per node that depends on var, outermost rule first"""
+    steps = []
+
+    def visit(node):
+        if node == var or not node.has(var):
+            return
+        result = sp.simplify(sp.diff(node, var))
+        steps.append(f"{_derivative_rule(node, var)}: d/d{var}[{node}] = {result}")
+        for arg in node.args:
+            visit(arg)
+
+    visit(expr)
+    return list(dict.fromkeys(steps))
+
+
+# manualintegrate rule class -> readable name, others are derived from the class name
+INTEGRAL_RULES = {
+    "URule": "Substitution",
+    "PartsRule": "Integration by parts",
+    "CyclicPartsRule": "Integration by parts (cyclic)",
+    "ConstantTimesRule": "Constant multiple",
+    "AddRule": "Sum rule",
+    "ConstantRule": "Constant rule",
+    "ReciprocalRule": "Reciprocal rule",
+    "ExpRule": "Exponential rule",
+    "RewriteRule": "Rewrite",
+    "DontKnowRule": "No elementary rule",
+}
+
+
+def _integral_rule_name(rule):
+    name = type(rule).__name__
+    if name in INTEGRAL_RULES:
+        return INTEGRAL_RULES[name]
+    words = re.sub(r"(?<!^)(?=[A-Z])", " ", name.removesuffix("Rule")).lower()
+    return f"{words.capitalize()} rule"
+
+
+def _describe_integral_rule(rule):
+    var = rule.variable
+    detail = ""
+    if type(rule).__name__ == "URule":
+        detail = f" with {rule.u_var} = {rule.u_func}"
+    elif type(rule).__name__ == "PartsRule":
+        detail = f" with u = {rule.u}, dv = {rule.dv} d{var}"
+    try:
+        result = rule.eval()
+    except Exception:  # Some rules can't evaluate on their own
+        result = "..."
+    text = f"{_integral_rule_name(rule)}: ∫ {rule.integrand} d{var}{detail} = {result}"
+    return re.sub(r"_u\b", "u", text)  # manualintegrate's substitution variable is _u
+
+
+def integral_steps(expr, var):
+    """Rules SymPy's manual integrator would apply, outermost first (empty if it can't)"""
+    try:
+        from sympy.integrals.manualintegrate import AlternativeRule, Rule
+        from sympy.integrals.manualintegrate import integral_steps as manual_steps
+
+        root = manual_steps(expr, var)
+    except Exception:
+        return []
+
+    steps = []
+
+    def visit(rule):
+        if isinstance(rule, AlternativeRule):
+            visit(rule.alternatives[0])
+            return
+        steps.append(_describe_integral_rule(rule))
+        for field in dataclasses.fields(rule):
+            value = getattr(rule, field.name)
+            for child in value if isinstance(value, list) else [value]:
+                if isinstance(child, Rule):
+                    visit(child)
+
+    visit(root)
+    return list(dict.fromkeys(steps))
+
+
+def _solve_rule(expr, var):
+    """How a single equation expr = 0 gets solved"""
+    numerator, denominator = sp.fraction(sp.together(expr))
+    try:
+        poly = sp.Poly(numerator, var)
+    except sp.PolynomialError:
+        return [f"Non-polynomial equation: solve {numerator} = 0 with SymPy's solvers"]
+
+    steps = []
+    if denominator.has(var):
+        steps.append(f"Clear denominators: multiply by {denominator}, giving {sp.expand(numerator)} = 0")
+    coefficients = poly.all_coeffs()
+    if poly.degree() == 1:
+        a, b = coefficients
+        steps.append(f"Linear equation: {var} = -b/a = {sp.simplify(-b / a)}")
+    elif poly.degree() == 2:
+        a, b, c = coefficients
+        discriminant = sp.simplify(b**2 - 4 * a * c)
+        steps.append(
+            f"Quadratic formula: {var} = (-b ± sqrt(b**2 - 4*a*c))/(2*a) with a = {a}, "
+            f"b = {b}, c = {c}, discriminant = {discriminant}"
+        )
+    elif poly.degree() > 2:
+        steps.append(f"Factor: {sp.factor(numerator)} = 0, solve each factor")
+    return steps
+
+
+def solve(args):
+    equations = [parse_equation(part) for part in split_top_level(args.get("expression", ""), ";,")]
+    if not equations:
+        raise InputError("Equation is required")
+
+    variables = parse_variables(args.get("variable"))
+    steps = [f"Equation: {eq.lhs} = {eq.rhs}" for eq in equations]
+    steps += [f"Move all terms to one side: {sp.simplify(eq.lhs - eq.rhs)} = 0" for eq in equations]
+    steps.append(f"Solve for {', '.join(map(str, variables))}")
+
+    if len(variables) == 1 and len(equations) == 1:
+        steps += _solve_rule(equations[0].lhs - equations[0].rhs, variables[0])
+        solutions = sp.solve(equations[0], variables[0])
+        latex = ", ".join(f"{sp.latex(variables[0])} = {sp.latex(s)}" for s in solutions)
+        steps.append(f"Solutions: {', '.join(map(str, solutions)) or 'none'}")
+        output = _result(solutions, latex, steps)
+        output["pretty"] = pretty_lines(sp.Eq(variables[0], s) for s in solutions)
+        return output
+
+    linear = all(
+        sp.Poly(eq.lhs - eq.rhs, *variables).is_linear
+        for eq in equations
+        if (eq.lhs - eq.rhs).is_polynomial(*variables)
+    ) and all((eq.lhs - eq.rhs).is_polynomial(*variables) for eq in equations)
+    steps.append(
+        "Linear system: Gaussian elimination"
+        if linear
+        else "Nonlinear system: elimination with SymPy's solvers"
+    )
+    solutions = sp.solve(equations, variables, dict=True)
+    latex = r" \quad ".join(
+        ", ".join(f"{sp.latex(var)} = {sp.latex(value)}" for var, value in solution.items())
+        for solution in solutions
+    )
+    steps.append(f"Solutions: {len(solutions)} found")
+    output = _result(solutions, latex, steps)
+    output["pretty"] = pretty_lines(
+        sp.Eq(var, value) for solution in solutions for var, value in solution.items()
+    )
+    return output
+
+
+def integrate(args):
+    expr = parse_expression(args.get("expression"))
+    (var,) = parse_variables(args.get("variable"))
+    lower, upper = args.get("lower"), args.get("upper")
+
+    antiderivative = sp.integrate(expr, var)
+    steps = [f"Integrand: {expr}", *integral_steps(expr, var)]
+    steps.append(f"Antiderivative: F({var}) = {antiderivative} + C")
+
+    if lower is None and upper is None:
+        latex = rf"\int {sp.latex(expr)}\, d{sp.latex(var)} = {sp.latex(antiderivative)} + C"
+        display = sp.Eq(sp.Integral(expr, var), antiderivative + sp.Symbol("C"), evaluate=False)
+        return _result(antiderivative, latex, steps, display)
+
+    if lower is None or upper is None:
+        raise InputError("Both lower and upper bounds are required for a definite integral")
+
+    a, b = parse_expression(lower), parse_expression(upper)
+    result = sp.simplify(sp.integrate(expr, (var, a, b)))
+    steps.append(f"Evaluate: F({b}) - F({a}) = {result}")
+    latex = (
+        rf"\int_{{{sp.latex(a)}}}^{{{sp.latex(b)}}} {sp.latex(expr)}\, d{sp.latex(var)}"
+        f" = {sp.latex(result)}"
+    )
+    display = sp.Eq(sp.Integral(expr, (var, a, b)), result, evaluate=False)
+    return _result(result, latex, steps, display)
+
+
+def diff(args):
+    expr = parse_expression(args.get("expression"))
+    (var,) = parse_variables(args.get("variable"))
+    order = _int_arg(args, "order", 1, MAX_DIFF_ORDER)
+
+    steps = [f"Function: {expr}"]
+    result = expr
+    for n in range(1, order + 1):
+        steps += derivative_steps(result, var)
+        result = sp.simplify(sp.diff(result, var))
+        steps.append(f"Derivative {n}: {result}")
+
+    power = "" if order == 1 else f"^{{{order}}}"
+    prefix = rf"\frac{{d{power}}}{{d{sp.latex(var)}{power}}}"
+    latex = rf"{prefix}\left({sp.latex(expr)}\right) = {sp.latex(result)}"
+    display = sp.Eq(sp.Derivative(expr, (var, order)), result, evaluate=False)
+    return _result(result, latex, steps, display)
+
+
+def limit(args):
+    expr = parse_expression(args.get("expression"))
+    (var,) = parse_variables(args.get("variable"))
+    point = parse_expression(str(args.get("point", "0")))
+    direction = args.get("direction") or "+-"
+    if direction not in ("+", "-", "+-"):
+        raise InputError("Direction must be +, - or +-")
+    if point in (sp.oo, -sp.oo):
+        direction = "-" if point == sp.oo else "+"
+
+    result = sp.limit(expr, var, point, dir=direction)
+    side = {"+": "^+", "-": "^-", "+-": ""}[direction]
+    approach = {"+": "from the right", "-": "from the left", "+-": "from both sides"}[direction]
+    steps = [f"Function: {expr}", f"Approach {var} -> {point} {approach}", f"Limit: {result}"]
+    latex = rf"\lim_{{{sp.latex(var)} \to {sp.latex(point)}{side}}} {sp.latex(expr)} = {sp.latex(result)}"
+    display = sp.Eq(sp.Limit(expr, var, point, dir=direction), result, evaluate=False)
+    return _result(result, latex, steps, display)
+
+
+def series(args):
+    expr = parse_expression(args.get("expression"))
+    (var,) = parse_variables(args.get("variable"))
+    point = parse_expression(str(args.get("point", "0")))
+    order = _int_arg(args, "order", 6, MAX_SERIES_ORDER)
+
+    result = sp.series(expr, var, point, order)
+    polynomial = result.removeO()
+    steps = [
+        f"Function: {expr}",
+        f"Expand around {var} = {point} up to order {order}",
+        f"Series: {result}",
+    ]
+    return _result(result, sp.latex(result), steps, polynomial=str(polynomial))
+
+
+def latex(args):
+    expr = parse_expression(args.get("expression"))
+    result = sp.latex(expr)
+    return {
+        "success": True,
+        "result": result,
+        "latex": result,
+        "pretty": pretty(expr),
+        "steps": [f"Parse: {expr}"],
+    }
+
+
+OPERATIONS = {
+    "simplify": _rewrite(sp.simplify, "Simplify"),
+    "expand": _rewrite(sp.expand, "Expand"),
+    "factor": _rewrite(sp.factor, "Factor"),
+    "solve": solve,
+    "integrate": integrate,
+    "diff": diff,
+    "limit": limit,
+    "series": series,
+    "latex": latex,
+}
+
+
+def run(args):
+    operation = args.get("operation") or "simplify"
+    if operation not in OPERATIONS:
+        raise InputError(f"Invalid operation. Valid: {', '.join(OPERATIONS)}")
+
+    output = OPERATIONS[operation](args)
+    output["operation"] = operation
+    return output
+
+
+if __name__ == "__main__":
+    run_cli(run)
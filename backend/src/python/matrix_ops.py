@@ -0,0 +1,185 @@
+"""
+Matrix Operations
+Exact linear algebra with SymPy: det, inv, eigenvalues, eigenvectors, rref, transpose
+Entries may be numbers or expressions ("1/2", "a", "sqrt(2)")
+
+Usage: python3 matrix_ops.py '{"matrix": "[[1, 2], [3, 4]]", "operation": "det"}'
+"""
+
+import json
+
+import sympy as sp
+
+from common import (
+    InputError,
+    format_value,
+    numeric_value,
+    parse_expression,
+    pretty,
+    pretty_lines,
+    run_cli,
+)
+
+MAX_DIMENSION = 10
+
+
+def parse_matrix(value):
+    """JSON (or already decoded) list of rows to a SymPy Matrix"""
+    rows = json.loads(value) if isinstance(value, str) else value
+
+    if not isinstance(rows, list) or not rows or not all(isinstance(row, list) for row in rows):
+        raise InputError("Matrix must be a non-empty list of rows")
+    if len({len(row) for row in rows}) != 1 or not rows[0]:
+        raise InputError("All matrix rows must have the same, non-zero length")
+    if len(rows) > MAX_DIMENSION or len(rows[0]) > MAX_DIMENSION:
+        raise InputError(f"Matrices are limited to {MAX_DIMENSION}x{MAX_DIMENSION}")
+
+    def entry(item):
+        if isinstance(item, bool) or not isinstance(item, (int, float, str)):
+            raise InputError(f"Invalid matrix entry: {item!r}")
+        return sp.nsimplify(item) if isinstance(item, float) else parse_expression(str(item))
+
+    return sp.Matrix([[entry(item) for item in row] for row in rows])
+
+
+def _require_square(matrix, operation):
+    if not matrix.is_square:
+        raise InputError(f"{operation} requires a square matrix, got {matrix.rows}x{matrix.cols}")
+
+
+def det(matrix):
+    _require_square(matrix, "Determinant")
+    result = sp.simplify(matrix.det())
+    steps = [f"Matrix {matrix.rows}x{matrix.cols}", f"Determinant: {result}"]
+    output = {
+        "result": str(result),
+        "latex": sp.latex(result),
+        "pretty": pretty(result),
+        "steps": steps,
+    }
+    numeric = numeric_value(result)
+    if numeric is not None:
+        output["numeric"] = numeric
+    return output
+
+
+def inv(matrix):
+    _require_square(matrix, "Inverse")
+    determinant = sp.simplify(matrix.det())
+    if determinant == 0:
+        raise InputError("Matrix is singular (determinant is 0), no inverse exists")
+
+    result = sp.simplify(matrix.inv())
+    steps = [
+        f"Determinant: {determinant} (non-zero, so the inverse exists)",
+        "Inverse: adj(A) / det(A)",
+    ]
+    return {
+        "result": format_value(result),
+        "latex": sp.latex(result),
+        "pretty": pretty(result),
+        "steps": steps,
+    }
+
+
+def eigenvalues(matrix):
+    _require_square(matrix, "Eigenvalues")
+    lam = sp.Symbol("lambda")
+    polynomial = sp.factor(matrix.charpoly(lam).as_expr())
+    values = matrix.eigenvals()
+
+    result = [
+        {"value": str(value), "multiplicity": int(multiplicity), "numeric": numeric_value(value)}
+        for value, multiplicity in values.items()
+    ]
+    steps = [
+        f"Characteristic polynomial: det(A - lambda*I) = {polynomial}",
+        f"Roots: {', '.join(str(value) for value in values)}",
+    ]
+    latex = ", ".join(rf"\lambda = {sp.latex(value)}" for value in values)
+    display = pretty_lines(sp.Eq(lam, value) for value in values)
+    return {"result": result, "latex": latex, "pretty": display, "steps": steps}
+
+
+def eigenvectors(matrix):
+    _require_square(matrix, "Eigenvectors")
+    lam = sp.Symbol("lambda")
+    result = []
+    steps = []
+    latex = []
+    display = []
+
+    for value, multiplicity, vectors in matrix.eigenvects():
+        result.append(
+            {
+                "value": str(value),
+                "multiplicity": int(multiplicity),
+                "vectors": [[str(entry) for entry in vector] for vector in vectors],
+            }
+        )
+        steps.append(f"lambda = {value}: null space of (A - {value}*I) gives {len(vectors)} vector(s)")
+        latex.append(
+            rf"\lambda = {sp.latex(value)}: "
+            + ", ".join(sp.latex(vector) for vector in vectors)
+        )
+        display.append((sp.Eq(lam, value), *vectors))
+
+    return {
+        "result": result,
+        "latex": r" \quad ".join(latex),
+        "pretty": pretty_lines(display),
+        "steps": steps,
+    }
+
+
+def rref(matrix):
+    reduced, pivots = matrix.rref()
+    steps = [
+        "Gauss-Jordan elimination to reduced row echelon form",
+        f"Pivot columns: {', '.join(str(p) for p in pivots) or 'none'}",
+        f"Rank: {len(pivots)}",
+    ]
+    return {
+        "result": {"matrix": format_value(reduced), "pivots": list(pivots), "rank": len(pivots)},
+        "latex": sp.latex(reduced),
+        "pretty": pretty(reduced),
+        "steps": steps,
+    }
+
+
+def transpose(matrix):
+    result = matrix.T
+    steps = [f"Swap rows and columns: {matrix.rows}x{matrix.cols} -> {result.rows}x{result.cols}"]
+    return {
+        "result": format_value(result),
+        "latex": sp.latex(result),
+        "pretty": pretty(result),
+        "steps": steps,
+    }
+
+
+OPERATIONS = {
+    "det": det,
+    "inv": inv,
+    "eigenvalues": eigenvalues,
+    "eigenvectors": eigenvectors,
+    "rref": rref,
+    "transpose": transpose,
+}
+
+
+def run(args):
+    operation = args.get("operation")
+    if operation not in OPERATIONS:
+        raise InputError(f"Invalid operation. Valid: {', '.join(OPERATIONS)}")
+
+    try:
+        matrix = parse_matrix(args.get("matrix"))
+    except json.JSONDecodeError:
+        raise InputError("Matrix must be valid JSON") from None
+
+    return {"success": True, "operation": operation, **OPERATIONS[operation](matrix)}
+
+
+if __name__ == "__main__":
+    run_cli(run)
@@ -0,0 +1,71 @@
+"""
+Python Worker
+Long-lived process used by the Node worker pool (services/pythonBridge.ts)
+SymPy and the solver scripts are imported once, then requests are served as
+newline-delimited JSON over stdio:
+
+  stdin:  {"id": 1, "script": "math_solver.py", "args": {"expression": "x^2"}}
+  stdout: {"id": 1, "success": true, "result": "x**2", ...}
+
+The first line written is {"ready": true, "python": "3.11.4", "sympy": "1.12" | null}
+"""
+
+import importlib
+import json
+import platform
+import sys
+
+SCRIPTS = {
+    "math_solver.py": "math_solver",
+    "matrix_ops.py": "matrix_ops",
+    "chem_balance.py": "chem_balance",
+}
+
+
+def write(message):
+    sys.stdout.write(json.dumps(message) + "\n")
+    sys.stdout.flush()
+
+
+def load_scripts():
+    """Import SymPy and every script, returns (sympy version, modules) or (None, {})"""
+    try:
+        import sympy
+
+        modules = {name: importlib.import_module(module) for name, module in SCRIPTS.items()}
+        return sympy.__version__, modules
+    except ImportError:
+        return None, {}
+
+
+def main():
+    sympy_version, modules = load_scripts()
+    write({"ready": True, "python": platform.python_version(), "sympy": sympy_version})
+
+    if modules:
+        from common import safe_run
+
+    for line in sys.stdin:
+        if not line.strip():
+            continue
+
+        try:
+            request = json.loads(line)
+            request_id = request["id"]
+        except (ValueError, KeyError, TypeError):
+            write({"id": None, "success": False, "error": "Invalid request"})
+            continue
+
+        script = request.get("script")
+        if not modules:
+            output = {"success": False, "error": "SymPy is not installed", "fallback": True}
+        elif script not in modules:
+            output = {"success": False, "error": f"Unknown script: {script}"}
+        else:
+            output = safe_run(modules[script].run, request.get("args") or {})
+
+        write({**output, "id": request_id})
+
+
+if __name__ == "__main__":
+    main()
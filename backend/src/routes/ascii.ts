@@ -9,7 +9,7 @@ import { Router, Request, Response } from 'express';
 const router = Router();
 
 // Large ASCII art collection with animations
-const ASCII_LIBRARY: Record<string, { art: string; animated?: string[]; category: string }> = {
+export const ASCII_LIBRARY: Record<string, { art: string; animated?: string[]; category: string }> = {
   // Animals
   cat: {
     category: 'animals',
@@ -0,0 +1,81 @@
+/**
+ * Charset Routes
+ * List the built-in ramps and manage saved custom ramps
+ * Saved ramps can be used by name as `charset` on the image, video and job routes
+ */
+
+import { Request, Response, Router } from 'express';
+import {
+  deleteCharset,
+  listCharsets,
+  saveCharset,
+  sortByDensity,
+  validateRamp,
+  validateSavedCharset,
+} from '../services/charsetRegistry.js';
+import { SUBCELL_LAYOUTS } from '../services/subcellRenderer.js';
+
+const router = Router();
+
+// All charsets by name
+router.get('/', (_req: Request, res: Response) => {
+  const { builtin, saved } = listCharsets();
+
+  res.json({
+    success: true,
+    builtin,
+    subcell: Object.keys(SUBCELL_LAYOUTS),
+    saved,
+  });
+});
+
+// Preview how a custom ramp is ordered by measured glyph density
+router.post('/sort', async (req: Request, res: Response) => {
+  try {
+    const { ramp } = req.body;
+
+    const rampError = validateRamp(ramp);
+    if (rampError) {
+      return res.status(400).json({ error: rampError });
+    }
+
+    res.json({ success: true, ramp: await sortByDensity(ramp) });
+  } catch (error) {
+    console.error('Sort charset error:', error);
+    res.status(500).json({ error: 'Failed to sort charset' });
+  }
+});
+
+// Save (or overwrite) a named ramp
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const { name, ramp, sort = true } = req.body;
+
+    const error = validateSavedCharset(name, ramp);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    const saved = await saveCharset(name, ramp, sort !== false && sort !== 'false');
+    res.json({ success: true, name, ramp: saved });
+  } catch (error) {
+    console.error('Save charset error:', error);
+    res.status(500).json({ error: 'Failed to save charset' });
+  }
+});
+
+// Delete a saved ramp
+router.delete('/:name', async (req: Request, res: Response) => {
+  try {
+    if (!(await deleteCharset(req.params.name))) {
+      return res.status(404).json({ error: `Charset not found: ${req.params.name}` });
+    }
+
+    res.json({ success: true, name: req.params.name });
+  } catch (error) {
+    console.error('Delete charset error:', error);
+    res.status(500).json({ error: 'Failed to delete charset' });
+  }
+});
+
+export default router;
@@ -0,0 +1,157 @@
+/**
+ * Export Routes
+ * Download ASCII art as HTML, SVG, PNG, plain text or raw ANSI
+ * Frame sequences (library animations, video jobs) export as animated GIF or APNG
+ */
+
+import { Request, Response, Router } from 'express';
+import {
+  ANIMATION_FORMATS,
+  AnimationFormat,
+  EXPORT_FORMATS,
+  EXPORT_PALETTES,
+  ExportFormat,
+  ExportResult,
+  exportAnimation,
+  exportAscii,
+  MAX_ANIMATION_FRAMES,
+} from '../services/exportRenderer.js';
+import { jobQueue } from '../services/jobQueue.js';
+import { ASCII_LIBRARY } from './ascii.js';
+
+const router = Router();
+
+const MAX_ASCII_LENGTH = 2 * 1024 * 1024; // 2MB of text
+
+// Only keep characters that are safe inside a Content-Disposition header
+const sanitizeFilename = (name: unknown): string =>
+  (typeof name === 'string' ? name.replace(/[^\w.-]+/g, '-').slice(0, 64) : '') || 'ascii-oracle';
+
+const parseFontSize = (fontSize: unknown) =>
+  Math.min(Math.max(parseInt(String(fontSize), 10) || 14, 6), 48);
+
+const sendExport = (res: Response, result: ExportResult, filename: unknown) => {
+  res.set({
+    'Content-Type': result.contentType,
+    'Content-Disposition': `attachment; filename="${sanitizeFilename(filename)}.${result.extension}"`,
+    'Content-Length': String(result.data.length),
+  });
+  res.send(result.data);
+};
+
+// Render ASCII art to a downloadable file
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const { ascii, format = 'txt', fontSize, foreground, background, palette, filename } = req.body;
+
+    if (typeof ascii !== 'string' || !ascii.trim()) {
+      return res.status(400).json({ error: 'ASCII content is required' });
+    }
+
+    if (ascii.length > MAX_ASCII_LENGTH) {
+      return res.status(413).json({ error: 'ASCII content is too large to export' });
+    }
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      return res.status(400).json({ error: `Invalid format. Valid: ${EXPORT_FORMATS.join(', ')}` });
+    }
+
+    if (palette && !EXPORT_PALETTES[palette]) {
+      return res
+        .status(400)
+        .json({ error: `Invalid palette. Valid: ${Object.keys(EXPORT_PALETTES).join(', ')}` });
+    }
+
+    const result = await exportAscii(ascii, format as ExportFormat, {
+      fontSize: parseFontSize(fontSize),
+      foreground,
+      background,
+      palette,
+    });
+
+    sendExport(res, result, filename);
+  } catch (error) {
+    console.error('Export error:', error);
+    res.status(500).json({ error: 'Failed to export ASCII art' });
+  }
+});
+
+// Render a frame sequence to an animated GIF or APNG
+// Frames come from the request body, a library animation (name) or a finished video job (jobId)
+router.post('/animation', async (req: Request, res: Response) => {
+  try {
+    const {
+      frames,
+      name,
+      jobId,
+      format = 'gif',
+      fps,
+      fontSize,
+      foreground,
+      background,
+      palette,
+      colors,
+      filename,
+    } = req.body;
+
+    if (!ANIMATION_FORMATS.includes(format)) {
+      return res
+        .status(400)
+        .json({ error: `Invalid format. Valid: ${ANIMATION_FORMATS.join(', ')}` });
+    }
+
+    if (palette && !EXPORT_PALETTES[palette]) {
+      return res
+        .status(400)
+        .json({ error: `Invalid palette. Valid: ${Object.keys(EXPORT_PALETTES).join(', ')}` });
+    }
+
+    let sequence: string[] | undefined;
+    let sourceFps: number | undefined;
+
+    if (Array.isArray(frames)) {
+      sequence = frames.filter((frame): frame is string => typeof frame === 'string');
+    } else if (typeof name === 'string') {
+      const art = ASCII_LIBRARY[name.toLowerCase()];
+      if (!art) {
+        return res.status(404).json({ error: 'ASCII art not found' });
+      }
+      sequence = art.animated || [art.art];
+    } else if (typeof jobId === 'string') {
+      const job = jobQueue.get(jobId);
+      if (!job || job.type !== 'video-ascii') {
+        return res.status(404).json({ error: 'Video job not found' });
+      }
+      // Videos may have more frames than an animation allows: keep an even selection,
+      // played slower so the duration stays the same
+      const stride = Math.max(1, job.frames.length / MAX_ANIMATION_FRAMES);
+      const count = Math.min(job.frames.length, MAX_ANIMATION_FRAMES);
+      sequence = Array.from({ length: count }, (_, i) => job.frames[Math.floor(i * stride)].ascii);
+      sourceFps = job.meta && job.meta.fps / stride;
+    }
+
+    if (!sequence || sequence.length === 0) {
+      return res.status(400).json({ error: 'Provide frames, an art name or a video jobId' });
+    }
+
+    if (sequence.length > MAX_ANIMATION_FRAMES) {
+      return res.status(413).json({ error: `Too many frames. Maximum is ${MAX_ANIMATION_FRAMES}` });
+    }
+
+    const result = await exportAnimation(sequence, format as AnimationFormat, {
+      fps: parseFloat(fps) || sourceFps || 4,
+      fontSize: parseFontSize(fontSize),
+      foreground,
+      background,
+      palette,
+      colors: parseInt(colors, 10) || undefined,
+    });
+
+    sendExport(res, result, filename || name);
+  } catch (error) {
+    console.error('Animation export error:', error);
+    res.status(500).json({ error: 'Failed to export animation' });
+  }
+});
+
+export default router;
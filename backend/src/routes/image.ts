@@ -6,7 +6,20 @@
 
 import { Request, Response, Router } from 'express';
 import multer from 'multer';
-import { imageToAscii, processImageBuffer } from '../services/imageProcessor.js';
+import {
+  AsciiAlgorithm,
+  AsciiCharset,
+  AsciiMode,
+  AsciiOptions,
+  ASCII_MODES,
+  ColorMode,
+  imageToAscii,
+  imageToColorAscii,
+  processImageBuffer,
+} from '../services/imageProcessor.js';
+import { ASCII_ALGORITHMS } from '../services/asciiAlgorithms.js';
+import { validateCharsetOptions } from '../services/charsetRegistry.js';
+import { MATCH_METRICS, MatchMetric } from '../services/glyphMatcher.js';
 const router = Router();
 // import path from 'path';
 // import { v4 as uuidv4 } from 'uuid';
@@ -28,6 +41,35 @@ const upload = multer({
   },
 });
 
+const COLOR_MODES: ColorMode[] = ['truecolor', 'ansi256', 'ansi16'];
+
+// Font family names only, they are interpolated into the glyph SVG
+const FONT_PATTERN = /^[\w -]{1,64}$/;
+
+// Validate the structural mode options, returns an error message if invalid
+const validateModeOptions = (mode: string, metric: string, font?: string): string | null => {
+  if (!ASCII_MODES.includes(mode as AsciiMode)) {
+    return `Invalid mode. Valid: ${ASCII_MODES.join(', ')}`;
+  }
+  if (!MATCH_METRICS.includes(metric as MatchMetric)) {
+    return `Invalid metric. Valid: ${MATCH_METRICS.join(', ')}`;
+  }
+  if (font !== undefined && !FONT_PATTERN.test(font)) {
+    return 'Invalid font name';
+  }
+  return null;
+};
+
+// Numeric option from a multipart string or JSON number, the service clamps the range
+const parseNumber = (value: unknown, fallback: number): number => {
+  const number = parseFloat(String(value));
+  return Number.isFinite(number) ? number : fallback;
+};
+
+// Colored output is ANSI escape coded, plain output uses the charset only
+const convertToAscii = (buffer: Buffer, options: AsciiOptions) =>
+  options.color ? imageToColorAscii(buffer, options) : imageToAscii(buffer, options);
+
 // Convert uploaded image to ASCII
 router.post('/to-ascii', upload.single('image'), async (req: Request, res: Response) => {
   try {
@@ -35,16 +77,61 @@ router.post('/to-ascii', upload.single('image'), async (req: Request, res: Respo
       return res.status(400).json({ error: 'No image file provided' });
     }
 
-    const { width = '80', charset = 'standard', invert = 'false', color = 'false' } = req.body;
+    const {
+      width = '80',
+      charset = 'standard',
+      ramp,
+      sortRamp = 'true',
+      gamma = '1',
+      contrast = '1',
+      invert = 'false',
+      algorithm = 'brightness',
+      mode = 'ramp',
+      metric = 'ssim',
+      font,
+      color = 'false',
+      colorMode = 'truecolor',
+      compress = 'false',
+    } = req.body;
+
+    if (!COLOR_MODES.includes(colorMode)) {
+      return res.status(400).json({ error: `Invalid colorMode. Valid: ${COLOR_MODES.join(', ')}` });
+    }
+
+    if (!ASCII_ALGORITHMS.includes(algorithm)) {
+      return res
+        .status(400)
+        .json({ error: `Invalid algorithm. Valid: ${ASCII_ALGORITHMS.join(', ')}` });
+    }
+
+    const modeError = validateModeOptions(mode, metric, font);
+    if (modeError) {
+      return res.status(400).json({ error: modeError });
+    }
+
+    const charsetError = validateCharsetOptions(charset, ramp);
+    if (charsetError) {
+      return res.status(400).json({ error: charsetError });
+    }
 
     const options = {
       width: Math.min(Math.max(parseInt(width, 10) || 80, 10), 300),
-      charset: charset as 'standard' | 'blocks' | 'minimal' | 'detailed',
+      charset: charset as AsciiCharset,
+      ramp: ramp || undefined,
+      sortRamp: sortRamp !== 'false',
+      gamma: parseNumber(gamma, 1),
+      contrast: parseNumber(contrast, 1),
       invert: invert === 'true',
+      algorithm: algorithm as AsciiAlgorithm,
+      mode: mode as AsciiMode,
+      metric: metric as MatchMetric,
+      font,
       color: color === 'true',
+      colorMode: colorMode as ColorMode,
+      compress: compress === 'true',
     };
 
-    const ascii = await imageToAscii(req.file.buffer, options);
+    const ascii = await convertToAscii(req.file.buffer, options);
 
     res.json({
       success: true,
@@ -62,12 +149,48 @@ router.post('/to-ascii', upload.single('image'), async (req: Request, res: Respo
 // Convert image from URL to ASCII
 router.post('/url-to-ascii', async (req: Request, res: Response) => {
   try {
-    const { url, width = 80, charset = 'standard', invert = false, color = false } = req.body;
+    const {
+      url,
+      width = 80,
+      charset = 'standard',
+      ramp,
+      sortRamp = true,
+      gamma = 1,
+      contrast = 1,
+      invert = false,
+      algorithm = 'brightness',
+      mode = 'ramp',
+      metric = 'ssim',
+      font,
+      color = false,
+      colorMode = 'truecolor',
+      compress = false,
+    } = req.body;
 
     if (!url) {
       return res.status(400).json({ error: 'URL is required' });
     }
 
+    if (!COLOR_MODES.includes(colorMode)) {
+      return res.status(400).json({ error: `Invalid colorMode. Valid: ${COLOR_MODES.join(', ')}` });
+    }
+
+    if (!ASCII_ALGORITHMS.includes(algorithm)) {
+      return res
+        .status(400)
+        .json({ error: `Invalid algorithm. Valid: ${ASCII_ALGORITHMS.join(', ')}` });
+    }
+
+    const modeError = validateModeOptions(mode, metric, font);
+    if (modeError) {
+      return res.status(400).json({ error: modeError });
+    }
+
+    const charsetError = validateCharsetOptions(charset, ramp);
+    if (charsetError) {
+      return res.status(400).json({ error: charsetError });
+    }
+
     // Fetch image from URL
     const response = await fetch(url);
     if (!response.ok) {
@@ -79,12 +202,22 @@ router.post('/url-to-ascii', async (req: Request, res: Response) => {
 
     const options = {
       width: Math.min(Math.max(width, 10), 300),
-      charset: charset as 'standard' | 'blocks' | 'minimal' | 'detailed',
+      charset: charset as AsciiCharset,
+      ramp: ramp || undefined,
+      sortRamp,
+      gamma: parseNumber(gamma, 1),
+      contrast: parseNumber(contrast, 1),
       invert,
+      algorithm: algorithm as AsciiAlgorithm,
+      mode: mode as AsciiMode,
+      metric: metric as MatchMetric,
+      font,
       color,
+      colorMode: colorMode as ColorMode,
+      compress,
     };
 
-    const ascii = await imageToAscii(buffer, options);
+    const ascii = await convertToAscii(buffer, options);
 
     res.json({
       success: true,
@@ -0,0 +1,195 @@
+/**
+ * Job Routes
+ * Queue long-running image/video conversions and track them by id
+ * Progress, results and frames are available while the job runs in the background
+ */
+
+import { Request, Response, Router } from 'express';
+import fs from 'fs';
+import multer from 'multer';
+import os from 'os';
+import path from 'path';
+import { validateCharsetOptions } from '../services/charsetRegistry.js';
+import { Job, jobQueue, JobType } from '../services/jobQueue.js';
+import { checkFfmpegAvailable } from '../services/videoProcessor.js';
+import { parseVideoOptions } from './video.js';
+
+const router = Router();
+
+const JOB_TYPES: JobType[] = ['video-ascii', 'image-ascii'];
+
+// Each job gets its own temp dir, removed by the queue when the job finishes
+const storage = multer.diskStorage({
+  destination: (_req, _file, cb) => {
+    cb(null, fs.mkdtempSync(path.join(os.tmpdir(), 'ascii-job-')));
+  },
+  filename: (_req, file, cb) => {
+    cb(null, `input${path.extname(file.originalname)}`);
+  },
+});
+
+const upload = multer({
+  storage,
+  limits: {
+    fileSize: 100 * 1024 * 1024, // 100MB limit
+  },
+  fileFilter: (_req, file, cb) => {
+    if (file.mimetype.startsWith('video/') || file.mimetype.startsWith('image/')) {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid file type. Upload an image or a video'));
+    }
+  },
+});
+
+// Send a single Server-Sent Event
+const sendEvent = (res: Response, event: string, data: unknown) => {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+// Terminal event for a finished job
+const sendDone = (res: Response, job: Job) => {
+  if (job.status === 'completed') {
+    sendEvent(res, 'end', { totalFrames: job.frames.length, progress: job.progress });
+  } else if (job.status === 'cancelled') {
+    sendEvent(res, 'cancelled', { error: job.error || 'Job was cancelled' });
+  } else {
+    sendEvent(res, 'failed', { error: job.error || 'Job failed' });
+  }
+};
+
+// Queue a new conversion job
+router.post('/', upload.single('file'), async (req: Request, res: Response) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ error: 'No file provided' });
+    }
+
+    const tempDir = req.file.destination;
+    const type = (req.body.type ||
+      (req.file.mimetype.startsWith('video/') ? 'video-ascii' : 'image-ascii')) as JobType;
+
+    if (!JOB_TYPES.includes(type)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+      return res.status(400).json({ error: `Invalid job type. Valid: ${JOB_TYPES.join(', ')}` });
+    }
+
+    const options = parseVideoOptions(req.body);
+    const charsetError = validateCharsetOptions(options.charset, options.ramp);
+    if (charsetError) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+      return res.status(400).json({ error: charsetError });
+    }
+
+    if (type === 'video-ascii' && !(await checkFfmpegAvailable()).available) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+      return res.status(503).json({
+        error: 'FFmpeg is not installed on the server',
+        message: 'Install FFmpeg (https://ffmpeg.org) to enable video to ASCII conversion',
+      });
+    }
+
+    let job: Job;
+    try {
+      job = jobQueue.enqueue({
+        type,
+        filePath: req.file.path,
+        tempDir,
+        originalName: req.file.originalname,
+        options,
+      });
+    } catch (error) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+      return res.status(429).json({ error: error instanceof Error ? error.message : 'Queue full' });
+    }
+
+    res.status(202).json({
+      success: true,
+      job: jobQueue.serialize(job),
+      statusUrl: `/api/jobs/${job.id}`,
+      streamUrl: `/api/jobs/${job.id}/stream`,
+    });
+  } catch (error) {
+    console.error('Create job error:', error);
+    res.status(500).json({ error: 'Failed to create job' });
+  }
+});
+
+// Queue statistics
+router.get('/', (_req: Request, res: Response) => {
+  res.json({ success: true, ...jobQueue.stats() });
+});
+
+// Job status, percent and ETA (add ?frames=true for the converted video frames)
+router.get('/:id', (req: Request, res: Response) => {
+  const job = jobQueue.get(req.params.id);
+
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+
+  res.json({
+    success: true,
+    job: jobQueue.serialize(job),
+    frames: req.query.frames === 'true' ? job.frames : undefined,
+  });
+});
+
+// Cancel a job, killing its FFmpeg child if it is running
+router.delete('/:id', (req: Request, res: Response) => {
+  const job = jobQueue.cancel(req.params.id);
+
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+
+  res.json({ success: true, job: jobQueue.serialize(job) });
+});
+
+// Stream progress and ASCII frames as Server-Sent Events
+// Frames produced before the client connected are replayed first
+router.get('/:id/stream', (req: Request, res: Response) => {
+  const job = jobQueue.get(req.params.id);
+
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.flushHeaders();
+
+  sendEvent(res, 'progress', { status: job.status, ...job.progress });
+  if (job.meta) sendEvent(res, 'meta', job.meta);
+  job.frames.forEach((frame) => sendEvent(res, 'frame', frame));
+
+  if (job.status !== 'queued' && job.status !== 'running') {
+    sendDone(res, job);
+    return res.end();
+  }
+
+  const onMeta = (meta: unknown) => sendEvent(res, 'meta', meta);
+  const onFrame = (frame: unknown) => sendEvent(res, 'frame', frame);
+  const onProgress = () => sendEvent(res, 'progress', { status: job.status, ...job.progress });
+  const onDone = () => {
+    sendDone(res, job);
+    res.end();
+  };
+
+  job.events.on('meta', onMeta);
+  job.events.on('frame', onFrame);
+  job.events.on('progress', onProgress);
+  job.events.once('done', onDone);
+
+  req.on('close', () => {
+    job.events.off('meta', onMeta);
+    job.events.off('frame', onFrame);
+    job.events.off('progress', onProgress);
+    job.events.off('done', onDone);
+  });
+});
+
+export default router;
@@ -1,19 +1,25 @@
 /**
  * Math Routes
  * Handles mathematical computations via SymPy Python bridge
+ * Falls back to the TypeScript math engine when Python or SymPy is missing
  * Supports integrals, derivatives, equations, limits, simplification
+ * Every result carries a `pretty` field: the answer drawn as 2D Unicode math
+ * Plots are drawn in TypeScript: Braille line graphs for the terminal and
+ * height grids for 3D surfaces
  */
 
 import { Router, Request, Response } from 'express';
 import { executePython } from '../services/pythonBridge.js';
+import { MathError } from '../services/mathExpression.js';
+import { plotExpressions, PlotMode, sampleSurface } from '../services/mathPlot.js';
 
 const router = Router();
 
 // Solve mathematical expressions
 router.post('/solve', async (req: Request, res: Response) => {
   try {
-    const { expression, operation, variable = 'x' } = req.body;
-    
+    const { expression, operation, variable = 'x', lower, upper, point, order } = req.body;
+
     if (!expression) {
       return res.status(400).json({ error: 'Expression is required' });
     }
@@ -23,10 +29,15 @@ router.post('/solve', async (req: Request, res: Response) => {
       return res.status(400).json({ error: `Invalid operation. Valid: ${validOps.join(', ')}` });
     }
 
+    // Optional per-operation arguments: integral bounds, limit/series point, derivative order
     const result = await executePython('math_solver.py', {
       expression,
       operation: operation || 'simplify',
-      variable
+      variable,
+      lower: lower !== undefined ? String(lower) : undefined,
+      upper: upper !== undefined ? String(upper) : undefined,
+      point: point !== undefined ? String(point) : undefined,
+      order: order !== undefined ? String(order) : undefined
     });
 
     res.json(result);
@@ -155,6 +166,72 @@ router.post('/matrix', async (req: Request, res: Response) => {
   }
 });
 
+// Plot expressions as a Braille line graph
+router.post('/plot', (req: Request, res: Response) => {
+  try {
+    const { expressions, expression, mode, variable, from, to, ymin, ymax, width, height } = req.body;
+
+    // One series per entry, or "sin(x); cos(x)" in a single string
+    const series: string[] = Array.isArray(expressions)
+      ? expressions.map(String)
+      : String(expression ?? '').split(';');
+    if (!series.some((item) => item.trim())) {
+      return res.status(400).json({ error: 'Expression is required' });
+    }
+
+    const validModes: PlotMode[] = ['function', 'parametric', 'polar'];
+    if (mode !== undefined && !validModes.includes(mode)) {
+      return res.status(400).json({ error: `Invalid mode. Valid: ${validModes.join(', ')}` });
+    }
+
+    const result = plotExpressions({
+      expressions: series,
+      mode,
+      variable,
+      from,
+      to,
+      yMin: ymin,
+      yMax: ymax,
+      width: width !== undefined ? Number(width) : undefined,
+      height: height !== undefined ? Number(height) : undefined
+    });
+
+    res.json({ success: true, ...result });
+  } catch (error) {
+    if (error instanceof MathError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Plot error:', error);
+    res.status(500).json({ error: 'Failed to plot expression' });
+  }
+});
+
+// Sample z = f(x, y) on a grid for the 3D surface hologram
+router.post('/surface', (req: Request, res: Response) => {
+  try {
+    const { expression, from, to, resolution } = req.body;
+
+    if (!expression) {
+      return res.status(400).json({ error: 'Expression is required' });
+    }
+
+    const result = sampleSurface({
+      expression: String(expression),
+      from,
+      to,
+      resolution: resolution !== undefined ? Number(resolution) : undefined
+    });
+
+    res.json({ success: true, ...result });
+  } catch (error) {
+    if (error instanceof MathError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Surface error:', error);
+    res.status(500).json({ error: 'Failed to sample surface' });
+  }
+});
+
 // LaTeX formatting
 router.post('/latex', async (req: Request, res: Response) => {
   try {
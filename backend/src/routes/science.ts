@@ -1,281 +1,131 @@
 /**
  * Science Routes
  * Handles physics and chemistry calculations
- * Uses Python bridge for complex computations
+ * Chemistry runs on the TypeScript periodic table and formula parser; equations are
+ * balanced by python/chem_balance.py, or the TypeScript balancer when Python can't
+ * Physics solves any formula in the shared registry; inputs take units ("72 km/h", "30 deg")
  */
 
 import { Request, Response, Router } from 'express';
+import { FormulaError, parseFormula } from '../services/chemFormula.js';
+import { calculateStoichiometry } from '../services/chemStoichiometry.js';
+import { ELEMENTS, findElement } from '../services/periodicTable.js';
 import { executePython } from '../services/pythonBridge.js';
+import {
+  PhysicsError,
+  describeFormulas,
+  findFormula,
+  solvePhysics,
+} from '../services/physicsFormulas.js';
+import { DEFAULT_DRAG, simulateTrajectory } from '../services/trajectory.js';
+import {
+  UnitError,
+  convert,
+  describeDimension,
+  formatQuantity,
+  parseQuantity,
+  siUnit,
+  toSI,
+} from '../services/units.js';
 
 const router = Router();
 
-// Periodic table data
-const PERIODIC_TABLE: Record<
-  string,
-  { symbol: string; name: string; atomicNumber: number; atomicMass: number; category: string }
-> = {
-  H: { symbol: 'H', name: 'Hydrogen', atomicNumber: 1, atomicMass: 1.008, category: 'nonmetal' },
-  He: { symbol: 'He', name: 'Helium', atomicNumber: 2, atomicMass: 4.003, category: 'noble gas' },
-  Li: {
-    symbol: 'Li',
-    name: 'Lithium',
-    atomicNumber: 3,
-    atomicMass: 6.941,
-    category: 'alkali metal',
-  },
-  Be: {
-    symbol: 'Be',
-    name: 'Beryllium',
-    atomicNumber: 4,
-    atomicMass: 9.012,
-    category: 'alkaline earth',
-  },
-  B: { symbol: 'B', name: 'Boron', atomicNumber: 5, atomicMass: 10.81, category: 'metalloid' },
-  C: { symbol: 'C', name: 'Carbon', atomicNumber: 6, atomicMass: 12.011, category: 'nonmetal' },
-  N: { symbol: 'N', name: 'Nitrogen', atomicNumber: 7, atomicMass: 14.007, category: 'nonmetal' },
-  O: { symbol: 'O', name: 'Oxygen', atomicNumber: 8, atomicMass: 15.999, category: 'nonmetal' },
-  F: { symbol: 'F', name: 'Fluorine', atomicNumber: 9, atomicMass: 18.998, category: 'halogen' },
-  Ne: { symbol: 'Ne', name: 'Neon', atomicNumber: 10, atomicMass: 20.18, category: 'noble gas' },
-  Na: {
-    symbol: 'Na',
-    name: 'Sodium',
-    atomicNumber: 11,
-    atomicMass: 22.99,
-    category: 'alkali metal',
-  },
-  Mg: {
-    symbol: 'Mg',
-    name: 'Magnesium',
-    atomicNumber: 12,
-    atomicMass: 24.305,
-    category: 'alkaline earth',
-  },
-  Al: {
-    symbol: 'Al',
-    name: 'Aluminum',
-    atomicNumber: 13,
-    atomicMass: 26.982,
-    category: 'post-transition',
-  },
-  Si: {
-    symbol: 'Si',
-    name: 'Silicon',
-    atomicNumber: 14,
-    atomicMass: 28.086,
-    category: 'metalloid',
-  },
-  P: {
-    symbol: 'P',
-    name: 'Phosphorus',
-    atomicNumber: 15,
-    atomicMass: 30.974,
-    category: 'nonmetal',
-  },
-  S: { symbol: 'S', name: 'Sulfur', atomicNumber: 16, atomicMass: 32.065, category: 'nonmetal' },
-  Cl: { symbol: 'Cl', name: 'Chlorine', atomicNumber: 17, atomicMass: 35.453, category: 'halogen' },
-  Ar: { symbol: 'Ar', name: 'Argon', atomicNumber: 18, atomicMass: 39.948, category: 'noble gas' },
-  K: {
-    symbol: 'K',
-    name: 'Potassium',
-    atomicNumber: 19,
-    atomicMass: 39.098,
-    category: 'alkali metal',
-  },
-  Ca: {
-    symbol: 'Ca',
-    name: 'Calcium',
-    atomicNumber: 20,
-    atomicMass: 40.078,
-    category: 'alkaline earth',
-  },
-  Fe: {
-    symbol: 'Fe',
-    name: 'Iron',
-    atomicNumber: 26,
-    atomicMass: 55.845,
-    category: 'transition metal',
-  },
-  Cu: {
-    symbol: 'Cu',
-    name: 'Copper',
-    atomicNumber: 29,
-    atomicMass: 63.546,
-    category: 'transition metal',
-  },
-  Zn: {
-    symbol: 'Zn',
-    name: 'Zinc',
-    atomicNumber: 30,
-    atomicMass: 65.38,
-    category: 'transition metal',
-  },
-  Ag: {
-    symbol: 'Ag',
-    name: 'Silver',
-    atomicNumber: 47,
-    atomicMass: 107.87,
-    category: 'transition metal',
-  },
-  Au: {
-    symbol: 'Au',
-    name: 'Gold',
-    atomicNumber: 79,
-    atomicMass: 196.97,
-    category: 'transition metal',
-  },
-};
-
-// Physics: Projectile motion
-router.post('/physics/projectile', async (req: Request, res: Response) => {
-  try {
-    const { velocity, angle, height = 0, gravity = 9.81 } = req.body;
-
-    if (velocity === undefined || angle === undefined) {
-      return res.status(400).json({ error: 'Velocity and angle are required' });
-    }
-
-    const v = parseFloat(velocity);
-    const theta = parseFloat(angle) * (Math.PI / 180); // Convert to radians
-    const h0 = parseFloat(height);
-    const g = parseFloat(gravity);
-
-    // Calculate projectile motion parameters
-    const vx = v * Math.cos(theta);
-    const vy = v * Math.sin(theta);
-
-    // Time of flight (quadratic formula)
-    const timeOfFlight = (vy + Math.sqrt(vy * vy + 2 * g * h0)) / g;
-
-    // Maximum height
-    const maxHeight = h0 + (vy * vy) / (2 * g);
-
-    // Range
-    const range = vx * timeOfFlight;
-
-    res.json({
-      success: true,
-      results: {
-        initialVelocityX: vx.toFixed(3),
-        initialVelocityY: vy.toFixed(3),
-        timeOfFlight: timeOfFlight.toFixed(3),
-        maxHeight: maxHeight.toFixed(3),
-        range: range.toFixed(3),
-        unit: 'meters (SI units)',
-      },
-      inputs: { velocity: v, angle: angle, height: h0, gravity: g },
-      formulas: {
-        vx: 'v₀ × cos(θ)',
-        vy: 'v₀ × sin(θ)',
-        time: '(vy + √(vy² + 2gh₀)) / g',
-        maxHeight: 'h₀ + vy² / (2g)',
-        range: 'vx × t',
-      },
-    });
-  } catch (error) {
-    console.error('Projectile motion error:', error);
-    res.status(500).json({ error: 'Failed to calculate projectile motion' });
-  }
+// Physics: The formula registry (variables, units, descriptions) for help and clients
+router.get('/physics/formulas', (_req: Request, res: Response) => {
+  const formulas = describeFormulas();
+  res.json({ success: true, formulas, count: formulas.length });
 });
 
-// Physics: Simple pendulum
-router.post('/physics/pendulum', async (req: Request, res: Response) => {
+// Physics: Solve a formula for its one unknown, e.g. /physics/force { "F": "20 N", "a": 4 }
+// Values go by variable key or name, or in order as "args"; plain numbers are SI
+router.post('/physics/:formula', (req: Request, res: Response) => {
   try {
-    const { length, gravity = 9.81 } = req.body;
-
-    if (length === undefined) {
-      return res.status(400).json({ error: 'Pendulum length is required' });
+    if (!findFormula(req.params.formula)) {
+      return res.status(404).json({
+        error: `Unknown formula: ${req.params.formula}`,
+        hint: 'GET /api/science/physics/formulas lists them',
+      });
     }
 
-    const L = parseFloat(length);
-    const g = parseFloat(gravity);
-
-    // Calculate period and frequency
-    const period = 2 * Math.PI * Math.sqrt(L / g);
-    const frequency = 1 / period;
-    const angularFrequency = Math.sqrt(g / L);
+    const { args, values, ...fields } = req.body ?? {};
+    if (args !== undefined && !Array.isArray(args)) {
+      return res.status(400).json({ error: 'args must be an array of values' });
+    }
 
     res.json({
       success: true,
-      results: {
-        period: period.toFixed(4),
-        frequency: frequency.toFixed(4),
-        angularFrequency: angularFrequency.toFixed(4),
-        units: {
-          period: 'seconds',
-          frequency: 'Hz',
-          angularFrequency: 'rad/s',
-        },
-      },
-      inputs: { length: L, gravity: g },
-      formulas: {
-        period: 'T = 2π√(L/g)',
-        frequency: 'f = 1/T',
-        angularFrequency: 'ω = √(g/L)',
-      },
+      ...solvePhysics(req.params.formula, { args, values: { ...fields, ...values } }),
     });
   } catch (error) {
-    console.error('Pendulum error:', error);
-    res.status(500).json({ error: 'Failed to calculate pendulum motion' });
+    if (error instanceof PhysicsError || error instanceof UnitError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Physics error:', error);
+    res.status(500).json({ error: 'Failed to solve formula' });
   }
 });
 
-// Physics: Kinetic/Potential energy
-router.post('/physics/energy', async (req: Request, res: Response) => {
+// Physics: Projectile path as a Braille plot plus animation frames, against quadratic air
+// drag when "drag" (Cd) is given: { "args": [20, 45], "drag": 0.47, "mass": "145 g" }
+router.post('/physics/projectile/trajectory', (req: Request, res: Response) => {
   try {
-    const { mass, velocity, height, gravity = 9.81 } = req.body;
-
-    if (mass === undefined) {
-      return res.status(400).json({ error: 'Mass is required' });
+    const { args, values, width, height, frames, ...fields } = req.body ?? {};
+    if (args !== undefined && !Array.isArray(args)) {
+      return res.status(400).json({ error: 'args must be an array of values' });
     }
 
-    const m = parseFloat(mass);
-    const v = velocity !== undefined ? parseFloat(velocity) : 0;
-    const h = height !== undefined ? parseFloat(height) : 0;
-    const g = parseFloat(gravity);
-
-    const kineticEnergy = 0.5 * m * v * v;
-    const potentialEnergy = m * g * h;
-    const totalEnergy = kineticEnergy + potentialEnergy;
-
-    res.json({
-      success: true,
-      results: {
-        kineticEnergy: kineticEnergy.toFixed(3),
-        potentialEnergy: potentialEnergy.toFixed(3),
-        totalMechanicalEnergy: totalEnergy.toFixed(3),
-        unit: 'Joules (J)',
-      },
-      inputs: { mass: m, velocity: v, height: h, gravity: g },
-      formulas: {
-        kinetic: 'KE = ½mv²',
-        potential: 'PE = mgh',
-        total: 'E = KE + PE',
-      },
+    // Drag settings are not variables of the formula: take them out before solving
+    const { drag, mass, area, density, ...rest } = { ...fields, ...values };
+    const solution = solvePhysics('projectile', { args, values: rest });
+    const si = Object.fromEntries(solution.values.map((v) => [v.key, toSI(v.value, v.unit)]));
+    const setting = (value: unknown, unit: string, label: string, fallback: number) =>
+      value === undefined || value === '' || value === true ? fallback : toSI(value, unit, label);
+
+    const trajectory = simulateTrajectory({
+      v: si.v,
+      theta: si.theta,
+      h: si.h,
+      g: si.g,
+      drag:
+        drag === undefined || drag === false
+          ? undefined
+          : {
+              coefficient: setting(drag, '', 'Drag coefficient', DEFAULT_DRAG.coefficient),
+              mass: setting(mass, 'kg', 'Mass', DEFAULT_DRAG.mass),
+              area: setting(area, 'm^2', 'Area', DEFAULT_DRAG.area),
+              airDensity: setting(density, 'kg/m^3', 'Air density', DEFAULT_DRAG.airDensity),
+            },
+      width: Number(width) || undefined,
+      height: Number(height) || undefined,
+      frames: Number(frames) || undefined,
     });
+
+    res.json({ success: true, ...solution, trajectory });
   } catch (error) {
-    console.error('Energy calculation error:', error);
-    res.status(500).json({ error: 'Failed to calculate energy' });
+    if (error instanceof PhysicsError || error instanceof UnitError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Trajectory error:', error);
+    res.status(500).json({ error: 'Failed to simulate trajectory' });
   }
 });
 
 // Chemistry: Element lookup
 router.get('/chemistry/element/:symbol', (req: Request, res: Response) => {
-  const { symbol } = req.params;
-  const element =
-    PERIODIC_TABLE[symbol] ||
-    PERIODIC_TABLE[symbol.charAt(0).toUpperCase() + symbol.slice(1).toLowerCase()];
+  // Symbol, name or atomic number: "Fe", "iron" or "26"
+  const element = findElement(req.params.symbol);
 
   if (element) {
     res.json({ success: true, element });
   } else {
     res.status(404).json({
       error: 'Element not found',
-      available: Object.keys(PERIODIC_TABLE).slice(0, 20).join(', ') + '...',
+      hint: 'Use a symbol, name or atomic number (1-118)',
     });
   }
 });
 
-// Chemistry: Molar mass calculator
+// Chemistry: Molar mass, counts, mass percent and parse tree of a formula
 router.post('/chemistry/molar-mass', (req: Request, res: Response) => {
   try {
     const { formula } = req.body;
@@ -284,40 +134,29 @@ router.post('/chemistry/molar-mass', (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Chemical formula is required' });
     }
 
-    // Parse chemical formula (simplified parser)
-    const elementPattern = /([A-Z][a-z]?)(\d*)/g;
-    let match;
-    let totalMass = 0;
-    const composition: Array<{ element: string; count: number; mass: number }> = [];
-
-    while ((match = elementPattern.exec(formula)) !== null) {
-      const element = match[1];
-      const count = parseInt(match[2]) || 1;
-      const elementData = PERIODIC_TABLE[element];
-
-      if (!elementData) {
-        return res.status(400).json({ error: `Unknown element: ${element}` });
-      }
-
-      const mass = elementData.atomicMass * count;
-      totalMass += mass;
-      composition.push({ element, count, mass });
-    }
+    const parsed = parseFormula(String(formula));
 
     res.json({
       success: true,
-      formula,
-      molarMass: totalMass.toFixed(3),
+      formula: parsed.formula,
+      molarMass: parsed.molarMass.toFixed(3),
       unit: 'g/mol',
-      composition,
+      charge: parsed.charge,
+      counts: parsed.counts,
+      composition: parsed.composition,
+      tree: parsed.parts,
+      warnings: parsed.warnings,
     });
   } catch (error) {
+    if (error instanceof FormulaError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('Molar mass error:', error);
     res.status(500).json({ error: 'Failed to calculate molar mass' });
   }
 });
 
-// Chemistry: Balance equation (simplified)
+// Chemistry: Balance equation, ionic ones included (charge is conserved too)
 router.post('/chemistry/balance', async (req: Request, res: Response) => {
   try {
     const { equation } = req.body;
@@ -326,81 +165,79 @@ router.post('/chemistry/balance', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Chemical equation is required' });
     }
 
-    // Try to use Python for balancing if available
-    try {
-      const result = await executePython('chem_balance.py', { equation });
-      return res.json(result);
-    } catch {
-      // Fallback: return simple parsing info
-      const [reactants, products] = equation.split('->').map((s: string) => s.trim());
-
-      return res.json({
-        success: true,
-        original: equation,
-        reactants: reactants.split('+').map((r: string) => r.trim()),
-        products: products ? products.split('+').map((p: string) => p.trim()) : [],
-        note: 'For complex balancing, ensure Python with sympy is installed',
-      });
-    }
+    const result = await executePython('chem_balance.py', { equation: String(equation) });
+    res.status(result.success ? 200 : 400).json(result);
   } catch (error) {
     console.error('Balance equation error:', error);
     res.status(500).json({ error: 'Failed to balance equation' });
   }
 });
 
-// Physics: Wave properties
-router.post('/physics/wave', (req: Request, res: Response) => {
+// Chemistry: Limiting reagent and yields from reactant amounts (g, mol or L at STP)
+router.post('/chemistry/stoichiometry', (req: Request, res: Response) => {
   try {
-    const { frequency, wavelength, velocity } = req.body;
+    const { equation, amounts, actualYield } = req.body;
+
+    if (!equation || !amounts || typeof amounts !== 'object') {
+      return res.status(400).json({
+        error: 'Equation and reactant amounts are required, e.g. { "amounts": { "H2": "4g" } }',
+      });
+    }
+
+    res.json({
+      success: true,
+      ...calculateStoichiometry({ equation: String(equation), amounts, actualYield }),
+    });
+  } catch (error) {
+    if (error instanceof FormulaError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Stoichiometry error:', error);
+    res.status(500).json({ error: 'Failed to calculate stoichiometry' });
+  }
+});
 
-    let f: number, lambda: number, v: number;
+// Units: convert "5 miles to km", or { quantity: '72 km/h', to: 'm/s' }
+router.post('/convert', (req: Request, res: Response) => {
+  try {
+    const { expression } = req.body;
+    let { quantity, to } = req.body;
 
-    // Calculate missing value from v = fλ
-    if (frequency !== undefined && wavelength !== undefined) {
-      f = parseFloat(frequency);
-      lambda = parseFloat(wavelength);
-      v = f * lambda;
-    } else if (frequency !== undefined && velocity !== undefined) {
-      f = parseFloat(frequency);
-      v = parseFloat(velocity);
-      lambda = v / f;
-    } else if (wavelength !== undefined && velocity !== undefined) {
-      lambda = parseFloat(wavelength);
-      v = parseFloat(velocity);
-      f = v / lambda;
-    } else {
+    if (typeof expression === 'string') {
+      const split = /^(.*\S)\s+(?:to|in|as|->)\s+(.+)$/i.exec(expression.trim());
+      if (split) [, quantity, to] = split;
+      else quantity = expression;
+    }
+    if (typeof quantity !== 'string' && typeof quantity !== 'number') {
       return res.status(400).json({
-        error: 'Provide at least two of: frequency, wavelength, velocity',
+        error: 'Quantity is required, e.g. { "expression": "5 miles to km" }',
       });
     }
 
-    const period = 1 / f;
-    const angularFrequency = 2 * Math.PI * f;
-    const waveNumber = (2 * Math.PI) / lambda;
+    const parsed = parseQuantity(String(quantity));
+    // No target: show the quantity in SI
+    const unit = typeof to === 'string' && to.trim() ? to.trim() : siUnit(parsed.dimension);
+    const value = convert(parsed, unit);
 
     res.json({
       success: true,
-      results: {
-        frequency: f.toExponential(3),
-        wavelength: lambda.toExponential(3),
-        velocity: v.toExponential(3),
-        period: period.toExponential(3),
-        angularFrequency: angularFrequency.toExponential(3),
-        waveNumber: waveNumber.toExponential(3),
-      },
-      units: {
-        frequency: 'Hz',
-        wavelength: 'm',
-        velocity: 'm/s',
-        period: 's',
-        angularFrequency: 'rad/s',
-        waveNumber: 'rad/m',
+      input: String(quantity).trim(),
+      value,
+      unit,
+      formatted: formatQuantity(value, unit),
+      si: {
+        value: parsed.value,
+        unit: siUnit(parsed.dimension),
+        formatted: formatQuantity(parsed.value, parsed.dimension),
       },
-      formula: 'v = f × λ',
+      dimension: describeDimension(parsed.dimension),
     });
   } catch (error) {
-    console.error('Wave calculation error:', error);
-    res.status(500).json({ error: 'Failed to calculate wave properties' });
+    if (error instanceof UnitError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Unit conversion error:', error);
+    res.status(500).json({ error: 'Failed to convert units' });
   }
 });
 
@@ -408,8 +245,8 @@ router.post('/physics/wave', (req: Request, res: Response) => {
 router.get('/chemistry/periodic-table', (_req: Request, res: Response) => {
   res.json({
     success: true,
-    elements: PERIODIC_TABLE,
-    count: Object.keys(PERIODIC_TABLE).length,
+    elements: ELEMENTS,
+    count: ELEMENTS.length,
   });
 });
 
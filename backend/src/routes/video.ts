@@ -1,7 +1,7 @@
 /**
  * Video Routes
  * Handles video uploads and frame-by-frame ASCII conversion
- * Note: Requires FFmpeg to be installed on the system
+ * Note: Requires FFmpeg to be installed on the system (503 otherwise)
  */
 
 import { Router, Request, Response } from 'express';
@@ -10,9 +10,56 @@ import path from 'path';
 import fs from 'fs/promises';
 import os from 'os';
 import { v4 as uuidv4 } from 'uuid';
+import { validateCharsetOptions } from '../services/charsetRegistry.js';
+import { AsciiCharset } from '../services/imageProcessor.js';
+import {
+  checkFfmpegAvailable,
+  processVideo,
+  ProcessingOptions,
+} from '../services/videoProcessor.js';
 
 const router = Router();
 
+// Parse conversion options from a multipart body (shared with the job routes)
+export const parseVideoOptions = (body: Record<string, string>): ProcessingOptions => {
+  const {
+    width = '80',
+    fps,
+    maxFrames = '150',
+    charset = 'standard',
+    ramp,
+    sortRamp = 'true',
+    gamma,
+    contrast,
+    invert = 'false',
+  } = body;
+
+  return {
+    width: Math.min(Math.max(parseInt(width, 10) || 80, 10), 300),
+    fps: fps ? Math.min(Math.max(parseFloat(fps) || 10, 1), 30) : undefined,
+    maxFrames: Math.min(Math.max(parseInt(maxFrames, 10) || 150, 1), 600),
+    charset: charset as AsciiCharset,
+    ramp: ramp || undefined,
+    sortRamp: sortRamp !== 'false',
+    gamma: gamma ? parseFloat(gamma) : undefined,
+    contrast: contrast ? parseFloat(contrast) : undefined,
+    invert: invert === 'true',
+  };
+};
+
+// Reply with 503 when FFmpeg is missing, returns false if the request was handled
+const ensureFfmpeg = async (res: Response, tempPath: string): Promise<boolean> => {
+  const ffmpeg = await checkFfmpegAvailable();
+  if (ffmpeg.available) return true;
+
+  await fs.unlink(tempPath);
+  res.status(503).json({
+    error: 'FFmpeg is not installed on the server',
+    message: 'Install FFmpeg (https://ffmpeg.org) to enable video to ASCII conversion',
+  });
+  return false;
+};
+
 // Configure multer for video uploads
 const storage = multer.diskStorage({
   destination: os.tmpdir(),
@@ -48,30 +95,31 @@ router.post('/to-ascii', upload.single('video'), async (req: Request, res: Respo
 
     tempPath = req.file.path;
 
-    // For now, return a message that video processing requires FFmpeg
-    // In a full deployment, FFmpeg would process the video
-    const asciiMessage = [
-      '╔════════════════════════════════════════╗',
-      '║      VIDEO PROCESSING                  ║',
-      '╠════════════════════════════════════════╣',
-      '║  Video to ASCII requires FFmpeg.       ║',
-      '║                                        ║',
-      `║  File: ${req.file.originalname.slice(0, 25).padEnd(25)}║`,
-      `║  Size: ${(req.file.size / 1024 / 1024).toFixed(2)} MB                      ║`,
-      '║                                        ║',
-      '║  Install FFmpeg to enable video        ║',
-      '║  processing functionality.             ║',
-      '╚════════════════════════════════════════╝',
-    ].join('\n');
+    const options = parseVideoOptions(req.body);
+    const charsetError = validateCharsetOptions(options.charset, options.ramp);
+    if (charsetError) {
+      await fs.unlink(tempPath);
+      return res.status(400).json({ error: charsetError });
+    }
+
+    if (!(await ensureFfmpeg(res, tempPath))) return;
+
+    const result = await processVideo(tempPath, options);
 
     // Cleanup temp file
     await fs.unlink(tempPath);
 
+    if (!result.success) {
+      return res.status(422).json({ error: result.error || 'Failed to process video' });
+    }
+
     res.json({
       success: true,
-      frames: [asciiMessage],
-      frameCount: 1,
-      message: 'Video processing requires FFmpeg installation',
+      frames: result.frames,
+      frameCount: result.totalFrames,
+      fps: result.fps,
+      duration: result.duration,
+      options,
       originalName: req.file.originalname
     });
   } catch (error) {
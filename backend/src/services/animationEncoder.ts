@@ -0,0 +1,275 @@
+/**
+ * Animation Encoder Service
+ * Encodes RGBA frame sequences into animated GIF (LZW, global palette) and APNG
+ * Sharp can't assemble animations from raw frames, so both containers are written here
+ */
+
+import zlib from 'zlib';
+
+export interface RgbaFrame {
+  data: Buffer; // width * height * 4 bytes
+  width: number;
+  height: number;
+}
+
+export interface AnimationEncodeOptions {
+  delayMs: number;
+  loop?: number; // 0 = forever
+  colors?: number; // GIF palette size (2-256)
+}
+
+// ============================================
+// GIF
+// ============================================
+
+type Palette = [number, number, number][];
+
+// Popularity quantizer on a 5-bit-per-channel histogram shared by all frames
+const buildPalette = (frames: RgbaFrame[], maxColors: number): Palette => {
+  const counts = new Map<number, number>();
+  for (const frame of frames) {
+    for (let i = 0; i < frame.data.length; i += 4) {
+      const key =
+        ((frame.data[i] >> 3) << 10) | ((frame.data[i + 1] >> 3) << 5) | (frame.data[i + 2] >> 3);
+      counts.set(key, (counts.get(key) || 0) + 1);
+    }
+  }
+
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, maxColors)
+    .map(([key]) => [
+      (((key >> 10) & 31) << 3) | 4,
+      (((key >> 5) & 31) << 3) | 4,
+      ((key & 31) << 3) | 4,
+    ]);
+};
+
+// Map every pixel to its nearest palette entry, memoized per quantized color
+const indexFrame = (frame: RgbaFrame, palette: Palette, cache: Map<number, number>): Uint8Array => {
+  const indices = new Uint8Array(frame.width * frame.height);
+
+  for (let p = 0, i = 0; p < indices.length; p++, i += 4) {
+    const r = frame.data[i];
+    const g = frame.data[i + 1];
+    const b = frame.data[i + 2];
+    const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+
+    let index = cache.get(key);
+    if (index === undefined) {
+      let best = Infinity;
+      index = 0;
+      palette.forEach(([pr, pg, pb], j) => {
+        const distance = (pr - r) ** 2 + (pg - g) ** 2 + (pb - b) ** 2;
+        if (distance < best) {
+          best = distance;
+          index = j;
+        }
+      });
+      cache.set(key, index);
+    }
+    indices[p] = index;
+  }
+
+  return indices;
+};
+
+// Variable code width LZW as required by the GIF89a spec
+const lzwEncode = (indices: Uint8Array, minCodeSize: number): Buffer => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const bytes: number[] = [];
+
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let dictionary = new Map<number, number>();
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      bytes.push(bitBuffer & 0xff);
+      bitBuffer >>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0];
+
+  for (let i = 1; i < indices.length; i++) {
+    const pixel = indices[i];
+    const key = (prefix << 8) | pixel;
+    const existing = dictionary.get(key);
+
+    if (existing !== undefined) {
+      prefix = existing;
+      continue;
+    }
+
+    emit(prefix);
+    if (nextCode < 4096) {
+      dictionary.set(key, nextCode++);
+      if (nextCode > 1 << codeSize && codeSize < 12) codeSize++;
+    } else {
+      // Table full, start over
+      emit(clearCode);
+      dictionary = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    }
+    prefix = pixel;
+  }
+
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) bytes.push(bitBuffer & 0xff);
+
+  // Split into data sub-blocks of at most 255 bytes
+  const blocks: number[] = [];
+  for (let i = 0; i < bytes.length; i += 255) {
+    const chunk = bytes.slice(i, i + 255);
+    blocks.push(chunk.length, ...chunk);
+  }
+  blocks.push(0);
+
+  return Buffer.from(blocks);
+};
+
+const u16 = (value: number) => [value & 0xff, (value >> 8) & 0xff];
+
+/**
+ * Encode frames as a looping animated GIF with a shared global palette
+ */
+export function encodeGif(frames: RgbaFrame[], options: AnimationEncodeOptions): Buffer {
+  const { width, height } = frames[0];
+  const palette = buildPalette(frames, Math.min(Math.max(options.colors || 256, 2), 256));
+  const bits = Math.max(1, Math.ceil(Math.log2(palette.length)));
+  const tableSize = 1 << bits;
+  const delay = Math.max(2, Math.round(options.delayMs / 10)); // Hundredths of a second
+  const cache = new Map<number, number>();
+
+  const parts: Buffer[] = [
+    Buffer.from('GIF89a'),
+    Buffer.from([...u16(width), ...u16(height), 0xf0 | (bits - 1), 0, 0]),
+  ];
+
+  const table = Buffer.alloc(tableSize * 3);
+  palette.forEach(([r, g, b], i) => table.set([r, g, b], i * 3));
+  parts.push(table);
+
+  // NETSCAPE2.0 application extension for looping
+  parts.push(
+    Buffer.from([0x21, 0xff, 0x0b]),
+    Buffer.from('NETSCAPE2.0'),
+    Buffer.from([0x03, 0x01, ...u16(options.loop ?? 0), 0x00])
+  );
+
+  for (const frame of frames) {
+    parts.push(
+      // Graphic control extension: delay, dispose to "do not dispose"
+      Buffer.from([0x21, 0xf9, 0x04, 0x04, ...u16(delay), 0x00, 0x00]),
+      // Image descriptor covering the whole canvas
+      Buffer.from([0x2c, 0, 0, 0, 0, ...u16(width), ...u16(height), 0x00]),
+      Buffer.from([Math.max(2, bits)]),
+      lzwEncode(indexFrame(frame, palette, cache), Math.max(2, bits))
+    );
+  }
+
+  parts.push(Buffer.from([0x3b]));
+  return Buffer.concat(parts);
+}
+
+// ============================================
+// APNG
+// ============================================
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (buffer: Buffer): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < buffer.length; i++) {
+    crc = CRC_TABLE[(crc ^ buffer[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const pngChunk = (type: string, data: Buffer): Buffer => {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+};
+
+// Filter type 0 (none) per scanline, then deflate
+const compressFrame = (frame: RgbaFrame): Buffer => {
+  const stride = frame.width * 4;
+  const raw = Buffer.alloc((stride + 1) * frame.height);
+  for (let y = 0; y < frame.height; y++) {
+    frame.data.copy(raw, y * (stride + 1) + 1, y * stride, (y + 1) * stride);
+  }
+  return zlib.deflateSync(raw, { level: 9 });
+};
+
+/**
+ * Encode frames as a looping animated PNG (full color, no palette reduction)
+ */
+export function encodeApng(frames: RgbaFrame[], options: AnimationEncodeOptions): Buffer {
+  const { width, height } = frames[0];
+  const delay = Math.max(1, Math.round(options.delayMs));
+  let sequence = 0;
+
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(width, 0);
+  ihdr.writeUInt32BE(height, 4);
+  ihdr.set([8, 6, 0, 0, 0], 8); // 8-bit RGBA, no interlace
+
+  const actl = Buffer.alloc(8);
+  actl.writeUInt32BE(frames.length, 0);
+  actl.writeUInt32BE(options.loop ?? 0, 4);
+
+  const parts: Buffer[] = [
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', ihdr),
+    pngChunk('acTL', actl),
+  ];
+
+  frames.forEach((frame, index) => {
+    const fctl = Buffer.alloc(26);
+    fctl.writeUInt32BE(sequence++, 0);
+    fctl.writeUInt32BE(width, 4);
+    fctl.writeUInt32BE(height, 8);
+    fctl.writeUInt32BE(0, 12); // x offset
+    fctl.writeUInt32BE(0, 16); // y offset
+    fctl.writeUInt16BE(delay, 20);
+    fctl.writeUInt16BE(1000, 22); // Delay is in milliseconds
+    fctl.set([0, 0], 24); // Dispose none, blend source
+    parts.push(pngChunk('fcTL', fctl));
+
+    const data = compressFrame(frame);
+    if (index === 0) {
+      parts.push(pngChunk('IDAT', data));
+    } else {
+      const seq = Buffer.alloc(4);
+      seq.writeUInt32BE(sequence++);
+      parts.push(pngChunk('fdAT', Buffer.concat([seq, data])));
+    }
+  });
+
+  parts.push(pngChunk('IEND', Buffer.alloc(0)));
+  return Buffer.concat(parts);
+}
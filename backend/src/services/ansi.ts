@@ -0,0 +1,213 @@
+/**
+ * ANSI Color Utilities
+ * Palette mapping for colored ASCII output and SGR parsing for exports
+ */
+
+export type ColorMode = 'truecolor' | 'ansi256' | 'ansi16';
+
+export type Rgb = [number, number, number];
+
+// xterm default values of the 16 standard ANSI colors (SGR 30-37, 90-97)
+export const ANSI16_PALETTE: Rgb[] = [
+  [0, 0, 0],
+  [205, 0, 0],
+  [0, 205, 0],
+  [205, 205, 0],
+  [0, 0, 238],
+  [205, 0, 205],
+  [0, 205, 205],
+  [229, 229, 229],
+  [127, 127, 127],
+  [255, 0, 0],
+  [0, 255, 0],
+  [255, 255, 0],
+  [92, 92, 255],
+  [255, 0, 255],
+  [0, 255, 255],
+  [255, 255, 255],
+];
+
+// Channel levels of the 6x6x6 color cube in the 256-color palette
+const CUBE_LEVELS = [0, 95, 135, 175, 215, 255];
+
+const nearestCubeIndex = (value: number): number => {
+  let best = 0;
+  for (let i = 1; i < CUBE_LEVELS.length; i++) {
+    if (Math.abs(CUBE_LEVELS[i] - value) < Math.abs(CUBE_LEVELS[best] - value)) best = i;
+  }
+  return best;
+};
+
+/**
+ * Map an RGB color to the closest xterm 256-color palette index
+ */
+export function rgbToAnsi256(r: number, g: number, b: number): number {
+  const ri = nearestCubeIndex(r);
+  const gi = nearestCubeIndex(g);
+  const bi = nearestCubeIndex(b);
+  const cube = [CUBE_LEVELS[ri], CUBE_LEVELS[gi], CUBE_LEVELS[bi]];
+
+  // Grayscale ramp (232-255) covers 8..238 in steps of 10
+  const avg = (r + g + b) / 3;
+  const grayIdx = Math.min(23, Math.max(0, Math.round((avg - 8) / 10)));
+  const gray = 8 + grayIdx * 10;
+
+  const cubeDist = (r - cube[0]) ** 2 + (g - cube[1]) ** 2 + (b - cube[2]) ** 2;
+  const grayDist = (r - gray) ** 2 + (g - gray) ** 2 + (b - gray) ** 2;
+
+  return grayDist < cubeDist ? 232 + grayIdx : 16 + 36 * ri + 6 * gi + bi;
+}
+
+/**
+ * Map an RGB color to the closest of the 16 standard ANSI colors (0-15)
+ */
+export function rgbToAnsi16(r: number, g: number, b: number): number {
+  let best = 0;
+  let bestDist = Infinity;
+  ANSI16_PALETTE.forEach(([pr, pg, pb], i) => {
+    const dist = (r - pr) ** 2 + (g - pg) ** 2 + (b - pb) ** 2;
+    if (dist < bestDist) {
+      bestDist = dist;
+      best = i;
+    }
+  });
+  return best;
+}
+
+/**
+ * Foreground (or background) SGR escape sequence for a color in the given mode
+ */
+export function colorEscape(
+  r: number,
+  g: number,
+  b: number,
+  mode: ColorMode,
+  background = false
+): string {
+  switch (mode) {
+    case 'ansi256':
+      return `\x1b[${background ? 48 : 38};5;${rgbToAnsi256(r, g, b)}m`;
+    case 'ansi16': {
+      const idx = rgbToAnsi16(r, g, b);
+      const base = background ? 40 : 30;
+      return `\x1b[${idx < 8 ? base + idx : base + 60 + idx - 8}m`;
+    }
+    case 'truecolor':
+    default:
+      return `\x1b[${background ? 48 : 38};2;${r};${g};${b}m`;
+  }
+}
+
+/**
+ * Convert an xterm 256-color palette index back to RGB
+ */
+export function ansi256ToRgb(index: number): Rgb {
+  if (index < 16) return ANSI16_PALETTE[index];
+  if (index >= 232) {
+    const gray = 8 + (index - 232) * 10;
+    return [gray, gray, gray];
+  }
+  const cube = index - 16;
+  return [
+    CUBE_LEVELS[Math.floor(cube / 36)],
+    CUBE_LEVELS[Math.floor(cube / 6) % 6],
+    CUBE_LEVELS[cube % 6],
+  ];
+}
+
+export interface AnsiSpan {
+  text: string;
+  fg?: Rgb;
+  bg?: Rgb;
+  bold?: boolean;
+}
+
+// Escape sequences: SGR ones (final "m") set colors/styles, cursor movement etc. is dropped
+// eslint-disable-next-line no-control-regex
+const ANSI_PATTERN = /\x1b\[([\d;?]*)([A-Za-z])/g;
+
+/**
+ * Remove all ANSI escape sequences from text
+ */
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, '');
+}
+
+const sameColor = (a?: Rgb, b?: Rgb): boolean =>
+  a === b || (!!a && !!b && a[0] === b[0] && a[1] === b[1] && a[2] === b[2]);
+
+/**
+ * Parse ANSI colored text into lines of styled spans
+ * Consecutive characters with the same style are merged into one span
+ */
+export function parseAnsi(text: string): AnsiSpan[][] {
+  const lines: AnsiSpan[][] = [[]];
+  let style: Omit<AnsiSpan, 'text'> = {};
+
+  const pushText = (chunk: string) => {
+    chunk.split('\n').forEach((part, i) => {
+      if (i > 0) lines.push([]);
+      if (!part) return;
+      const line = lines[lines.length - 1];
+      const last = line[line.length - 1];
+      if (
+        last &&
+        sameColor(last.fg, style.fg) &&
+        sameColor(last.bg, style.bg) &&
+        last.bold === style.bold
+      ) {
+        last.text += part;
+      } else {
+        line.push({ text: part, ...style });
+      }
+    });
+  };
+
+  const applySgr = (params: string) => {
+    const codes = params === '' ? [0] : params.split(';').map(Number);
+    for (let i = 0; i < codes.length; i++) {
+      const code = codes[i];
+      if (code === 0) style = {};
+      else if (code === 1) style = { ...style, bold: true };
+      else if (code === 22) style = { ...style, bold: undefined };
+      else if (code >= 30 && code <= 37) style = { ...style, fg: ANSI16_PALETTE[code - 30] };
+      else if (code >= 90 && code <= 97) style = { ...style, fg: ANSI16_PALETTE[code - 82] };
+      else if (code >= 40 && code <= 47) style = { ...style, bg: ANSI16_PALETTE[code - 40] };
+      else if (code >= 100 && code <= 107) style = { ...style, bg: ANSI16_PALETTE[code - 92] };
+      else if (code === 39) style = { ...style, fg: undefined };
+      else if (code === 49) style = { ...style, bg: undefined };
+      else if (code === 38 || code === 48) {
+        let color: Rgb | undefined;
+        if (codes[i + 1] === 5) {
+          color = ansi256ToRgb(codes[i + 2]);
+          i += 2;
+        } else if (codes[i + 1] === 2) {
+          color = [codes[i + 2], codes[i + 3], codes[i + 4]];
+          i += 4;
+        }
+        style = code === 38 ? { ...style, fg: color } : { ...style, bg: color };
+      }
+    }
+  };
+
+  const source = text.replace(/\r/g, '');
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  ANSI_PATTERN.lastIndex = 0;
+
+  while ((match = ANSI_PATTERN.exec(source)) !== null) {
+    pushText(source.slice(lastIndex, match.index));
+    if (match[2] === 'm') applySgr(match[1]);
+    lastIndex = ANSI_PATTERN.lastIndex;
+  }
+  pushText(source.slice(lastIndex));
+
+  return lines;
+}
+
+/**
+ * CSS hex notation for an RGB color
+ */
+export function rgbToHex([r, g, b]: Rgb): string {
+  return `#${[r, g, b].map((c) => c.toString(16).padStart(2, '0')).join('')}`;
+}
@@ -0,0 +1,304 @@
+/**
+ * ASCII Algorithms
+ * Glyph selection strategies that turn a grayscale cell grid into characters
+ * Plain brightness mapping, error diffusion / ordered dithering, Sobel edges
+ * and histogram based contrast enhancement
+ */
+
+export type AsciiAlgorithm =
+  'brightness' | 'floyd-steinberg' | 'bayer' | 'sobel' | 'equalize' | 'autocontrast';
+
+export const ASCII_ALGORITHMS: AsciiAlgorithm[] = [
+  'brightness',
+  'floyd-steinberg',
+  'bayer',
+  'sobel',
+  'equalize',
+  'autocontrast',
+];
+
+// 8x8 Bayer threshold matrix (values 0-63)
+const BAYER_8X8 = [
+  [0, 32, 8, 40, 2, 34, 10, 42],
+  [48, 16, 56, 24, 50, 18, 58, 26],
+  [12, 44, 4, 36, 14, 46, 6, 38],
+  [60, 28, 52, 20, 62, 30, 54, 22],
+  [3, 35, 11, 43, 1, 33, 9, 41],
+  [51, 19, 59, 27, 49, 17, 57, 25],
+  [15, 47, 7, 39, 13, 45, 5, 37],
+  [63, 31, 55, 23, 61, 29, 53, 21],
+];
+
+// Cells whose gradient is weaker than this fraction of the strongest edge stay blank
+const EDGE_THRESHOLD = 0.25;
+
+const clampLevel = (level: number, levels: number) => Math.min(Math.max(level, 0), levels - 1);
+
+// Same mapping as the original converter, brightness 0-255 to a charset index
+const brightnessLevel = (value: number, levels: number) => Math.floor((value / 255) * (levels - 1));
+
+export interface ToneCurve {
+  gamma?: number; // Above 1 brightens midtones, below 1 darkens them (0.1-10)
+  contrast?: number; // Stretch around mid gray, 1 leaves the image unchanged (0-5)
+}
+
+/**
+ * Apply a gamma / contrast curve through a 256 entry lookup table
+ * Runs before glyph selection so it works with every algorithm and charset
+ */
+export function applyToneCurve(gray: Uint8Array, curve: ToneCurve = {}): Uint8Array {
+  const gamma = Number.isFinite(curve.gamma) ? Math.min(Math.max(curve.gamma!, 0.1), 10) : 1;
+  const contrast = Number.isFinite(curve.contrast) ? Math.min(Math.max(curve.contrast!, 0), 5) : 1;
+  if (gamma === 1 && contrast === 1) return gray;
+
+  const table = new Uint8Array(256);
+  for (let i = 0; i < 256; i++) {
+    const value = ((i / 255) ** (1 / gamma) - 0.5) * contrast + 0.5;
+    table[i] = Math.round(Math.min(Math.max(value, 0), 1) * 255);
+  }
+
+  return gray.map((value) => table[value]);
+}
+
+/**
+ * Histogram equalization, spreads the most common tones over the full range
+ */
+export function equalizeHistogram(gray: Uint8Array): Uint8Array {
+  const histogram = new Array(256).fill(0);
+  gray.forEach((value) => histogram[value]++);
+
+  const cdf = new Array(256);
+  let total = 0;
+  for (let i = 0; i < 256; i++) {
+    total += histogram[i];
+    cdf[i] = total;
+  }
+
+  const cdfMin = cdf.find((count) => count > 0) || 0;
+  const range = gray.length - cdfMin || 1;
+
+  return gray.map((value) => Math.round(((cdf[value] - cdfMin) / range) * 255));
+}
+
+/**
+ * Stretch the 1st-99th percentile range to 0-255
+ */
+export function autoContrast(gray: Uint8Array): Uint8Array {
+  const sorted = Uint8Array.from(gray).sort();
+  const low = sorted[Math.floor(sorted.length * 0.01)];
+  const high = sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.99))];
+
+  if (high <= low) return gray;
+
+  return gray.map((value) =>
+    Math.min(255, Math.max(0, Math.round(((value - low) / (high - low)) * 255)))
+  );
+}
+
+/**
+ * Floyd-Steinberg error diffusion to `levels` tones
+ */
+export function floydSteinberg(
+  gray: Uint8Array,
+  width: number,
+  height: number,
+  levels: number
+): Uint8Array {
+  const values = Float32Array.from(gray);
+  const result = new Uint8Array(gray.length);
+  const step = 255 / (levels - 1);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const level = clampLevel(Math.round(values[i] / step), levels);
+      const error = values[i] - level * step;
+      result[i] = level;
+
+      if (x + 1 < width) values[i + 1] += (error * 7) / 16;
+      if (y + 1 < height) {
+        if (x > 0) values[i + width - 1] += (error * 3) / 16;
+        values[i + width] += (error * 5) / 16;
+        if (x + 1 < width) values[i + width + 1] += error / 16;
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Ordered dithering with an 8x8 Bayer matrix to `levels` tones
+ */
+export function bayerDither(
+  gray: Uint8Array,
+  width: number,
+  height: number,
+  levels: number
+): Uint8Array {
+  const result = new Uint8Array(gray.length);
+  const step = 255 / (levels - 1);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const offset = ((BAYER_8X8[y % 8][x % 8] + 0.5) / 64 - 0.5) * step;
+      result[i] = clampLevel(Math.round((gray[i] + offset) / step), levels);
+    }
+  }
+
+  return result;
+}
+
+interface Gradients {
+  magnitude: Float32Array;
+  gxs: Float32Array;
+  gys: Float32Array;
+  max: number;
+}
+
+function sobelGradients(gray: Uint8Array, width: number, height: number): Gradients {
+  const at = (x: number, y: number) =>
+    gray[Math.min(Math.max(y, 0), height - 1) * width + Math.min(Math.max(x, 0), width - 1)];
+
+  const magnitude = new Float32Array(gray.length);
+  const gxs = new Float32Array(gray.length);
+  const gys = new Float32Array(gray.length);
+  let max = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const gx =
+        at(x + 1, y - 1) +
+        2 * at(x + 1, y) +
+        at(x + 1, y + 1) -
+        (at(x - 1, y - 1) + 2 * at(x - 1, y) + at(x - 1, y + 1));
+      const gy =
+        at(x - 1, y + 1) +
+        2 * at(x, y + 1) +
+        at(x + 1, y + 1) -
+        (at(x - 1, y - 1) + 2 * at(x, y - 1) + at(x + 1, y - 1));
+      const i = y * width + x;
+      gxs[i] = gx;
+      gys[i] = gy;
+      magnitude[i] = Math.hypot(gx, gy);
+      max = Math.max(max, magnitude[i]);
+    }
+  }
+
+  return { magnitude, gxs, gys, max };
+}
+
+/**
+ * Sobel edge detection with non-maximum suppression
+ * Returns a directional glyph (| / - \ _) for edge cells and null elsewhere
+ */
+export function sobelEdges(
+  gray: Uint8Array,
+  width: number,
+  height: number,
+  gradients = sobelGradients(gray, width, height)
+): (string | null)[] {
+  const { magnitude, gxs, gys, max } = gradients;
+  const threshold = max * EDGE_THRESHOLD;
+  const result: (string | null)[] = new Array(gray.length).fill(null);
+  if (max === 0) return result;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (magnitude[i] < threshold) continue;
+
+      // Keep only the strongest cell across the edge so lines stay one glyph thick
+      const dx = Math.round(gxs[i] / magnitude[i]);
+      const dy = Math.round(gys[i] / magnitude[i]);
+      const neighbor = (nx: number, ny: number) =>
+        nx >= 0 && nx < width && ny >= 0 && ny < height ? magnitude[ny * width + nx] : 0;
+      if (neighbor(x + dx, y + dy) > magnitude[i] || neighbor(x - dx, y - dy) > magnitude[i]) {
+        continue;
+      }
+
+      // The edge runs perpendicular to the gradient (y axis flipped to point up)
+      const gradientAngle = (Math.atan2(-gys[i], gxs[i]) * 180) / Math.PI;
+      const edgeAngle = (((gradientAngle + 90) % 180) + 180) % 180;
+
+      if (edgeAngle < 22.5 || edgeAngle >= 157.5) {
+        // Horizontal edges sit low in the cell when the bright side is above
+        result[i] = gys[i] < 0 ? '_' : '-';
+      } else if (edgeAngle < 67.5) {
+        result[i] = '/';
+      } else if (edgeAngle < 112.5) {
+        result[i] = '|';
+      } else {
+        result[i] = '\\';
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Reduce a grayscale grid to lit (1) / dark (0) pixels for the sub-cell renderers
+ * Dithering algorithms diffuse to two tones, Sobel lights edge pixels only
+ */
+export function binarize(
+  gray: Uint8Array,
+  width: number,
+  height: number,
+  algorithm: AsciiAlgorithm = 'brightness'
+): Uint8Array {
+  switch (algorithm) {
+    case 'floyd-steinberg':
+      return floydSteinberg(gray, width, height, 2);
+    case 'bayer':
+      return bayerDither(gray, width, height, 2);
+    case 'sobel':
+      return Uint8Array.from(sobelEdges(gray, width, height), (glyph) => (glyph ? 1 : 0));
+    case 'equalize':
+      return equalizeHistogram(gray).map((value) => (value >= 128 ? 1 : 0));
+    case 'autocontrast':
+      return autoContrast(gray).map((value) => (value >= 128 ? 1 : 0));
+    case 'brightness':
+    default:
+      return gray.map((value) => (value >= 128 ? 1 : 0));
+  }
+}
+
+/**
+ * Pick a glyph for every cell of a grayscale grid (row-major)
+ * `chars` is ordered dark to light, as in the charsets
+ */
+export function selectGlyphs(
+  gray: Uint8Array,
+  width: number,
+  height: number,
+  chars: string,
+  algorithm: AsciiAlgorithm = 'brightness'
+): string[] {
+  const glyphs = [...chars];
+  const levels = glyphs.length;
+
+  switch (algorithm) {
+    case 'floyd-steinberg':
+      return Array.from(floydSteinberg(gray, width, height, levels), (level) => glyphs[level]);
+    case 'bayer':
+      return Array.from(bayerDither(gray, width, height, levels), (level) => glyphs[level]);
+    case 'sobel': {
+      // Edges get directional glyphs, other cells the ramp level of their gradient
+      // relative to the strongest one in the image
+      const gradients = sobelGradients(gray, width, height);
+      const scale = gradients.max ? 255 / gradients.max : 0;
+      return sobelEdges(gray, width, height, gradients).map(
+        (glyph, i) => glyph ?? glyphs[brightnessLevel(gradients.magnitude[i] * scale, levels)]
+      );
+    }
+    case 'equalize':
+      return Array.from(equalizeHistogram(gray), (v) => glyphs[brightnessLevel(v, levels)]);
+    case 'autocontrast':
+      return Array.from(autoContrast(gray), (v) => glyphs[brightnessLevel(v, levels)]);
+    case 'brightness':
+    default:
+      return Array.from(gray, (v) => glyphs[brightnessLevel(v, levels)]);
+  }
+}
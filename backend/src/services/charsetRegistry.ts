@@ -0,0 +1,177 @@
+/**
+ * Charset Registry
+ * Single source of brightness ramps for image and video conversion
+ * Built-in ramps, user saved ramps (persisted to a JSON file) and custom ramps
+ * sorted by glyph density measured from the rasterized font
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { getGlyphTable } from './glyphMatcher.js';
+import { isSubcellCharset, SUBCELL_LAYOUTS } from './subcellRenderer.js';
+
+// Ramps are ordered dark to light (least to most ink on a dark terminal)
+export const BUILTIN_RAMPS = {
+  standard: ' .:-=+*#%@',
+  blocks: ' ░▒▓█',
+  minimal: ' .*#',
+  detailed: ' .\'`^",:;Il!i><~+_-?][}{1)(|\\/tfjrxnuvczXYUJCLQ0OZmwqpdbkhao*#MW&8%B@$',
+  simple: ' .,:;+*?%$#@',
+};
+
+export type BuiltinRamp = keyof typeof BUILTIN_RAMPS;
+
+export interface RampOptions {
+  charset?: string;
+  ramp?: string; // Custom characters, overrides charset
+  sortRamp?: boolean; // Sort a custom ramp by measured density (default true)
+}
+
+const STORE_PATH = process.env.CHARSET_STORE || path.join(process.cwd(), 'data', 'charsets.json');
+
+const NAME_PATTERN = /^[a-z0-9_-]{1,32}$/i;
+const MIN_RAMP_LENGTH = 2;
+const MAX_RAMP_LENGTH = 256;
+const MAX_SAVED_RAMPS = 100;
+
+let savedRamps: Map<string, string> | null = null;
+
+// Saved ramps are loaded lazily on first use, a missing or corrupt store starts empty
+const loadSaved = (): Map<string, string> => {
+  if (!savedRamps) {
+    try {
+      savedRamps = new Map(Object.entries(JSON.parse(fs.readFileSync(STORE_PATH, 'utf-8'))));
+    } catch {
+      savedRamps = new Map();
+    }
+  }
+  return savedRamps;
+};
+
+const persist = async () => {
+  const data = JSON.stringify(Object.fromEntries(loadSaved()), null, 2);
+  await fs.promises.mkdir(path.dirname(STORE_PATH), { recursive: true });
+  await fs.promises.writeFile(STORE_PATH, data);
+};
+
+const isBuiltin = (name: string): name is BuiltinRamp =>
+  Object.prototype.hasOwnProperty.call(BUILTIN_RAMPS, name);
+
+// C0 controls and DEL
+const isControlCharacter = (char: string) => char.charCodeAt(0) < 0x20 || char === '\x7f';
+
+/**
+ * Ramp for a built-in or saved charset name
+ */
+export function getCharset(name: string | undefined): string | undefined {
+  if (!name) return undefined;
+  if (isBuiltin(name)) return BUILTIN_RAMPS[name];
+  return loadSaved().get(name);
+}
+
+/**
+ * Validate a custom ramp, returns an error message if it can't be used
+ */
+export function validateRamp(ramp: unknown): string | null {
+  if (typeof ramp !== 'string') return 'Ramp must be a string';
+
+  const chars = [...new Set(ramp)];
+  if (chars.length < MIN_RAMP_LENGTH || chars.length > MAX_RAMP_LENGTH) {
+    return `Ramp must contain ${MIN_RAMP_LENGTH}-${MAX_RAMP_LENGTH} distinct characters`;
+  }
+  if (chars.some(isControlCharacter)) return 'Ramp must not contain control characters';
+
+  return null;
+}
+
+/**
+ * Validate the charset / custom ramp pair of a conversion request
+ * Same rules for image and video, returns an error message if invalid
+ */
+export function validateCharsetOptions(charset?: string, ramp?: unknown): string | null {
+  if (ramp !== undefined && ramp !== '') return validateRamp(ramp);
+
+  if (charset && !getCharset(charset) && !isSubcellCharset(charset)) {
+    const valid = [
+      ...Object.keys(BUILTIN_RAMPS),
+      ...Object.keys(SUBCELL_LAYOUTS),
+      ...loadSaved().keys(),
+    ];
+    return `Unknown charset "${charset}". Valid: ${valid.join(', ')}`;
+  }
+
+  return null;
+}
+
+/**
+ * Sort characters from least to most ink, measured from the rasterized glyphs
+ */
+export async function sortByDensity(ramp: string): Promise<string> {
+  const chars = [...new Set(ramp)].join('');
+  const table = await getGlyphTable(undefined, chars);
+  return [...table]
+    .sort((a, b) => a.mean - b.mean)
+    .map((tile) => tile.glyph)
+    .join('');
+}
+
+/**
+ * Resolve the ramp to use for a conversion
+ * Custom ramps win over charset names, unknown names fall back to standard
+ */
+export async function resolveRamp(options: RampOptions): Promise<string> {
+  if (options.ramp) {
+    return options.sortRamp === false ? options.ramp : sortByDensity(options.ramp);
+  }
+  return getCharset(options.charset) || BUILTIN_RAMPS.standard;
+}
+
+/**
+ * Built-in and saved ramps by name
+ */
+export function listCharsets() {
+  return { builtin: BUILTIN_RAMPS, saved: Object.fromEntries(loadSaved()) };
+}
+
+/**
+ * Validate a ramp before saving it under `name`, returns an error message if invalid
+ */
+export function validateSavedCharset(name: unknown, ramp: unknown): string | null {
+  if (typeof name !== 'string' || !NAME_PATTERN.test(name)) {
+    return 'Name must be 1-32 letters, digits, dashes or underscores';
+  }
+  if (isBuiltin(name) || isSubcellCharset(name)) {
+    return `"${name}" is a built-in charset`;
+  }
+
+  const saved = loadSaved();
+  if (!saved.has(name) && saved.size >= MAX_SAVED_RAMPS) {
+    return `Only ${MAX_SAVED_RAMPS} saved charsets are allowed`;
+  }
+
+  return validateRamp(ramp);
+}
+
+/**
+ * Save a named ramp, sorted by density unless disabled
+ */
+export async function saveCharset(name: string, ramp: string, sort = true): Promise<string> {
+  const error = validateSavedCharset(name, ramp);
+  if (error) throw new Error(error);
+
+  const sorted = sort ? await sortByDensity(ramp) : [...new Set(ramp)].join('');
+  loadSaved().set(name, sorted);
+  await persist();
+
+  return sorted;
+}
+
+/**
+ * Delete a saved ramp, returns false if it didn't exist
+ */
+export async function deleteCharset(name: string): Promise<boolean> {
+  if (!loadSaved().delete(name)) return false;
+
+  await persist();
+  return true;
+}
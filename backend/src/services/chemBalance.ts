@@ -0,0 +1,151 @@
+/**
+ * Chemical Equation Balancer
+ * Builds the element-by-species matrix (plus a charge row for ionic equations) and
+ * takes its null space over exact rationals; the smallest whole-number vector in it
+ * gives the coefficients
+ */
+
+import { FormulaError, parseFormula } from './chemFormula.js';
+import { isNum, num } from './mathExpression.js';
+import { nullSpace } from './matrixEngine.js';
+import type { PythonResult } from './pythonBridge.js';
+
+export interface BalancedSpecies {
+  formula: string;
+  coefficient: number;
+}
+
+export interface BalanceResult {
+  original: string;
+  balanced: string;
+  reactants: BalancedSpecies[];
+  products: BalancedSpecies[];
+  coefficients: number[];
+  elements: string[]; // matrix rows, "charge" last for ionic equations
+}
+
+interface Species {
+  formula: string; // as written, state symbol included
+  side: 1 | -1; // reactant or product column sign
+  counts: Record<string, number>;
+  charge: number;
+}
+
+const ARROW = /\s*(?:<=>|<->|⇌|→|->|=>|=)\s*/;
+const STATE = /\s*\((?:aq|s|l|g)\)$/;
+const ELECTRON = /^e\^?[-⁻]$/;
+// "H2+O2": a + directly followed by the start of a species separates the two
+const UNSPACED_PLUS = /\+(?=[A-Z0-9([¹²³⁴⁵⁶⁷⁸⁹⁰]|e\^?[-⁻])/;
+
+const gcd = (a: number, b: number): number => (b === 0 ? Math.abs(a) : gcd(b, a % b));
+
+function splitSide(side: string): string[] {
+  // "H2 +" is a dangling plus, not a charge
+  if (/(^|\s)\+$|^\+\s/.test(side.trim())) {
+    throw new FormulaError('Empty species: check the + signs');
+  }
+  const spaced = side.split(/\s+\+\s+/);
+  const species = spaced.length > 1 ? spaced : side.split(UNSPACED_PLUS);
+  // Coefficients already written in (2H2O) are dropped and worked out again
+  return species.map((text) => text.trim().replace(/^\d+\s*(?=\D)/, ''));
+}
+
+function parseSpecies(formula: string, side: 1 | -1): Species {
+  if (!formula) throw new FormulaError('Empty species: check the + signs');
+  const bare = formula.replace(STATE, '');
+  if (ELECTRON.test(bare)) return { formula, side, counts: {}, charge: -1 };
+  const { counts, charge } = parseFormula(bare);
+  return { formula, side, counts, charge };
+}
+
+// a A + b B -> c C, coefficients of 1 left out
+const writeSide = (species: BalancedSpecies[]) =>
+  species
+    .map(({ formula, coefficient }) => `${coefficient === 1 ? '' : coefficient}${formula}`)
+    .join(' + ');
+
+/**
+ * Balance "Fe + O2 -> Fe2O3" or ionic "MnO4- + Fe2+ + H+ -> Mn2+ + Fe3+ + H2O"
+ * Throws FormulaError when no single set of positive coefficients exists
+ */
+export function balanceEquation(equation: string): BalanceResult {
+  const sides = equation.trim().split(ARROW);
+  if (sides.length !== 2 || !sides[0] || !sides[1]) {
+    throw new FormulaError('Write the equation as reactants -> products, e.g. H2 + O2 -> H2O');
+  }
+
+  const species = [
+    ...splitSide(sides[0]).map((formula) => parseSpecies(formula, 1)),
+    ...splitSide(sides[1]).map((formula) => parseSpecies(formula, -1)),
+  ];
+
+  // Every element has to show up on both sides, or nothing can balance it
+  const elements = [...new Set(species.flatMap((s) => Object.keys(s.counts)))];
+  for (const element of elements) {
+    const sidesWith = new Set(species.filter((s) => s.counts[element]).map((s) => s.side));
+    if (sidesWith.size === 1) {
+      const where = sidesWith.has(1) ? 'reactants' : 'products';
+      throw new FormulaError(`Cannot balance: ${element} appears only among the ${where}`);
+    }
+  }
+
+  const rows = elements.map((element) => species.map((s) => s.side * (s.counts[element] ?? 0)));
+  if (species.some((s) => s.charge !== 0)) {
+    rows.push(species.map((s) => s.side * s.charge));
+    elements.push('charge');
+  }
+
+  const basis = nullSpace(rows.map((row) => row.map((n) => num(n))));
+  if (basis.length === 0) {
+    throw new FormulaError(
+      `Cannot balance: no coefficients conserve every element${elements.includes('charge') ? ' and the charge' : ''}`
+    );
+  }
+  if (basis.length > 1) {
+    throw new FormulaError(
+      `Ambiguous: this combines ${basis.length} independent reactions, so the coefficients are not unique. Balance each reaction separately`
+    );
+  }
+
+  // Smallest whole numbers: clear the denominators, then divide out the common factor
+  const vector = basis[0].map((entry) => {
+    if (!isNum(entry)) throw new FormulaError('Cannot balance: unexpected non-numeric solution');
+    return entry;
+  });
+  const scale = vector.reduce((lcm, { d }) => (lcm * d) / gcd(lcm, d), 1);
+  let coefficients = vector.map(({ n, d }) => (n * scale) / d);
+  const common = coefficients.reduce(gcd, 0);
+  const sign = Math.sign(coefficients.find((c) => c !== 0) ?? 1);
+  coefficients = coefficients.map((c) => (sign * c) / common);
+
+  const unusable = species.filter((_, i) => coefficients[i] <= 0).map((s) => s.formula);
+  if (unusable.length > 0) {
+    throw new FormulaError(
+      `Cannot balance with positive coefficients: ${unusable.join(', ')} would need a zero or negative coefficient (missing or misplaced species?)`
+    );
+  }
+
+  const withCoefficients = species.map((s, i) => ({
+    formula: s.formula,
+    coefficient: coefficients[i],
+  }));
+  const reactants = withCoefficients.filter((_, i) => species[i].side === 1);
+  const products = withCoefficients.filter((_, i) => species[i].side === -1);
+
+  return {
+    original: equation,
+    balanced: `${writeSide(reactants)} → ${writeSide(products)}`,
+    reactants,
+    products,
+    coefficients,
+    elements,
+  };
+}
+
+/**
+ * Same arguments and result shape as python/chem_balance.py
+ */
+export function runBalanceScript(args: Record<string, string | undefined>): PythonResult {
+  const result = balanceEquation(args.equation ?? '');
+  return { success: true, result: result.balanced, ...result };
+}
@@ -0,0 +1,296 @@
+/**
+ * Chemical Formula Parser
+ * Recursive descent over formulas such as Ca(OH)2, [Cu(NH3)4]SO4, CuSO4·5H2O,
+ * SO4^2-, Fe³⁺ and ¹³CO2, giving element counts, molar mass, mass percent
+ * composition and the parse tree
+ */
+
+import { elementBySymbol } from './periodicTable.js';
+
+// Bad formula, the message is shown to the user
+export class FormulaError extends Error {}
+
+export type FormulaNode =
+  | { type: 'element'; symbol: string; massNumber?: number; count: number }
+  | { type: 'group'; bracket: '(' | '['; count: number; children: FormulaNode[] };
+
+// One dot-separated part of a hydrate: CuSO4 and 5H2O in CuSO4·5H2O
+export interface FormulaPart {
+  coefficient: number;
+  nodes: FormulaNode[];
+}
+
+export interface FormulaComponent {
+  element: string; // symbol, or mass number and symbol for isotopes written [13C], ¹³C or D
+  count: number;
+  mass: number;
+  percent: number;
+}
+
+export interface ParsedFormula {
+  formula: string;
+  parts: FormulaPart[];
+  charge: number;
+  counts: Record<string, number>;
+  molarMass: number;
+  composition: FormulaComponent[];
+  warnings: string[]; // how an ambiguous or approximate input was read
+}
+
+const HYDRATE_DOTS = /[·•⋅.*]/;
+const SUBSCRIPTS = '₀₁₂₃₄₅₆₇₈₉';
+const SUPERSCRIPTS = '⁰¹²³⁴⁵⁶⁷⁸⁹';
+const ISOTOPE_PREFIX = /^(?:\[(\d+)([A-Z][a-z]?)\]|([⁰¹²³⁴⁵⁶⁷⁸⁹]+)(?=[A-Z]))/;
+
+// Deuterium and tritium
+const ISOTOPE_SYMBOLS: Record<string, { symbol: string; massNumber: number }> = {
+  D: { symbol: 'H', massNumber: 2 },
+  T: { symbol: 'H', massNumber: 3 },
+};
+
+// Atomic masses (u, AME2020) of the isotopes labelled most often; any other isotope is
+// weighed by its mass number, with a warning
+const ISOTOPE_MASSES: Record<string, number> = {
+  '1H': 1.007825,
+  '2H': 2.014102,
+  '3H': 3.016049,
+  '3He': 3.016029,
+  '4He': 4.002603,
+  '6Li': 6.015123,
+  '7Li': 7.016003,
+  '10B': 10.012937,
+  '11B': 11.009305,
+  '12C': 12,
+  '13C': 13.003355,
+  '14C': 14.003242,
+  '14N': 14.003074,
+  '15N': 15.000109,
+  '16O': 15.994915,
+  '17O': 16.999132,
+  '18O': 17.99916,
+  '19F': 18.998403,
+  '23Na': 22.989769,
+  '31P': 30.973762,
+  '32P': 31.973908,
+  '32S': 31.972071,
+  '34S': 33.967867,
+  '35S': 34.969032,
+  '35Cl': 34.968853,
+  '37Cl': 36.965903,
+  '40K': 39.963998,
+  '54Fe': 53.939609,
+  '56Fe': 55.934936,
+  '57Fe': 56.935393,
+  '60Co': 59.933816,
+  '63Cu': 62.929597,
+  '65Cu': 64.92779,
+  '79Br': 78.918338,
+  '81Br': 80.91629,
+  '127I': 126.904473,
+  '131I': 130.906126,
+  '235U': 235.04393,
+  '238U': 238.050788,
+};
+
+class FormulaParser {
+  private index = 0;
+
+  constructor(private text: string) {}
+
+  parse(): { parts: FormulaPart[]; charge: number } {
+    const parts = [this.part()];
+    while (HYDRATE_DOTS.test(this.peek())) {
+      this.index++;
+      parts.push(this.part());
+    }
+    const charge = this.charge(parts);
+    if (this.index < this.text.length) {
+      throw new FormulaError(`Unexpected "${this.text[this.index]}" in ${this.text}`);
+    }
+    return { parts, charge };
+  }
+
+  private peek(): string {
+    return this.text[this.index] ?? '';
+  }
+
+  private digits(): string {
+    const start = this.index;
+    while (/\d/.test(this.peek())) this.index++;
+    return this.text.slice(start, this.index);
+  }
+
+  // Count after an atom or group, 1 when absent
+  private count(): number {
+    const digits = this.digits();
+    if (digits === '') return 1;
+    if (Number(digits) === 0) throw new FormulaError(`Zero count in ${this.text}`);
+    return Number(digits);
+  }
+
+  private part(): FormulaPart {
+    const coefficient = this.count();
+    const nodes = this.sequence();
+    if (nodes.length === 0) throw new FormulaError(`Expected an element in ${this.text}`);
+    return { coefficient, nodes };
+  }
+
+  private sequence(): FormulaNode[] {
+    const nodes: FormulaNode[] = [];
+    for (;;) {
+      const char = this.peek();
+      if (/[A-Z]/.test(char) || this.isotope()) {
+        nodes.push(this.atom());
+      } else if (char === '(' || char === '[') {
+        nodes.push(this.group(char));
+      } else {
+        return nodes;
+      }
+    }
+  }
+
+  private group(bracket: '(' | '['): FormulaNode {
+    this.index++;
+    const children = this.sequence();
+    const close = bracket === '(' ? ')' : ']';
+    if (this.peek() !== close) throw new FormulaError(`Expected "${close}" in ${this.text}`);
+    if (children.length === 0) throw new FormulaError(`Empty group in ${this.text}`);
+    this.index++;
+    return { type: 'group', bracket, count: this.count(), children };
+  }
+
+  // Isotope mass number ahead: [13C] (rather than a group) or ¹³C
+  private isotope(): RegExpExecArray | null {
+    return ISOTOPE_PREFIX.exec(this.text.slice(this.index));
+  }
+
+  private atom(): FormulaNode {
+    const isotope = this.isotope();
+    if (isotope?.[2]) {
+      this.index += isotope[0].length;
+      return this.element(isotope[2], Number(isotope[1]));
+    }
+
+    let massNumber: number | undefined;
+    if (isotope) {
+      this.index += isotope[0].length;
+      massNumber = Number([...isotope[3]].map((char) => SUPERSCRIPTS.indexOf(char)).join(''));
+    }
+
+    // Longest symbol that exists: Co is cobalt, CO is carbon and oxygen
+    const two = this.text.slice(this.index, this.index + 2);
+    const symbol = /^[A-Z][a-z]$/.test(two) && elementBySymbol(two) ? two : this.peek();
+    this.index += symbol.length;
+    return this.element(symbol, massNumber, /[a-z]/.test(this.peek()) ? two : symbol);
+  }
+
+  // `written` is what the user typed, for the error message
+  private element(symbol: string, massNumber?: number, written = symbol): FormulaNode {
+    const named = ISOTOPE_SYMBOLS[symbol];
+    if (named && massNumber === undefined) {
+      return {
+        type: 'element',
+        symbol: named.symbol,
+        massNumber: named.massNumber,
+        count: this.count(),
+      };
+    }
+    if (!elementBySymbol(symbol)) throw new FormulaError(`Unknown element: ${written}`);
+    return { type: 'element', symbol, massNumber, count: this.count() };
+  }
+
+  /**
+   * Trailing charge: ^2-, ²⁻, " 2-", + or 3+. Digits glued to the last atom count
+   * as atoms (NH4+), except after a lone atom where they can only be a charge (Fe3+)
+   */
+  private charge(parts: FormulaPart[]): number {
+    const rest = this.text.slice(this.index);
+    const superscript = /^([⁰¹²³⁴⁵⁶⁷⁸⁹]*)([⁺⁻])$/.exec(rest);
+    const plain = /^\s*\^?\s*(\d*)([+-])$/.exec(rest) ?? /^\s*\^?\s*([+-])(\d+)$/.exec(rest);
+    if (!superscript && !plain) return 0;
+    this.index = this.text.length;
+
+    if (superscript) {
+      const size = [...superscript[1]].map((char) => SUPERSCRIPTS.indexOf(char)).join('');
+      return (superscript[2] === '⁺' ? 1 : -1) * (Number(size) || 1);
+    }
+
+    const [sign, size] = /[+-]/.test(plain![1]) ? [plain![1], plain![2]] : [plain![2], plain![1]];
+    let magnitude = Number(size) || 1;
+    const [only] = parts[0].nodes;
+    if (!size && parts.length === 1 && parts[0].nodes.length === 1 && only.type === 'element') {
+      // Fe3+ was read as Fe3 with charge 1: the digits are the charge
+      magnitude = only.count;
+      only.count = 1;
+    }
+    return (sign === '+' ? 1 : -1) * magnitude;
+  }
+}
+
+// Counts per element key, multiplied through groups and coefficients
+function countNodes(nodes: FormulaNode[], factor: number, counts: Record<string, number>) {
+  for (const node of nodes) {
+    if (node.type === 'group') {
+      countNodes(node.children, factor * node.count, counts);
+    } else {
+      const key = node.massNumber ? `${node.massNumber}${node.symbol}` : node.symbol;
+      counts[key] = (counts[key] ?? 0) + factor * node.count;
+    }
+  }
+}
+
+// Mass of one atom for a count key: "Fe", "13C" or "2H"
+function atomMass(key: string): number {
+  const [, massNumber, symbol] = /^(\d*)(\D+)$/.exec(key)!;
+  if (!massNumber) return elementBySymbol(symbol)!.atomicMass;
+  return ISOTOPE_MASSES[key] ?? Number(massNumber);
+}
+
+function formulaWarnings(text: string, parts: FormulaPart[], counts: Record<string, number>) {
+  const warnings: string[] = [];
+  // 13CO2 is 13 × CO2: an isotope needs its mass number in brackets or superscript
+  const [first] = parts[0].nodes;
+  if (/^\d/.test(text) && first.type === 'element' && !first.massNumber) {
+    const rest = text.slice(String(parts[0].coefficient).length);
+    const isotope = `[${parts[0].coefficient}${first.symbol}]${rest.slice(first.symbol.length)}`;
+    warnings.push(
+      `${text} is read as ${parts[0].coefficient} × ${rest}, write ${isotope} for an isotope`
+    );
+  }
+  for (const key of Object.keys(counts)) {
+    const massNumber = /^\d+/.exec(key)?.[0];
+    if (massNumber && !(key in ISOTOPE_MASSES)) {
+      warnings.push(`No exact mass for ${key}, weighed as its mass number ${massNumber}`);
+    }
+  }
+  return warnings;
+}
+
+/**
+ * Parse a formula into counts, molar mass (g/mol), mass percent and parse tree
+ */
+export function parseFormula(formula: string): ParsedFormula {
+  // Subscript digits read as plain ones: H₂O
+  const text = [...formula.trim()]
+    .map((char) => (SUBSCRIPTS.includes(char) ? String(SUBSCRIPTS.indexOf(char)) : char))
+    .join('');
+  if (!text) throw new FormulaError('Formula is empty');
+
+  const { parts, charge } = new FormulaParser(text).parse();
+  const counts: Record<string, number> = {};
+  for (const part of parts) countNodes(part.nodes, part.coefficient, counts);
+
+  const masses = Object.entries(counts).map(([element, count]) => ({
+    element,
+    count,
+    mass: atomMass(element) * count,
+  }));
+  const molarMass = masses.reduce((total, { mass }) => total + mass, 0);
+  const composition = masses.map((entry) => ({
+    ...entry,
+    percent: (entry.mass / molarMass) * 100,
+  }));
+
+  const warnings = formulaWarnings(text, parts, counts);
+  return { formula: text, parts, charge, counts, molarMass, composition, warnings };
+}
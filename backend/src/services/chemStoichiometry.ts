@@ -0,0 +1,186 @@
+/**
+ * Stoichiometry
+ * Limiting reagent, theoretical and percent yield for a balanced equation, from
+ * reactant amounts in grams, moles or liters of gas at STP (0 °C, 1 atm)
+ */
+
+import { balanceEquation } from './chemBalance.js';
+import { FormulaError, parseFormula } from './chemFormula.js';
+
+export type AmountInput = string | number | { value: number | string; unit?: string };
+
+export interface StoichiometryOptions {
+  equation: string;
+  amounts: Record<string, AmountInput>; // by reactant formula, e.g. { H2: '4g' }
+  actualYield?: AmountInput | Record<string, AmountInput>; // bare amount: the first product
+}
+
+export interface Quantity {
+  moles: number;
+  grams: number;
+}
+
+export interface ReactantResult {
+  formula: string;
+  coefficient: number;
+  molarMass: number;
+  given: Quantity | null; // null: not given, assumed in excess
+  used: Quantity;
+  leftover: Quantity | null;
+  limiting: boolean;
+}
+
+export interface ProductResult {
+  formula: string;
+  coefficient: number;
+  molarMass: number;
+  theoreticalYield: Quantity;
+  actualYield?: Quantity;
+  percentYield?: number;
+  warning?: string; // set when the actual yield is more than the theoretical one
+}
+
+export interface StoichiometryResult {
+  equation: string; // balanced
+  extent: number; // moles of reaction: times the equation runs as written
+  limitingReagent: string;
+  reactants: ReactantResult[];
+  products: ProductResult[];
+}
+
+export const MOLAR_VOLUME_STP = 22.414; // L/mol, ideal gas at 0 °C and 1 atm
+
+// Unit -> [moles or grams, factor]
+const UNITS: Record<string, ['g' | 'mol' | 'L', number]> = {
+  g: ['g', 1],
+  mg: ['g', 1e-3],
+  kg: ['g', 1e3],
+  mol: ['mol', 1],
+  mmol: ['mol', 1e-3],
+  l: ['L', 1],
+  ml: ['L', 1e-3],
+};
+
+const isAmount = (value: unknown): value is AmountInput =>
+  typeof value === 'string' ||
+  typeof value === 'number' ||
+  (typeof value === 'object' && value !== null && 'value' in value);
+
+const round = (value: number) => Number(value.toPrecision(6));
+const quantity = (moles: number, molarMass: number): Quantity => ({
+  moles: round(moles),
+  grams: round(moles * molarMass),
+});
+
+/**
+ * Moles in "4g", "0.5 mol", "11.2L" or { value: 4, unit: 'g' }; grams when no unit
+ */
+export function toMoles(amount: AmountInput, molarMass: number, label: string): number {
+  const text =
+    typeof amount === 'object' && amount !== null
+      ? `${amount.value}${amount.unit ?? ''}`
+      : String(amount);
+  const match = /^\s*(\d*\.?\d+(?:e[+-]?\d+)?)\s*([a-z]*)\s*$/i.exec(text);
+  const unit = UNITS[(match?.[2] || 'g').toLowerCase()];
+  if (!match || !unit) {
+    throw new FormulaError(
+      `Bad amount for ${label}: "${text}" (use g, mg, kg, mol, mmol, L or mL)`
+    );
+  }
+
+  const value = Number(match[1]) * unit[1];
+  if (unit[0] === 'mol') return value;
+  if (unit[0] === 'L') return value / MOLAR_VOLUME_STP;
+  return value / molarMass;
+}
+
+/**
+ * Balance the equation, find the limiting reagent and the yields
+ */
+export function calculateStoichiometry(options: StoichiometryOptions): StoichiometryResult {
+  const balanced = balanceEquation(options.equation);
+  const bare = (formula: string) => formula.replace(/\s*\((?:aq|s|l|g)\)$/, '');
+  const molarMass = (formula: string) => parseFormula(bare(formula)).molarMass;
+
+  // Amount keys may leave out the state symbol: H2 for H2(g)
+  const findSpecies = <T extends { formula: string }>(list: T[], key: string) =>
+    list.find((s) => s.formula === key) ?? list.find((s) => bare(s.formula) === bare(key));
+
+  const given = new Map<string, number>();
+  for (const [key, amount] of Object.entries(options.amounts ?? {})) {
+    const species = findSpecies(balanced.reactants, key);
+    if (!species) {
+      throw new FormulaError(`${key} is not a reactant in ${balanced.balanced}`);
+    }
+    given.set(species.formula, toMoles(amount, molarMass(species.formula), key));
+  }
+  if (given.size === 0) throw new FormulaError('Give an amount for at least one reactant');
+
+  // The reactant that allows the fewest runs of the equation runs out first
+  let limitingReagent = '';
+  let extent = Infinity;
+  for (const { formula, coefficient } of balanced.reactants) {
+    const moles = given.get(formula);
+    if (moles !== undefined && moles / coefficient < extent) {
+      extent = moles / coefficient;
+      limitingReagent = formula;
+    }
+  }
+
+  const reactants = balanced.reactants.map(({ formula, coefficient }) => {
+    const mass = molarMass(formula);
+    const moles = given.get(formula);
+    const used = extent * coefficient;
+    return {
+      formula,
+      coefficient,
+      molarMass: round(mass),
+      given: moles === undefined ? null : quantity(moles, mass),
+      used: quantity(used, mass),
+      leftover: moles === undefined ? null : quantity(Math.max(moles - used, 0), mass),
+      limiting: formula === limitingReagent,
+    };
+  });
+
+  // Actual yields by product; a bare amount is for the first product
+  const actualYields = new Map<string, AmountInput>();
+  const actual = options.actualYield;
+  if (isAmount(actual)) {
+    actualYields.set(balanced.products[0].formula, actual);
+  } else {
+    for (const [key, amount] of Object.entries(actual ?? {})) {
+      const species = findSpecies(balanced.products, key);
+      if (!species) throw new FormulaError(`${key} is not a product in ${balanced.balanced}`);
+      actualYields.set(species.formula, amount);
+    }
+  }
+
+  const products = balanced.products.map(({ formula, coefficient }) => {
+    const mass = molarMass(formula);
+    const theoretical = extent * coefficient;
+    const product: ProductResult = {
+      formula,
+      coefficient,
+      molarMass: round(mass),
+      theoreticalYield: quantity(theoretical, mass),
+    };
+    const actualAmount = actualYields.get(formula);
+    if (actualAmount !== undefined) {
+      const moles = toMoles(actualAmount, mass, formula);
+      product.actualYield = quantity(moles, mass);
+      product.percentYield = round((moles / theoretical) * 100);
+      if (product.percentYield > 100) {
+        product.warning = `${formula} yield above 100%: the product is likely wet or impure, or an amount is wrong`;
+      }
+    }
+    return product;
+  });
+
+  return {
+    equation: balanced.balanced,
+    extent: round(extent),
+    limitingReagent,
+    reactants,
+    products,
+  };
+}
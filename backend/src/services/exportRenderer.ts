@@ -0,0 +1,253 @@
+/**
+ * Export Renderer Service
+ * Renders ASCII art (including ANSI colors) to HTML, SVG, PNG, plain text or raw ANSI
+ * PNG output rasterizes the SVG with a monospace font through Sharp
+ * Frame sequences are rasterized the same way and encoded as animated GIF or APNG
+ */
+
+import sharp from 'sharp';
+import { encodeApng, encodeGif, RgbaFrame } from './animationEncoder.js';
+import { AnsiSpan, parseAnsi, rgbToHex, stripAnsi } from './ansi.js';
+
+export type ExportFormat = 'html' | 'svg' | 'png' | 'txt' | 'ansi';
+export type AnimationFormat = 'gif' | 'apng';
+
+export interface ExportOptions {
+  fontSize?: number;
+  foreground?: string;
+  background?: string;
+  palette?: string;
+  title?: string;
+  columns?: number; // Minimum canvas size in cells, keeps animation frames aligned
+  rows?: number;
+}
+
+export interface AnimationOptions extends ExportOptions {
+  fps?: number;
+  colors?: number; // GIF palette size
+}
+
+export interface ExportResult {
+  data: Buffer;
+  contentType: string;
+  extension: string;
+}
+
+export const EXPORT_FORMATS: ExportFormat[] = ['html', 'svg', 'png', 'txt', 'ansi'];
+export const ANIMATION_FORMATS: AnimationFormat[] = ['gif', 'apng'];
+export const MAX_ANIMATION_FRAMES = 200;
+
+// Named color schemes, 'terminal' matches the app theme
+export const EXPORT_PALETTES: Record<string, { foreground: string; background: string }> = {
+  terminal: { foreground: '#00ff88', background: '#0a0a1a' },
+  amber: { foreground: '#ffb000', background: '#1a1000' },
+  ice: { foreground: '#7fdbff', background: '#001f3f' },
+  mono: { foreground: '#ffffff', background: '#000000' },
+  paper: { foreground: '#222222', background: '#fdf6e3' },
+};
+const FONT_FAMILY = "'DejaVu Sans Mono', 'Fira Code', Consolas, monospace";
+const CHAR_WIDTH = 0.6; // Advance width of a monospace glyph relative to the font size
+const LINE_HEIGHT = 1.2;
+
+// Only allow plain CSS color values into generated markup
+const sanitizeColor = (color: string | undefined, fallback: string): string =>
+  color && /^(#[0-9a-f]{3,8}|[a-z]+)$/i.test(color) ? color : fallback;
+
+// Explicit colors win over the palette
+const resolveColors = (options: ExportOptions) => {
+  const palette = EXPORT_PALETTES[options.palette || 'terminal'] || EXPORT_PALETTES.terminal;
+  return {
+    foreground: sanitizeColor(options.foreground, palette.foreground),
+    background: sanitizeColor(options.background, palette.background),
+  };
+};
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Drop trailing empty lines left by the converters
+const trimLines = (lines: AnsiSpan[][]): AnsiSpan[][] => {
+  const result = [...lines];
+  while (result.length > 1 && result[result.length - 1].every((s) => !s.text.trim())) {
+    result.pop();
+  }
+  return result;
+};
+
+// Longest line in characters; a reduce, as Math.max(...lines) overflows the stack on
+// large exports
+const widest = (lines: AnsiSpan[][]): number =>
+  lines.reduce((most, line) => Math.max(most, [...line.map((s) => s.text).join('')].length), 0);
+
+/**
+ * Self-contained HTML document with a colored <pre>
+ */
+export function renderHtml(ascii: string, options: ExportOptions = {}): string {
+  const { foreground, background } = resolveColors(options);
+  const fontSize = options.fontSize || 14;
+
+  const body = trimLines(parseAnsi(ascii))
+    .map((line) =>
+      line
+        .map((span) => {
+          const styles = [
+            span.fg ? `color:${rgbToHex(span.fg)}` : '',
+            span.bg ? `background:${rgbToHex(span.bg)}` : '',
+            span.bold ? 'font-weight:bold' : '',
+          ].filter(Boolean);
+          const text = escapeXml(span.text);
+          return styles.length ? `<span style="${styles.join(';')}">${text}</span>` : text;
+        })
+        .join('')
+    )
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeXml(options.title || 'ASCII Oracle Export')}</title>
+<style>
+  body { margin: 0; padding: 16px; background: ${background}; }
+  pre { margin: 0; color: ${foreground}; font: ${fontSize}px/${LINE_HEIGHT} ${FONT_FAMILY}; }
+</style>
+</head>
+<body>
+<pre>${body}</pre>
+</body>
+</html>
+`;
+}
+
+/**
+ * Vector SVG, one <text> per line with colored <tspan> runs positioned on the cell grid
+ */
+export function renderSvg(ascii: string, options: ExportOptions = {}): string {
+  const { foreground, background } = resolveColors(options);
+  const fontSize = options.fontSize || 14;
+  const cellWidth = fontSize * CHAR_WIDTH;
+  const lineHeight = fontSize * LINE_HEIGHT;
+  const padding = fontSize;
+
+  const lines = trimLines(parseAnsi(ascii));
+  const columns = Math.max(options.columns || 1, widest(lines));
+  const rows = Math.max(options.rows || 0, lines.length);
+  const width = Math.ceil(columns * cellWidth + padding * 2);
+  const height = Math.ceil(rows * lineHeight + padding * 2);
+
+  const backgrounds: string[] = [];
+  const texts = lines.map((line, row) => {
+    const y = padding + row * lineHeight;
+    let col = 0;
+
+    const tspans = line.map((span) => {
+      const length = [...span.text].length;
+      const x = (padding + col * cellWidth).toFixed(2);
+      if (span.bg) {
+        backgrounds.push(
+          `<rect x="${x}" y="${y.toFixed(2)}" width="${(length * cellWidth).toFixed(2)}" height="${lineHeight.toFixed(2)}" fill="${rgbToHex(span.bg)}"/>`
+        );
+      }
+      col += length;
+      const fill = span.fg ? ` fill="${rgbToHex(span.fg)}"` : '';
+      const weight = span.bold ? ' font-weight="bold"' : '';
+      return `<tspan x="${x}"${fill}${weight}>${escapeXml(span.text)}</tspan>`;
+    });
+
+    const baseline = (y + fontSize).toFixed(2);
+    return `<text y="${baseline}" xml:space="preserve">${tspans.join('')}</text>`;
+  });
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+<rect width="100%" height="100%" fill="${background}"/>
+${backgrounds.join('\n')}
+<g font-family="${escapeXml(FONT_FAMILY)}" font-size="${fontSize}" fill="${foreground}">
+${texts.join('\n')}
+</g>
+</svg>
+`;
+}
+
+/**
+ * Rasterized PNG drawn from the SVG rendering
+ */
+export async function renderPng(ascii: string, options: ExportOptions = {}): Promise<Buffer> {
+  return sharp(Buffer.from(renderSvg(ascii, options)))
+    .png()
+    .toBuffer();
+}
+
+/**
+ * Render ASCII art to the requested export format
+ */
+export async function exportAscii(
+  ascii: string,
+  format: ExportFormat,
+  options: ExportOptions = {}
+): Promise<ExportResult> {
+  switch (format) {
+    case 'html':
+      return {
+        data: Buffer.from(renderHtml(ascii, options)),
+        contentType: 'text/html; charset=utf-8',
+        extension: 'html',
+      };
+    case 'svg':
+      return {
+        data: Buffer.from(renderSvg(ascii, options)),
+        contentType: 'image/svg+xml',
+        extension: 'svg',
+      };
+    case 'png':
+      return {
+        data: await renderPng(ascii, options),
+        contentType: 'image/png',
+        extension: 'png',
+      };
+    case 'ansi':
+      return {
+        data: Buffer.from(ascii),
+        contentType: 'text/plain; charset=utf-8',
+        extension: 'ans',
+      };
+    case 'txt':
+    default:
+      return {
+        data: Buffer.from(stripAnsi(ascii)),
+        contentType: 'text/plain; charset=utf-8',
+        extension: 'txt',
+      };
+  }
+}
+
+/**
+ * Render a frame sequence to an animated GIF or APNG
+ * Every frame is drawn on the same cell grid so the art doesn't jump between frames
+ */
+export async function exportAnimation(
+  frames: string[],
+  format: AnimationFormat,
+  options: AnimationOptions = {}
+): Promise<ExportResult> {
+  const parsed = frames.map((frame) => trimLines(parseAnsi(frame)));
+  const columns = parsed.reduce((most, lines) => Math.max(most, widest(lines)), 1);
+  const rows = parsed.reduce((most, lines) => Math.max(most, lines.length), 1);
+
+  const rasters: RgbaFrame[] = [];
+  for (const frame of frames) {
+    const { data, info } = await sharp(Buffer.from(renderSvg(frame, { ...options, columns, rows })))
+      .ensureAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    rasters.push({ data, width: info.width, height: info.height });
+  }
+
+  const encodeOptions = {
+    delayMs: 1000 / Math.min(Math.max(options.fps || 4, 1), 50),
+    colors: options.colors,
+  };
+
+  return format === 'apng'
+    ? { data: encodeApng(rasters, encodeOptions), contentType: 'image/apng', extension: 'png' }
+    : { data: encodeGif(rasters, encodeOptions), contentType: 'image/gif', extension: 'gif' };
+}
@@ -0,0 +1,193 @@
+/**
+ * Glyph Matcher Service
+ * Structural ASCII conversion: picks the glyph whose rasterized shape best matches
+ * each image cell instead of only its average brightness
+ * Glyph coverage tiles are rendered once per font through Sharp and cached
+ */
+
+import sharp from 'sharp';
+
+export type MatchMetric = 'ssim' | 'mse';
+
+export const MATCH_METRICS: MatchMetric[] = ['ssim', 'mse'];
+
+// Coverage samples per glyph, horizontally and vertically
+export const GLYPH_TILE = { width: 4, height: 8 };
+
+export const DEFAULT_GLYPH_FONT = 'DejaVu Sans Mono';
+
+interface GlyphTile {
+  glyph: string;
+  coverage: Float32Array; // 0 = background, 1 = fully inked
+  mean: number;
+  variance: number;
+}
+
+export interface MatchOptions {
+  metric?: MatchMetric;
+  font?: string;
+}
+
+// Printable ASCII, the set every monospace font covers
+const PRINTABLE_ASCII = Array.from({ length: 95 }, (_, i) => String.fromCharCode(32 + i)).join('');
+
+// Each tile sample averages a SCALE x SCALE block of the rendered glyph
+const SCALE = 3;
+const CELL_WIDTH = GLYPH_TILE.width * SCALE;
+const CELL_HEIGHT = GLYPH_TILE.height * SCALE;
+const FONT_SIZE = CELL_WIDTH / 0.6; // Monospace advance is ~0.6em
+const BASELINE = CELL_HEIGHT * 0.78;
+
+// SSIM stabilizers for values in 0-1
+const C1 = 0.01 ** 2;
+const C2 = 0.03 ** 2;
+
+const MAX_CACHED_TABLES = 8;
+const tableCache = new Map<string, Promise<GlyphTile[]>>();
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const tileStats = (values: Float32Array) => {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+  return { mean, variance };
+};
+
+// Render every glyph side by side in one SVG strip and box-average it into tiles
+async function rasterizeGlyphs(glyphs: string, font: string): Promise<GlyphTile[]> {
+  const chars = [...glyphs];
+  const width = chars.length * CELL_WIDTH;
+  const texts = chars
+    .map(
+      (char, i) =>
+        `<text x="${i * CELL_WIDTH}" y="${BASELINE}" xml:space="preserve">${escapeXml(char)}</text>`
+    )
+    .join('');
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${CELL_HEIGHT}">
+<rect width="100%" height="100%" fill="#000"/>
+<g font-family="${escapeXml(font)}, monospace" font-size="${FONT_SIZE}" fill="#fff">${texts}</g>
+</svg>`;
+
+  const { data, info } = await sharp(Buffer.from(svg))
+    .grayscale()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  return chars.map((glyph, index) => {
+    const coverage = new Float32Array(GLYPH_TILE.width * GLYPH_TILE.height);
+
+    for (let ty = 0; ty < GLYPH_TILE.height; ty++) {
+      for (let tx = 0; tx < GLYPH_TILE.width; tx++) {
+        let sum = 0;
+        for (let dy = 0; dy < SCALE; dy++) {
+          for (let dx = 0; dx < SCALE; dx++) {
+            const x = index * CELL_WIDTH + tx * SCALE + dx;
+            const y = ty * SCALE + dy;
+            sum += data[(y * info.width + x) * info.channels];
+          }
+        }
+        coverage[ty * GLYPH_TILE.width + tx] = sum / (SCALE * SCALE * 255);
+      }
+    }
+
+    return { glyph, coverage, ...tileStats(coverage) };
+  });
+}
+
+/**
+ * Coverage tiles for a font, rendered on first use and cached afterwards
+ */
+export function getGlyphTable(
+  font: string = DEFAULT_GLYPH_FONT,
+  glyphs: string = PRINTABLE_ASCII
+): Promise<GlyphTile[]> {
+  const key = `${font}\n${glyphs}`;
+  let table = tableCache.get(key);
+
+  if (!table) {
+    // Evict the oldest font once the cache is full
+    if (tableCache.size >= MAX_CACHED_TABLES) {
+      tableCache.delete(tableCache.keys().next().value!);
+    }
+    table = rasterizeGlyphs(glyphs, font);
+    tableCache.set(key, table);
+    table.catch(() => tableCache.delete(key));
+  }
+
+  return table;
+}
+
+const ssim = (tile: Float32Array, glyph: GlyphTile): number => {
+  const { mean, variance } = tileStats(tile);
+  let covariance = 0;
+  for (let i = 0; i < tile.length; i++) {
+    covariance += (tile[i] - mean) * (glyph.coverage[i] - glyph.mean);
+  }
+  covariance /= tile.length;
+
+  return (
+    ((2 * mean * glyph.mean + C1) * (2 * covariance + C2)) /
+    ((mean ** 2 + glyph.mean ** 2 + C1) * (variance + glyph.variance + C2))
+  );
+};
+
+const mse = (tile: Float32Array, glyph: GlyphTile): number => {
+  let sum = 0;
+  for (let i = 0; i < tile.length; i++) {
+    sum += (tile[i] - glyph.coverage[i]) ** 2;
+  }
+  return sum / tile.length;
+};
+
+/**
+ * Pick the best matching glyph for every cell
+ * `gray` is a row-major pixel grid of columns x GLYPH_TILE.width by rows x GLYPH_TILE.height,
+ * bright pixels match inked glyph pixels (light text on a dark terminal)
+ */
+export async function matchGlyphs(
+  gray: Uint8Array,
+  columns: number,
+  rows: number,
+  options: MatchOptions = {}
+): Promise<string[]> {
+  const { metric = 'ssim', font = DEFAULT_GLYPH_FONT } = options;
+  const table = await getGlyphTable(font);
+  const pixelWidth = columns * GLYPH_TILE.width;
+
+  // Glyphs never cover a whole cell, so white is pulled halfway toward the densest glyph:
+  // solid areas still match heavy glyphs while thin bright lines keep matching strokes
+  const densest = Math.max(...table.map((glyph) => glyph.mean));
+  const scale = (densest + 1) / 2 / 255;
+
+  const tile = new Float32Array(GLYPH_TILE.width * GLYPH_TILE.height);
+  const result: string[] = [];
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < columns; col++) {
+      for (let ty = 0; ty < GLYPH_TILE.height; ty++) {
+        for (let tx = 0; tx < GLYPH_TILE.width; tx++) {
+          const x = col * GLYPH_TILE.width + tx;
+          const y = row * GLYPH_TILE.height + ty;
+          tile[ty * GLYPH_TILE.width + tx] = gray[y * pixelWidth + x] * scale;
+        }
+      }
+
+      let best = table[0];
+      let bestScore = metric === 'ssim' ? -Infinity : Infinity;
+
+      for (const glyph of table) {
+        const score = metric === 'ssim' ? ssim(tile, glyph) : mse(tile, glyph);
+        if (metric === 'ssim' ? score > bestScore : score < bestScore) {
+          best = glyph;
+          bestScore = score;
+        }
+      }
+
+      result.push(best.glyph);
+    }
+  }
+
+  return result;
+}
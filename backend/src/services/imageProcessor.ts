@@ -1,16 +1,53 @@
 /**
  * Image Processor Service
  * Converts images to ASCII art using Sharp
- * Supports multiple character sets and color modes
+ * Supports multiple character sets, color modes and glyph selection algorithms
+ * Sub-cell charsets (halfblock, quadrant, braille) pack several pixels into each cell
+ * mode=structural matches glyph shapes against rasterized font tiles
+ * Ramps come from the shared charset registry (built-in, saved or custom)
  */
 
 import sharp from 'sharp';
+import { colorEscape, ColorMode } from './ansi.js';
+import { AsciiAlgorithm, applyToneCurve, selectGlyphs } from './asciiAlgorithms.js';
+import { BUILTIN_RAMPS, BuiltinRamp, getCharset, resolveRamp } from './charsetRegistry.js';
+import { GLYPH_TILE, matchGlyphs, MatchMetric } from './glyphMatcher.js';
+import {
+  isSubcellCharset,
+  renderSubcells,
+  SubcellCharset,
+  SUBCELL_LAYOUTS,
+} from './subcellRenderer.js';
 
-interface AsciiOptions {
+export type { AsciiAlgorithm, ColorMode, MatchMetric };
+
+// ramp maps brightness to a charset, structural matches glyph shapes
+export type AsciiMode = 'ramp' | 'structural';
+
+export const ASCII_MODES: AsciiMode[] = ['ramp', 'structural'];
+
+export type AsciiCharset = BuiltinRamp | SubcellCharset;
+
+export const ASCII_CHARSETS = [
+  ...Object.keys(BUILTIN_RAMPS),
+  ...Object.keys(SUBCELL_LAYOUTS),
+] as AsciiCharset[];
+
+export interface AsciiOptions {
   width?: number;
-  charset?: 'standard' | 'blocks' | 'minimal' | 'detailed';
+  charset?: AsciiCharset | string; // Built-in, sub-cell or saved charset name
+  ramp?: string; // Custom characters, override the charset ramp
+  sortRamp?: boolean; // Sort a custom ramp by measured glyph density (default true)
+  gamma?: number;
+  contrast?: number;
   invert?: boolean;
+  algorithm?: AsciiAlgorithm;
+  mode?: AsciiMode;
+  metric?: MatchMetric; // Structural mode only
+  font?: string; // Structural mode only
   color?: boolean;
+  colorMode?: ColorMode;
+  compress?: boolean; // Only emit an escape sequence when the color changes
 }
 
 interface ProcessOptions {
@@ -23,13 +60,30 @@ interface ProcessOptions {
   brightness?: number;
 }
 
-// Character sets for ASCII conversion (ordered dark to light)
-const CHARSETS = {
-  standard: ' .:-=+*#%@',
-  blocks: ' ░▒▓█',
-  minimal: ' .*#',
-  detailed: ' .\'`^",:;Il!i><~+_-?][}{1)(|\\/tfjrxnuvczXYUJCLQ0OZmwqpdbkhao*#MW&8%B@$',
-};
+// Terminal cells are roughly twice as tall as they are wide
+export const CELL_ASPECT_RATIO = 0.45;
+
+/**
+ * Output size in cells and the pixel grid to sample for a charset
+ * Rows keep the cell aspect ratio, sub-cell modes sample more pixels per cell
+ * (halfblock pixels come out close to square: 0.45 * 2 / 1 = 0.9)
+ */
+export function asciiGridSize(
+  width: number,
+  sourceWidth: number,
+  sourceHeight: number,
+  charset: string = 'standard'
+): { columns: number; rows: number; pixelWidth: number; pixelHeight: number } {
+  const layout = isSubcellCharset(charset) ? SUBCELL_LAYOUTS[charset] : { columns: 1, rows: 1 };
+  const rows = Math.max(1, Math.round(((width * sourceHeight) / sourceWidth) * CELL_ASPECT_RATIO));
+
+  return {
+    columns: width,
+    rows,
+    pixelWidth: width * layout.columns,
+    pixelHeight: rows * layout.rows,
+  };
+}
 
 /**
  * Convert image buffer to ASCII art
@@ -39,14 +93,13 @@ export async function imageToAscii(buffer: Buffer, options: AsciiOptions = {}):
     width = 80,
     charset = 'standard',
     invert = false,
+    algorithm = 'brightness',
+    mode = 'ramp',
+    gamma,
+    contrast,
     // color = false
   } = options;
 
-  const chars = CHARSETS[charset] || CHARSETS.standard;
-
-  // Calculate aspect ratio correction (terminal chars are ~2x tall as wide)
-  const aspectRatio = 0.45;
-
   // Process image with Sharp
   const image = sharp(buffer);
   const metadata = await image.metadata();
@@ -55,49 +108,120 @@ export async function imageToAscii(buffer: Buffer, options: AsciiOptions = {}):
     throw new Error('Unable to read image dimensions');
   }
 
-  // Calculate height based on width and aspect ratio
-  const height = Math.round(((width * metadata.height) / metadata.width) * aspectRatio);
+  if (mode === 'structural') {
+    const { columns, rows } = asciiGridSize(width, metadata.width, metadata.height);
+    const glyphs = await structuralGlyphs(image, columns, rows, options);
+    return joinRows(glyphs, columns, rows);
+  }
+
+  // Pixel grid corrected for the cell aspect ratio (terminal chars are ~2x tall as wide)
+  const { pixelWidth, pixelHeight } = asciiGridSize(
+    width,
+    metadata.width,
+    metadata.height,
+    charset
+  );
 
   // Resize and convert to raw pixel data
   const { data, info } = await image
-    .resize(width, height, { fit: 'fill' })
+    .resize(pixelWidth, pixelHeight, { fit: 'fill' })
     .grayscale()
     .raw()
     .toBuffer({ resolveWithObject: true });
 
+  const ramp = isSubcellCharset(charset) ? undefined : await resolveRamp(options);
+
+  return grayToAscii(data, info.width, info.height, info.channels, {
+    charset,
+    ramp,
+    invert,
+    algorithm,
+    gamma,
+    contrast,
+  });
+}
+
+// Row-major glyphs to newline separated text
+const joinRows = (glyphs: string[], columns: number, rows: number): string => {
   let ascii = '';
+  for (let y = 0; y < rows; y++) {
+    ascii += glyphs.slice(y * columns, (y + 1) * columns).join('') + '\n';
+  }
+  return ascii;
+};
 
-  for (let y = 0; y < info.height; y++) {
-    for (let x = 0; x < info.width; x++) {
-      const idx = (y * info.width + x) * info.channels;
-      let brightness = data[idx]; // Grayscale value
+// Glyph per cell for mode=structural, sampled at GLYPH_TILE pixels per cell
+async function structuralGlyphs(
+  image: sharp.Sharp,
+  columns: number,
+  rows: number,
+  options: AsciiOptions
+): Promise<string[]> {
+  const { data, info } = await image
+    .clone()
+    .resize(columns * GLYPH_TILE.width, rows * GLYPH_TILE.height, { fit: 'fill' })
+    .grayscale()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
 
-      // Invert if requested
-      if (invert) {
-        brightness = 255 - brightness;
-      }
+  const gray = applyToneCurve(
+    Uint8Array.from({ length: info.width * info.height }, (_, i) => data[i * info.channels]),
+    options
+  ).map((value) => (options.invert ? 255 - value : value));
 
-      // Map brightness to character
-      const charIdx = Math.floor((brightness / 255) * (chars.length - 1));
-      ascii += chars[charIdx];
-    }
-    ascii += '\n';
+  return matchGlyphs(gray, columns, rows, { metric: options.metric, font: options.font });
+}
+
+/**
+ * Map raw grayscale pixels to ASCII using the shared charsets
+ * Used for Sharp output as well as raw frames piped from FFmpeg
+ * For sub-cell charsets width/height are the pixel grid from asciiGridSize
+ * `ramp` is used as given, resolve custom ramps with resolveRamp beforehand
+ */
+export function grayToAscii(
+  data: Buffer,
+  width: number,
+  height: number,
+  channels: number,
+  options: Pick<
+    AsciiOptions,
+    'charset' | 'ramp' | 'invert' | 'algorithm' | 'gamma' | 'contrast'
+  > = {}
+): string {
+  const { charset = 'standard', ramp, invert = false, algorithm = 'brightness' } = options;
+
+  const luminance = Uint8Array.from({ length: width * height }, (_, i) => data[i * channels]);
+  const toned = applyToneCurve(luminance, options);
+
+  if (isSubcellCharset(charset)) {
+    return renderSubcells(toned, width, height, { charset, algorithm, invert });
   }
 
-  return ascii;
+  const chars = ramp || getCharset(charset) || BUILTIN_RAMPS.standard;
+
+  // Grayscale value of every cell, inverted if requested
+  const gray = invert ? toned.map((value) => 255 - value) : toned;
+
+  return joinRows(selectGlyphs(gray, width, height, chars, algorithm), width, height);
 }
 
 /**
  * Convert image to colored ASCII (ANSI escape codes)
+ * Supports 24-bit, 256-color and 16-color output, optionally run-length compressed
  */
 export async function imageToColorAscii(
   buffer: Buffer,
   options: AsciiOptions = {}
 ): Promise<string> {
-  const { width = 80, charset = 'blocks', invert = false } = options;
-
-  const chars = CHARSETS[charset] || CHARSETS.blocks;
-  const aspectRatio = 0.45;
+  const {
+    width = 80,
+    charset = 'blocks',
+    invert = false,
+    algorithm = 'brightness',
+    mode = 'ramp',
+    colorMode = 'truecolor',
+    compress = false,
+  } = options;
 
   const image = sharp(buffer);
   const metadata = await image.metadata();
@@ -106,20 +230,61 @@ export async function imageToColorAscii(
     throw new Error('Unable to read image dimensions');
   }
 
-  const height = Math.round(((width * metadata.height) / metadata.width) * aspectRatio);
-
-  // Get RGB data
+  // Structural mode picks its own glyphs, so sub-cell charsets don't apply
+  const structural = mode === 'structural';
+  const { columns, rows, pixelWidth, pixelHeight } = asciiGridSize(
+    width,
+    metadata.width,
+    metadata.height,
+    structural ? 'standard' : charset
+  );
+  const structuralMatches = structural
+    ? await structuralGlyphs(image, columns, rows, options)
+    : undefined;
+
+  // Brightness drives character selection, the pixel color drives the escape code.
+  // Brightness comes from the same grayscale conversion as imageToAscii
+  const luma = await image
+    .clone()
+    .resize(pixelWidth, pixelHeight, { fit: 'fill' })
+    .grayscale()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
   const { data, info } = await image
-    .resize(width, height, { fit: 'fill' })
+    .resize(pixelWidth, pixelHeight, { fit: 'fill' })
     .removeAlpha()
+    .toColourspace('srgb')
     .raw()
     .toBuffer({ resolveWithObject: true });
 
+  const luminance = Uint8Array.from(
+    { length: info.width * info.height },
+    (_, i) => luma.data[i * luma.info.channels]
+  );
+  const gray = applyToneCurve(luminance, options);
+
+  if (isSubcellCharset(charset) && !structural) {
+    // Inverts brightness and color itself
+    return renderSubcells(gray, info.width, info.height, {
+      charset,
+      algorithm,
+      invert,
+      color: { data, channels: info.channels, mode: colorMode, compress },
+    });
+  }
+
+  const chars = await resolveRamp({ ...options, charset });
+  const source = invert ? gray.map((value) => 255 - value) : gray;
+  const glyphs =
+    structuralMatches || selectGlyphs(source, info.width, info.height, chars, algorithm);
+
   let ascii = '';
 
   for (let y = 0; y < info.height; y++) {
+    let lastEscape = '';
+
     for (let x = 0; x < info.width; x++) {
-      const idx = (y * info.width + x) * 3;
+      const idx = (y * info.width + x) * info.channels;
       let r = data[idx];
       let g = data[idx + 1];
       let b = data[idx + 2];
@@ -130,14 +295,20 @@ export async function imageToColorAscii(
         b = 255 - b;
       }
 
-      // Calculate brightness for character selection
-      const brightness = (r + g + b) / 3;
-      const charIdx = Math.floor((brightness / 255) * (chars.length - 1));
-
-      // ANSI true color escape sequence
-      ascii += `\x1b[38;2;${r};${g};${b}m${chars[charIdx]}\x1b[0m`;
+      const glyph = glyphs[y * info.width + x];
+      const escape = colorEscape(r, g, b, colorMode);
+
+      if (!compress) {
+        ascii += `${escape}${glyph}\x1b[0m`;
+      } else if (escape !== lastEscape) {
+        // Run-length: consecutive cells with the same color share one escape sequence
+        ascii += escape + glyph;
+        lastEscape = escape;
+      } else {
+        ascii += glyph;
+      }
     }
-    ascii += '\n';
+    ascii += compress ? '\x1b[0m\n' : '\n';
   }
 
   return ascii;
@@ -0,0 +1,258 @@
+/**
+ * Job Queue Service
+ * Runs long media conversions in the background with bounded concurrency
+ * Tracks progress/ETA, supports cancellation and cleans up temp directories
+ */
+
+import { EventEmitter } from 'events';
+import fs from 'fs/promises';
+import { v4 as uuidv4 } from 'uuid';
+import { imageToAscii } from './imageProcessor.js';
+import { ProcessingOptions, streamVideoFrames, VideoFrame } from './videoProcessor.js';
+
+export type JobType = 'video-ascii' | 'image-ascii';
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface JobProgress {
+  processed: number;
+  total: number;
+  percent: number;
+  etaSeconds: number | null;
+}
+
+export interface JobInput {
+  type: JobType;
+  filePath: string;
+  tempDir: string;
+  originalName: string;
+  options: ProcessingOptions;
+}
+
+export interface Job extends JobInput {
+  id: string;
+  status: JobStatus;
+  progress: JobProgress;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  meta?: { fps: number; width: number; height: number; duration: number };
+  frames: VideoFrame[];
+  ascii?: string;
+  error?: string;
+  events: EventEmitter;
+  cancel?: () => void;
+  timeout?: NodeJS.Timeout;
+}
+
+const MAX_CONCURRENT_JOBS = parseInt(process.env.MAX_CONCURRENT_JOBS || '2', 10);
+const MAX_QUEUED_JOBS = 20;
+const JOB_TIMEOUT_MS = 10 * 60 * 1000; // Kill conversions that run longer than 10 minutes
+const JOB_RETENTION_MS = 15 * 60 * 1000; // Keep finished jobs around for 15 minutes
+
+class JobQueue {
+  private jobs = new Map<string, Job>();
+  private pending: string[] = [];
+  private running = 0;
+
+  /**
+   * Queue a new conversion, throws when the queue is full
+   */
+  enqueue(input: JobInput): Job {
+    if (this.pending.length >= MAX_QUEUED_JOBS) {
+      throw new Error('Job queue is full, please try again later');
+    }
+
+    const job: Job = {
+      ...input,
+      id: uuidv4(),
+      status: 'queued',
+      progress: { processed: 0, total: 0, percent: 0, etaSeconds: null },
+      createdAt: Date.now(),
+      frames: [],
+      events: new EventEmitter(),
+    };
+
+    this.jobs.set(job.id, job);
+    this.pending.push(job.id);
+    this.next();
+
+    return job;
+  }
+
+  get(id: string): Job | undefined {
+    return this.jobs.get(id);
+  }
+
+  /**
+   * Cancel a queued or running job, killing its FFmpeg child if any
+   */
+  cancel(id: string): Job | undefined {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+
+    if (job.status === 'queued') {
+      this.pending = this.pending.filter((pendingId) => pendingId !== id);
+      this.finish(job, 'cancelled');
+    } else if (job.status === 'running') {
+      job.status = 'cancelled';
+      job.cancel?.();
+    }
+
+    return job;
+  }
+
+  /**
+   * Public view of a job (without frame data)
+   */
+  serialize(job: Job) {
+    return {
+      id: job.id,
+      type: job.type,
+      status: job.status,
+      progress: job.progress,
+      originalName: job.originalName,
+      meta: job.meta,
+      createdAt: new Date(job.createdAt).toISOString(),
+      startedAt: job.startedAt ? new Date(job.startedAt).toISOString() : undefined,
+      finishedAt: job.finishedAt ? new Date(job.finishedAt).toISOString() : undefined,
+      error: job.error,
+      result:
+        job.status === 'completed'
+          ? job.type === 'image-ascii'
+            ? { ascii: job.ascii }
+            : { frameCount: job.frames.length, fps: job.meta?.fps }
+          : undefined,
+    };
+  }
+
+  stats() {
+    return {
+      running: this.running,
+      queued: this.pending.length,
+      maxConcurrent: MAX_CONCURRENT_JOBS,
+    };
+  }
+
+  // Start queued jobs while there is spare capacity
+  private next(): void {
+    while (this.running < MAX_CONCURRENT_JOBS && this.pending.length > 0) {
+      const job = this.jobs.get(this.pending.shift()!);
+      if (job) this.run(job);
+    }
+  }
+
+  // Mark a job as running and arm its timeout
+  private start(job: Job): void {
+    this.running++;
+    job.status = 'running';
+    job.startedAt = Date.now();
+    job.events.emit('progress', job.progress);
+
+    job.timeout = setTimeout(() => {
+      job.error = 'Job timed out';
+      job.cancel?.();
+    }, JOB_TIMEOUT_MS);
+  }
+
+  private async run(job: Job): Promise<void> {
+    this.start(job);
+
+    try {
+      if (job.type === 'video-ascii') {
+        await this.runVideo(job);
+      } else {
+        await this.runImage(job);
+      }
+
+      if (job.error) {
+        this.finish(job, 'failed');
+      } else {
+        this.finish(job, job.status === 'cancelled' ? 'cancelled' : 'completed');
+      }
+    } catch (error) {
+      job.error = error instanceof Error ? error.message : 'Job failed';
+      this.finish(job, 'failed');
+    } finally {
+      this.running--;
+      this.next();
+    }
+  }
+
+  private async runVideo(job: Job): Promise<void> {
+    const stream = await streamVideoFrames(job.filePath, job.options, (frame) => {
+      job.frames.push(frame);
+      job.events.emit('frame', frame);
+      this.updateProgress(job, job.frames.length);
+    });
+
+    job.cancel = stream.cancel;
+    job.meta = {
+      fps: stream.fps,
+      width: stream.width,
+      height: stream.height,
+      duration: stream.duration,
+    };
+
+    const expected = Math.ceil(stream.duration * stream.fps) || 1;
+    job.progress.total = job.options.maxFrames
+      ? Math.min(expected, job.options.maxFrames)
+      : expected;
+    job.events.emit('meta', job.meta);
+
+    // A job cancelled while FFprobe was running still spawned FFmpeg
+    if (job.status === 'cancelled' || job.error) stream.cancel();
+
+    await stream.done;
+
+    if (job.status === 'running' && !job.error && job.frames.length === 0) {
+      job.error = 'No frames extracted from video';
+    }
+    job.progress.total = job.frames.length;
+  }
+
+  private async runImage(job: Job): Promise<void> {
+    job.progress.total = 1;
+    const buffer = await fs.readFile(job.filePath);
+    job.ascii = await imageToAscii(buffer, job.options);
+    this.updateProgress(job, 1);
+  }
+
+  private updateProgress(job: Job, processed: number): void {
+    const total = Math.max(job.progress.total, processed);
+    const elapsed = (Date.now() - (job.startedAt || Date.now())) / 1000;
+    const remaining = total - processed;
+
+    job.progress = {
+      processed,
+      total,
+      percent: Math.round((processed / total) * 100),
+      etaSeconds: processed > 0 ? Math.round((elapsed / processed) * remaining) : null,
+    };
+    job.events.emit('progress', job.progress);
+  }
+
+  // Move a job to a terminal state, release its temp dir and schedule eviction
+  private finish(job: Job, status: JobStatus): void {
+    clearTimeout(job.timeout);
+    job.status = status;
+    job.finishedAt = Date.now();
+    if (status === 'completed') {
+      job.progress = {
+        ...job.progress,
+        processed: job.progress.total,
+        percent: 100,
+        etaSeconds: 0,
+      };
+    }
+
+    job.events.emit('done', status);
+    job.events.removeAllListeners();
+
+    fs.rm(job.tempDir, { recursive: true, force: true }).catch(() => undefined);
+
+    setTimeout(() => this.jobs.delete(job.id), JOB_RETENTION_MS).unref();
+  }
+}
+
+export const jobQueue = new JobQueue();
+export default jobQueue;
@@ -0,0 +1,1117 @@
+/**
+ * Math Engine
+ * Pure TypeScript stand-in for python/math_solver.py, used by the Python bridge when
+ * Python or SymPy is unavailable. Same arguments and result shape as the script:
+ * symbolic where the rules below apply, numeric (adaptive Simpson, sampled limits,
+ * Durand-Kerner roots) otherwise
+ */
+
+import { runBalanceScript } from './chemBalance.js';
+import { FormulaError } from './chemFormula.js';
+import type { PythonResult } from './pythonBridge.js';
+import {
+  Expr,
+  FunctionName,
+  MathError,
+  ONE,
+  ZERO,
+  add,
+  compile,
+  dependsOn,
+  div,
+  evaluate,
+  expand,
+  fn,
+  commonDenominator,
+  isValue,
+  key,
+  mul,
+  neg,
+  num,
+  parse,
+  pow,
+  simplify,
+  sub,
+  substitute,
+  sym,
+  symbols,
+  toLatex,
+  toString,
+  together,
+} from './mathExpression.js';
+import {
+  cancelPolynomials,
+  factorPolynomial,
+  polynomialCoefficients,
+  polynomialRoots,
+} from './mathPolynomial.js';
+import {
+  Box,
+  pretty,
+  prettyCall,
+  prettyDerivative,
+  prettyEquation,
+  prettyExpr,
+  prettyIntegral,
+  prettyLimit,
+  prettyLines,
+  prettyTerms,
+  render,
+  row,
+  text,
+} from './mathPretty.js';
+import { runMatrixOperation, rowReduce } from './matrixEngine.js';
+
+type MathArgs = Record<string, string | undefined>;
+
+const MAX_DIFF_ORDER = 10;
+const MAX_SERIES_ORDER = 20;
+const SCAN_RANGE = 100; // Non-polynomial equations are searched for roots in [-100, 100]
+const SCAN_SAMPLES = 4000;
+const MAX_SCAN_ROOTS = 12; // More than this in the scan usually means a periodic equation
+
+// argument parsing
+
+function parseVariables(text = 'x'): string[] {
+  const names = text.split(/[\s,]+/).filter(Boolean);
+  if (names.length === 0 || !names.every((name) => /^[A-Za-z][A-Za-z0-9_]*$/.test(name))) {
+    throw new MathError(`Invalid variable: ${text}`);
+  }
+  return names;
+}
+
+function singleVariable(args: MathArgs): string {
+  const variables = parseVariables(args.variable);
+  if (variables.length !== 1) throw new MathError('Exactly one variable is required');
+  return variables[0];
+}
+
+function intArg(args: MathArgs, name: string, fallback: number, highest: number): number {
+  const value = Number(args[name] || fallback);
+  if (!Number.isInteger(value)) throw new MathError(`${name} must be an integer`);
+  if (value < 1 || value > highest) throw new MathError(`${name} must be between 1 and ${highest}`);
+  return value;
+}
+
+// Split on separators outside brackets: "x + y = 2, log(8, 2) = x" -> 2 parts
+export function splitTopLevel(text: string, separators: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of text) {
+    if ('([{'.includes(char)) depth++;
+    if (')]}'.includes(char)) depth--;
+    if (depth === 0 && separators.includes(char)) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.map((part) => part.trim()).filter(Boolean);
+}
+
+function parseEquation(text: string): { lhs: Expr; rhs: Expr } {
+  const sides = text.split('=');
+  if (sides.length > 2) throw new MathError(`Invalid equation: ${text}`);
+  return { lhs: parse(sides[0]), rhs: sides.length === 2 ? parse(sides[1]) : ZERO };
+}
+
+// The built value, or null when building it raised a MathError (too large, unsupported)
+function attempt<T>(build: () => T): T | null {
+  try {
+    return build();
+  } catch (error) {
+    if (error instanceof MathError) return null;
+    throw error;
+  }
+}
+
+function exprResult(
+  expr: Expr,
+  latex: string,
+  steps: string[],
+  extra: Record<string, unknown> = {}
+): PythonResult {
+  const output: PythonResult = {
+    success: true,
+    result: toString(expr),
+    latex,
+    pretty: pretty(expr),
+    steps,
+  };
+  const numeric = evaluate(expr);
+  if (Number.isFinite(numeric)) output.numeric = numeric;
+  return { ...output, ...extra };
+}
+
+const round = (value: number) => Number(value.toPrecision(12));
+
+// "x = 2" blocks one after another, as the Python script prints solutions
+const prettySolutions = (solutions: [string, Expr][]): string =>
+  render(
+    prettyLines(solutions.map(([name, value]) => prettyEquation(text(name), prettyExpr(value))))
+  );
+
+// differentiation
+
+// d/du of each function, evaluated at u
+function outerDerivative(name: FunctionName, u: Expr): Expr {
+  switch (name) {
+    case 'sin':
+      return fn('cos', u);
+    case 'cos':
+      return neg(fn('sin', u));
+    case 'tan':
+      return add(pow(fn('tan', u), num(2)), ONE);
+    case 'asin':
+      return pow(sub(ONE, pow(u, num(2))), num(-1, 2));
+    case 'acos':
+      return neg(pow(sub(ONE, pow(u, num(2))), num(-1, 2)));
+    case 'atan':
+      return pow(add(pow(u, num(2)), ONE), num(-1));
+    case 'sinh':
+      return fn('cosh', u);
+    case 'cosh':
+      return fn('sinh', u);
+    case 'tanh':
+      return sub(ONE, pow(fn('tanh', u), num(2)));
+    case 'exp':
+      return fn('exp', u);
+    case 'log':
+      return pow(u, num(-1));
+    case 'Abs':
+      return div(u, fn('Abs', u));
+    case 'floor':
+    case 'ceiling':
+      return ZERO; // Away from the jumps
+  }
+}
+
+function derivative(e: Expr, variable: string): Expr {
+  if (!dependsOn(e, variable)) return ZERO;
+
+  switch (e.type) {
+    case 'sym':
+      return ONE;
+    case 'add':
+      return add(...e.terms.map((term) => derivative(term, variable)));
+    case 'mul':
+      // Product rule
+      return add(
+        ...e.factors.map((factor, i) =>
+          mul(derivative(factor, variable), ...e.factors.filter((_, j) => j !== i))
+        )
+      );
+    case 'pow':
+      if (!dependsOn(e.exp, variable)) {
+        return mul(e.exp, pow(e.base, sub(e.exp, ONE)), derivative(e.base, variable));
+      }
+      if (!dependsOn(e.base, variable)) {
+        return mul(e, fn('log', e.base), derivative(e.exp, variable));
+      }
+      // f^g = exp(g*log(f))
+      return mul(e, derivative(mul(e.exp, fn('log', e.base)), variable));
+    case 'fn':
+      // Chain rule
+      return mul(outerDerivative(e.name, e.arg), derivative(e.arg, variable));
+    default:
+      return ZERO;
+  }
+}
+
+/**
+ * Symbolic derivative of `e` with respect to `variable`
+ */
+export function differentiate(e: Expr, variable: string): Expr {
+  return simplify(derivative(e, variable));
+}
+
+// Name of the rule `derivative` applies at the top of e
+function derivativeRule(e: Expr, variable: string): string {
+  const x = sym(variable);
+  switch (e.type) {
+    case 'add':
+      return 'Sum rule';
+    case 'mul': {
+      const dependent = e.factors.filter((factor) => dependsOn(factor, variable));
+      if (dependent.length === 1) return 'Constant multiple';
+      const quotient = dependent.some(
+        (factor) => factor.type === 'pow' && evaluate(factor.exp) < 0
+      );
+      return quotient ? 'Quotient rule' : 'Product rule';
+    }
+    case 'pow':
+      if (dependsOn(e.base, variable) && dependsOn(e.exp, variable)) {
+        return 'Logarithmic differentiation';
+      }
+      if (dependsOn(e.exp, variable)) {
+        return key(e.exp) === key(x) ? 'Exponential rule' : 'Exponential rule + chain rule';
+      }
+      return key(e.base) === key(x) ? 'Power rule' : 'Power rule + chain rule';
+    case 'fn':
+      return key(e.arg) === key(x) ? `Derivative of ${e.name}` : 'Chain rule';
+    default:
+      return 'Differentiate';
+  }
+}
+
+/**
+ * One step per subexpression that depends on `variable`, outermost rule first
+ */
+export function derivativeSteps(e: Expr, variable: string): string[] {
+  const steps: string[] = [];
+  const visit = (node: Expr) => {
+    if (node.type === 'sym' || !dependsOn(node, variable)) return;
+    const result = simplest(differentiate(node, variable));
+    steps.push(
+      `${derivativeRule(node, variable)}: d/d${variable}[${toString(node)}] = ${toString(result)}`
+    );
+    if (node.type === 'add') node.terms.forEach(visit);
+    if (node.type === 'mul') node.factors.forEach(visit);
+    if (node.type === 'pow') [node.base, node.exp].forEach(visit);
+    if (node.type === 'fn') visit(node.arg);
+  };
+  visit(e);
+  return [...new Set(steps)];
+}
+
+// integration
+
+const SUBSTITUTE = '__u'; // Placeholder variable for substitutions, never produced by the parser
+
+// An antiderivative with the name of the rule that found it and how it was applied
+type Integral = { rule: string; integral: Expr; detail?: string };
+
+// ∫ f(u) du for the table functions
+function tableIntegral(name: FunctionName, u: Expr): Expr | null {
+  switch (name) {
+    case 'sin':
+      return neg(fn('cos', u));
+    case 'cos':
+      return fn('sin', u);
+    case 'tan':
+      return neg(fn('log', fn('cos', u)));
+    case 'exp':
+      return fn('exp', u);
+    case 'sinh':
+      return fn('cosh', u);
+    case 'cosh':
+      return fn('sinh', u);
+    case 'log':
+      return sub(mul(u, fn('log', u)), u);
+    default:
+      return null;
+  }
+}
+
+// ∫ u^n du
+const powerIntegral = (u: Expr, n: Expr): Expr =>
+  isValue(n, -1) ? fn('log', u) : div(pow(u, add(n, ONE)), add(n, ONE));
+
+// Outer function f and inner u of e = f(u), with ∫ f(u) du and the rule used for it
+function outerIntegral(
+  e: Expr,
+  variable: string
+): { inner: Expr; integral: Expr; rule: string } | null {
+  if (e.type === 'fn') {
+    const integral = tableIntegral(e.name, e.arg);
+    const rule = e.name === 'exp' ? 'Exponential rule' : `Standard integral of ${e.name}`;
+    return integral && { inner: e.arg, integral, rule };
+  }
+  if (e.type === 'pow' && !dependsOn(e.exp, variable)) {
+    const rule = isValue(e.exp, -1) ? 'Reciprocal rule' : 'Power rule';
+    return { inner: e.base, integral: powerIntegral(e.base, e.exp), rule };
+  }
+  if (e.type === 'pow' && !dependsOn(e.base, variable)) {
+    return { inner: e.exp, integral: div(e, fn('log', e.base)), rule: 'Exponential rule' };
+  }
+  return null;
+}
+
+// Coefficient a when u = a*x + b, null otherwise
+function linearSlope(u: Expr, variable: string): Expr | null {
+  const coefficients = polynomialCoefficients(u, variable);
+  if (!coefficients || coefficients.length !== 2) return null;
+  return coefficients[1];
+}
+
+// f(a*x + b) integrates to F(a*x + b)/a
+function linearSubstitution(e: Expr, variable: string): Integral | null {
+  const outer = outerIntegral(e, variable);
+  const slope = outer && linearSlope(outer.inner, variable);
+  if (!outer || !slope) return null;
+
+  const integral = div(outer.integral, slope);
+  if (outer.inner.type === 'sym') return { rule: outer.rule, integral };
+  const detail = `${SUBSTITUTE} = ${toString(outer.inner)}`;
+  return { rule: 'Linear substitution', integral, detail };
+}
+
+// ∫ f(u(x)) u'(x) dx = F(u(x)): look for a factor whose inner derivative is the rest
+function substitutionIntegral(factors: Expr[], variable: string, steps: string[]): Integral | null {
+  const u = sym(SUBSTITUTE);
+
+  for (const [i, factor] of factors.entries()) {
+    const rest = factors.filter((_, j) => j !== i);
+    const candidates: [Expr, Expr][] = [[factor, u]];
+    if (factor.type === 'fn') candidates.push([factor.arg, fn(factor.name, u)]);
+    if (factor.type === 'pow' && !dependsOn(factor.exp, variable)) {
+      candidates.push([factor.base, pow(u, factor.exp)]);
+    }
+    if (factor.type === 'pow' && !dependsOn(factor.base, variable)) {
+      candidates.push([factor.exp, pow(factor.base, u)]);
+    }
+
+    for (const [inner, outer] of candidates) {
+      if (inner.type === 'sym') continue;
+      const ratio = simplify(div(mul(...rest), differentiate(inner, variable)));
+      if (dependsOn(ratio, variable)) continue;
+      const integral = antiderivative(outer, SUBSTITUTE, steps);
+      if (integral) {
+        const du = toString(differentiate(inner, variable));
+        return {
+          rule: 'Substitution',
+          integral: mul(ratio, substitute(integral, SUBSTITUTE, inner)),
+          detail: `${SUBSTITUTE} = ${toString(inner)}, d${SUBSTITUTE} = ${du} d${variable}`,
+        };
+      }
+    }
+  }
+  return null;
+}
+
+// Functions whose repeated antiderivatives stay simple: sin, cos, exp of a*x + b
+function isCyclic(e: Expr, variable: string): boolean {
+  if (e.type === 'fn') {
+    return ['sin', 'cos', 'exp', 'sinh', 'cosh'].includes(e.name) && !!linearSlope(e.arg, variable);
+  }
+  return e.type === 'pow' && !dependsOn(e.base, variable) && !!linearSlope(e.exp, variable);
+}
+
+// ∫ P g = P G1 - P' G2 + P'' G3 - ... for a polynomial P (tabular integration by parts)
+function partsIntegral(factors: Expr[], variable: string, steps: string[]): Integral | null {
+  for (const [i, g] of factors.entries()) {
+    if (!isCyclic(g, variable)) continue;
+    const polynomial = mul(...factors.filter((_, j) => j !== i));
+    const coefficients = polynomialCoefficients(polynomial, variable);
+    if (!coefficients) continue;
+
+    const terms: Expr[] = [];
+    let p: Expr = simplify(polynomial);
+    let integral: Expr | null = g;
+    for (let k = 0; k < coefficients.length; k++) {
+      integral = integral && antiderivative(simplify(integral), variable, steps);
+      if (!integral) return null;
+      terms.push(mul(num(k % 2 === 0 ? 1 : -1), p, integral));
+      p = differentiate(p, variable);
+    }
+    return {
+      rule: 'Integration by parts (tabular)',
+      integral: add(...terms),
+      detail: `u = ${toString(simplify(polynomial))}, dv = ${toString(g)} d${variable}`,
+    };
+  }
+  return null;
+}
+
+function productIntegral(factors: Expr[], variable: string, steps: string[]): Integral | null {
+  const constants = factors.filter((factor) => !dependsOn(factor, variable));
+  const variables = factors.filter((factor) => dependsOn(factor, variable));
+
+  let found: Integral | null;
+  if (variables.length === 1) {
+    const integral = antiderivative(variables[0], variable, steps);
+    found = integral && { rule: 'Constant multiple', integral };
+  } else {
+    // Products of sums usually integrate term by term once multiplied out
+    const expanded = attempt(() => expand(mul(...variables)));
+    const integral = expanded?.type === 'add' && antiderivative(expanded, variable, steps);
+    found = integral
+      ? { rule: 'Expand the product', integral }
+      : (substitutionIntegral(variables, variable, steps) ??
+        partsIntegral(variables, variable, steps));
+  }
+
+  return found && { ...found, integral: mul(...constants, found.integral) };
+}
+
+function integralRule(e: Expr, variable: string, steps: string[]): Integral | null {
+  if (!dependsOn(e, variable)) return { rule: 'Constant rule', integral: mul(e, sym(variable)) };
+
+  switch (e.type) {
+    case 'sym':
+      return { rule: 'Power rule', integral: powerIntegral(e, ONE) };
+    case 'add': {
+      const parts = e.terms.map((term) => antiderivative(term, variable, steps));
+      return parts.every(Boolean)
+        ? { rule: 'Sum rule', integral: add(...(parts as Expr[])) }
+        : null;
+    }
+    case 'mul':
+      return productIntegral(e.factors, variable, steps);
+    default:
+      return linearSubstitution(e, variable) ?? substitutionIntegral([e], variable, steps);
+  }
+}
+
+/**
+ * Antiderivative by linearity, the power rule, a table of standard integrals,
+ * linear and u-substitution and tabular integration by parts. Null when none apply
+ * The rule used for each subexpression is appended to `steps`, outermost first
+ */
+export function antiderivative(e: Expr, variable: string, steps: string[] = []): Expr | null {
+  const mark = steps.length;
+  steps.push(''); // Filled in below so the outer rule comes before the rules it relied on
+  const found = integralRule(e, variable, steps);
+  if (!found) {
+    steps.length = mark;
+    return null;
+  }
+
+  const result = toString(simplify(found.integral));
+  const detail = found.detail ? ` with ${found.detail}` : '';
+  steps[mark] = `${found.rule}: ∫ ${toString(e)} d${variable}${detail} = ${result}`;
+  return found.integral;
+}
+
+const SIMPSON_TOLERANCE = 1e-10;
+const SIMPSON_MAX_DEPTH = 40;
+const SIMPSON_MAX_EVALUATIONS = 200000;
+const DIVERGENCE_LIMIT = 1e12;
+
+/**
+ * Adaptive Simpson quadrature of f over [a, b], infinite bounds allowed
+ */
+export function adaptiveSimpson(f: (x: number) => number, a: number, b: number): number {
+  if (a === b) return 0;
+  if (a > b) return -adaptiveSimpson(f, b, a);
+
+  if (a === -Infinity && b === Infinity) {
+    return adaptiveSimpson(f, -Infinity, 0) + adaptiveSimpson(f, 0, Infinity);
+  }
+  if (b === Infinity) return upperTail(f, a);
+  if (a === -Infinity) return upperTail((x) => f(-x), -b);
+
+  let evaluations = 0;
+  const sample = (x: number, endpoint = false): number => {
+    if (++evaluations > SIMPSON_MAX_EVALUATIONS) {
+      throw new MathError('Numeric integration did not converge');
+    }
+    let y = f(x);
+    // Integrable endpoint singularities (1/sqrt(x) at 0): sample just inside instead
+    if (!Number.isFinite(y) && endpoint) y = f(x + (x === a ? 1 : -1) * 1e-12 * (b - a));
+    if (!Number.isFinite(y)) {
+      throw new MathError(`Integrand is undefined at x = ${round(x)}, the integral may diverge`);
+    }
+    return y;
+  };
+
+  const simpson = (fa: number, fm: number, fb: number, width: number) =>
+    (width / 6) * (fa + 4 * fm + fb);
+
+  const recurse = (
+    lo: number,
+    hi: number,
+    flo: number,
+    fmid: number,
+    fhi: number,
+    whole: number,
+    tolerance: number,
+    depth: number
+  ): number => {
+    const mid = (lo + hi) / 2;
+    const fLeft = sample((lo + mid) / 2);
+    const fRight = sample((mid + hi) / 2);
+    const left = simpson(flo, fLeft, fmid, mid - lo);
+    const right = simpson(fmid, fRight, fhi, hi - mid);
+
+    if (depth <= 0 || Math.abs(left + right - whole) <= 15 * tolerance) {
+      return left + right + (left + right - whole) / 15;
+    }
+    return (
+      recurse(lo, mid, flo, fLeft, fmid, left, tolerance / 2, depth - 1) +
+      recurse(mid, hi, fmid, fRight, fhi, right, tolerance / 2, depth - 1)
+    );
+  };
+
+  const fa = sample(a, true);
+  const fb = sample(b, true);
+  const fm = sample((a + b) / 2);
+  const result = recurse(
+    a,
+    b,
+    fa,
+    fm,
+    fb,
+    simpson(fa, fm, fb, b - a),
+    SIMPSON_TOLERANCE,
+    SIMPSON_MAX_DEPTH
+  );
+
+  if (!Number.isFinite(result) || Math.abs(result) > DIVERGENCE_LIMIT) {
+    throw new MathError('The integral appears to diverge');
+  }
+  return result;
+}
+
+const TAIL_WINDOWS = 3;
+const TAIL_TOLERANCE = 1e-9;
+const FAST_DECAY = 0.01; // Window ratio below which mapping onto [0, 1) is accurate
+
+/**
+ * ∫ f from a to infinity. The tail is integrated over windows [R, 1000R] (on a log
+ * scale), which have to shrink at a steady geometric rate: 1/x and 1/(x*log(x)) grow
+ * without bound while a finite cutoff would still give a plausible number
+ */
+function upperTail(f: (x: number) => number, a: number): number {
+  const start = Math.log(Math.max(10, 10 * Math.abs(a)));
+  const step = 3 * Math.LN10;
+  let windows: number[];
+  try {
+    windows = Array.from({ length: TAIL_WINDOWS }, (_, k) =>
+      adaptiveSimpson((u) => Math.exp(u) * f(Math.exp(u)), start + k * step, start + (k + 1) * step)
+    );
+  } catch (error) {
+    if (!(error instanceof MathError)) throw error;
+    throw new MathError('The integral may diverge, its tail could not be integrated numerically');
+  }
+
+  const sizes = windows.map(Math.abs);
+  const ratios = sizes.slice(1).map((size, k) => size / sizes[k]);
+  const ratio = ratios[ratios.length - 1];
+  const negligible = sizes[TAIL_WINDOWS - 1] <= TAIL_TOLERANCE;
+  const decaying = ratios.every((r, k) => r < 0.9 && (k === 0 || r <= ratios[k - 1] * 1.1));
+  if (!negligible && !decaying) throw new MathError('The integral diverges');
+
+  // Fast decay: map [a, oo) onto [0, 1) with x = a + t/(1 - t)
+  if (negligible || ratio < FAST_DECAY) {
+    return adaptiveSimpson((t) => f(a + t / (1 - t)) / (1 - t) ** 2, 0, 1);
+  }
+  // Slow decay (x**-1.1): up to the first window, the windows, then their geometric continuation
+  const head = adaptiveSimpson(f, a, Math.exp(start));
+  const last = windows[TAIL_WINDOWS - 1];
+  return head + windows.reduce((sum, w) => sum + w, 0) + (last * ratio) / (1 - ratio);
+}
+
+// Agreement between the exact and the numeric answer, catches poles inside the range
+const agrees = (exact: number, numeric: number) =>
+  exact === numeric ||
+  (Number.isFinite(numeric) && Math.abs(exact - numeric) <= 1e-6 * Math.max(1, Math.abs(numeric)));
+
+// limits
+
+const LIMIT_TOLERANCE = 1e-6;
+const LIMIT_DIVERGENCE = 1e8;
+
+/**
+ * One-sided limit from samples approaching the point
+ * Returns +-Infinity for divergence, throws when the samples don't settle
+ */
+export function numericLimit(f: (x: number) => number, point: number, side: 1 | -1): number {
+  const xs = Number.isFinite(point)
+    ? Array.from({ length: 8 }, (_, k) => point + side * 10 ** -(k + 2))
+    : Array.from({ length: 9 }, (_, k) => Math.sign(point) * 10 ** (k + 2));
+  const values = xs.map(f);
+
+  const tail = values.slice(-4);
+  if (
+    tail.every(Number.isFinite) &&
+    tail.every((v, i) => i === 0 || Math.abs(v) > Math.abs(tail[i - 1]))
+  ) {
+    if (Math.abs(tail[tail.length - 1]) > LIMIT_DIVERGENCE)
+      return Math.sign(tail[tail.length - 1]) * Infinity;
+  }
+
+  // First estimate where consecutive samples agree, later ones drown in rounding error
+  for (let k = 1; k < values.length; k++) {
+    const [previous, value] = [values[k - 1], values[k]];
+    if (
+      Number.isFinite(value) &&
+      Math.abs(value - previous) <= LIMIT_TOLERANCE * Math.max(1, Math.abs(value))
+    ) {
+      return value;
+    }
+  }
+  throw new MathError('Limit could not be determined numerically (it may not exist)');
+}
+
+const NAMED_CONSTANTS: [Expr, number][] = [
+  [sym('pi'), Math.PI],
+  [sym('E'), Math.E],
+  [pow(num(2), num(1, 2)), Math.SQRT2],
+  [fn('log', num(2)), Math.LN2],
+];
+
+/**
+ * Exact form for a float that is a simple rational or rational multiple of pi, E, ...
+ */
+export function recognizeNumber(value: number): Expr {
+  if (!Number.isFinite(value)) return value > 0 ? sym('oo') : neg(sym('oo'));
+
+  const candidates: [Expr, number, number][] = [
+    [ONE, 1, 100],
+    ...NAMED_CONSTANTS.map(([c, v]): [Expr, number, number] => [c, v, 12]),
+  ];
+  for (const [constant, size, maxDenominator] of candidates) {
+    const ratio = value / size;
+    for (let q = 1; q <= maxDenominator; q++) {
+      const p = Math.round(ratio * q);
+      if (Math.abs(ratio * q - p) < 1e-7 * q * Math.max(1, Math.abs(ratio)) && Math.abs(p) < 1e6) {
+        return simplify(mul(num(p, q), constant));
+      }
+    }
+  }
+  return num(round(value));
+}
+
+// operations
+
+function rewrite(transform: (e: Expr) => Expr, verb: string) {
+  return (args: MathArgs): PythonResult => {
+    const expr = parse(args.expression ?? '');
+    const result = transform(expr);
+    return exprResult(result, toLatex(result), [
+      `Parse: ${toString(expr)}`,
+      `${verb}: ${toString(result)}`,
+    ]);
+  };
+}
+
+// Common polynomial factors cancelled, then the shortest of the canonical, expanded,
+// combined and factored forms; a form too large to build is left out
+function simplest(input: Expr): Expr {
+  const expr = attempt(() => cancelPolynomials(input)) ?? input;
+  const forms = [expand, together, (e: Expr) => factorPolynomial(e) ?? e];
+  const candidates = [expr, ...forms.flatMap((form) => attempt(() => form(expr)) ?? [])];
+  return candidates.reduce((best, candidate) =>
+    toString(candidate).length < toString(best).length ? candidate : best
+  );
+}
+
+// Sign changes on a grid, refined by bisection
+function numericSolve(e: Expr, variable: string, steps: string[]): Expr[] {
+  const f = compile(e, variable);
+  const roots: number[] = [];
+  const step = (2 * SCAN_RANGE) / SCAN_SAMPLES;
+
+  let x0 = -SCAN_RANGE;
+  let y0 = f(x0);
+  for (let i = 1; i <= SCAN_SAMPLES; i++) {
+    const x1 = -SCAN_RANGE + i * step;
+    const y1 = f(x1);
+    if (y1 === 0) {
+      roots.push(x1);
+    } else if (Number.isFinite(y0) && Number.isFinite(y1) && y0 * y1 < 0) {
+      let [lo, hi, flo] = [x0, x1, y0];
+      for (let k = 0; k < 80; k++) {
+        const mid = (lo + hi) / 2;
+        const fmid = f(mid);
+        if (fmid * flo <= 0) hi = mid;
+        else [lo, flo] = [mid, fmid];
+      }
+      // A sign change across a pole is not a root
+      if (Math.abs(f((lo + hi) / 2)) < 1e-6) roots.push((lo + hi) / 2);
+    }
+    [x0, y0] = [x1, y1];
+  }
+
+  if (roots.length > MAX_SCAN_ROOTS) {
+    throw new MathError(
+      `Found ${roots.length} roots in [-${SCAN_RANGE}, ${SCAN_RANGE}], too many to list: periodic equations need SymPy for the general solution`
+    );
+  }
+  steps.push(
+    `No closed form: scanned [-${SCAN_RANGE}, ${SCAN_RANGE}] for sign changes, refined by bisection`
+  );
+  return roots.map((root) => num(round(root)));
+}
+
+function solveSingle(e: Expr, variable: string, steps: string[]): Expr[] {
+  const { numerator, denominator } = commonDenominator(e);
+  const cleared = expand(numerator);
+  if (dependsOn(denominator, variable)) {
+    steps.push(
+      `Clear denominators: multiply by ${toString(denominator)}, giving ${toString(cleared)} = 0`
+    );
+  }
+
+  const coefficients = polynomialCoefficients(cleared, variable);
+  let roots: Expr[];
+  if (!coefficients) {
+    roots = numericSolve(e, variable, steps);
+  } else if (coefficients.length === 1) {
+    steps.push(
+      isValue(coefficients[0], 0) ? 'Identity: true for every value' : 'Contradiction: no solution'
+    );
+    return [];
+  } else {
+    roots = polynomialRoots(coefficients, steps, variable);
+  }
+
+  // Distinct roots that don't make a denominator vanish, real ones in ascending order
+  const unique = new Map<string, Expr>();
+  for (const root of roots) {
+    const excluded = evaluate(substitute(denominator, variable, root)) === 0;
+    if (!excluded) unique.set(key(root), root);
+  }
+  return [...unique.values()].sort((a, b) => {
+    const [x, y] = [evaluate(a), evaluate(b)];
+    if (Number.isNaN(x) || Number.isNaN(y)) return Number.isNaN(x) ? (Number.isNaN(y) ? 0 : 1) : -1;
+    return x - y;
+  });
+}
+
+function solveLinearSystem(
+  equations: Expr[],
+  variables: string[],
+  steps: string[]
+): Record<string, Expr>[] {
+  const rows = equations.map((e) => {
+    const coefficients = variables.map((variable) => {
+      const polynomial = polynomialCoefficients(e, variable);
+      const coefficient = polynomial?.[1] ?? ZERO;
+      if (
+        !polynomial ||
+        polynomial.length > 2 ||
+        variables.some((v) => dependsOn(coefficient, v))
+      ) {
+        throw new MathError('Only linear systems can be solved without SymPy');
+      }
+      return coefficient;
+    });
+    const constant = simplify(
+      variables.reduce((acc, variable) => substitute(acc, variable, ZERO), e)
+    );
+    return [...coefficients, simplify(neg(constant))];
+  });
+
+  steps.push('Linear system: Gauss-Jordan elimination on the augmented matrix');
+  const { matrix, pivots } = rowReduce(rows);
+
+  if (pivots.includes(variables.length)) {
+    steps.push('Inconsistent system: no solution');
+    return [];
+  }
+  if (pivots.length < variables.length) {
+    throw new MathError(
+      'The system has infinitely many solutions, SymPy is needed to describe them'
+    );
+  }
+
+  const solution: Record<string, Expr> = {};
+  variables.forEach((variable, i) => {
+    solution[variable] = matrix[i][variables.length];
+  });
+  return [solution];
+}
+
+function solve(args: MathArgs): PythonResult {
+  const equations = splitTopLevel(args.expression ?? '', ';,').map(parseEquation);
+  if (equations.length === 0) throw new MathError('Equation is required');
+
+  const steps = equations.map(({ lhs, rhs }) => `Equation: ${toString(lhs)} = ${toString(rhs)}`);
+  const zeroed = equations.map(({ lhs, rhs }) => simplify(sub(lhs, rhs)));
+  steps.push(...zeroed.map((e) => `Move all terms to one side: ${toString(e)} = 0`));
+
+  let variables = parseVariables(args.variable);
+  if (equations.length > 1 && variables.length === 1) {
+    // A system with the default variable: solve for every symbol in it
+    variables = [...new Set(zeroed.flatMap((e) => [...symbols(e)]))].sort();
+  }
+  steps.push(`Solve for ${variables.join(', ')}`);
+
+  if (variables.length === 1 && equations.length === 1) {
+    const [variable] = variables;
+    const solutions = solveSingle(zeroed[0], variable, steps);
+    steps.push(`Solutions: ${solutions.map(toString).join(', ') || 'none'}`);
+    return {
+      success: true,
+      result: solutions.map(toString),
+      latex: solutions.map((s) => `${variable} = ${toLatex(s)}`).join(', '),
+      pretty: prettySolutions(solutions.map((s) => [variable, s])),
+      steps,
+    };
+  }
+
+  const solutions = solveLinearSystem(zeroed, variables, steps);
+  steps.push(`Solutions: ${solutions.length} found`);
+  return {
+    success: true,
+    result: solutions.map((solution) =>
+      Object.fromEntries(Object.entries(solution).map(([name, value]) => [name, toString(value)]))
+    ),
+    latex: solutions
+      .map((solution) =>
+        Object.entries(solution)
+          .map(([name, value]) => `${name} = ${toLatex(value)}`)
+          .join(', ')
+      )
+      .join(' \\quad '),
+    pretty: prettySolutions(solutions.flatMap((solution) => Object.entries(solution))),
+    steps,
+  };
+}
+
+function integrate(args: MathArgs): PythonResult {
+  const expr = parse(args.expression ?? '');
+  const variable = singleVariable(args);
+  const { lower, upper } = args;
+
+  const rules: string[] = [];
+  const found = antiderivative(expr, variable, rules);
+  const integral = found && simplest(simplify(found));
+
+  // Show the substitution placeholder as the first letter the integrand doesn't use
+  const placeholder = ['u', 'w', 't'].find((name) => !symbols(expr).has(name)) ?? 'u';
+  const steps = [
+    `Integrand: ${toString(expr)}`,
+    ...new Set(rules.map((rule) => rule.split(SUBSTITUTE).join(placeholder))),
+  ];
+  if (integral) steps.push(`Antiderivative: F(${variable}) = ${toString(integral)} + C`);
+
+  if (lower === undefined && upper === undefined) {
+    if (!integral) {
+      throw new MathError(
+        'No antiderivative found without SymPy, give lower and upper bounds for a numeric result'
+      );
+    }
+    const latex = `\\int ${toLatex(expr)}\\, d${variable} = ${toLatex(integral)} + C`;
+    const display = prettyEquation(
+      prettyIntegral(prettyExpr(expr), variable),
+      row(prettyExpr(integral), text(' + C'))
+    );
+    return exprResult(integral, latex, steps, { pretty: render(display) });
+  }
+  if (lower === undefined || upper === undefined) {
+    throw new MathError('Both lower and upper bounds are required for a definite integral');
+  }
+
+  const [a, b] = [parse(lower), parse(upper)];
+  const [aValue, bValue] = [evaluate(a), evaluate(b)];
+  if (Number.isNaN(aValue) || Number.isNaN(bValue)) {
+    throw new MathError('Integration bounds must be numeric');
+  }
+
+  const numeric = adaptiveSimpson(compile(expr, variable), aValue, bValue);
+  let result: Expr = num(round(numeric));
+  if (integral && Number.isFinite(aValue) && Number.isFinite(bValue)) {
+    const exact = simplify(
+      sub(substitute(integral, variable, b), substitute(integral, variable, a))
+    );
+    if (agrees(evaluate(exact), numeric)) {
+      result = exact;
+      steps.push(`Evaluate: F(${toString(b)}) - F(${toString(a)}) = ${toString(exact)}`);
+    }
+  }
+  if (result.type === 'num' && !steps.some((step) => step.startsWith('Evaluate'))) {
+    steps.push(
+      `Adaptive Simpson quadrature on [${toString(a)}, ${toString(b)}]: ${round(numeric)}`
+    );
+  }
+
+  const latex = `\\int_{${toLatex(a)}}^{${toLatex(b)}} ${toLatex(expr)}\\, d${variable} = ${toLatex(result)}`;
+  const display = prettyEquation(
+    prettyIntegral(prettyExpr(expr), variable, prettyExpr(a), prettyExpr(b)),
+    prettyExpr(result)
+  );
+  return exprResult(result, latex, steps, { pretty: render(display) });
+}
+
+function diff(args: MathArgs): PythonResult {
+  const expr = parse(args.expression ?? '');
+  const variable = singleVariable(args);
+  const order = intArg(args, 'order', 1, MAX_DIFF_ORDER);
+
+  const steps = [`Function: ${toString(expr)}`];
+  let result = expr;
+  for (let n = 1; n <= order; n++) {
+    steps.push(...derivativeSteps(result, variable));
+    result = simplest(differentiate(result, variable));
+    steps.push(`Derivative ${n}: ${toString(result)}`);
+  }
+
+  const power = order === 1 ? '' : `^{${order}}`;
+  const latex = `\\frac{d${power}}{d${variable}${power}}\\left(${toLatex(expr)}\\right) = ${toLatex(result)}`;
+  const display = prettyEquation(
+    prettyDerivative(prettyExpr(expr), variable, order),
+    prettyExpr(result)
+  );
+  return exprResult(result, latex, steps, { pretty: render(display) });
+}
+
+function limit(args: MathArgs): PythonResult {
+  const expr = parse(args.expression ?? '');
+  const variable = singleVariable(args);
+  const point = parse(args.point ?? '0');
+  let direction = args.direction || '+-';
+  if (!['+', '-', '+-'].includes(direction)) throw new MathError('Direction must be +, - or +-');
+
+  if ([...symbols(expr)].some((name) => name !== variable)) {
+    throw new MathError('Limits with symbolic parameters need SymPy');
+  }
+  const pointValue = evaluate(point);
+  if (Number.isNaN(pointValue)) throw new MathError('Limit point must be numeric');
+  if (!Number.isFinite(pointValue)) direction = pointValue > 0 ? '-' : '+';
+
+  const f = compile(expr, variable);
+  const sides = direction === '+-' ? [1, -1] : [direction === '+' ? 1 : -1];
+  const values = sides.map((side) => numericLimit(f, pointValue, side as 1 | -1));
+  if (values.length === 2 && !agrees(values[0], values[1])) {
+    throw new MathError(
+      `The one-sided limits differ (from the right: ${toString(recognizeNumber(values[0]))}, from the left: ${toString(recognizeNumber(values[1]))})`
+    );
+  }
+
+  // Continuous at the point: the substituted value is exact
+  const direct = simplify(substitute(expr, variable, point));
+  const continuous =
+    Number.isFinite(pointValue) &&
+    Number.isFinite(values[0]) &&
+    agrees(evaluate(direct), values[0]);
+  const result = continuous ? direct : recognizeNumber(values[0]);
+
+  const side = { '+': '^+', '-': '^-', '+-': '' }[direction];
+  const approach = { '+': 'from the right', '-': 'from the left', '+-': 'from both sides' }[
+    direction
+  ];
+  const steps = [
+    `Function: ${toString(expr)}`,
+    `Approach ${variable} -> ${toString(point)} ${approach}`,
+    `Sampled values settle at ${round(values[0])}`,
+    `Limit: ${toString(result)}`,
+  ];
+  const latex = `\\lim_{${variable} \\to ${toLatex(point)}${side}} ${toLatex(expr)} = ${toLatex(result)}`;
+  const display = prettyEquation(
+    prettyLimit(prettyExpr(expr), variable, prettyExpr(point), direction === '+-' ? '' : direction),
+    prettyExpr(result)
+  );
+  return exprResult(result, latex, steps, { pretty: render(display) });
+}
+
+// Terms in ascending order, as SymPy prints series: 1 + x + x**2/2 + O(x**3)
+function joinTerms(terms: string[]): string {
+  return terms
+    .map((term, i) =>
+      i === 0 ? term : term.startsWith('-') ? ` - ${term.replace(/^-\s*/, '')}` : ` + ${term}`
+    )
+    .join('');
+}
+
+function series(args: MathArgs): PythonResult {
+  const expr = parse(args.expression ?? '');
+  const variable = singleVariable(args);
+  const point = parse(args.point ?? '0');
+  const order = intArg(args, 'order', 6, MAX_SERIES_ORDER);
+  const pointValue = evaluate(point);
+  if (!Number.isFinite(pointValue)) throw new MathError('Series point must be a finite number');
+
+  const x = sym(variable);
+  const shift = isValue(point, 0) ? x : simplify(sub(x, point));
+  const terms: Expr[] = [];
+  let current = expr;
+  let factorial = 1;
+
+  for (let k = 0; k < order; k++) {
+    if (k > 0) {
+      current = differentiate(current, variable);
+      factorial *= k;
+    }
+    if (
+      !Number.isFinite(evaluate(current, { [variable]: pointValue })) &&
+      symbols(current).size <= 1
+    ) {
+      throw new MathError(
+        `${toString(expr)} is not analytic at ${variable} = ${toString(point)}, SymPy is needed for this series`
+      );
+    }
+    const coefficient = simplify(div(substitute(current, variable, point), num(factorial)));
+    if (!isValue(coefficient, 0)) terms.push(simplify(mul(coefficient, pow(shift, num(k)))));
+  }
+
+  const polynomial = simplify(add(...terms));
+  const orderTerm = isValue(point, 0)
+    ? `O(${toString(pow(x, num(order)))})`
+    : `O(${toString(pow(shift, num(order)))}, (${variable}, ${toString(point)}))`;
+  const result = joinTerms([...terms.map(toString), orderTerm]);
+  const latex = joinTerms([
+    ...terms.map(toLatex),
+    `O\\left(${toLatex(pow(shift, num(order)))}\\right)`,
+  ]);
+  const orderBox: Box = isValue(point, 0)
+    ? prettyExpr(pow(x, num(order)))
+    : row(prettyExpr(pow(shift, num(order))), text(`; ${variable} → `), prettyExpr(point));
+
+  return {
+    success: true,
+    result,
+    latex,
+    pretty: render(prettyTerms(terms, [prettyCall('O', orderBox)])),
+    steps: [
+      `Function: ${toString(expr)}`,
+      `Expand around ${variable} = ${toString(point)} up to order ${order}`,
+      `Series: ${result}`,
+    ],
+    polynomial: toString(polynomial),
+  };
+}
+
+function latex(args: MathArgs): PythonResult {
+  const expr = parse(args.expression ?? '');
+  const result = toLatex(expr);
+  return {
+    success: true,
+    result,
+    latex: result,
+    pretty: pretty(expr),
+    steps: [`Parse: ${toString(expr)}`],
+  };
+}
+
+const OPERATIONS: Record<string, (args: MathArgs) => PythonResult> = {
+  simplify: rewrite(simplest, 'Simplify'),
+  expand: rewrite(expand, 'Expand'),
+  factor: rewrite((e) => factorPolynomial(e) ?? e, 'Factor'),
+  solve,
+  integrate,
+  diff,
+  limit,
+  series,
+  latex,
+};
+
+function runMathOperation(args: MathArgs): PythonResult {
+  const operation = args.operation || 'simplify';
+  if (!Object.prototype.hasOwnProperty.call(OPERATIONS, operation)) {
+    throw new MathError(`Invalid operation. Valid: ${Object.keys(OPERATIONS).join(', ')}`);
+  }
+  return { ...OPERATIONS[operation](args), operation };
+}
+
+const SCRIPTS: Record<string, (args: MathArgs) => PythonResult> = {
+  'math_solver.py': runMathOperation,
+  'matrix_ops.py': runMatrixOperation,
+  'chem_balance.py': runBalanceScript,
+};
+
+/**
+ * Answer a Python script request in-process, null for scripts without a TypeScript version
+ * Like the worker, never throws: errors come back as success=false
+ */
+export function runMathEngine(script: string, args: MathArgs): PythonResult | null {
+  if (!Object.prototype.hasOwnProperty.call(SCRIPTS, script)) return null;
+  const run = SCRIPTS[script];
+
+  try {
+    return run(args);
+  } catch (error) {
+    if (error instanceof MathError || error instanceof FormulaError) {
+      return { success: false, error: error.message };
+    }
+    // Internal failures (a RangeError on a huge input) are logged, not shown to the user
+    console.error('Math engine error:', error);
+    return { success: false, error: 'The calculation could not be completed' };
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * Math Engine Thread
+ * Runs the TypeScript math engine on a worker thread so a runaway calculation can't
+ * block the server: every request gets a timeout and the thread a heap limit, and a
+ * thread that overruns either is replaced. This file is also the thread's entry point
+ */
+
+import { fileURLToPath } from 'url';
+import { Worker, WorkerOptions, isMainThread, parentPort } from 'worker_threads';
+import { runMathEngine } from './mathEngine.js';
+import type { PythonResult } from './pythonBridge.js';
+
+type EngineArgs = Record<string, string>;
+
+export interface EngineLimits {
+  timeoutMs: number;
+  maxQueued: number;
+}
+
+interface EngineRequest {
+  id: number;
+  script: string;
+  args: EngineArgs;
+  timeoutMs: number;
+  resolve: (result: PythonResult | null) => void;
+  timer?: NodeJS.Timeout;
+}
+
+const MEMORY_LIMIT_MB = 256;
+const FAILED = 'The calculation could not be completed';
+
+// Built JavaScript runs as is. Under tsx (development) the thread registers tsx's loader
+// first: Node 20 doesn't pass --import preloads on to worker threads
+function createWorker(options: WorkerOptions): Worker {
+  const script = fileURLToPath(import.meta.url);
+  if (!script.endsWith('.ts')) return new Worker(script, options);
+  const source = `import('tsx/esm/api').then(({ register }) => {
+    register();
+    return import(${JSON.stringify(import.meta.url)});
+  });`;
+  return new Worker(source, { ...options, eval: true });
+}
+
+class EngineThread {
+  private worker: Worker | null = null;
+  private ready = false;
+  private queue: EngineRequest[] = [];
+  private current: EngineRequest | null = null;
+  private nextId = 1;
+
+  run(script: string, args: EngineArgs, limits: EngineLimits): Promise<PythonResult | null> {
+    if (this.queue.length >= limits.maxQueued) {
+      return Promise.resolve({
+        success: false,
+        error: 'Math engine queue is full, please try again later',
+      });
+    }
+    return new Promise((resolve) => {
+      this.queue.push({ id: this.nextId++, script, args, timeoutMs: limits.timeoutMs, resolve });
+      this.dispatch();
+    });
+  }
+
+  private start(): Worker {
+    const worker = createWorker({ resourceLimits: { maxOldGenerationSizeMb: MEMORY_LIMIT_MB } });
+
+    worker.on(
+      'message',
+      (message: { ready?: boolean; id?: number; result: PythonResult | null }) => {
+        if (message.ready) {
+          this.ready = true;
+          this.dispatch();
+        } else if (this.current?.id === message.id) {
+          this.complete(message.result);
+        }
+      }
+    );
+    worker.on('error', (error: Error & { code?: string }) => {
+      console.error('Math engine thread error:', error);
+      const outOfMemory = error.code === 'ERR_WORKER_OUT_OF_MEMORY';
+      this.retire(worker, outOfMemory ? 'The calculation ran out of memory' : FAILED);
+    });
+    worker.on('exit', () => this.retire(worker, FAILED));
+    return worker;
+  }
+
+  // Stop a thread that failed or overran, failing its request; the next request starts a
+  // new one. A thread that never got going fails everything queued instead
+  private retire(worker: Worker, error: string): void {
+    if (this.worker !== worker) return;
+    this.worker = null;
+    this.ready = false;
+    void worker.terminate();
+    if (this.current) {
+      this.complete({ success: false, error });
+    } else {
+      this.queue.splice(0).forEach((request) => request.resolve({ success: false, error }));
+    }
+  }
+
+  // The timeout starts once the thread is up, so a new thread's startup isn't counted
+  private dispatch(): void {
+    if (this.current) return;
+    if (this.queue.length === 0) {
+      this.worker?.unref(); // An idle thread shouldn't keep the process alive
+      return;
+    }
+    if (!this.worker) this.worker = this.start();
+    this.worker.ref();
+    if (!this.ready) return;
+
+    const request = this.queue.shift()!;
+    const worker = this.worker;
+    this.current = request;
+    request.timer = setTimeout(
+      () => this.retire(worker, 'Math engine timed out'),
+      request.timeoutMs
+    );
+    worker.postMessage({ id: request.id, script: request.script, args: request.args });
+  }
+
+  private complete(result: PythonResult | null): void {
+    const request = this.current;
+    if (!request) return;
+
+    clearTimeout(request.timer);
+    this.current = null;
+    request.resolve(result);
+    this.dispatch();
+  }
+}
+
+const engineThread = new EngineThread();
+
+/**
+ * Answer a Python script request with the TypeScript engine, off the main thread
+ * Null for scripts without a TypeScript version; never rejects
+ */
+export function runMathEngineThread(
+  script: string,
+  args: EngineArgs,
+  limits: EngineLimits
+): Promise<PythonResult | null> {
+  return engineThread.run(script, args, limits);
+}
+
+if (!isMainThread && parentPort) {
+  const port = parentPort;
+  port.on('message', ({ id, script, args }: { id: number; script: string; args: EngineArgs }) => {
+    port.postMessage({ id, result: runMathEngine(script, args) });
+  });
+  port.postMessage({ ready: true });
+}
@@ -0,0 +1,949 @@
+/**
+ * Math Expression Core
+ * Expression tree, parser, simplifier and printers for the TypeScript math engine
+ * Numbers are exact rationals where possible so results read like SymPy's (x**3/3)
+ * The parser accepts user input (2x^2, sin x) as well as SymPy output (x**2, oo, I)
+ */
+
+export type FunctionName =
+  | 'sin'
+  | 'cos'
+  | 'tan'
+  | 'asin'
+  | 'acos'
+  | 'atan'
+  | 'sinh'
+  | 'cosh'
+  | 'tanh'
+  | 'exp'
+  | 'log'
+  | 'Abs'
+  | 'floor'
+  | 'ceiling';
+
+// n/d is exact when both are integers, otherwise n holds a float and d is 1
+export type Expr =
+  | { type: 'num'; n: number; d: number }
+  | { type: 'sym'; name: string }
+  | { type: 'add'; terms: Expr[] }
+  | { type: 'mul'; factors: Expr[] }
+  | { type: 'pow'; base: Expr; exp: Expr }
+  | { type: 'fn'; name: FunctionName; arg: Expr };
+
+// Bad input or an unsupported operation, the message is shown to the user
+export class MathError extends Error {}
+
+// Constants printed the SymPy way
+export const CONSTANTS = { pi: 'pi', E: 'E', I: 'I', oo: 'oo', zoo: 'zoo', nan: 'nan' };
+
+const FUNCTIONS: Record<string, FunctionName> = {
+  sin: 'sin',
+  cos: 'cos',
+  tan: 'tan',
+  asin: 'asin',
+  acos: 'acos',
+  atan: 'atan',
+  arcsin: 'asin',
+  arccos: 'acos',
+  arctan: 'atan',
+  sinh: 'sinh',
+  cosh: 'cosh',
+  tanh: 'tanh',
+  exp: 'exp',
+  log: 'log',
+  ln: 'log',
+  abs: 'Abs',
+  Abs: 'Abs',
+  floor: 'floor',
+  ceiling: 'ceiling',
+  ceil: 'ceiling',
+};
+
+// Functions rewritten in terms of the core set while parsing
+const DERIVED_FUNCTIONS = ['sqrt', 'cbrt', 'sec', 'csc', 'cot'];
+
+const CONSTANT_NAMES: Record<string, string> = {
+  pi: 'pi',
+  e: 'E',
+  E: 'E',
+  I: 'I',
+  oo: 'oo',
+  inf: 'oo',
+  infinity: 'oo',
+  zoo: 'zoo',
+  nan: 'nan',
+};
+
+const GREEK = new Set(
+  'alpha beta gamma delta epsilon zeta eta theta iota kappa lambda mu nu xi omicron rho sigma tau upsilon phi chi psi omega'.split(
+    ' '
+  )
+);
+
+const MAX_INPUT_LENGTH = 500;
+
+// constructors
+
+const gcd = (a: number, b: number): number => (b === 0 ? Math.abs(a) : gcd(b, a % b));
+
+export function num(n: number, d = 1): Num {
+  if (d < 0) return num(-n, -d);
+  if (Number.isInteger(n) && Number.isInteger(d) && Number.isSafeInteger(n * d)) {
+    const divisor = gcd(n, d) || 1;
+    return { type: 'num', n: n / divisor, d: d / divisor };
+  }
+  return { type: 'num', n: n / d, d: 1 };
+}
+
+export const sym = (name: string): Expr => ({ type: 'sym', name });
+export const fn = (name: FunctionName, arg: Expr): Expr => ({ type: 'fn', name, arg });
+export const pow = (base: Expr, exp: Expr): Expr => ({ type: 'pow', base, exp });
+export const add = (...terms: Expr[]): Expr => ({ type: 'add', terms });
+export const mul = (...factors: Expr[]): Expr => ({ type: 'mul', factors });
+export const neg = (expr: Expr): Expr => mul(num(-1), expr);
+export const sub = (a: Expr, b: Expr): Expr => add(a, neg(b));
+export const div = (a: Expr, b: Expr): Expr => mul(a, pow(b, num(-1)));
+
+export const ZERO = num(0);
+export const ONE = num(1);
+// Complex infinity (1/0) and undefined (0/0), as SymPy names them
+export const ZOO = sym('zoo');
+export const NAN = sym('nan');
+
+export type Num = Extract<Expr, { type: 'num' }>;
+
+export const isNum = (e: Expr): e is Num => e.type === 'num';
+export const isValue = (e: Expr, value: number) => isNum(e) && e.n / e.d === value;
+export const numValue = (e: Num) => e.n / e.d;
+const isSymbol = (e: Expr, name: string) => e.type === 'sym' && e.name === name;
+const isFloat = (e: Num) => !Number.isInteger(e.n);
+
+// rational arithmetic
+
+const addNum = (a: Num, b: Num) => num(a.n * b.d + b.n * a.d, a.d * b.d);
+const mulNum = (a: Num, b: Num) => num(a.n * b.n, a.d * b.d);
+
+// Exact power when the result is rational, undefined otherwise (or when it doesn't fit a
+// safe integer, so 2**100 stays symbolic rather than turning into a float)
+function powNum(base: Num, exp: Num): Num | undefined {
+  if (exp.d === 1 && Number.isInteger(exp.n)) {
+    if (base.n === 0 && exp.n < 0) return undefined;
+    const [n, d] = exp.n >= 0 ? [base.n, base.d] : [base.d, base.n];
+    const [top, bottom] = [n ** Math.abs(exp.n), d ** Math.abs(exp.n)];
+    if (!isFloat(base) && !(Number.isSafeInteger(top) && Number.isSafeInteger(bottom))) {
+      return undefined;
+    }
+    return num(top, bottom);
+  }
+  // Perfect roots such as 4**(1/2) and 8**(2/3)
+  if (base.n >= 0 && Number.isInteger(exp.n) && Number.isInteger(exp.d)) {
+    const rootN = Math.round(base.n ** (1 / exp.d));
+    const rootD = Math.round(base.d ** (1 / exp.d));
+    if (rootN ** exp.d === base.n && rootD ** exp.d === base.d) {
+      return powNum(num(rootN, rootD), num(exp.n));
+    }
+  }
+  return undefined;
+}
+
+// Largest k with k**root dividing n, so roots can be partially pulled out
+function largestRootFactor(n: number, root: number): number {
+  if (!Number.isSafeInteger(n) || n < 4) return 1;
+  for (let k = Math.min(Math.floor(n ** (1 / root)) + 1, 10000); k > 1; k--) {
+    if (n % k ** root === 0) return k;
+  }
+  return 1;
+}
+
+// parser
+
+interface Token {
+  kind: 'num' | 'name' | 'op';
+  text: string;
+}
+
+const TOKEN_PATTERN =
+  /\s*(?:(\d+\.?\d*(?:[eE][+-]?\d+)?|\.\d+)|([A-Za-z_][A-Za-z0-9_]*)|(\*\*|[-+*/^(),|]))/y;
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+
+  while (TOKEN_PATTERN.lastIndex < input.length) {
+    const start = TOKEN_PATTERN.lastIndex;
+    const match = TOKEN_PATTERN.exec(input);
+    if (!match) {
+      if (!input.slice(start).trim()) break;
+      throw new MathError(`Unexpected character: ${input.slice(start).trim()[0]}`);
+    }
+    if (match[1]) tokens.push({ kind: 'num', text: match[1] });
+    else if (match[2]) tokens.push({ kind: 'name', text: match[2] });
+    else if (match[3]) tokens.push({ kind: 'op', text: match[3] === '**' ? '^' : match[3] });
+  }
+
+  return tokens;
+}
+
+// Decimal literals stay floats, as in SymPy (0.1 + 0.2 is 0.3, not 3/10)
+const parseNumber = (text: string): Expr => num(Number(text));
+
+// Unknown multi-letter names are products of single-letter symbols (xy -> x*y)
+function splitName(name: string): Expr {
+  if (name.length === 1 || GREEK.has(name) || /^[A-Za-z]_?\d+$/.test(name)) return sym(name);
+  return mul(...[...name].map((char) => sym(char)));
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): Expr {
+    const expr = this.sum();
+    if (this.index < this.tokens.length) {
+      throw new MathError(`Unexpected token: ${this.tokens[this.index].text}`);
+    }
+    return expr;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private accept(text: string): boolean {
+    if (this.peek()?.kind === 'op' && this.peek()!.text === text) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(text: string): void {
+    if (!this.accept(text)) throw new MathError(`Expected "${text}"`);
+  }
+
+  private sum(): Expr {
+    const terms = [this.product()];
+    for (;;) {
+      if (this.accept('+')) terms.push(this.product());
+      else if (this.accept('-')) terms.push(neg(this.product()));
+      else break;
+    }
+    return terms.length === 1 ? terms[0] : add(...terms);
+  }
+
+  private product(): Expr {
+    const factors = [this.unary()];
+    for (;;) {
+      if (this.accept('*')) factors.push(this.unary());
+      else if (this.accept('/')) factors.push(pow(this.unary(), num(-1)));
+      else if (this.startsPrimary())
+        factors.push(this.power()); // Implicit: 2x, 3(x+1)
+      else break;
+    }
+    return factors.length === 1 ? factors[0] : mul(...factors);
+  }
+
+  private startsPrimary(): boolean {
+    const token = this.peek();
+    return !!token && (token.kind !== 'op' || token.text === '(');
+  }
+
+  private unary(): Expr {
+    if (this.accept('-')) return neg(this.unary());
+    if (this.accept('+')) return this.unary();
+    return this.power();
+  }
+
+  private power(): Expr {
+    const base = this.primary();
+    if (this.accept('^')) return pow(base, this.unary());
+    return base;
+  }
+
+  private primary(): Expr {
+    const token = this.peek();
+    if (!token) throw new MathError('Unexpected end of expression');
+    this.index++;
+
+    if (token.kind === 'num') return parseNumber(token.text);
+
+    if (token.kind === 'op') {
+      if (token.text === '(') {
+        const inner = this.sum();
+        this.expect(')');
+        return inner;
+      }
+      if (token.text === '|') {
+        const inner = this.sum();
+        this.expect('|');
+        return fn('Abs', inner);
+      }
+      throw new MathError(`Unexpected token: ${token.text}`);
+    }
+
+    const name = token.text;
+    if (name in FUNCTIONS || DERIVED_FUNCTIONS.includes(name)) {
+      return this.call(name);
+    }
+    if (name in CONSTANT_NAMES) return sym(CONSTANT_NAMES[name]);
+    const symbol = splitName(name);
+    // foo(x) calls a function the engine doesn't have, it isn't f*o**2*x
+    if (symbol.type === 'mul' && this.peek()?.kind === 'op' && this.peek()?.text === '(') {
+      throw new MathError(`Unknown function: ${name}`);
+    }
+    return symbol;
+  }
+
+  // f(x), f(x, y) or f x
+  private call(name: string): Expr {
+    const args: Expr[] = [];
+    if (this.accept('(')) {
+      args.push(this.sum());
+      while (this.accept(',')) args.push(this.sum());
+      this.expect(')');
+    } else {
+      args.push(this.power());
+    }
+
+    const [arg, second] = args;
+    if (args.length > (name === 'log' ? 2 : 1)) {
+      throw new MathError(`Too many arguments for ${name}`);
+    }
+
+    switch (name) {
+      case 'sqrt':
+        return pow(arg, num(1, 2));
+      case 'cbrt':
+        return pow(arg, num(1, 3));
+      case 'sec':
+        return pow(fn('cos', arg), num(-1));
+      case 'csc':
+        return pow(fn('sin', arg), num(-1));
+      case 'cot':
+        return pow(fn('tan', arg), num(-1));
+      case 'log':
+        return second ? div(fn('log', arg), fn('log', second)) : fn('log', arg);
+      default:
+        return fn(FUNCTIONS[name], arg);
+    }
+  }
+}
+
+/**
+ * Parse an expression string into a simplified expression tree
+ */
+export function parse(input: string): Expr {
+  if (!input || !input.trim()) throw new MathError('Expression is required');
+  if (input.length > MAX_INPUT_LENGTH) {
+    throw new MathError(`Expression is longer than ${MAX_INPUT_LENGTH} characters`);
+  }
+  return simplify(new Parser(tokenize(input)).parse());
+}
+
+// simplification
+
+/**
+ * Structural key, equal for equal canonical expressions
+ */
+export const key = (e: Expr): string => toString(e);
+
+// Split a term into its numeric coefficient and the rest
+export function splitCoefficient(e: Expr): [Num, Expr] {
+  if (isNum(e)) return [e, ONE];
+  if (e.type === 'mul' && isNum(e.factors[0])) {
+    const rest = e.factors.slice(1);
+    return [e.factors[0], rest.length === 1 ? rest[0] : mul(...rest)];
+  }
+  return [num(1), e];
+}
+
+const baseAndExponent = (e: Expr): [Expr, Expr] => (e.type === 'pow' ? [e.base, e.exp] : [e, ONE]);
+
+// Canonical ordering: numbers first, then by degree and name
+function compareFactors(a: Expr, b: Expr): number {
+  const rank = (e: Expr) => (isNum(e) ? 0 : e.type === 'fn' ? 2 : 1);
+  return rank(a) - rank(b) || key(baseAndExponent(a)[0]).localeCompare(key(baseAndExponent(b)[0]));
+}
+
+/**
+ * Total degree of a term in its symbols, used to order sums like SymPy (x**2 + x + 1)
+ */
+export function degree(e: Expr): number {
+  switch (e.type) {
+    case 'sym':
+      return CONSTANT_NAMES[e.name] ? 0 : 1;
+    case 'pow':
+      return isNum(e.exp) ? degree(e.base) * numValue(e.exp) : degree(e.base);
+    case 'mul':
+      return e.factors.reduce((sum, factor) => sum + degree(factor), 0);
+    case 'fn':
+      return 0.5; // After polynomial terms, before constants
+    default:
+      return 0;
+  }
+}
+
+function compareTerms(a: Expr, b: Expr): number {
+  return (
+    degree(b) - degree(a) || key(splitCoefficient(a)[1]).localeCompare(key(splitCoefficient(b)[1]))
+  );
+}
+
+function simplifyAdd(terms: Expr[]): Expr {
+  const flat = terms.flatMap((term) => (term.type === 'add' ? term.terms : [term]));
+
+  // zoo absorbs finite terms, but zoo - zoo is undefined
+  if (flat.some((term) => isSymbol(term, 'nan'))) return NAN;
+  const infinite = flat.filter((term) => isSymbol(term, 'zoo')).length;
+  if (infinite > 0) return infinite > 1 ? NAN : ZOO;
+
+  let constant = num(0);
+  const groups = new Map<string, { coefficient: Num; rest: Expr }>();
+
+  for (const term of flat) {
+    if (isNum(term)) {
+      constant = addNum(constant, term);
+      continue;
+    }
+    const [coefficient, rest] = splitCoefficient(term);
+    const id = key(rest);
+    const group = groups.get(id);
+    if (group) group.coefficient = addNum(group.coefficient, coefficient);
+    else groups.set(id, { coefficient, rest });
+  }
+
+  const result: Expr[] = [];
+  for (const { coefficient, rest } of groups.values()) {
+    if (numValue(coefficient) !== 0) result.push(simplifyMul([coefficient, rest]));
+  }
+  result.sort(compareTerms);
+  if (numValue(constant) !== 0) result.push(constant);
+
+  if (result.length === 0) return ZERO;
+  return result.length === 1 ? result[0] : add(...result);
+}
+
+function simplifyMul(factors: Expr[]): Expr {
+  const flat = factors.flatMap((factor) => (factor.type === 'mul' ? factor.factors : [factor]));
+
+  let coefficient = num(1);
+  const groups = new Map<string, { base: Expr; exps: Expr[] }>();
+
+  for (const factor of flat) {
+    if (isNum(factor)) {
+      coefficient = mulNum(coefficient, factor);
+      continue;
+    }
+    const [base, exp] = baseAndExponent(factor);
+    const id = key(base);
+    const group = groups.get(id);
+    if (group) group.exps.push(exp);
+    else groups.set(id, { base, exps: [exp] });
+  }
+
+  const result: Expr[] = [];
+  for (const { base, exps } of groups.values()) {
+    const combined = simplifyPow(base, simplifyAdd(exps));
+    if (isNum(combined)) coefficient = mulNum(coefficient, combined);
+    else if (combined.type === 'mul') {
+      // (2x)^2 distributed into 4 * x^2
+      for (const part of combined.factors) {
+        if (isNum(part)) coefficient = mulNum(coefficient, part);
+        else result.push(part);
+      }
+    } else result.push(combined);
+  }
+
+  result.sort(compareFactors);
+  // Any nonzero factor times zoo is zoo; a zero factor doesn't absorb it: 0*zoo is nan
+  if (result.some((factor) => isSymbol(factor, 'nan'))) return NAN;
+  if (result.some((factor) => isSymbol(factor, 'zoo'))) {
+    return numValue(coefficient) === 0 ? NAN : ZOO;
+  }
+  if (numValue(coefficient) === 0) return ZERO;
+  if (result.length === 0) return coefficient;
+  if (numValue(coefficient) === 1) return result.length === 1 ? result[0] : mul(...result);
+  return mul(coefficient, ...result);
+}
+
+function simplifyPow(base: Expr, exp: Expr): Expr {
+  if (isValue(exp, 0)) return ONE;
+  if (isValue(exp, 1)) return base;
+  if (isValue(base, 1)) return ONE;
+  if (isSymbol(base, 'nan') || isSymbol(exp, 'nan') || isSymbol(exp, 'zoo')) return NAN;
+  if (isValue(base, 0) && isNum(exp) && numValue(exp) > 0) return ZERO;
+  if (isValue(base, 0) && isNum(exp) && numValue(exp) < 0) return ZOO;
+  if (isSymbol(base, 'zoo') && isNum(exp)) return numValue(exp) > 0 ? ZOO : ZERO;
+
+  if (isNum(base) && isNum(exp)) {
+    const exact = powNum(base, exp);
+    if (exact) return exact;
+    const outside = base.d === 1 && exp.d > 1 ? largestRootFactor(base.n, exp.d) : 1;
+    if (outside > 1) {
+      // sqrt(8) = 2*sqrt(2)
+      return simplifyMul([
+        powNum(num(outside), num(exp.n))!,
+        pow(num(base.n / outside ** exp.d), exp),
+      ]);
+    }
+    // sqrt(-4) = 2*I
+    if (base.n < 0 && exp.d === 2) {
+      return simplifyMul([
+        simplifyPow(sym('I'), num(exp.n)),
+        simplifyPow(num(-base.n, base.d), exp),
+      ]);
+    }
+    // Floats can't stay symbolic, evaluate them
+    if (isFloat(base) || isFloat(exp)) return num(numValue(base) ** numValue(exp));
+  }
+
+  // Powers of I cycle through 1, I, -1, -I
+  if (
+    base.type === 'sym' &&
+    base.name === 'I' &&
+    isNum(exp) &&
+    exp.d === 1 &&
+    Number.isInteger(exp.n)
+  ) {
+    const cycle = ((exp.n % 4) + 4) % 4;
+    return [ONE, base, num(-1), mul(num(-1), base)][cycle];
+  }
+
+  // E**x is exp(x)
+  if (base.type === 'sym' && base.name === 'E') return fn('exp', exp);
+
+  // (a^b)^c = a^(bc) for integer c
+  if (base.type === 'pow' && isNum(exp) && exp.d === 1) {
+    return simplifyPow(base.base, simplifyMul([base.exp, exp]));
+  }
+
+  // (ab)^n = a^n b^n for integer n
+  if (base.type === 'mul' && isNum(exp) && exp.d === 1) {
+    return simplifyMul(base.factors.map((factor) => simplifyPow(factor, exp)));
+  }
+
+  // exp(a)^n = exp(na)
+  if (base.type === 'fn' && base.name === 'exp') {
+    return fn('exp', simplifyMul([base.arg, exp]));
+  }
+
+  return pow(base, exp);
+}
+
+// Exact values of functions at common points
+function simplifyFn(name: FunctionName, arg: Expr): Expr {
+  if (isSymbol(arg, 'nan')) return NAN;
+  if (isSymbol(arg, 'zoo')) {
+    if (name === 'Abs') return sym('oo');
+    return name === 'log' ? ZOO : NAN;
+  }
+  if (isValue(arg, 0)) {
+    if (['sin', 'tan', 'asin', 'atan', 'sinh', 'tanh', 'Abs'].includes(name)) return ZERO;
+    if (['cos', 'cosh', 'exp'].includes(name)) return ONE;
+  }
+  if (name === 'log' && isValue(arg, 1)) return ZERO;
+  if (name === 'log' && arg.type === 'sym' && arg.name === 'E') return ONE;
+  if (name === 'log' && arg.type === 'fn' && arg.name === 'exp') return arg.arg;
+  if (name === 'exp' && arg.type === 'fn' && arg.name === 'log') return arg.arg;
+  if (name === 'exp' && isValue(arg, 1)) return sym('E');
+  if (name === 'Abs' && isNum(arg)) return num(Math.abs(arg.n), arg.d);
+  if (name === 'floor' && isNum(arg)) return num(Math.floor(arg.n / arg.d));
+  if (name === 'ceiling' && isNum(arg)) return num(Math.ceil(arg.n / arg.d));
+  if (arg.type === 'sym' && arg.name === 'pi') {
+    if (name === 'sin' || name === 'tan') return ZERO;
+    if (name === 'cos') return num(-1);
+  }
+  // Odd functions pull the sign out: sin(-x) = -sin(x)
+  const [coefficient] = splitCoefficient(arg);
+  if (numValue(coefficient) < 0 && ['sin', 'tan', 'asin', 'atan', 'sinh', 'tanh'].includes(name)) {
+    return simplifyMul([num(-1), fn(name, simplify(neg(arg)))]);
+  }
+  if (numValue(coefficient) < 0 && (name === 'cos' || name === 'cosh' || name === 'Abs')) {
+    return fn(name, simplify(neg(arg)));
+  }
+  return fn(name, arg);
+}
+
+/**
+ * Canonical form: flattened, like terms and factors combined, constants folded
+ */
+export function simplify(e: Expr): Expr {
+  switch (e.type) {
+    case 'add':
+      return simplifyAdd(e.terms.map(simplify));
+    case 'mul':
+      return simplifyMul(e.factors.map(simplify));
+    case 'pow':
+      return simplifyPow(simplify(e.base), simplify(e.exp));
+    case 'fn':
+      return simplifyFn(e.name, simplify(e.arg));
+    default:
+      return e;
+  }
+}
+
+const MAX_EXPANDED_POWER = 60;
+const MAX_EXPANDED_TERMS = 2000;
+const MAX_EXPAND_DEPTH = 100;
+
+const termCount = (e: Expr) => (e.type === 'add' ? e.terms.length : 1);
+
+// Terms of (t1 + ... + tk)^n once multiplied out: C(n + k - 1, k - 1)
+function multinomialCount(n: number, k: number): number {
+  let count = 1;
+  for (let i = 1; i < k; i++) count = (count * (n + i)) / i;
+  return Math.round(count);
+}
+
+function checkTermCount(count: number): void {
+  if (count > MAX_EXPANDED_TERMS) {
+    throw new MathError(
+      `Expanding this would give about ${count.toPrecision(2)} terms, the limit is ${MAX_EXPANDED_TERMS}`
+    );
+  }
+}
+
+// Distribute a product of two factors over their sums
+function multiplyPair(a: Expr, b: Expr): Expr {
+  const terms = a.type === 'add' ? a.terms : [a];
+  const parts = b.type === 'add' ? b.terms : [b];
+  return simplify(add(...terms.flatMap((term) => parts.map((part) => mul(term, part)))));
+}
+
+// Distribute a product over the sums among its factors, combining like terms as it goes
+function multiplyOut(factors: Expr[]): Expr {
+  checkTermCount(factors.reduce((count, factor) => count * termCount(factor), 1));
+  return factors.reduce(multiplyPair, ONE);
+}
+
+/**
+ * Multiply out products of sums and integer powers of sums
+ * Throws a MathError when the result would be too large to be useful
+ */
+export function expand(e: Expr, depth = 0): Expr {
+  if (depth > MAX_EXPAND_DEPTH) throw new MathError('Expression is nested too deeply to expand');
+  const expanded = simplify(e);
+
+  switch (expanded.type) {
+    case 'add':
+      return simplify(add(...expanded.terms.map((term) => expand(term, depth + 1))));
+    case 'mul':
+      return multiplyOut(expanded.factors.map((factor) => expand(factor, depth + 1)));
+    case 'pow': {
+      const base = expand(expanded.base, depth + 1);
+      const exp = expanded.exp;
+      if (base.type === 'add' && isNum(exp) && exp.d === 1 && exp.n > 1) {
+        if (exp.n > MAX_EXPANDED_POWER) {
+          throw new MathError(
+            `The power ${exp.n} is too large to expand, the limit is ${MAX_EXPANDED_POWER}`
+          );
+        }
+        checkTermCount(multinomialCount(exp.n, base.terms.length));
+        let result: Expr = base;
+        for (let n = 1; n < exp.n; n++) result = multiplyPair(result, base);
+        return result;
+      }
+      return simplify(pow(base, exp));
+    }
+    case 'fn':
+      return simplify(fn(expanded.name, expand(expanded.arg, depth + 1)));
+    default:
+      return expanded;
+  }
+}
+
+/**
+ * Split a sum over its common denominator: 1/x + 1/(x + 1) -> (2*x + 1) / (x*(x + 1))
+ */
+export function commonDenominator(e: Expr): { numerator: Expr; denominator: Expr } {
+  const expr = simplify(e);
+  const terms = expr.type === 'add' ? expr.terms : [expr];
+
+  // Highest power of each denominator base
+  const bases = new Map<string, { base: Expr; exp: Num }>();
+  for (const term of terms) {
+    for (const factor of fraction(term).denominator) {
+      const [base, exp] = baseAndExponent(factor);
+      if (!isNum(exp)) return { numerator: expr, denominator: ONE };
+      const current = bases.get(key(base));
+      if (!current || numValue(exp) > numValue(current.exp)) bases.set(key(base), { base, exp });
+    }
+  }
+  if (bases.size === 0) return { numerator: expr, denominator: ONE };
+
+  const denominator = simplify(mul(...[...bases.values()].map(({ base, exp }) => pow(base, exp))));
+  // Cancel term by term before multiplying out, so x**(-1) * x*(x + 1) becomes x + 1
+  const numerator = simplify(add(...terms.map((term) => expand(simplify(mul(term, denominator))))));
+  return { numerator, denominator };
+}
+
+/**
+ * Combine a sum into a single fraction
+ */
+export function together(e: Expr): Expr {
+  const { numerator, denominator } = commonDenominator(e);
+  return simplify(mul(numerator, pow(denominator, num(-1))));
+}
+
+/**
+ * Replace a symbol with an expression
+ */
+export function substitute(e: Expr, name: string, value: Expr): Expr {
+  switch (e.type) {
+    case 'sym':
+      return e.name === name ? value : e;
+    case 'add':
+      return add(...e.terms.map((term) => substitute(term, name, value)));
+    case 'mul':
+      return mul(...e.factors.map((factor) => substitute(factor, name, value)));
+    case 'pow':
+      return pow(substitute(e.base, name, value), substitute(e.exp, name, value));
+    case 'fn':
+      return fn(e.name, substitute(e.arg, name, value));
+    default:
+      return e;
+  }
+}
+
+/**
+ * Free symbols (constants such as pi and E excluded)
+ */
+export function symbols(e: Expr, found = new Set<string>()): Set<string> {
+  switch (e.type) {
+    case 'sym':
+      if (!(e.name in CONSTANTS)) found.add(e.name);
+      break;
+    case 'add':
+      e.terms.forEach((term) => symbols(term, found));
+      break;
+    case 'mul':
+      e.factors.forEach((factor) => symbols(factor, found));
+      break;
+    case 'pow':
+      symbols(e.base, found);
+      symbols(e.exp, found);
+      break;
+    case 'fn':
+      symbols(e.arg, found);
+      break;
+  }
+  return found;
+}
+
+export const dependsOn = (e: Expr, name: string) => symbols(e).has(name);
+
+// evaluation
+
+const FUNCTION_VALUES: Record<FunctionName, (x: number) => number> = {
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  sinh: Math.sinh,
+  cosh: Math.cosh,
+  tanh: Math.tanh,
+  exp: Math.exp,
+  log: Math.log,
+  Abs: Math.abs,
+  floor: Math.floor,
+  ceiling: Math.ceil,
+};
+
+/**
+ * Numeric value with symbols bound from `scope` (NaN when undefined or complex)
+ */
+export function evaluate(e: Expr, scope: Record<string, number> = {}): number {
+  switch (e.type) {
+    case 'num':
+      return e.n / e.d;
+    case 'sym':
+      if (e.name in scope) return scope[e.name];
+      if (e.name === 'pi') return Math.PI;
+      if (e.name === 'E') return Math.E;
+      if (e.name === 'oo') return Infinity;
+      return NaN;
+    case 'add':
+      return e.terms.reduce((sum, term) => sum + evaluate(term, scope), 0);
+    case 'mul':
+      return e.factors.reduce((product, factor) => product * evaluate(factor, scope), 1);
+    case 'pow': {
+      const base = evaluate(e.base, scope);
+      const exp = evaluate(e.exp, scope);
+      // Odd roots of negative numbers are real: (-8)**(1/3) = -2
+      if (base < 0 && isNum(e.exp) && e.exp.d % 2 === 1 && e.exp.d !== 1) {
+        return (e.exp.n % 2 === 0 ? 1 : -1) * Math.abs(base) ** exp;
+      }
+      return base ** exp;
+    }
+    case 'fn':
+      return FUNCTION_VALUES[e.name](evaluate(e.arg, scope));
+  }
+}
+
+/**
+ * Compile to a fast numeric function of one variable
+ */
+export function compile(e: Expr, variable: string): (x: number) => number {
+  return (x: number) => evaluate(e, { [variable]: x });
+}
+
+// printing
+
+const PRECEDENCE = { add: 1, mul: 2, pow: 3, atom: 4 };
+
+const formatNumber = (value: number): string => {
+  if (Number.isInteger(value)) return String(value);
+  if (!Number.isFinite(value)) return value > 0 ? 'oo' : value < 0 ? '-oo' : 'nan';
+  return String(Number(value.toPrecision(15)));
+};
+
+const precedence = (e: Expr): number => {
+  if (isNum(e)) return e.d !== 1 || e.n < 0 ? PRECEDENCE.mul : PRECEDENCE.atom;
+  if (e.type === 'add') return PRECEDENCE.add;
+  if (e.type === 'mul') return PRECEDENCE.mul;
+  if (e.type === 'pow') return PRECEDENCE.pow;
+  return PRECEDENCE.atom;
+};
+
+// Numerator / denominator split of a product for a/b style printing
+export function fraction(e: Expr): { coefficient: Num; numerator: Expr[]; denominator: Expr[] } {
+  const [coefficient, rest] = splitCoefficient(e);
+  const factors = rest.type === 'mul' ? rest.factors : isValue(rest, 1) ? [] : [rest];
+  const numerator: Expr[] = [];
+  const denominator: Expr[] = [];
+
+  for (const factor of factors) {
+    if (factor.type === 'pow' && isNum(factor.exp) && numValue(factor.exp) < 0) {
+      denominator.push(simplifyPow(factor.base, num(-factor.exp.n, factor.exp.d)));
+    } else {
+      numerator.push(factor);
+    }
+  }
+
+  return { coefficient, numerator, denominator };
+}
+
+/**
+ * SymPy style string: x**3/3 - 2*x + sqrt(x)
+ */
+export function toString(e: Expr): string {
+  const wrap = (inner: Expr, level: number) =>
+    precedence(inner) < level ? `(${toString(inner)})` : toString(inner);
+
+  switch (e.type) {
+    case 'num':
+      return e.d === 1 ? formatNumber(e.n) : `${e.n}/${e.d}`;
+    case 'sym':
+      return e.name;
+    case 'fn':
+      return `${e.name}(${toString(e.arg)})`;
+    case 'pow':
+      if (isValue(e.exp, 0.5)) return `sqrt(${toString(e.base)})`;
+      if (isNum(e.exp) && numValue(e.exp) < 0) return toString(mul(ONE, e));
+      return `${wrap(e.base, PRECEDENCE.pow + 1)}**${wrap(e.exp, PRECEDENCE.pow + 1)}`;
+    case 'add':
+      return e.terms
+        .map((term, i) => {
+          const text = toString(term);
+          if (i === 0) return text;
+          return text.startsWith('-') ? ` - ${text.slice(1)}` : ` + ${text}`;
+        })
+        .join('');
+    case 'mul': {
+      const { coefficient, numerator, denominator } = fraction(e);
+      const sign = coefficient.n < 0 ? '-' : '';
+      const top = Math.abs(coefficient.n);
+      const bottom = coefficient.d;
+
+      const topParts = [...(top !== 1 || numerator.length === 0 ? [formatNumber(top)] : [])];
+      topParts.push(...numerator.map((factor) => wrap(factor, PRECEDENCE.mul)));
+      const bottomParts = [...(bottom !== 1 ? [String(bottom)] : [])];
+      bottomParts.push(...denominator.map((factor) => wrap(factor, PRECEDENCE.mul)));
+
+      const topText = topParts.join('*');
+      if (bottomParts.length === 0) return sign + topText;
+      const bottomText = bottomParts.length === 1 ? bottomParts[0] : `(${bottomParts.join('*')})`;
+      return `${sign}${topText}/${bottomText}`;
+    }
+  }
+}
+
+const LATEX_FUNCTIONS: Record<FunctionName, string> = {
+  sin: '\\sin',
+  cos: '\\cos',
+  tan: '\\tan',
+  asin: '\\operatorname{asin}',
+  acos: '\\operatorname{acos}',
+  atan: '\\operatorname{atan}',
+  sinh: '\\sinh',
+  cosh: '\\cosh',
+  tanh: '\\tanh',
+  exp: 'e',
+  log: '\\log',
+  Abs: '',
+  floor: '',
+  ceiling: '',
+};
+
+const LATEX_SYMBOLS: Record<string, string> = {
+  pi: '\\pi',
+  E: 'e',
+  I: 'i',
+  oo: '\\infty',
+  zoo: '\\tilde{\\infty}',
+  nan: '\\text{NaN}',
+};
+
+/**
+ * LaTeX rendering, close to SymPy's latex()
+ */
+export function toLatex(e: Expr): string {
+  const wrap = (inner: Expr, level: number) =>
+    precedence(inner) < level ? `\\left(${toLatex(inner)}\\right)` : toLatex(inner);
+
+  switch (e.type) {
+    case 'num':
+      if (e.d !== 1) return `${e.n < 0 ? '- ' : ''}\\frac{${Math.abs(e.n)}}{${e.d}}`;
+      return formatNumber(e.n).replace('oo', '\\infty');
+    case 'sym':
+      return LATEX_SYMBOLS[e.name] ?? (GREEK.has(e.name) ? `\\${e.name}` : e.name);
+    case 'fn':
+      if (e.name === 'exp') return `e^{${toLatex(e.arg)}}`;
+      if (e.name === 'Abs') return `\\left|${toLatex(e.arg)}\\right|`;
+      if (e.name === 'floor') return `\\left\\lfloor{${toLatex(e.arg)}}\\right\\rfloor`;
+      if (e.name === 'ceiling') return `\\left\\lceil{${toLatex(e.arg)}}\\right\\rceil`;
+      return `${LATEX_FUNCTIONS[e.name]}{\\left(${toLatex(e.arg)} \\right)}`;
+    case 'pow':
+      if (isValue(e.exp, 0.5)) return `\\sqrt{${toLatex(e.base)}}`;
+      if (isNum(e.exp) && numValue(e.exp) < 0) return toLatex(mul(ONE, e));
+      return `${wrap(e.base, PRECEDENCE.pow + 1)}^{${toLatex(e.exp)}}`;
+    case 'add':
+      return e.terms
+        .map((term, i) => {
+          const text = toLatex(term);
+          if (i === 0) return text;
+          return text.startsWith('-') ? ` - ${text.replace(/^-\s*/, '')}` : ` + ${text}`;
+        })
+        .join('');
+    case 'mul': {
+      const { coefficient, numerator, denominator } = fraction(e);
+      const sign = coefficient.n < 0 ? '- ' : '';
+      const top = Math.abs(coefficient.n);
+      const topParts = [...(top !== 1 || numerator.length === 0 ? [formatNumber(top)] : [])];
+      topParts.push(...numerator.map((factor) => wrap(factor, PRECEDENCE.mul)));
+      const bottomParts = [...(coefficient.d !== 1 ? [String(coefficient.d)] : [])];
+      bottomParts.push(...denominator.map((factor) => wrap(factor, PRECEDENCE.mul)));
+
+      if (bottomParts.length === 0) return sign + topParts.join(' ');
+      // A lone denominator needs no brackets inside \\frac
+      const bottom =
+        bottomParts.length === 1 && denominator.length === 1
+          ? toLatex(denominator[0])
+          : bottomParts.join(' ');
+      return `${sign}\\frac{${topParts.join(' ')}}{${bottom}}`;
+    }
+  }
+}
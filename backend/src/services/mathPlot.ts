@@ -0,0 +1,603 @@
+/**
+ * Function Plotter
+ * Draws expressions as Braille line graphs for the terminal (2x4 dots per character):
+ * y = f(x), parametric (x(t), y(t)) and polar r(t) curves, with axes, tick labels and
+ * one ANSI color per series
+ * Sampling is adaptive: stretches that are not straight at pixel scale are subdivided,
+ * and jumps that never close under subdivision (tan, 1/x) are left unjoined
+ * Precomputed paths (simulated trajectories) go through the same frame and axes
+ * Also samples z = f(x, y) on a grid for the 3D surface plots of the hologram viewer
+ */
+
+import { Expr, MathError, compile, evaluate, parse, symbols } from './mathExpression.js';
+import { splitTopLevel } from './mathEngine.js';
+
+export type PlotMode = 'function' | 'parametric' | 'polar';
+
+export interface PlotOptions {
+  expressions: string[];
+  mode?: PlotMode;
+  variable?: string;
+  // Numbers or constant expressions ("-2*pi")
+  from?: number | string;
+  to?: number | string;
+  yMin?: number | string;
+  yMax?: number | string;
+  width?: number; // characters per line, labels included
+  height?: number; // rows of the plot area
+}
+
+export interface PlotSeries {
+  label: string;
+  color: number; // ANSI foreground code
+}
+
+export interface PlotResult {
+  lines: string[];
+  series: PlotSeries[];
+  mode: PlotMode;
+  variable: string;
+  domain: [number, number]; // range of the variable
+  x: [number, number];
+  y: [number, number];
+}
+
+export interface PathPlotOptions {
+  series: { label: string; points: [number, number][] }[]; // one color each
+  markers?: { series: number; point: [number, number]; char: string }[]; // series color
+  x?: [number, number]; // axis ranges, fitted to the points when omitted
+  y?: [number, number];
+  width?: number;
+  height?: number;
+}
+
+export interface SurfaceOptions {
+  expression: string;
+  from?: number | string; // same range for both variables
+  to?: number | string;
+  resolution?: number; // grid points per side
+}
+
+export interface SurfaceResult {
+  expression: string;
+  variables: [string, string];
+  range: [number, number];
+  resolution: number;
+  z: (number | null)[]; // row-major, null where undefined
+  zRange: [number, number];
+}
+
+type Point = [number, number];
+type Curve = (t: number) => Point;
+
+const COLORS = [32, 36, 33, 35, 31, 34]; // green, cyan, yellow, magenta, red, blue
+const AXIS_COLOR = 90;
+const MAX_DEPTH = 12;
+const MAX_POINTS = 20000;
+
+// Bit of the Braille dot at [row][column] inside a character cell
+const DOTS = [
+  [0x01, 0x08],
+  [0x02, 0x10],
+  [0x04, 0x20],
+  [0x40, 0x80],
+];
+
+const isFinitePoint = (p: Point) => Number.isFinite(p[0]) && Number.isFinite(p[1]);
+const clamp = (value: number, lo: number, hi: number) => Math.min(hi, Math.max(lo, value));
+
+// Whole number in [lo, hi], the fallback when missing or not a number
+const sizeOption = (value: number | undefined, fallback: number, lo: number, hi: number) =>
+  clamp(Math.round(Number.isFinite(value) ? (value as number) : fallback), lo, hi);
+
+function bound(value: number | string | undefined, fallback: number, name: string): number {
+  if (value === undefined || value === '') return fallback;
+  const result = typeof value === 'number' ? value : evaluate(parse(String(value)));
+  if (!Number.isFinite(result)) throw new MathError(`${name} must be a finite number`);
+  return result;
+}
+
+/**
+ * Series text to its components: one for y = f(x) and r(t), two for x(t), y(t)
+ */
+function components(text: string, mode: PlotMode): string[] {
+  if (mode !== 'parametric') return [text];
+  const parts = splitTopLevel(text, ',');
+  if (parts.length !== 2) {
+    throw new MathError(`Parametric curves need two components "x(t), y(t)": ${text}`);
+  }
+  return parts;
+}
+
+function label(parts: string[], mode: PlotMode): string {
+  if (mode === 'parametric') return `(x, y) = (${parts[0]}, ${parts[1]})`;
+  return `${mode === 'polar' ? 'r' : 'y'} = ${parts[0]}`;
+}
+
+/**
+ * Compiled curves and the variable they share: the requested one, else the only
+ * symbol used, else x for functions and t for parametric and polar curves
+ */
+function compileCurves(expressions: string[], mode: PlotMode, requested?: string) {
+  const texts = expressions.map((text) => components(text, mode));
+  const parsed = texts.map((parts) => parts.map(parse));
+
+  const found = new Set<string>();
+  parsed.flat().forEach((e) => symbols(e, found));
+  const variable =
+    requested || (found.size === 1 ? [...found][0] : mode === 'function' ? 'x' : 't');
+
+  const unknown = [...found].filter((name) => name !== variable);
+  if (unknown.length) {
+    throw new MathError(`Plots take one variable (${variable}), found: ${unknown.join(', ')}`);
+  }
+
+  const curves = parsed.map((parts): Curve => {
+    const [f, g] = parts.map((e: Expr) => compile(e, variable));
+    if (mode === 'parametric') return (t) => [f(t), g(t)];
+    if (mode === 'polar') return (t) => [f(t) * Math.cos(t), f(t) * Math.sin(t)];
+    return (t) => [t, f(t)];
+  });
+
+  return { variable, curves, labels: texts.map((parts) => label(parts, mode)) };
+}
+
+/**
+ * Axis range covering the samples; a few huge values near poles would flatten the
+ * rest, so then the range is cut down to the bulk of the samples
+ */
+function dataRange(values: number[]): [number, number] {
+  const finite = values.filter(Number.isFinite).sort((a, b) => a - b);
+  if (!finite.length) return [-1, 1];
+
+  const at = (q: number) => finite[Math.floor(q * (finite.length - 1))];
+  let lo = finite[0];
+  let hi = finite[finite.length - 1];
+  const [innerLo, innerHi] = [at(0.05), at(0.95)];
+  if (innerHi > innerLo && hi - lo > 10 * (innerHi - innerLo)) {
+    const pad = (innerHi - innerLo) / 2;
+    lo = Math.max(lo, innerLo - pad);
+    hi = Math.min(hi, innerHi + pad);
+  }
+
+  if (hi - lo < 1e-12) {
+    const pad = Math.max(Math.abs(lo) / 10, 1);
+    return [lo - pad, hi + pad];
+  }
+  const margin = (hi - lo) / 20;
+  return [lo - margin, hi + margin];
+}
+
+/**
+ * Points of one curve with null marking breaks. Each sampled segment is split until
+ * its midpoint lies within half a dot of the chord; a segment still long at the
+ * deepest level is a jump and is not joined
+ */
+function sampleCurve(
+  curve: Curve,
+  from: number,
+  to: number,
+  count: number,
+  toPixel: (p: Point) => Point,
+  size: Point
+): (Point | null)[] {
+  const out: (Point | null)[] = [];
+
+  const offscreen = (points: Point[]) =>
+    points.every(([x]) => x < -1) ||
+    points.every(([x]) => x > size[0]) ||
+    points.every(([, y]) => y < -1) ||
+    points.every(([, y]) => y > size[1]);
+
+  const join = (p: Point | null) => {
+    if (p) out.push(p);
+    else if (out[out.length - 1] !== null) out.push(null);
+  };
+
+  const refine = (t0: number, p0: Point, t1: number, p1: Point, depth: number) => {
+    const ok0 = isFinitePoint(p0);
+    const ok1 = isFinitePoint(p1);
+    if (out.length > MAX_POINTS) return join(ok1 ? p1 : null);
+
+    const tm = (t0 + t1) / 2;
+    const pm = curve(tm);
+    const okM = isFinitePoint(pm);
+    // Undefined throughout (sqrt of negatives): nothing to find here
+    if (!ok0 && !ok1 && !okM) return join(null);
+
+    if (ok0 && ok1 && okM) {
+      const [a, b, m] = [toPixel(p0), toPixel(p1), toPixel(pm)];
+      const length = Math.hypot(b[0] - a[0], b[1] - a[1]);
+      const deviation = Math.hypot(m[0] - (a[0] + b[0]) / 2, m[1] - (a[1] + b[1]) / 2);
+      if (offscreen([a, b, m]) || (deviation < 0.5 && length < 8)) return join(p1);
+      if (depth >= MAX_DEPTH) {
+        if (length >= 4) join(null);
+        return join(p1);
+      }
+    } else if (depth >= MAX_DEPTH) {
+      join(null);
+      return join(ok1 ? p1 : null);
+    }
+
+    refine(t0, p0, tm, pm, depth + 1);
+    refine(tm, pm, t1, p1, depth + 1);
+  };
+
+  let t0 = from;
+  let p0 = curve(from);
+  join(isFinitePoint(p0) ? p0 : null);
+  for (let i = 1; i <= count; i++) {
+    const t1 = from + ((to - from) * i) / count;
+    const p1 = curve(t1);
+    refine(t0, p0, t1, p1, 0);
+    [t0, p0] = [t1, p1];
+  }
+  return out;
+}
+
+/**
+ * Round tick values (1, 2 or 5 times a power of ten) inside [lo, hi]
+ */
+function ticks(lo: number, hi: number, target: number): number[] {
+  const span = hi - lo;
+  const magnitude = 10 ** Math.floor(Math.log10(span / Math.max(target, 1)));
+  // The round step giving the tick count closest to the target
+  const step = [1, 2, 5, 10]
+    .map((m) => m * magnitude)
+    .reduce((best, s) => (Math.abs(span / s - target) < Math.abs(span / best - target) ? s : best));
+
+  const values: number[] = [];
+  for (let k = Math.ceil(lo / step); k * step <= hi; k++) values.push(k * step);
+  return values;
+}
+
+const formatTick = (value: number) => {
+  const rounded = Number(value.toPrecision(4)) || 0;
+  const size = Math.abs(rounded);
+  return size >= 1e6 || (size > 0 && size < 1e-4) ? rounded.toExponential() : String(rounded);
+};
+
+class BrailleCanvas {
+  readonly bits: Uint8Array;
+  readonly colors: Int8Array;
+  // Whole characters drawn over the dots, e.g. the marker of an animation frame
+  readonly marks = new Map<number, { char: string; color: number }>();
+
+  constructor(
+    readonly columns: number,
+    readonly rows: number
+  ) {
+    this.bits = new Uint8Array(columns * rows);
+    this.colors = new Int8Array(columns * rows).fill(-1);
+  }
+
+  get size(): Point {
+    return [this.columns * 2, this.rows * 4];
+  }
+
+  dot(x: number, y: number, color: number) {
+    const [px, py] = [Math.round(x), Math.round(y)];
+    const [width, height] = this.size;
+    if (px < 0 || py < 0 || px >= width || py >= height) return;
+    const cell = (py >> 2) * this.columns + (px >> 1);
+    this.bits[cell] |= DOTS[py & 3][px & 1];
+    this.colors[cell] = color;
+  }
+
+  /**
+   * Straight line between dot coordinates, clipped to the canvas first so far
+   * off-screen points do not cost a step per virtual dot
+   */
+  line(a: Point, b: Point, color: number) {
+    const [width, height] = this.size;
+    const dx = b[0] - a[0];
+    const dy = b[1] - a[1];
+    let t0 = 0;
+    let t1 = 1;
+    // Liang-Barsky: p * t <= q for each canvas edge
+    const edges: Point[] = [
+      [-dx, a[0] + 0.5],
+      [dx, width - 0.5 - a[0]],
+      [-dy, a[1] + 0.5],
+      [dy, height - 0.5 - a[1]],
+    ];
+    for (const [p, q] of edges) {
+      if (p === 0) {
+        if (q < 0) return;
+      } else if (p < 0) {
+        t0 = Math.max(t0, q / p);
+      } else {
+        t1 = Math.min(t1, q / p);
+      }
+    }
+    if (t0 > t1) return;
+
+    const [x0, y0] = [a[0] + t0 * dx, a[1] + t0 * dy];
+    const [x1, y1] = [a[0] + t1 * dx, a[1] + t1 * dy];
+    const steps = Math.ceil(Math.max(Math.abs(x1 - x0), Math.abs(y1 - y0)));
+    for (let i = 0; i <= steps; i++) {
+      const f = steps ? i / steps : 0;
+      this.dot(x0 + (x1 - x0) * f, y0 + (y1 - y0) * f, color);
+    }
+  }
+
+  mark(x: number, y: number, char: string, color: number) {
+    const [px, py] = [Math.round(x), Math.round(y)];
+    const [width, height] = this.size;
+    if (px < 0 || py < 0 || px >= width || py >= height) return;
+    this.marks.set((py >> 2) * this.columns + (px >> 1), { char, color });
+  }
+
+  /**
+   * One string per character row, color codes only where the color changes
+   */
+  render(): string[] {
+    const lines: string[] = [];
+    for (let row = 0; row < this.rows; row++) {
+      let line = '';
+      let current = -1;
+      for (let column = 0; column < this.columns; column++) {
+        const cell = row * this.columns + column;
+        const mark = this.marks.get(cell);
+        if (!this.bits[cell] && !mark) {
+          line += ' ';
+          continue;
+        }
+        const color = mark?.color ?? this.colors[cell];
+        if (color !== current) {
+          current = color;
+          line += `\x1b[${current}m`;
+        }
+        line += mark?.char ?? String.fromCharCode(0x2800 + this.bits[cell]);
+      }
+      lines.push(current < 0 ? line : `${line}\x1b[0m`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * Tick labels centered under their columns, dropped where they would overlap
+ */
+function labelRow(positions: [number, string][], width: number): string {
+  const chars = Array<string>(width).fill(' ');
+  let free = 0;
+  for (const [column, text] of positions) {
+    const start = clamp(column - Math.floor(text.length / 2), 0, width - text.length);
+    if (start < free) continue;
+    chars.splice(start, text.length, ...text);
+    free = start + text.length + 1;
+  }
+  return chars.join('').trimEnd();
+}
+
+/**
+ * Canvas inside a labelled frame: y ticks on the left, x ticks below. `draw` puts the
+ * data on the canvas after the axes; with `keepAspect` the ranges widen so one unit
+ * is as long across as up, Braille dots being about square
+ */
+function drawPlot(
+  width: number,
+  rows: number,
+  xRange: Point,
+  yRange: Point,
+  keepAspect: boolean,
+  draw: (canvas: BrailleCanvas, toPixel: (point: Point) => Point) => void
+): { lines: string[]; x: Point; y: Point } {
+  // Gutter for the y labels, then the canvas takes the rest of the line
+  const yTicks = ticks(yRange[0], yRange[1], Math.max(2, Math.floor(rows / 4)));
+  const gutter = Math.max(...yTicks.map((v) => formatTick(v).length), 1);
+  const canvas = new BrailleCanvas(width - gutter - 2, rows);
+  const [pixelsX, pixelsY] = canvas.size;
+
+  if (keepAspect) {
+    const unit = Math.max(
+      (xRange[1] - xRange[0]) / (pixelsX - 1),
+      (yRange[1] - yRange[0]) / (pixelsY - 1)
+    );
+    const widen = (range: Point, pixels: number): Point => {
+      const middle = (range[0] + range[1]) / 2;
+      const half = (unit * (pixels - 1)) / 2;
+      return [middle - half, middle + half];
+    };
+    xRange = widen(xRange, pixelsX);
+    yRange = widen(yRange, pixelsY);
+  }
+
+  const toPixel = ([x, y]: Point): Point => [
+    ((x - xRange[0]) / (xRange[1] - xRange[0])) * (pixelsX - 1),
+    ((yRange[1] - y) / (yRange[1] - yRange[0])) * (pixelsY - 1),
+  ];
+
+  // Axes first so the data draws over them
+  const [originX, originY] = toPixel([0, 0]);
+  if (originY >= 0 && originY <= pixelsY - 1) {
+    canvas.line([0, originY], [pixelsX - 1, originY], AXIS_COLOR);
+  }
+  if (originX >= 0 && originX <= pixelsX - 1) {
+    canvas.line([originX, 0], [originX, pixelsY - 1], AXIS_COLOR);
+  }
+  draw(canvas, toPixel);
+
+  // Left frame with y labels on the rows their values fall in
+  const yLabels = new Map<number, string>();
+  for (const value of yTicks) {
+    const row = Math.round(toPixel([0, value])[1]) >> 2;
+    if (row >= 0 && row < rows && !yLabels.has(row)) yLabels.set(row, formatTick(value));
+  }
+  const lines = canvas.render().map((line, row) => {
+    const tick = yLabels.get(row);
+    const frame = tick ? `${tick.padStart(gutter)} ┤` : `${' '.repeat(gutter)} │`;
+    return `\x1b[${AXIS_COLOR}m${frame}\x1b[0m${line}`;
+  });
+
+  // Bottom frame with x ticks and their labels
+  const xTicks = ticks(xRange[0], xRange[1], Math.max(2, Math.floor(canvas.columns / 12)));
+  const xColumns = xTicks.map((value): [number, string] => [
+    Math.round(toPixel([value, 0])[0]) >> 1,
+    formatTick(value),
+  ]);
+  const ruler = Array<string>(canvas.columns).fill('─');
+  xColumns.forEach(([column]) => {
+    if (column >= 0 && column < canvas.columns) ruler[column] = '┬';
+  });
+  lines.push(`\x1b[${AXIS_COLOR}m${' '.repeat(gutter)} └${ruler.join('')}\x1b[0m`);
+  lines.push(
+    `\x1b[${AXIS_COLOR}m${labelRow(
+      xColumns.map(([column, text]) => [column + gutter + 2, text]),
+      width
+    )}\x1b[0m`
+  );
+
+  return { lines, x: xRange, y: yRange };
+}
+
+/**
+ * Plot the expressions and return the terminal lines: graph, x axis, labels, legend
+ */
+export function plotExpressions(options: PlotOptions): PlotResult {
+  const expressions = options.expressions.map((text) => text.trim()).filter(Boolean);
+  if (!expressions.length) throw new MathError('Nothing to plot');
+  // "cos(t), sin(t)" is a parametric curve unless a mode says otherwise
+  const pairs = expressions.every((text) => splitTopLevel(text, ',').length === 2);
+  const mode = options.mode ?? (pairs ? 'parametric' : 'function');
+  if (expressions.length > COLORS.length) {
+    throw new MathError(`At most ${COLORS.length} series per plot`);
+  }
+
+  const { variable, curves, labels } = compileCurves(expressions, mode, options.variable);
+  const from = bound(options.from, mode === 'function' ? -10 : 0, 'from');
+  const to = bound(options.to, mode === 'function' ? 10 : 2 * Math.PI, 'to');
+  if (from >= to) throw new MathError('The plot range needs from < to');
+
+  const width = sizeOption(options.width, 80, 30, 200);
+  const rows = sizeOption(options.height, 20, 5, 60);
+
+  // Coarse pass for the axis ranges; the width is not known yet, so sample generously
+  const coarse = curves.flatMap((curve) =>
+    Array.from({ length: 401 }, (_, i) => curve(from + ((to - from) * i) / 400))
+  );
+  const xRange: Point = mode === 'function' ? [from, to] : dataRange(coarse.map((p) => p[0]));
+  let yRange: Point = dataRange(coarse.map((p) => p[1]));
+  const yMin = bound(options.yMin, yRange[0], 'ymin');
+  const yMax = bound(options.yMax, yRange[1], 'ymax');
+  if (yMin >= yMax) throw new MathError('The y range needs ymin < ymax');
+  const fixedY = options.yMin !== undefined || options.yMax !== undefined;
+  yRange = [yMin, yMax];
+
+  let drawn = false;
+  const plot = drawPlot(
+    width,
+    rows,
+    xRange,
+    yRange,
+    mode !== 'function' && !fixedY,
+    (canvas, toPixel) => {
+      const [pixelsX, pixelsY] = canvas.size;
+      curves.forEach((curve, i) => {
+        const points = sampleCurve(curve, from, to, pixelsX, toPixel, [pixelsX, pixelsY]);
+        if (points.some(Boolean)) drawn = true;
+        points.forEach((point, j) => {
+          if (!point) return;
+          const previous = points[j - 1];
+          const next = points[j + 1];
+          if (previous) canvas.line(toPixel(previous), toPixel(point), COLORS[i]);
+          else if (!next) canvas.dot(...toPixel(point), COLORS[i]);
+        });
+      });
+    }
+  );
+  // sqrt(x) on [-5, -1]: an empty frame would look like a bug
+  if (!drawn) throw new MathError(`No real values in range [${from}, ${to}]`);
+  const lines = plot.lines;
+
+  const series = labels.map((text, i) => ({ label: text, color: COLORS[i] }));
+  lines.push('', ...series.map(({ label: text, color }) => `\x1b[${color}m━━\x1b[0m ${text}`));
+
+  return { lines, series, mode, variable, domain: [from, to], x: plot.x, y: plot.y };
+}
+
+/**
+ * Plot precomputed paths, such as simulated trajectories, with the same frame, axes
+ * and legend as expressions. Markers are whole characters drawn over the paths
+ */
+export function plotPaths(
+  options: PathPlotOptions
+): Omit<PlotResult, 'mode' | 'variable' | 'domain'> {
+  const series = options.series.filter((path) => path.points.length > 0);
+  if (!series.length) throw new MathError('Nothing to plot');
+  if (series.length > COLORS.length) {
+    throw new MathError(`At most ${COLORS.length} series per plot`);
+  }
+
+  const width = sizeOption(options.width, 80, 30, 200);
+  const rows = sizeOption(options.height, 20, 5, 60);
+  const all = series.flatMap((path) => path.points);
+  const xRange = options.x ?? dataRange(all.map((p) => p[0]));
+  const yRange = options.y ?? dataRange(all.map((p) => p[1]));
+
+  const plot = drawPlot(width, rows, xRange, yRange, false, (canvas, toPixel) => {
+    series.forEach((path, i) => {
+      const points = path.points.filter(isFinitePoint);
+      points.forEach((point, j) => {
+        if (j > 0) canvas.line(toPixel(points[j - 1]), toPixel(point), COLORS[i]);
+        else if (points.length === 1) canvas.dot(...toPixel(point), COLORS[i]);
+      });
+    });
+    for (const marker of options.markers ?? []) {
+      canvas.mark(...toPixel(marker.point), marker.char, COLORS[marker.series] ?? AXIS_COLOR);
+    }
+  });
+
+  const legend = series.map((path, i) => ({ label: path.label, color: COLORS[i] }));
+  const lines = [
+    ...plot.lines,
+    '',
+    ...legend.map(({ label: text, color }) => `\x1b[${color}m━━\x1b[0m ${text}`),
+  ];
+  return { lines, series: legend, x: plot.x, y: plot.y };
+}
+
+/**
+ * Heights of z = f(x, y) on a square grid. The variables are x and y, or the two
+ * symbols used in alphabetical order; values beyond the bulk of the surface (poles)
+ * are clamped so they do not flatten the rest
+ */
+export function sampleSurface(options: SurfaceOptions): SurfaceResult {
+  const expr = parse(options.expression);
+  const found = [...symbols(expr)].sort();
+  if (found.length > 2) {
+    throw new MathError(`Surfaces take two variables, found: ${found.join(', ')}`);
+  }
+  const variables: [string, string] = found.every((name) => name === 'x' || name === 'y')
+    ? ['x', 'y']
+    : [found[0], found[1] ?? 'y'];
+
+  const from = bound(options.from, -3, 'from');
+  const to = bound(options.to, 3, 'to');
+  if (from >= to) throw new MathError('The plot range needs from < to');
+  const resolution = sizeOption(options.resolution, 60, 10, 150);
+
+  const values: number[] = [];
+  const step = (to - from) / (resolution - 1);
+  for (let row = 0; row < resolution; row++) {
+    for (let column = 0; column < resolution; column++) {
+      const scope = { [variables[0]]: from + column * step, [variables[1]]: from + row * step };
+      values.push(evaluate(expr, scope));
+    }
+  }
+
+  const zRange = dataRange(values);
+  const z = values.map((value) =>
+    // Six digits are plenty for a mesh and keep large grids small
+    Number.isFinite(value) ? Number(clamp(value, zRange[0], zRange[1]).toPrecision(6)) : null
+  );
+  return {
+    expression: options.expression,
+    variables,
+    range: [from, to],
+    resolution,
+    z,
+    zRange,
+  };
+}
@@ -0,0 +1,422 @@
+/**
+ * Polynomial Helpers
+ * Coefficient extraction, exact rational roots, the quadratic formula and numeric
+ * (Durand-Kerner) roots for the TypeScript math engine
+ */
+
+import {
+  Expr,
+  MathError,
+  Num,
+  ONE,
+  ZERO,
+  add,
+  commonDenominator,
+  dependsOn,
+  div,
+  evaluate,
+  expand,
+  isNum,
+  isValue,
+  mul,
+  num,
+  pow,
+  simplify,
+  sub,
+  sym,
+  symbols,
+  toString,
+} from './mathExpression.js';
+
+const MAX_DEGREE = 30;
+const MAX_RATIONAL_ROOT_TERM = 1e6; // Divisor search limit for the rational root theorem
+
+/**
+ * Coefficients [a0, a1, ...] of `e` as a polynomial in `variable`, null when it is not one
+ */
+export function polynomialCoefficients(e: Expr, variable: string): Expr[] | null {
+  const expanded = expand(e);
+  const terms = expanded.type === 'add' ? expanded.terms : [expanded];
+  const byPower: Expr[][] = [];
+
+  for (const term of terms) {
+    const factors = term.type === 'mul' ? term.factors : [term];
+    const rest: Expr[] = [];
+    let power = 0;
+
+    for (const factor of factors) {
+      if (factor.type === 'sym' && factor.name === variable) {
+        power += 1;
+      } else if (
+        factor.type === 'pow' &&
+        factor.base.type === 'sym' &&
+        factor.base.name === variable &&
+        isNum(factor.exp) &&
+        factor.exp.d === 1 &&
+        Number.isInteger(factor.exp.n) &&
+        factor.exp.n > 0
+      ) {
+        power += factor.exp.n;
+      } else if (dependsOn(factor, variable)) {
+        return null;
+      } else {
+        rest.push(factor);
+      }
+    }
+
+    if (power > MAX_DEGREE) return null;
+    if (!byPower[power]) byPower[power] = [];
+    byPower[power].push(rest.length === 0 ? ONE : mul(...rest));
+  }
+
+  const coefficients = Array.from({ length: byPower.length }, (_, i) =>
+    simplify(add(...(byPower[i] ?? [ZERO])))
+  );
+  while (coefficients.length > 1 && isValue(coefficients[coefficients.length - 1], 0)) {
+    coefficients.pop();
+  }
+  return coefficients;
+}
+
+/**
+ * Rebuild a polynomial expression from ascending coefficients
+ */
+export function fromCoefficients(coefficients: Expr[], variable: string): Expr {
+  return simplify(add(...coefficients.map((c, i) => mul(c, pow(sym(variable), num(i))))));
+}
+
+const gcd = (a: number, b: number): number => (b === 0 ? Math.abs(a) : gcd(b, a % b));
+
+// Exact rational coefficients as `content * integers`, null for symbolic or float ones
+function integerCoefficients(coefficients: Expr[]): { content: Num; integers: number[] } | null {
+  if (!coefficients.every((c) => isNum(c) && Number.isInteger(c.n))) return null;
+  const rationals = coefficients as Num[];
+
+  const denominator = rationals.reduce((lcm, c) => (lcm * c.d) / gcd(lcm, c.d), 1);
+  const scaled = rationals.map((c) => (c.n * denominator) / c.d);
+  const sign = Math.sign(scaled[scaled.length - 1]) || 1;
+  const divisor = scaled.reduce((g, c) => gcd(g, c), 0) * sign;
+
+  if (!scaled.every(Number.isSafeInteger)) return null;
+  return { content: num(divisor, denominator), integers: scaled.map((c) => c / divisor) };
+}
+
+function divisors(n: number): number[] {
+  const result: number[] = [];
+  for (let i = 1; i * i <= n; i++) {
+    if (n % i === 0) result.push(i, n / i);
+  }
+  return [...new Set(result)].sort((a, b) => a - b);
+}
+
+// BigInt keeps p^i * q^(n-i) exact for high degrees
+function isRoot(integers: number[], p: number, q: number): boolean {
+  const n = integers.length - 1;
+  let total = BigInt(0);
+  integers.forEach((a, i) => {
+    total += BigInt(a) * BigInt(p) ** BigInt(i) * BigInt(q) ** BigInt(n - i);
+  });
+  return total === BigInt(0);
+}
+
+// Rational root theorem: p divides a0, q divides an
+function findRationalRoot(integers: number[]): [number, number] | null {
+  const first = Math.abs(integers[0]);
+  const last = Math.abs(integers[integers.length - 1]);
+  if (first > MAX_RATIONAL_ROOT_TERM || last > MAX_RATIONAL_ROOT_TERM) return null;
+
+  for (const q of divisors(last)) {
+    for (const p of divisors(first)) {
+      if (gcd(p, q) !== 1) continue;
+      if (isRoot(integers, -p, q)) return [-p, q];
+      if (isRoot(integers, p, q)) return [p, q];
+    }
+  }
+  return null;
+}
+
+// Divide by (q*x - p), the quotient keeps integer coefficients (Gauss's lemma)
+function deflate(integers: number[], p: number, q: number): number[] {
+  const n = integers.length - 1;
+  const quotient = new Array<number>(n);
+  quotient[n - 1] = integers[n] / q;
+  for (let k = n - 1; k >= 1; k--) {
+    quotient[k - 1] = (integers[k] + p * quotient[k]) / q;
+  }
+  return quotient;
+}
+
+// Strip factors of x: returns the multiplicity of the root 0
+function stripZeroRoots(coefficients: Expr[]): number {
+  let count = 0;
+  while (coefficients.length > 1 && isValue(coefficients[0], 0)) {
+    coefficients.shift();
+    count++;
+  }
+  return count;
+}
+
+const sqrt = (e: Expr) => pow(e, num(1, 2));
+
+/**
+ * Roots of a*x^2 + b*x + c, symbolic coefficients allowed
+ */
+export function quadraticRoots(a: Expr, b: Expr, c: Expr): { roots: Expr[]; discriminant: Expr } {
+  const discriminant = simplify(add(mul(b, b), mul(num(-4), a, c)));
+  const numeric = symbols(discriminant).size === 0 && symbols(a).size === 0;
+  const tidy = numeric ? expand : simplify;
+
+  const denominator = pow(mul(num(2), a), num(-1));
+  const roots = [
+    tidy(mul(add(mul(num(-1), b), mul(num(-1), sqrt(discriminant))), denominator)),
+    tidy(mul(add(mul(num(-1), b), sqrt(discriminant)), denominator)),
+  ];
+  return { roots, discriminant };
+}
+
+// complex helpers for Durand-Kerner
+
+type Complex = [number, number];
+
+const cmul = ([a, b]: Complex, [c, d]: Complex): Complex => [a * c - b * d, a * d + b * c];
+const csub = ([a, b]: Complex, [c, d]: Complex): Complex => [a - c, b - d];
+const cdiv = ([a, b]: Complex, [c, d]: Complex): Complex => {
+  const denominator = c * c + d * d;
+  return [(a * c + b * d) / denominator, (b * c - a * d) / denominator];
+};
+
+const DK_ITERATIONS = 1000;
+const DK_TOLERANCE = 1e-14;
+
+/**
+ * All complex roots of a polynomial with float coefficients (ascending)
+ */
+export function numericRoots(coefficients: number[]): Complex[] {
+  const n = coefficients.length - 1;
+  const monic = coefficients.map((c) => c / coefficients[n]);
+  const evaluateAt = (z: Complex): Complex =>
+    monic.reduceRight<Complex>(
+      (acc, c) => {
+        const [re, im] = cmul(acc, z);
+        return [re + c, im];
+      },
+      [0, 0]
+    );
+
+  // Standard starting points: powers of a complex number that is not a root of unity
+  let roots: Complex[] = [];
+  let seed: Complex = [1, 0];
+  for (let i = 0; i < n; i++) {
+    roots.push(seed);
+    seed = cmul(seed, [0.4, 0.9]);
+  }
+
+  for (let iteration = 0; iteration < DK_ITERATIONS; iteration++) {
+    let change = 0;
+    roots = roots.map((z, i) => {
+      let denominator: Complex = [1, 0];
+      roots.forEach((other, j) => {
+        if (j !== i) denominator = cmul(denominator, csub(z, other));
+      });
+      const step = cdiv(evaluateAt(z), denominator);
+      change = Math.max(change, Math.hypot(step[0], step[1]));
+      return csub(z, step);
+    });
+    if (change < DK_TOLERANCE) break;
+  }
+
+  return roots;
+}
+
+const round = (value: number) => Number(value.toPrecision(12));
+
+function complexToExpr([re, im]: Complex): Expr {
+  if (Math.abs(im) < 1e-9 * Math.max(1, Math.abs(re))) return num(round(re));
+  return simplify(add(num(round(re)), mul(num(round(im)), sym('I'))));
+}
+
+/**
+ * Roots of a polynomial given ascending coefficients, repeated by multiplicity
+ * Exact where possible (zero, rational and quadratic roots), numeric otherwise
+ * Notes on the methods used are appended to `steps`
+ */
+export function polynomialRoots(
+  coefficients: Expr[],
+  steps: string[] = [],
+  variable = 'x'
+): Expr[] {
+  const remaining = [...coefficients];
+  const roots: Expr[] = [];
+
+  const zeros = stripZeroRoots(remaining);
+  if (zeros > 0) {
+    steps.push(`Factor out ${variable}${zeros > 1 ? `**${zeros}` : ''}: root 0`);
+    roots.push(...Array.from({ length: zeros }, () => ZERO));
+  }
+
+  const degree = remaining.length - 1;
+  if (degree === 1) {
+    const [b, a] = remaining;
+    const root = simplify(mul(num(-1), b, pow(a, num(-1))));
+    steps.push(`Linear equation: ${variable} = -b/a = ${toString(root)}`);
+    return [...roots, root];
+  }
+  if (degree === 2) {
+    const [c, b, a] = remaining;
+    const { roots: quadratic, discriminant } = quadraticRoots(a, b, c);
+    steps.push(
+      `Quadratic formula: ${variable} = (-b ± sqrt(b**2 - 4*a*c))/(2*a) with a = ${toString(a)}, ` +
+        `b = ${toString(b)}, c = ${toString(c)}, discriminant = ${toString(discriminant)}`
+    );
+    return [...roots, ...quadratic];
+  }
+  if (degree < 1) return roots;
+
+  const exact = integerCoefficients(remaining);
+  if (!exact) {
+    if (remaining.some((c) => !Number.isFinite(evaluate(c)))) {
+      throw new MathError('Polynomials of degree 3 or more need numeric coefficients');
+    }
+    steps.push(`Degree ${degree}: roots found numerically (Durand-Kerner)`);
+    return [...roots, ...numericRoots(remaining.map((c) => evaluate(c))).map(complexToExpr)];
+  }
+
+  let integers = exact.integers;
+  for (
+    let root = findRationalRoot(integers);
+    root && integers.length > 1;
+    root = findRationalRoot(integers)
+  ) {
+    const [p, q] = root;
+    roots.push(num(p, q));
+    steps.push(
+      `Rational root theorem: ${variable} = ${toString(num(p, q))} is a root, divide it out`
+    );
+    integers = deflate(integers, p, q);
+  }
+
+  // What is left has no rational roots, finish with the quadratic formula or numerically
+  if (integers.length <= 3)
+    return [
+      ...roots,
+      ...polynomialRoots(
+        integers.map((c) => num(c)),
+        steps,
+        variable
+      ),
+    ];
+  steps.push(`Degree ${integers.length - 1} remainder: roots found numerically (Durand-Kerner)`);
+  return [...roots, ...numericRoots(integers).map(complexToExpr)];
+}
+
+/**
+ * Factor a polynomial with rational coefficients over the rationals
+ * Returns null when `e` is not such a polynomial in a single variable
+ */
+export function factorPolynomial(e: Expr, steps: string[] = []): Expr | null {
+  const variables = [...symbols(e)];
+  if (variables.length !== 1) return null;
+  const [variable] = variables;
+  const x = sym(variable);
+
+  const coefficients = polynomialCoefficients(e, variable);
+  const exact = coefficients && integerCoefficients(coefficients);
+  if (!exact || coefficients.length < 2) return null;
+
+  const factors: Expr[] = [exact.content];
+  let integers = exact.integers;
+  if (!isValue(exact.content, 1)) steps.push(`Common factor: ${toString(exact.content)}`);
+
+  const remaining = integers.map((c) => num(c));
+  const zeros = stripZeroRoots(remaining);
+  integers = integers.slice(zeros);
+  if (zeros > 0) factors.push(pow(x, num(zeros)));
+
+  for (
+    let root = findRationalRoot(integers);
+    root && integers.length > 1;
+    root = findRationalRoot(integers)
+  ) {
+    const [p, q] = root;
+    factors.push(add(mul(num(q), x), num(-p)));
+    steps.push(
+      `Root x = ${toString(num(p, q))} gives the factor ${toString(simplify(add(mul(num(q), x), num(-p))))}`
+    );
+    integers = deflate(integers, p, q);
+  }
+
+  factors.push(
+    fromCoefficients(
+      integers.map((c) => num(c)),
+      variable
+    )
+  );
+  return simplify(mul(...factors));
+}
+
+// Exact rational coefficient, as integerCoefficients requires
+const isExact = (c: Expr) => isNum(c) && Number.isInteger(c.n);
+
+// Quotient and remainder of a / b, ascending coefficients; the remainder is [] when zero
+function divideCoefficients(a: Expr[], b: Expr[]): { quotient: Expr[]; remainder: Expr[] } {
+  const remainder = [...a];
+  const quotient: Expr[] = [];
+  for (let shift = a.length - b.length; shift >= 0; shift--) {
+    const factor = simplify(div(remainder[shift + b.length - 1], b[b.length - 1]));
+    quotient[shift] = factor;
+    b.forEach((c, i) => {
+      remainder[shift + i] = simplify(sub(remainder[shift + i], mul(factor, c)));
+    });
+  }
+  while (remainder.length > 0 && isValue(remainder[remainder.length - 1], 0)) remainder.pop();
+  return { quotient, remainder };
+}
+
+// Monic greatest common divisor by Euclid's algorithm, null if the arithmetic stops being exact
+function gcdCoefficients(a: Expr[], b: Expr[]): Expr[] | null {
+  while (b.length > 0) {
+    const { remainder } = divideCoefficients(a, b);
+    if (!remainder.every(isExact)) return null;
+    [a, b] = [b, remainder];
+  }
+  return a.map((c) => simplify(div(c, a[a.length - 1])));
+}
+
+/**
+ * Cancel the common factors of a ratio of polynomials: (x**2 - 1)/(x - 1) -> x + 1
+ * Returns null when `e` is not such a ratio in a single variable with rational coefficients
+ */
+export function cancelPolynomials(e: Expr): Expr | null {
+  const variables = [...symbols(e)];
+  if (variables.length !== 1) return null;
+  const [variable] = variables;
+
+  const { numerator, denominator } = commonDenominator(e);
+  const top = polynomialCoefficients(numerator, variable);
+  const bottom = polynomialCoefficients(denominator, variable);
+  if (!top || !bottom || bottom.length < 2 || ![...top, ...bottom].every(isExact)) return null;
+
+  const common = gcdCoefficients(top, bottom);
+  if (!common || common.length < 2) return null;
+  // Whole-number coefficients on both sides with the numeric factor in front: (x + 1)/2
+  const [reducedTop, reducedBottom] = [top, bottom].map((p) =>
+    integerCoefficients(divideCoefficients(p, common).quotient)
+  );
+  if (!reducedTop || !reducedBottom) return null;
+  return simplify(
+    mul(
+      div(reducedTop.content, reducedBottom.content),
+      fromCoefficients(
+        reducedTop.integers.map((c) => num(c)),
+        variable
+      ),
+      pow(
+        fromCoefficients(
+          reducedBottom.integers.map((c) => num(c)),
+          variable
+        ),
+        num(-1)
+      )
+    )
+  );
+}
@@ -0,0 +1,374 @@
+/**
+ * Pretty Printer
+ * Two-dimensional Unicode rendering of expressions, close to SymPy's pretty():
+ * stacked fractions, raised exponents, radicals, integral and sum signs with limits,
+ * derivatives, limits and bracketed matrices
+ */
+
+import {
+  Expr,
+  ONE,
+  fraction,
+  isNum,
+  isValue,
+  mul,
+  num,
+  numValue,
+  pow,
+  toString,
+} from './mathExpression.js';
+
+/**
+ * Block of equally wide text lines; `baseline` is the row that lines up with
+ * the text around it (the fraction bar, the base of a power)
+ */
+export interface Box {
+  lines: string[];
+  baseline: number;
+}
+
+const SYMBOLS: Record<string, string> = {
+  pi: 'π',
+  E: 'ℯ',
+  I: 'ⅈ',
+  oo: '∞',
+  alpha: 'α',
+  beta: 'β',
+  gamma: 'γ',
+  delta: 'δ',
+  epsilon: 'ε',
+  zeta: 'ζ',
+  eta: 'η',
+  theta: 'θ',
+  iota: 'ι',
+  kappa: 'κ',
+  lambda: 'λ',
+  mu: 'μ',
+  nu: 'ν',
+  xi: 'ξ',
+  omicron: 'ο',
+  rho: 'ρ',
+  sigma: 'σ',
+  tau: 'τ',
+  upsilon: 'υ',
+  phi: 'φ',
+  chi: 'χ',
+  psi: 'ψ',
+  omega: 'ω',
+};
+
+const MAX_ROOT_INDEX = 9; // x**(1/n) is drawn as a radical up to this n
+
+const width = (box: Box) => box.lines[0]?.length ?? 0;
+
+function centre(line: string, size: number): string {
+  const left = Math.floor((size - line.length) / 2);
+  return ' '.repeat(left) + line.padEnd(size - left);
+}
+
+function box(lines: string[], baseline: number): Box {
+  const size = Math.max(0, ...lines.map((line) => line.length));
+  return { lines: lines.map((line) => line.padEnd(size)), baseline };
+}
+
+export const text = (value: string): Box => box([value], 0);
+
+/**
+ * Boxes side by side, baselines aligned
+ */
+export function row(...boxes: Box[]): Box {
+  const above = Math.max(0, ...boxes.map((b) => b.baseline));
+  const below = Math.max(0, ...boxes.map((b) => b.lines.length - b.baseline - 1));
+  const lines = new Array<string>(above + below + 1).fill('');
+
+  for (const b of boxes) {
+    const offset = above - b.baseline;
+    for (let i = 0; i < lines.length; i++) {
+      lines[i] += (b.lines[i - offset] ?? '').padEnd(width(b));
+    }
+  }
+  return { lines, baseline: above };
+}
+
+// Boxes stacked and centred, the baseline taken from box `at`
+function column(boxes: Box[], at: number, separator = false): Box {
+  const size = Math.max(...boxes.map(width));
+  const lines: string[] = [];
+  let baseline = 0;
+
+  boxes.forEach((b, i) => {
+    if (separator && i > 0) lines.push('');
+    if (i === at) baseline = lines.length + b.baseline;
+    lines.push(...b.lines.map((line) => centre(line, size)));
+  });
+  return box(lines, baseline);
+}
+
+// Tall delimiter: top piece, repeated middle piece, bottom piece
+function delimiter(height: number, single: string, [top, middle, bottom]: string): string[] {
+  if (height === 1) return [single];
+  return [top, ...new Array<string>(height - 2).fill(middle), bottom];
+}
+
+function enclose(b: Box, left: string, right: string, pieces: [string, string]): Box {
+  const h = b.lines.length;
+  return row(
+    box(delimiter(h, left, pieces[0]), b.baseline),
+    b,
+    box(delimiter(h, right, pieces[1]), b.baseline)
+  );
+}
+
+const parens = (b: Box) => enclose(b, '(', ')', ['⎛⎜⎝', '⎞⎟⎠']);
+const brackets = (b: Box) => enclose(b, '[', ']', ['⎡⎢⎣', '⎤⎥⎦']);
+const bars = (b: Box) => enclose(b, '│', '│', ['│││', '│││']);
+
+// Numerator over denominator with a bar as wide as the wider of them
+function stackedFraction(top: Box, bottom: Box): Box {
+  const size = Math.max(width(top), width(bottom));
+  return column([top, text('─'.repeat(size)), bottom], 1);
+}
+
+// Exponent raised above the top right corner of the base
+function power(base: Box, exponent: Box): Box {
+  const lines = [
+    ...exponent.lines.map((line) => ' '.repeat(width(base)) + line),
+    ...base.lines.map((line) => line.padEnd(width(base) + width(exponent))),
+  ];
+  return box(lines, exponent.lines.length + base.baseline);
+}
+
+// Radical sign with an overline, and the root index for cube roots and up
+function radical(radicand: Box, index?: string): Box {
+  const h = radicand.lines.length;
+  const overline = ' '.repeat(h + 1) + '_'.repeat(width(radicand));
+  const lines = radicand.lines.map((line, k) => {
+    const sign = k === h - 1 ? '╲╱' : ' ╱';
+    return ' '.repeat(h - 1 - k) + sign + ' '.repeat(k) + line;
+  });
+  const top = index ? index.padEnd(h + 1).slice(0, h + 1) + overline.slice(h + 1) : overline;
+  return box([top, ...lines], radicand.baseline + 1);
+}
+
+const symbolName = (name: string) => SYMBOLS[name] ?? name;
+
+// Factors that need brackets inside a product or under an exponent
+const isSum = (e: Expr) => e.type === 'add';
+const isCompound = (e: Expr) =>
+  e.type === 'add' ||
+  e.type === 'mul' ||
+  e.type === 'pow' ||
+  (isNum(e) && (e.d !== 1 || e.n < 0 || !Number.isInteger(e.n)));
+
+// Exponents stay on one line: x**(2/3) is drawn with "2/3", not a stacked fraction
+function exponentBox(e: Expr): Box {
+  if (isNum(e) && e.d !== 1) return text(toString(e));
+  return prettyExpr(e);
+}
+
+function powerBox(base: Expr, exp: Expr): Box {
+  if (isValue(exp, 0.5)) {
+    return base.type === 'sym' || (isNum(base) && base.n > 0 && base.d === 1)
+      ? text(`√${prettyExpr(base).lines[0]}`)
+      : radical(prettyExpr(base));
+  }
+  if (isNum(exp) && exp.n === 1 && exp.d > 2 && exp.d <= MAX_ROOT_INDEX) {
+    return radical(prettyExpr(base), String(exp.d));
+  }
+  if (isNum(exp) && numValue(exp) < 0) return prettyExpr(mul(ONE, pow(base, exp)));
+
+  // sin(x)**2 is drawn as sin²(x), like SymPy
+  if (base.type === 'fn' && base.name !== 'exp' && base.name !== 'Abs') {
+    return row(power(text(base.name), exponentBox(exp)), parens(prettyExpr(base.arg)));
+  }
+  const baseBox =
+    isCompound(base) || base.type === 'fn' ? parens(prettyExpr(base)) : prettyExpr(base);
+  return power(baseBox, exponentBox(exp));
+}
+
+// Products as SymPy draws them: 2⋅x⋅sin(x), with negative powers moved under a bar
+function productBox(e: Expr): Box {
+  const { coefficient, numerator, denominator } = fraction(e);
+  const top = Math.abs(coefficient.n);
+  const factor = (f: Expr) => (isSum(f) ? parens(prettyExpr(f)) : prettyExpr(f));
+  const joined = (parts: Box[]) =>
+    row(...parts.flatMap((part, i) => (i === 0 ? [part] : [text('⋅'), part])));
+
+  const topParts = top !== 1 || numerator.length === 0 ? [text(toString(num(top)))] : [];
+  const over = denominator.length > 0 || coefficient.d !== 1;
+  // A lone sum above or below the bar needs no brackets
+  topParts.push(
+    ...numerator.map((f) =>
+      over && topParts.length === 0 && numerator.length === 1 ? prettyExpr(f) : factor(f)
+    )
+  );
+  const bottomParts = coefficient.d !== 1 ? [text(String(coefficient.d))] : [];
+  bottomParts.push(
+    ...denominator.map((f) =>
+      bottomParts.length === 0 && denominator.length === 1 ? prettyExpr(f) : factor(f)
+    )
+  );
+
+  const body =
+    bottomParts.length === 0
+      ? joined(topParts)
+      : stackedFraction(joined(topParts), joined(bottomParts));
+  return coefficient.n < 0 ? row(text('-'), body) : body;
+}
+
+// Positive version of a term printed with a leading minus, null for other terms
+function negated(term: Expr): Expr | null {
+  if (isNum(term)) return term.n < 0 ? num(-term.n, term.d) : null;
+  if (term.type !== 'mul') return null;
+
+  const [coefficient, ...rest] = term.factors;
+  if (!isNum(coefficient) || coefficient.n >= 0) return null;
+  if (!isValue(coefficient, -1)) return mul(num(-coefficient.n, coefficient.d), ...rest);
+  return rest.length === 1 ? rest[0] : mul(...rest);
+}
+
+/**
+ * Terms joined with + and -, in the order given
+ */
+export function prettyTerms(terms: Expr[], trailing: Box[] = []): Box {
+  const parts: Box[] = [];
+  terms.forEach((term, i) => {
+    const positive = negated(term);
+    if (i === 0) parts.push(prettyExpr(term));
+    else if (positive) parts.push(text(' - '), prettyExpr(positive));
+    else parts.push(text(' + '), prettyExpr(term));
+  });
+  trailing.forEach((extra) => parts.push(text(' + '), extra));
+  return row(...parts);
+}
+
+/**
+ * Two-dimensional layout of an expression
+ */
+export function prettyExpr(e: Expr): Box {
+  switch (e.type) {
+    case 'num':
+      if (e.d === 1) return text(toString(e));
+      return productBox(e);
+    case 'sym':
+      return text(symbolName(e.name));
+    case 'fn':
+      if (e.name === 'exp') return power(text('ℯ'), prettyExpr(e.arg));
+      if (e.name === 'Abs') return bars(prettyExpr(e.arg));
+      return prettyCall(e.name, prettyExpr(e.arg));
+    case 'pow':
+      return powerBox(e.base, e.exp);
+    case 'add':
+      return prettyTerms(e.terms);
+    case 'mul':
+      return productBox(e);
+  }
+}
+
+/**
+ * name(argument) with brackets as tall as the argument
+ */
+export const prettyCall = (name: string, argument: Box): Box => row(text(name), parens(argument));
+
+/**
+ * Sides joined with =
+ */
+export function prettyEquation(...sides: Box[]): Box {
+  return row(...sides.flatMap((side, i) => (i === 0 ? [side] : [text(' = '), side])));
+}
+
+/**
+ * ∫ sign as tall as the integrand, with optional limits, followed by the integrand and dx
+ */
+export function prettyIntegral(body: Box, variable: string, lower?: Box, upper?: Box): Box {
+  const sign = box(
+    ['⌠', ...new Array<string>(body.lines.length).fill('⎮'), '⌡'],
+    1 + body.baseline
+  );
+  const limits = column(
+    [upper ?? text(''), sign, lower ?? text('')].filter((b) => width(b) > 0),
+    upper ? 1 : 0
+  );
+  return row(limits, text(' '), body, text(` d${symbolName(variable)}`));
+}
+
+/**
+ * Σ sign with the index range below and the upper limit above
+ */
+export function prettySum(body: Box, index: string, lower: Box, upper: Box): Box {
+  const k = Math.max(2, Math.ceil(body.lines.length / 2) + 1);
+  const sign = box(
+    [
+      '_'.repeat(k + 1),
+      ...Array.from({ length: k }, (_, i) => ' '.repeat(i) + '╲'),
+      ...Array.from({ length: k }, (_, i) => ' '.repeat(k - 1 - i) + '╱'),
+      '‾'.repeat(k + 1),
+    ],
+    k
+  );
+  const limits = column([upper, sign, row(text(`${symbolName(index)} = `), lower)], 1);
+  return row(limits, text(' '), body);
+}
+
+/**
+ * d/dx (body), with the order as an exponent on d and dx
+ */
+export function prettyDerivative(body: Box, variable: string, order = 1): Box {
+  const dx = text(`d${symbolName(variable)}`);
+  const operator =
+    order === 1
+      ? stackedFraction(text('d'), dx)
+      : stackedFraction(power(text('d'), text(String(order))), power(dx, text(String(order))));
+  return row(operator, parens(body));
+}
+
+/**
+ * lim with the approach written underneath, side is '+', '-' or '' for both sides
+ */
+export function prettyLimit(body: Box, variable: string, point: Box, side = ''): Box {
+  const superscript = { '+': '⁺', '-': '⁻' }[side] ?? '';
+  const approach = row(text(`${symbolName(variable)}─→`), point, text(superscript));
+  return row(column([text('lim'), approach], 0), text(' '), body);
+}
+
+/**
+ * Cells centred in their columns inside square brackets
+ */
+export function prettyMatrix(cells: Box[][]): Box {
+  const columns = cells[0].map((_, j) => Math.max(...cells.map((r) => width(r[j]))));
+  const rows = cells.map((r) =>
+    row(
+      ...r.flatMap((cell, j) => {
+        const padded = box(
+          cell.lines.map((line) => centre(line, columns[j])),
+          cell.baseline
+        );
+        return j === 0 ? [padded] : [text('  '), padded];
+      })
+    )
+  );
+  const tall = rows.some((r) => r.lines.length > 1);
+  const body = column(rows, 0, tall);
+  return brackets({ ...body, baseline: Math.floor((body.lines.length - 1) / 2) });
+}
+
+/**
+ * Lines stacked top to bottom with a blank line between blocks
+ */
+export function prettyLines(blocks: Box[]): Box {
+  const size = Math.max(...blocks.map(width));
+  return box(
+    blocks.flatMap((b, i) => [...(i > 0 ? [''] : []), ...b.lines.map((line) => line.padEnd(size))]),
+    0
+  );
+}
+
+/**
+ * Box to a string, trailing spaces removed
+ */
+export const render = (b: Box): string => b.lines.map((line) => line.trimEnd()).join('\n');
+
+/**
+ * Pretty printed expression as a multi-line string
+ */
+export const pretty = (e: Expr): string => render(prettyExpr(e));
@@ -0,0 +1,381 @@
+/**
+ * Matrix Engine
+ * Pure TypeScript stand-in for python/matrix_ops.py
+ * Exact elimination over rationals (simple symbolic entries work too), eigenvalues from
+ * the characteristic polynomial (Faddeev-LeVerrier) and its roots
+ */
+
+import type { PythonResult } from './pythonBridge.js';
+import {
+  Expr,
+  MathError,
+  ONE,
+  ZERO,
+  add,
+  div,
+  evaluate,
+  expand,
+  isValue,
+  key,
+  mul,
+  neg,
+  num,
+  parse,
+  sub,
+  symbols,
+  toLatex,
+  toString,
+} from './mathExpression.js';
+import { factorPolynomial, fromCoefficients, polynomialRoots } from './mathPolynomial.js';
+import {
+  Box,
+  pretty,
+  prettyEquation,
+  prettyExpr,
+  prettyLines,
+  prettyMatrix,
+  render,
+  row,
+  text,
+} from './mathPretty.js';
+
+export type Matrix = Expr[][];
+
+type MatrixArgs = Record<string, string | undefined>;
+
+const MAX_DIMENSION = 10;
+const ZERO_TOLERANCE = 1e-9; // Float eigenvalues leave rounding noise behind
+
+/**
+ * JSON list of rows to a matrix of expressions
+ */
+function parseMatrix(value: string | undefined): Matrix {
+  let rows: unknown;
+  try {
+    rows = JSON.parse(value ?? '');
+  } catch {
+    throw new MathError('Matrix must be valid JSON');
+  }
+
+  if (!Array.isArray(rows) || rows.length === 0 || !rows.every(Array.isArray)) {
+    throw new MathError('Matrix must be a non-empty list of rows');
+  }
+  if (new Set(rows.map((row) => row.length)).size !== 1 || rows[0].length === 0) {
+    throw new MathError('All matrix rows must have the same, non-zero length');
+  }
+  if (rows.length > MAX_DIMENSION || rows[0].length > MAX_DIMENSION) {
+    throw new MathError(`Matrices are limited to ${MAX_DIMENSION}x${MAX_DIMENSION}`);
+  }
+
+  return (rows as unknown[][]).map((row) =>
+    row.map((item) => {
+      if (typeof item === 'number' || typeof item === 'string') return parse(String(item));
+      throw new MathError(`Invalid matrix entry: ${JSON.stringify(item)}`);
+    })
+  );
+}
+
+const tidy = (e: Expr) => expand(e);
+
+function isZero(e: Expr): boolean {
+  if (isValue(e, 0)) return true;
+  if (symbols(e).size > 0) return false;
+  return Math.abs(evaluate(e)) < ZERO_TOLERANCE;
+}
+
+const format = (matrix: Matrix) => matrix.map((row) => row.map(toString));
+
+const prettyGrid = (matrix: Matrix) => render(prettyMatrix(matrix.map((r) => r.map(prettyExpr))));
+const prettyEigenvalue = (value: Expr) => prettyEquation(text('λ'), prettyExpr(value));
+
+/**
+ * SymPy style LaTeX matrix
+ */
+export function latexMatrix(matrix: Matrix): string {
+  const body = matrix.map((row) => row.map(toLatex).join(' & ')).join('\\\\');
+  return `\\left[\\begin{matrix}${body}\\end{matrix}\\right]`;
+}
+
+const identity = (n: number): Matrix =>
+  Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? ONE : ZERO)));
+
+function multiply(a: Matrix, b: Matrix): Matrix {
+  return a.map((row) =>
+    b[0].map((_, j) => tidy(add(...row.map((entry, k) => mul(entry, b[k][j])))))
+  );
+}
+
+function requireSquare(matrix: Matrix, operation: string): void {
+  if (matrix.length !== matrix[0].length) {
+    throw new MathError(
+      `${operation} requires a square matrix, got ${matrix.length}x${matrix[0].length}`
+    );
+  }
+}
+
+/**
+ * Reduced row echelon form by Gauss-Jordan elimination, with the pivot columns
+ */
+export function rowReduce(matrix: Matrix): { matrix: Matrix; pivots: number[] } {
+  const rows = matrix.map((row) => [...row]);
+  const pivots: number[] = [];
+  let r = 0;
+
+  for (let c = 0; c < rows[0].length && r < rows.length; c++) {
+    const p = rows.findIndex((row, i) => i >= r && !isZero(row[c]));
+    if (p < 0) continue;
+
+    [rows[r], rows[p]] = [rows[p], rows[r]];
+    const pivot = rows[r][c];
+    rows[r] = rows[r].map((entry) => tidy(div(entry, pivot)));
+
+    for (let i = 0; i < rows.length; i++) {
+      if (i === r || isZero(rows[i][c])) continue;
+      const factor = rows[i][c];
+      rows[i] = rows[i].map((entry, j) => tidy(sub(entry, mul(factor, rows[r][j]))));
+    }
+
+    pivots.push(c);
+    r++;
+  }
+
+  return { matrix: rows.map((row) => row.map((entry) => (isZero(entry) ? ZERO : entry))), pivots };
+}
+
+/**
+ * Determinant by elimination: product of the pivots, sign flipped per row swap
+ */
+export function determinant(matrix: Matrix): Expr {
+  const rows = matrix.map((row) => [...row]);
+  const n = rows.length;
+  let result: Expr = ONE;
+
+  for (let c = 0; c < n; c++) {
+    const p = rows.findIndex((row, i) => i >= c && !isZero(row[c]));
+    if (p < 0) return ZERO;
+    if (p !== c) {
+      [rows[c], rows[p]] = [rows[p], rows[c]];
+      result = neg(result);
+    }
+
+    const pivot = rows[c][c];
+    result = mul(result, pivot);
+    for (let i = c + 1; i < n; i++) {
+      const factor = div(rows[i][c], pivot);
+      rows[i] = rows[i].map((entry, j) => tidy(sub(entry, mul(factor, rows[c][j]))));
+    }
+  }
+
+  return tidy(result);
+}
+
+const minor = (matrix: Matrix, row: number, col: number): Matrix =>
+  matrix.filter((_, i) => i !== row).map((r) => r.filter((_, j) => j !== col));
+
+/**
+ * Characteristic polynomial det(lambda*I - A), ascending coefficients (Faddeev-LeVerrier)
+ */
+export function characteristicPolynomial(matrix: Matrix): Expr[] {
+  const n = matrix.length;
+  const coefficients: Expr[] = new Array(n + 1);
+  coefficients[n] = ONE;
+
+  // product holds A * M(k-1), starting from M(0) = 0
+  let product: Matrix = identity(n).map((row) => row.map(() => ZERO));
+  for (let k = 1; k <= n; k++) {
+    const m = product.map((row, i) =>
+      row.map((entry, j) => (i === j ? tidy(add(entry, coefficients[n - k + 1])) : entry))
+    );
+    product = multiply(matrix, m);
+    coefficients[n - k] = tidy(mul(num(-1, k), add(...product.map((row, i) => row[i]))));
+  }
+
+  return coefficients;
+}
+
+/**
+ * Basis of the null space, read off the reduced row echelon form
+ */
+export function nullSpace(matrix: Matrix): Matrix {
+  const { matrix: reduced, pivots } = rowReduce(matrix);
+  const cols = matrix[0].length;
+
+  return Array.from({ length: cols }, (_, c) => c)
+    .filter((c) => !pivots.includes(c))
+    .map((free) =>
+      Array.from({ length: cols }, (_, c) => {
+        if (c === free) return ONE;
+        const row = pivots.indexOf(c);
+        return row >= 0 ? tidy(neg(reduced[row][free])) : ZERO;
+      })
+    );
+}
+
+// Distinct eigenvalues with their algebraic multiplicity
+function eigenvalueList(matrix: Matrix, steps: string[]): { value: Expr; multiplicity: number }[] {
+  const coefficients = characteristicPolynomial(matrix);
+  const polynomial = fromCoefficients(coefficients, 'lambda');
+  steps.push(
+    `Characteristic polynomial: det(A - lambda*I) = ${toString(factorPolynomial(polynomial) ?? polynomial)}`
+  );
+
+  const values = new Map<string, { value: Expr; multiplicity: number }>();
+  for (const root of polynomialRoots(coefficients, steps, 'lambda')) {
+    const entry = values.get(key(root));
+    if (entry) entry.multiplicity++;
+    else values.set(key(root), { value: root, multiplicity: 1 });
+  }
+  return [...values.values()];
+}
+
+const numeric = (e: Expr) => {
+  const value = evaluate(e);
+  return Number.isFinite(value) ? value : null;
+};
+
+function det(matrix: Matrix): Omit<PythonResult, 'success'> {
+  requireSquare(matrix, 'Determinant');
+  const result = determinant(matrix);
+  const output: Omit<PythonResult, 'success'> = {
+    result: toString(result),
+    latex: toLatex(result),
+    pretty: pretty(result),
+    steps: [`Matrix ${matrix.length}x${matrix[0].length}`, `Determinant: ${toString(result)}`],
+  };
+  if (numeric(result) !== null) output.numeric = numeric(result);
+  return output;
+}
+
+function inv(matrix: Matrix): Omit<PythonResult, 'success'> {
+  requireSquare(matrix, 'Inverse');
+  const determinantValue = determinant(matrix);
+  if (isZero(determinantValue)) {
+    throw new MathError('Matrix is singular (determinant is 0), no inverse exists');
+  }
+
+  // Adjugate over determinant keeps symbolic entries readable: d/(a*d - b*c)
+  const n = matrix.length;
+  const result =
+    n === 1
+      ? [[tidy(div(ONE, determinantValue))]]
+      : matrix.map((row, i) =>
+          row.map((_, j) => {
+            const cofactor = mul(num((i + j) % 2 === 0 ? 1 : -1), determinant(minor(matrix, j, i)));
+            return tidy(div(cofactor, determinantValue));
+          })
+        );
+
+  return {
+    result: format(result),
+    latex: latexMatrix(result),
+    pretty: prettyGrid(result),
+    steps: [
+      `Determinant: ${toString(determinantValue)} (non-zero, so the inverse exists)`,
+      'Inverse: adj(A) / det(A)',
+    ],
+  };
+}
+
+function eigenvalues(matrix: Matrix): Omit<PythonResult, 'success'> {
+  requireSquare(matrix, 'Eigenvalues');
+  const steps: string[] = [];
+  const values = eigenvalueList(matrix, steps);
+  steps.push(`Roots: ${values.map(({ value }) => toString(value)).join(', ')}`);
+
+  return {
+    result: values.map(({ value, multiplicity }) => ({
+      value: toString(value),
+      multiplicity,
+      numeric: numeric(value),
+    })),
+    latex: values.map(({ value }) => `\\lambda = ${toLatex(value)}`).join(', '),
+    pretty: render(prettyLines(values.map(({ value }) => prettyEigenvalue(value)))),
+    steps,
+  };
+}
+
+function eigenvectors(matrix: Matrix): Omit<PythonResult, 'success'> {
+  requireSquare(matrix, 'Eigenvectors');
+  const steps: string[] = [];
+  const latex: string[] = [];
+  const display: Box[] = [];
+
+  const result = eigenvalueList(matrix, steps).map(({ value, multiplicity }) => {
+    const shifted = matrix.map((row, i) =>
+      row.map((entry, j) => (i === j ? tidy(sub(entry, value)) : entry))
+    );
+    const vectors = nullSpace(shifted);
+    const name = toString(value);
+
+    steps.push(`lambda = ${name}: null space of (A - ${name}*I) gives ${vectors.length} vector(s)`);
+    latex.push(
+      `\\lambda = ${toLatex(value)}: ` +
+        vectors.map((vector) => latexMatrix(vector.map((entry) => [entry]))).join(', ')
+    );
+    display.push(
+      row(
+        prettyEigenvalue(value),
+        ...vectors.flatMap((vector) => [
+          text(', '),
+          prettyMatrix(vector.map((entry) => [prettyExpr(entry)])),
+        ])
+      )
+    );
+    return { value: name, multiplicity, vectors: vectors.map((vector) => vector.map(toString)) };
+  });
+
+  return {
+    result,
+    latex: latex.join(' \\quad '),
+    pretty: render(prettyLines(display)),
+    steps,
+  };
+}
+
+function rref(matrix: Matrix): Omit<PythonResult, 'success'> {
+  const { matrix: reduced, pivots } = rowReduce(matrix);
+  return {
+    result: { matrix: format(reduced), pivots, rank: pivots.length },
+    latex: latexMatrix(reduced),
+    pretty: prettyGrid(reduced),
+    steps: [
+      'Gauss-Jordan elimination to reduced row echelon form',
+      `Pivot columns: ${pivots.join(', ') || 'none'}`,
+      `Rank: ${pivots.length}`,
+    ],
+  };
+}
+
+function transpose(matrix: Matrix): Omit<PythonResult, 'success'> {
+  const result = matrix[0].map((_, j) => matrix.map((row) => row[j]));
+  return {
+    result: format(result),
+    latex: latexMatrix(result),
+    pretty: prettyGrid(result),
+    steps: [
+      `Swap rows and columns: ${matrix.length}x${matrix[0].length} -> ${result.length}x${result[0].length}`,
+    ],
+  };
+}
+
+const OPERATIONS: Record<string, (matrix: Matrix) => Omit<PythonResult, 'success'>> = {
+  det,
+  inv,
+  eigenvalues,
+  eigenvectors,
+  rref,
+  transpose,
+};
+
+/**
+ * Same arguments and result shape as python/matrix_ops.py
+ */
+export function runMatrixOperation(args: MatrixArgs): PythonResult {
+  const operation = args.operation ?? '';
+  if (!Object.prototype.hasOwnProperty.call(OPERATIONS, operation)) {
+    throw new MathError(`Invalid operation. Valid: ${Object.keys(OPERATIONS).join(', ')}`);
+  }
+
+  const matrix = parseMatrix(args.matrix);
+  return { success: true, operation, ...OPERATIONS[operation](matrix) };
+}
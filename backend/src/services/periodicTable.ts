@@ -0,0 +1,248 @@
+/**
+ * Periodic Table
+ * All 118 elements with their properties: the single dataset behind element lookup,
+ * molar masses and the terminal's periodic table
+ * Temperatures in kelvin, densities in g/cm³ (gases at 0 °C and 1 atm), electronegativity
+ * on the Pauling scale; null where a value is unknown or not measured
+ */
+
+export type ElementCategory =
+  | 'alkali metal'
+  | 'alkaline earth'
+  | 'transition metal'
+  | 'post-transition'
+  | 'metalloid'
+  | 'nonmetal'
+  | 'halogen'
+  | 'noble gas'
+  | 'lanthanide'
+  | 'actinide';
+
+export interface Isotope {
+  massNumber: number;
+  abundance: number | null; // natural abundance in %, null for radioactive-only isotopes
+}
+
+export interface Element {
+  symbol: string;
+  name: string;
+  atomicNumber: number;
+  atomicMass: number; // mass number of the longest-lived isotope for radioactive elements
+  category: ElementCategory;
+  group: number | null; // null for the f-block rows (Ce-Lu, Th-Lr)
+  period: number;
+  block: 's' | 'p' | 'd' | 'f';
+  electronConfiguration: string;
+  electronegativity: number | null;
+  density: number | null;
+  meltingPoint: number | null;
+  boilingPoint: number | null;
+  oxidationStates: number[]; // common states
+  isotopes: Isotope[]; // most abundant (or longest-lived) first
+}
+
+// One element per line, in atomic number order:
+// symbol|name|mass|category|configuration|electronegativity|density|melting|boiling|
+// oxidation states|isotopes (mass number:abundance %, bare mass number when synthetic)
+const DATA = `
+H|Hydrogen|1.008|nonmetal|1s1|2.2|0.00008988|13.99|20.271|-1,1|1:99.9885,2:0.0115
+He|Helium|4.0026|noble gas|1s2||0.0001785||4.222|0|4:99.999866,3:0.000134
+Li|Lithium|6.94|alkali metal|[He] 2s1|0.98|0.534|453.65|1603|1|7:92.41,6:7.59
+Be|Beryllium|9.0122|alkaline earth|[He] 2s2|1.57|1.85|1560|2742|2|9:100
+B|Boron|10.81|metalloid|[He] 2s2 2p1|2.04|2.34|2349|4200|3|11:80.1,10:19.9
+C|Carbon|12.011|nonmetal|[He] 2s2 2p2|2.55|2.267||3915|-4,2,4|12:98.93,13:1.07
+N|Nitrogen|14.007|nonmetal|[He] 2s2 2p3|3.04|0.0012506|63.15|77.355|-3,3,5|14:99.636,15:0.364
+O|Oxygen|15.999|nonmetal|[He] 2s2 2p4|3.44|0.001429|54.36|90.188|-2|16:99.757,18:0.205,17:0.038
+F|Fluorine|18.998|halogen|[He] 2s2 2p5|3.98|0.001696|53.48|85.03|-1|19:100
+Ne|Neon|20.18|noble gas|[He] 2s2 2p6||0.0008999|24.56|27.104|0|20:90.48,22:9.25,21:0.27
+Na|Sodium|22.99|alkali metal|[Ne] 3s1|0.93|0.968|370.944|1156.09|1|23:100
+Mg|Magnesium|24.305|alkaline earth|[Ne] 3s2|1.31|1.738|923|1363|2|24:78.99,26:11.01,25:10
+Al|Aluminum|26.982|post-transition|[Ne] 3s2 3p1|1.61|2.7|933.47|2743|3|27:100
+Si|Silicon|28.085|metalloid|[Ne] 3s2 3p2|1.9|2.329|1687|3538|-4,4|28:92.223,29:4.685,30:3.092
+P|Phosphorus|30.974|nonmetal|[Ne] 3s2 3p3|2.19|1.823|317.3|553.7|-3,3,5|31:100
+S|Sulfur|32.06|nonmetal|[Ne] 3s2 3p4|2.58|2.07|388.36|717.8|-2,2,4,6|32:94.99,34:4.25,33:0.75,36:0.01
+Cl|Chlorine|35.45|halogen|[Ne] 3s2 3p5|3.16|0.003214|171.6|239.11|-1,1,3,5,7|35:75.76,37:24.24
+Ar|Argon|39.948|noble gas|[Ne] 3s2 3p6||0.001784|83.81|87.302|0|40:99.6035,36:0.3336,38:0.0629
+K|Potassium|39.098|alkali metal|[Ar] 4s1|0.82|0.862|336.7|1032|1|39:93.2581,41:6.7302,40:0.0117
+Ca|Calcium|40.078|alkaline earth|[Ar] 4s2|1|1.55|1115|1757|2|40:96.941,44:2.086,42:0.647,48:0.187,43:0.135
+Sc|Scandium|44.956|transition metal|[Ar] 3d1 4s2|1.36|2.985|1814|3109|3|45:100
+Ti|Titanium|47.867|transition metal|[Ar] 3d2 4s2|1.54|4.506|1941|3560|2,3,4|48:73.72,46:8.25,47:7.44,49:5.41,50:5.18
+V|Vanadium|50.942|transition metal|[Ar] 3d3 4s2|1.63|6|2183|3680|2,3,4,5|51:99.75,50:0.25
+Cr|Chromium|51.996|transition metal|[Ar] 3d5 4s1|1.66|7.19|2180|2944|2,3,6|52:83.789,53:9.501,50:4.345,54:2.365
+Mn|Manganese|54.938|transition metal|[Ar] 3d5 4s2|1.55|7.21|1519|2334|2,3,4,6,7|55:100
+Fe|Iron|55.845|transition metal|[Ar] 3d6 4s2|1.83|7.874|1811|3134|2,3|56:91.754,54:5.845,57:2.119,58:0.282
+Co|Cobalt|58.933|transition metal|[Ar] 3d7 4s2|1.88|8.9|1768|3200|2,3|59:100
+Ni|Nickel|58.693|transition metal|[Ar] 3d8 4s2|1.91|8.908|1728|3003|2|58:68.077,60:26.223,62:3.635,61:1.14,64:0.926
+Cu|Copper|63.546|transition metal|[Ar] 3d10 4s1|1.9|8.96|1357.77|2835|1,2|63:69.15,65:30.85
+Zn|Zinc|65.38|transition metal|[Ar] 3d10 4s2|1.65|7.14|692.68|1180|2|64:49.17,66:27.73,68:18.45,67:4.04,70:0.61
+Ga|Gallium|69.723|post-transition|[Ar] 3d10 4s2 4p1|1.81|5.91|302.915|2673|3|69:60.108,71:39.892
+Ge|Germanium|72.63|metalloid|[Ar] 3d10 4s2 4p2|2.01|5.323|1211.4|3106|2,4|74:36.52,72:27.45,70:20.52,73:7.76,76:7.75
+As|Arsenic|74.922|metalloid|[Ar] 3d10 4s2 4p3|2.18|5.727||887|-3,3,5|75:100
+Se|Selenium|78.971|nonmetal|[Ar] 3d10 4s2 4p4|2.55|4.81|494|958|-2,4,6|80:49.61,78:23.77,76:9.37,82:8.73,77:7.63,74:0.89
+Br|Bromine|79.904|halogen|[Ar] 3d10 4s2 4p5|2.96|3.1028|265.8|332|-1,1,3,5|79:50.69,81:49.31
+Kr|Krypton|83.798|noble gas|[Ar] 3d10 4s2 4p6|3|0.003749|115.78|119.93|0,2|84:56.99,86:17.28,82:11.59,83:11.5,80:2.29,78:0.36
+Rb|Rubidium|85.468|alkali metal|[Kr] 5s1|0.82|1.532|312.45|961|1|85:72.17,87:27.83
+Sr|Strontium|87.62|alkaline earth|[Kr] 5s2|0.95|2.64|1050|1650|2|88:82.58,86:9.86,87:7,84:0.56
+Y|Yttrium|88.906|transition metal|[Kr] 4d1 5s2|1.22|4.472|1799|3203|3|89:100
+Zr|Zirconium|91.224|transition metal|[Kr] 4d2 5s2|1.33|6.52|2128|4650|4|90:51.45,94:17.38,92:17.15,91:11.22,96:2.8
+Nb|Niobium|92.906|transition metal|[Kr] 4d4 5s1|1.6|8.57|2750|5017|3,5|93:100
+Mo|Molybdenum|95.95|transition metal|[Kr] 4d5 5s1|2.16|10.28|2896|4912|4,6|98:24.39,96:16.67,95:15.84,92:14.65,100:9.82,97:9.6,94:9.19
+Tc|Technetium|98|transition metal|[Kr] 4d5 5s2|1.9|11|2430|4538|4,7|98,97,99
+Ru|Ruthenium|101.07|transition metal|[Kr] 4d7 5s1|2.2|12.45|2607|4423|3,4,8|102:31.55,104:18.62,101:17.06,99:12.76,100:12.6,96:5.54,98:1.87
+Rh|Rhodium|102.91|transition metal|[Kr] 4d8 5s1|2.28|12.41|2237|3968|3|103:100
+Pd|Palladium|106.42|transition metal|[Kr] 4d10|2.2|12.023|1828.05|3236|2,4|106:27.33,108:26.46,105:22.33,110:11.72,104:11.14,102:1.02
+Ag|Silver|107.868|transition metal|[Kr] 4d10 5s1|1.93|10.49|1234.93|2435|1|107:51.839,109:48.161
+Cd|Cadmium|112.41|transition metal|[Kr] 4d10 5s2|1.69|8.65|594.22|1040|2|114:28.73,112:24.13,111:12.8,110:12.49,113:12.22,116:7.49,106:1.25,108:0.89
+In|Indium|114.82|post-transition|[Kr] 4d10 5s2 5p1|1.78|7.31|429.75|2345|3|115:95.71,113:4.29
+Sn|Tin|118.71|post-transition|[Kr] 4d10 5s2 5p2|1.96|7.287|505.08|2875|2,4|120:32.58,118:24.22,116:14.54,119:8.59,117:7.68,124:5.79,122:4.63
+Sb|Antimony|121.76|metalloid|[Kr] 4d10 5s2 5p3|2.05|6.697|903.78|1908|-3,3,5|121:57.21,123:42.79
+Te|Tellurium|127.6|metalloid|[Kr] 4d10 5s2 5p4|2.1|6.24|722.66|1261|-2,4,6|130:34.08,128:31.74,126:18.84,125:7.07,124:4.74,122:2.55
+I|Iodine|126.9|halogen|[Kr] 4d10 5s2 5p5|2.66|4.933|386.85|457.4|-1,1,5,7|127:100
+Xe|Xenon|131.29|noble gas|[Kr] 4d10 5s2 5p6|2.6|0.005894|161.4|165.051|0,2,4,6|132:26.91,129:26.4,131:21.23,134:10.44,136:8.86,130:4.07
+Cs|Cesium|132.91|alkali metal|[Xe] 6s1|0.79|1.93|301.7|944|1|133:100
+Ba|Barium|137.33|alkaline earth|[Xe] 6s2|0.89|3.51|1000|2118|2|138:71.7,137:11.23,136:7.85,135:6.59,134:2.42
+La|Lanthanum|138.91|lanthanide|[Xe] 5d1 6s2|1.1|6.162|1193|3737|3|139:99.91,138:0.09
+Ce|Cerium|140.12|lanthanide|[Xe] 4f1 5d1 6s2|1.12|6.77|1068|3716|3,4|140:88.45,142:11.11,138:0.25,136:0.19
+Pr|Praseodymium|140.91|lanthanide|[Xe] 4f3 6s2|1.13|6.77|1208|3403|3|141:100
+Nd|Neodymium|144.24|lanthanide|[Xe] 4f4 6s2|1.14|7.01|1297|3347|3|142:27.2,144:23.8,146:17.2,143:12.2,145:8.3,148:5.7,150:5.6
+Pm|Promethium|145|lanthanide|[Xe] 4f5 6s2|1.13|7.26|1315|3273|3|145,147
+Sm|Samarium|150.36|lanthanide|[Xe] 4f6 6s2|1.17|7.52|1345|2173|2,3|152:26.75,154:22.75,147:14.99,149:13.82,148:11.24,150:7.38,144:3.07
+Eu|Europium|151.96|lanthanide|[Xe] 4f7 6s2|1.2|5.264|1099|1802|2,3|153:52.19,151:47.81
+Gd|Gadolinium|157.25|lanthanide|[Xe] 4f7 5d1 6s2|1.2|7.9|1585|3273|3|158:24.84,160:21.86,156:20.47,157:15.65,155:14.8,154:2.18
+Tb|Terbium|158.93|lanthanide|[Xe] 4f9 6s2|1.1|8.23|1629|3396|3,4|159:100
+Dy|Dysprosium|162.5|lanthanide|[Xe] 4f10 6s2|1.22|8.54|1680|2840|3|164:28.26,162:25.48,163:24.9,161:18.89,160:2.33
+Ho|Holmium|164.93|lanthanide|[Xe] 4f11 6s2|1.23|8.79|1734|2873|3|165:100
+Er|Erbium|167.26|lanthanide|[Xe] 4f12 6s2|1.24|9.066|1802|3141|3|166:33.5,168:26.98,167:22.87,170:14.91,164:1.6
+Tm|Thulium|168.93|lanthanide|[Xe] 4f13 6s2|1.25|9.32|1818|2223|2,3|169:100
+Yb|Ytterbium|173.05|lanthanide|[Xe] 4f14 6s2|1.1|6.9|1097|1469|2,3|174:32.03,172:21.68,173:16.1,171:14.09,176:13,170:2.98
+Lu|Lutetium|174.97|lanthanide|[Xe] 4f14 5d1 6s2|1.27|9.841|1925|3675|3|175:97.4,176:2.6
+Hf|Hafnium|178.49|transition metal|[Xe] 4f14 5d2 6s2|1.3|13.31|2506|4876|4|180:35.08,178:27.28,177:18.6,179:13.62,176:5.26
+Ta|Tantalum|180.95|transition metal|[Xe] 4f14 5d3 6s2|1.5|16.69|3290|5731|5|181:99.988,180:0.012
+W|Tungsten|183.84|transition metal|[Xe] 4f14 5d4 6s2|2.36|19.25|3695|6203|4,6|184:30.64,186:28.43,182:26.5,183:14.31,180:0.12
+Re|Rhenium|186.21|transition metal|[Xe] 4f14 5d5 6s2|1.9|21.02|3459|5869|4,7|187:62.6,185:37.4
+Os|Osmium|190.23|transition metal|[Xe] 4f14 5d6 6s2|2.2|22.59|3306|5285|4,8|192:40.78,190:26.26,189:16.15,188:13.24,187:1.96,186:1.59
+Ir|Iridium|192.22|transition metal|[Xe] 4f14 5d7 6s2|2.2|22.56|2719|4403|3,4|193:62.7,191:37.3
+Pt|Platinum|195.08|transition metal|[Xe] 4f14 5d9 6s1|2.28|21.45|2041.4|4098|2,4|195:33.78,194:32.86,196:25.21,198:7.36,192:0.78
+Au|Gold|196.967|transition metal|[Xe] 4f14 5d10 6s1|2.54|19.3|1337.33|3243|1,3|197:100
+Hg|Mercury|200.59|transition metal|[Xe] 4f14 5d10 6s2|2|13.534|234.321|629.88|1,2|202:29.74,200:23.1,199:16.94,201:13.17,198:9.97,204:6.82
+Tl|Thallium|204.38|post-transition|[Xe] 4f14 5d10 6s2 6p1|1.62|11.85|577|1746|1,3|205:70.48,203:29.52
+Pb|Lead|207.2|post-transition|[Xe] 4f14 5d10 6s2 6p2|2.33|11.34|600.61|2022|2,4|208:52.4,206:24.1,207:22.1,204:1.4
+Bi|Bismuth|208.98|post-transition|[Xe] 4f14 5d10 6s2 6p3|2.02|9.78|544.7|1837|3,5|209:100
+Po|Polonium|209|post-transition|[Xe] 4f14 5d10 6s2 6p4|2|9.196|527|1235|2,4|209,210
+At|Astatine|210|halogen|[Xe] 4f14 5d10 6s2 6p5|2.2||575|610|-1,1|210,211
+Rn|Radon|222|noble gas|[Xe] 4f14 5d10 6s2 6p6|2.2|0.00973|202|211.5|0,2|222
+Fr|Francium|223|alkali metal|[Rn] 7s1|0.79||300|950|1|223
+Ra|Radium|226|alkaline earth|[Rn] 7s2|0.9|5.5|973|2010|2|226,228
+Ac|Actinium|227|actinide|[Rn] 6d1 7s2|1.1|10.07|1323|3471|3|227
+Th|Thorium|232.04|actinide|[Rn] 6d2 7s2|1.3|11.72|2023|5061|4|232:100
+Pa|Protactinium|231.04|actinide|[Rn] 5f2 6d1 7s2|1.5|15.37|1841|4300|5|231:100
+U|Uranium|238.029|actinide|[Rn] 5f3 6d1 7s2|1.38|19.1|1405.3|4404|3,4,5,6|238:99.2742,235:0.7204,234:0.0054
+Np|Neptunium|237|actinide|[Rn] 5f4 6d1 7s2|1.36|20.45|912|4447|3,4,5,6|237
+Pu|Plutonium|244|actinide|[Rn] 5f6 7s2|1.28|19.85|912.5|3505|3,4,5,6|244,239
+Am|Americium|243|actinide|[Rn] 5f7 7s2|1.13|12|1449|2880|3|243,241
+Cm|Curium|247|actinide|[Rn] 5f7 6d1 7s2|1.28|13.51|1613|3383|3|247,244
+Bk|Berkelium|247|actinide|[Rn] 5f9 7s2|1.3|14.78|1259|2900|3,4|247
+Cf|Californium|251|actinide|[Rn] 5f10 7s2|1.3|15.1|1173||3|251,252
+Es|Einsteinium|252|actinide|[Rn] 5f11 7s2|1.3|8.84|1133||3|252
+Fm|Fermium|257|actinide|[Rn] 5f12 7s2|1.3||||3|257
+Md|Mendelevium|258|actinide|[Rn] 5f13 7s2|1.3||||2,3|258
+No|Nobelium|259|actinide|[Rn] 5f14 7s2|1.3||||2,3|259
+Lr|Lawrencium|266|actinide|[Rn] 5f14 7s2 7p1|1.3||||3|266
+Rf|Rutherfordium|267|transition metal|[Rn] 5f14 6d2 7s2|||||4|267
+Db|Dubnium|268|transition metal|[Rn] 5f14 6d3 7s2|||||5|268
+Sg|Seaborgium|269|transition metal|[Rn] 5f14 6d4 7s2|||||6|269
+Bh|Bohrium|270|transition metal|[Rn] 5f14 6d5 7s2|||||7|270
+Hs|Hassium|269|transition metal|[Rn] 5f14 6d6 7s2|||||8|269
+Mt|Meitnerium|278|transition metal|[Rn] 5f14 6d7 7s2||||||278
+Ds|Darmstadtium|281|transition metal|[Rn] 5f14 6d8 7s2||||||281
+Rg|Roentgenium|282|transition metal|[Rn] 5f14 6d9 7s2||||||282
+Cn|Copernicium|285|transition metal|[Rn] 5f14 6d10 7s2|||||2|285
+Nh|Nihonium|286|post-transition|[Rn] 5f14 6d10 7s2 7p1||||||286
+Fl|Flerovium|289|post-transition|[Rn] 5f14 6d10 7s2 7p2||||||289
+Mc|Moscovium|290|post-transition|[Rn] 5f14 6d10 7s2 7p3||||||290
+Lv|Livermorium|293|post-transition|[Rn] 5f14 6d10 7s2 7p4||||||293
+Ts|Tennessine|294|halogen|[Rn] 5f14 6d10 7s2 7p5||||||294
+Og|Oganesson|294|noble gas|[Rn] 5f14 6d10 7s2 7p6||||||294
+`;
+
+// Atomic numbers of the noble gases that close each period
+const PERIOD_ENDS = [2, 10, 18, 36, 54, 86, 118];
+
+// British spellings are accepted by name lookup too
+const NAME_ALIASES: Record<string, string> = {
+  aluminium: 'Al',
+  caesium: 'Cs',
+  sulphur: 'S',
+};
+
+const optionalNumber = (text: string) => (text === '' ? null : Number(text));
+
+/**
+ * Period, group and block from the atomic number. Periods 6 and 7 put La/Ac in
+ * group 3 and the fourteen elements after them in the f-block rows
+ */
+function position(atomicNumber: number): Pick<Element, 'period' | 'group' | 'block'> {
+  const period = PERIOD_ENDS.findIndex((end) => atomicNumber <= end) + 1;
+  const start = period === 1 ? 0 : PERIOD_ENDS[period - 2];
+  const column = atomicNumber - start;
+  const length = PERIOD_ENDS[period - 1] - start;
+
+  if (period === 1) return { period, group: column === 1 ? 1 : 18, block: 's' };
+  if (column <= 2) return { period, group: column, block: 's' };
+  if (length === 8) return { period, group: column + 10, block: 'p' };
+  if (length === 18) {
+    return { period, group: column, block: column <= 12 ? 'd' : 'p' };
+  }
+  if (column === 3) return { period, group: 3, block: 'd' };
+  if (column <= 17) return { period, group: null, block: 'f' };
+  return { period, group: column - 14, block: column - 14 <= 12 ? 'd' : 'p' };
+}
+
+function parseRow(row: string, index: number): Element {
+  const [symbol, name, mass, category, configuration, electronegativity, ...rest] = row.split('|');
+  const [density, meltingPoint, boilingPoint, oxidation, isotopes] = rest;
+  const atomicNumber = index + 1;
+
+  return {
+    symbol,
+    name,
+    atomicNumber,
+    atomicMass: Number(mass),
+    category: category as ElementCategory,
+    ...position(atomicNumber),
+    electronConfiguration: configuration,
+    electronegativity: optionalNumber(electronegativity),
+    density: optionalNumber(density),
+    meltingPoint: optionalNumber(meltingPoint),
+    boilingPoint: optionalNumber(boilingPoint),
+    oxidationStates: oxidation ? oxidation.split(',').map(Number) : [],
+    isotopes: isotopes.split(',').map((isotope) => {
+      const [massNumber, abundance] = isotope.split(':');
+      return { massNumber: Number(massNumber), abundance: optionalNumber(abundance ?? '') };
+    }),
+  };
+}
+
+export const ELEMENTS: readonly Element[] = DATA.trim().split('\n').map(parseRow);
+
+const BY_SYMBOL = new Map(ELEMENTS.map((element) => [element.symbol.toLowerCase(), element]));
+const BY_NAME = new Map(ELEMENTS.map((element) => [element.name.toLowerCase(), element]));
+
+/**
+ * Element by exact symbol ("Fe"), case-sensitive as in formulas
+ */
+export function elementBySymbol(symbol: string): Element | undefined {
+  const element = BY_SYMBOL.get(symbol.toLowerCase());
+  return element?.symbol === symbol ? element : undefined;
+}
+
+/**
+ * Element by symbol, name or atomic number, any case: "fe", "Iron", "26"
+ */
+export function findElement(query: string): Element | undefined {
+  const text = query.trim().toLowerCase();
+  if (/^\d+$/.test(text)) return ELEMENTS[Number(text) - 1];
+  return (
+    BY_SYMBOL.get(text) ?? BY_NAME.get(text) ?? BY_SYMBOL.get(NAME_ALIASES[text]?.toLowerCase())
+  );
+}
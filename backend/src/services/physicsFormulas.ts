@@ -0,0 +1,537 @@
+/**
+ * Physics Formulas
+ * The one registry behind /api/science/physics, the terminal's physics command and its
+ * help. A formula is a forward function for its output; any single unknown is solved
+ * for, inputs by a bracketed root search, from values given in any fitting unit
+ */
+
+import { formatQuantity, fromSI, toSI } from './units.js';
+
+// Unknown formula or not enough knowns, the message is shown to the user
+export class PhysicsError extends Error {}
+
+export type PhysicsCategory = 'mechanics' | 'energy' | 'waves' | 'electricity' | 'gravitation';
+
+export interface PhysicsVariable {
+  key: string; // flag and field name: F, theta, lambda
+  symbol: string; // as written in the equation: θ, λ
+  name: string;
+  unit: string; // unit of plain numbers and of the answer
+  aliases?: string[]; // other accepted field names: velocity, angle
+  default?: number; // in `unit`
+  range?: [number, number]; // SI bounds for the root search, angles
+}
+
+export interface DerivedQuantity {
+  key: string;
+  name: string;
+  unit: string;
+  compute: (values: Record<string, number>) => number; // SI
+}
+
+export interface PhysicsFormula {
+  id: string;
+  aliases?: string[];
+  name: string;
+  category: PhysicsCategory;
+  equation: string;
+  description: string;
+  output: PhysicsVariable;
+  inputs: PhysicsVariable[]; // positional argument order
+  compute: (values: Record<string, number>) => number; // SI in, SI out
+  derived?: DerivedQuantity[];
+}
+
+export interface SolvedValue {
+  key: string;
+  symbol: string;
+  name: string;
+  value: number; // in `unit`
+  unit: string;
+  formatted: string;
+}
+
+export interface PhysicsSolution {
+  formula: string;
+  name: string;
+  equation: string;
+  solvedFor: string;
+  result: SolvedValue;
+  alternatives: SolvedValue[]; // other roots: the second launch angle for a range
+  values: SolvedValue[]; // every variable, defaults included
+  derived: SolvedValue[];
+}
+
+export interface SolveInput {
+  args?: unknown[]; // positional, in `inputs` order
+  values?: Record<string, unknown>; // by key, symbol, name or alias
+}
+
+const G = 6.674e-11; // gravitational constant, N·m²/kg²
+const ANGLE: [number, number] = [0, Math.PI / 2];
+
+const variable = (
+  key: string,
+  name: string,
+  unit: string,
+  extra: Partial<PhysicsVariable> = {}
+): PhysicsVariable => ({ key, symbol: key, name, unit, ...extra });
+
+const gravity = variable('g', 'gravity', 'm/s²', { default: 9.81 });
+
+// Launch at speed v and angle θ from height h, landing at height 0
+const flightTime = ({ v, theta, h, g }: Record<string, number>) => {
+  const vy = v * Math.sin(theta);
+  return (vy + Math.sqrt(vy * vy + 2 * g * h)) / g;
+};
+
+export const PHYSICS_FORMULAS: PhysicsFormula[] = [
+  // Mechanics
+  {
+    id: 'velocity',
+    name: 'Velocity',
+    category: 'mechanics',
+    equation: 'v = d / t',
+    description: 'Average speed over a distance',
+    output: variable('v', 'velocity', 'm/s'),
+    inputs: [variable('d', 'distance', 'm'), variable('t', 'time', 's')],
+    compute: ({ d, t }) => d / t,
+  },
+  {
+    id: 'acceleration',
+    name: 'Acceleration',
+    category: 'mechanics',
+    equation: 'a = (v - u) / t',
+    description: 'Constant acceleration from initial speed u to final speed v',
+    output: variable('a', 'acceleration', 'm/s²'),
+    inputs: [
+      variable('v', 'final velocity', 'm/s'),
+      variable('u', 'initial velocity', 'm/s'),
+      variable('t', 'time', 's'),
+    ],
+    compute: ({ v, u, t }) => (v - u) / t,
+  },
+  {
+    id: 'force',
+    name: "Force (Newton's 2nd Law)",
+    category: 'mechanics',
+    equation: 'F = m × a',
+    description: 'Net force on a mass',
+    output: variable('F', 'force', 'N'),
+    inputs: [variable('m', 'mass', 'kg'), variable('a', 'acceleration', 'm/s²')],
+    compute: ({ m, a }) => m * a,
+  },
+  {
+    id: 'momentum',
+    name: 'Momentum',
+    category: 'mechanics',
+    equation: 'p = m × v',
+    description: 'Linear momentum',
+    output: variable('p', 'momentum', 'kg·m/s'),
+    inputs: [variable('m', 'mass', 'kg'), variable('v', 'velocity', 'm/s')],
+    compute: ({ m, v }) => m * v,
+  },
+  {
+    id: 'projectile',
+    name: 'Projectile Motion',
+    category: 'mechanics',
+    equation: 'R = v·cosθ·(v·sinθ + √(v²sin²θ + 2gh)) / g',
+    description: 'Range of a launch from height h, without air resistance',
+    output: variable('R', 'range', 'm'),
+    inputs: [
+      variable('v', 'launch speed', 'm/s', { aliases: ['velocity', 'speed'] }),
+      variable('theta', 'launch angle', 'deg', { symbol: 'θ', aliases: ['angle'], range: ANGLE }),
+      variable('h', 'launch height', 'm', { aliases: ['height'], default: 0 }),
+      gravity,
+    ],
+    compute: (values) => values.v * Math.cos(values.theta) * flightTime(values),
+    derived: [
+      {
+        key: 'timeOfFlight',
+        name: 'time of flight',
+        unit: 's',
+        compute: flightTime,
+      },
+      {
+        key: 'maxHeight',
+        name: 'max height',
+        unit: 'm',
+        compute: ({ v, theta, h, g }) => h + (v * Math.sin(theta)) ** 2 / (2 * g),
+      },
+      {
+        key: 'initialVelocityX',
+        name: 'vx',
+        unit: 'm/s',
+        compute: ({ v, theta }) => v * Math.cos(theta),
+      },
+      {
+        key: 'initialVelocityY',
+        name: 'vy',
+        unit: 'm/s',
+        compute: ({ v, theta }) => v * Math.sin(theta),
+      },
+    ],
+  },
+  {
+    id: 'freefall',
+    name: 'Free Fall',
+    category: 'mechanics',
+    equation: 'v = √(2gh)',
+    description: 'Speed after falling from rest through a height',
+    output: variable('v', 'final velocity', 'm/s'),
+    inputs: [variable('h', 'height', 'm'), gravity],
+    compute: ({ h, g }) => Math.sqrt(2 * g * h),
+    derived: [
+      { key: 'time', name: 'time', unit: 's', compute: ({ h, g }) => Math.sqrt((2 * h) / g) },
+    ],
+  },
+  {
+    id: 'centripetal',
+    name: 'Centripetal Force',
+    category: 'mechanics',
+    equation: 'F = m × v² / r',
+    description: 'Force keeping a mass on a circle',
+    output: variable('F', 'force', 'N'),
+    inputs: [
+      variable('m', 'mass', 'kg'),
+      variable('v', 'velocity', 'm/s'),
+      variable('r', 'radius', 'm'),
+    ],
+    compute: ({ m, v, r }) => (m * v * v) / r,
+  },
+  {
+    id: 'pendulum',
+    name: 'Pendulum Period',
+    category: 'mechanics',
+    equation: 'T = 2π√(L / g)',
+    description: 'Period of a simple pendulum at small amplitude',
+    output: variable('T', 'period', 's'),
+    inputs: [variable('L', 'length', 'm'), gravity],
+    compute: ({ L, g }) => 2 * Math.PI * Math.sqrt(L / g),
+    derived: [
+      {
+        key: 'frequency',
+        name: 'frequency',
+        unit: 'Hz',
+        compute: ({ L, g }) => 1 / (2 * Math.PI * Math.sqrt(L / g)),
+      },
+      {
+        key: 'angularFrequency',
+        name: 'angular frequency',
+        unit: 'rad/s',
+        compute: ({ L, g }) => Math.sqrt(g / L),
+      },
+    ],
+  },
+
+  // Energy
+  {
+    id: 'kinetic',
+    name: 'Kinetic Energy',
+    category: 'energy',
+    equation: 'KE = ½mv²',
+    description: 'Energy of a moving mass',
+    output: variable('KE', 'kinetic energy', 'J'),
+    inputs: [variable('m', 'mass', 'kg'), variable('v', 'velocity', 'm/s')],
+    compute: ({ m, v }) => 0.5 * m * v * v,
+  },
+  {
+    id: 'potential',
+    name: 'Potential Energy',
+    category: 'energy',
+    equation: 'PE = m × g × h',
+    description: 'Gravitational potential energy near the surface',
+    output: variable('PE', 'potential energy', 'J'),
+    inputs: [variable('m', 'mass', 'kg'), variable('h', 'height', 'm'), gravity],
+    compute: ({ m, g, h }) => m * g * h,
+  },
+  {
+    id: 'energy',
+    aliases: ['mechanical'],
+    name: 'Mechanical Energy',
+    category: 'energy',
+    equation: 'E = ½mv² + mgh',
+    description: 'Kinetic plus potential energy',
+    output: variable('E', 'total energy', 'J'),
+    inputs: [
+      variable('m', 'mass', 'kg'),
+      variable('v', 'velocity', 'm/s', { default: 0 }),
+      variable('h', 'height', 'm', { default: 0 }),
+      gravity,
+    ],
+    compute: ({ m, v, h, g }) => 0.5 * m * v * v + m * g * h,
+    derived: [
+      {
+        key: 'kineticEnergy',
+        name: 'kinetic energy',
+        unit: 'J',
+        compute: ({ m, v }) => 0.5 * m * v * v,
+      },
+      {
+        key: 'potentialEnergy',
+        name: 'potential energy',
+        unit: 'J',
+        compute: ({ m, g, h }) => m * g * h,
+      },
+    ],
+  },
+  {
+    id: 'work',
+    name: 'Work',
+    category: 'energy',
+    equation: 'W = F × d × cos(θ)',
+    description: 'Work done by a force at an angle to the motion',
+    output: variable('W', 'work', 'J'),
+    inputs: [
+      variable('F', 'force', 'N'),
+      variable('d', 'distance', 'm'),
+      variable('theta', 'angle', 'deg', { symbol: 'θ', default: 0, range: [0, Math.PI] }),
+    ],
+    compute: ({ F, d, theta }) => F * d * Math.cos(theta),
+  },
+  {
+    id: 'power',
+    name: 'Power',
+    category: 'energy',
+    equation: 'P = W / t',
+    description: 'Rate of doing work',
+    output: variable('P', 'power', 'W'),
+    inputs: [variable('W', 'work', 'J'), variable('t', 'time', 's')],
+    compute: ({ W, t }) => W / t,
+  },
+
+  // Waves and electricity
+  {
+    id: 'frequency',
+    aliases: ['wave'],
+    name: 'Wave Frequency',
+    category: 'waves',
+    equation: 'f = v / λ',
+    description: 'Frequency of a wave from its speed and wavelength',
+    output: variable('f', 'frequency', 'Hz'),
+    inputs: [
+      variable('v', 'velocity', 'm/s', { aliases: ['speed'] }),
+      variable('lambda', 'wavelength', 'm', { symbol: 'λ' }),
+    ],
+    compute: ({ v, lambda }) => v / lambda,
+    derived: [
+      { key: 'period', name: 'period', unit: 's', compute: ({ v, lambda }) => lambda / v },
+      {
+        key: 'angularFrequency',
+        name: 'angular frequency',
+        unit: 'rad/s',
+        compute: ({ v, lambda }) => (2 * Math.PI * v) / lambda,
+      },
+      {
+        key: 'waveNumber',
+        name: 'wave number',
+        unit: 'rad/m',
+        compute: ({ lambda }) => (2 * Math.PI) / lambda,
+      },
+    ],
+  },
+  {
+    id: 'ohm',
+    name: "Ohm's Law",
+    category: 'electricity',
+    equation: 'V = I × R',
+    description: 'Voltage across a resistor',
+    output: variable('V', 'voltage', 'V'),
+    inputs: [variable('I', 'current', 'A'), variable('R', 'resistance', 'Ω')],
+    compute: ({ I, R }) => I * R,
+  },
+
+  // Gravitation
+  {
+    id: 'gravity',
+    name: 'Gravitational Force',
+    category: 'gravitation',
+    equation: 'F = G × m₁ × m₂ / r²',
+    description: "Newton's law of universal gravitation",
+    output: variable('F', 'force', 'N'),
+    inputs: [
+      variable('m1', 'first mass', 'kg', { symbol: 'm₁' }),
+      variable('m2', 'second mass', 'kg', { symbol: 'm₂' }),
+      variable('r', 'distance', 'm'),
+    ],
+    compute: ({ m1, m2, r }) => (G * m1 * m2) / (r * r),
+  },
+  {
+    id: 'escape',
+    name: 'Escape Velocity',
+    category: 'gravitation',
+    equation: 'v = √(2GM / r)',
+    description: 'Speed needed to escape a body of mass M from distance r',
+    output: variable('v', 'escape velocity', 'm/s'),
+    inputs: [variable('M', 'body mass', 'kg'), variable('r', 'radius', 'm')],
+    compute: ({ M, r }) => Math.sqrt((2 * G * M) / r),
+  },
+];
+
+/**
+ * Formula by id or alias, any case
+ */
+export function findFormula(name: string): PhysicsFormula | undefined {
+  const id = name.toLowerCase();
+  return PHYSICS_FORMULAS.find((f) => f.id === id || f.aliases?.includes(id));
+}
+
+/**
+ * The registry without its functions, for the API and the terminal help
+ */
+export function describeFormulas() {
+  return PHYSICS_FORMULAS.map(({ compute: _compute, derived, ...formula }) => ({
+    ...formula,
+    derived: (derived ?? []).map(({ key, name, unit }) => ({ key, name, unit })),
+  }));
+}
+
+// Variable a field name refers to: key, then symbol, name or alias, then key in any case
+function matchVariable(variables: PhysicsVariable[], field: string): PhysicsVariable | undefined {
+  const lower = field.toLowerCase();
+  return (
+    variables.find((v) => v.key === field || v.symbol === field) ??
+    variables.find((v) => v.name === lower || v.aliases?.includes(lower)) ??
+    variables.find((v) => v.key.toLowerCase() === lower)
+  );
+}
+
+const round = (value: number) => Number(value.toPrecision(12));
+
+// Points to look for sign changes at: the variable's range, or ±1e-15..1e30
+function searchGrid(range?: [number, number]): number[] {
+  if (range) {
+    const [low, high] = range;
+    return Array.from({ length: 2001 }, (_, i) => low + ((high - low) * i) / 2000);
+  }
+  const positive = Array.from({ length: 45 * 30 + 1 }, (_, i) => 10 ** (-15 + i / 30));
+  return [...positive.map((x) => -x).reverse(), 0, ...positive];
+}
+
+// Roots of f on the grid, by bisection inside each sign change
+function findRoots(f: (x: number) => number, grid: number[], scale: number): number[] {
+  const roots: number[] = [];
+  let previous = { x: grid[0], y: f(grid[0]) };
+  for (const x of grid.slice(1)) {
+    const y = f(x);
+    if (Number.isFinite(previous.y) && Number.isFinite(y)) {
+      if (previous.y === 0) {
+        roots.push(previous.x);
+      } else if (Math.sign(y) !== Math.sign(previous.y) && y !== 0) {
+        let [low, high] = [previous.x, x];
+        for (let i = 0; i < 200 && low !== high; i++) {
+          const middle = (low + high) / 2;
+          if (middle === low || middle === high) break;
+          if (Math.sign(f(middle)) === Math.sign(f(low))) low = middle;
+          else high = middle;
+        }
+        const root = (low + high) / 2;
+        // A sign change across a pole (1/x at 0) is not a root
+        if (Math.abs(f(root)) <= 1e-6 * scale) roots.push(root);
+      }
+    }
+    previous = { x, y };
+  }
+  if (previous.y === 0) roots.push(previous.x);
+  return roots;
+}
+
+/**
+ * Solve a formula for its one unknown. Values may carry units ("72 km/h"); plain
+ * numbers are in the variable's unit. Defaults fill in unknowns, last first, until
+ * one is left
+ */
+export function solvePhysics(name: string, input: SolveInput): PhysicsSolution {
+  const formula = findFormula(name);
+  if (!formula) {
+    throw new PhysicsError(
+      `Unknown formula: ${name}. Available: ${PHYSICS_FORMULAS.map((f) => f.id).join(', ')}`
+    );
+  }
+  const variables = [formula.output, ...formula.inputs];
+  const known: Record<string, number> = {};
+
+  (input.args ?? []).forEach((arg, i) => {
+    const target = formula.inputs[i];
+    if (!target) {
+      throw new PhysicsError(
+        `${formula.name} takes at most ${formula.inputs.length} values: ${formula.inputs.map((v) => v.key).join(', ')}`
+      );
+    }
+    known[target.key] = toSI(arg, target.unit, target.name);
+  });
+  for (const [field, value] of Object.entries(input.values ?? {})) {
+    if (value === undefined || value === null || value === '') continue;
+    const target = matchVariable(variables, field);
+    if (!target) {
+      throw new PhysicsError(
+        `${formula.name} has no variable "${field}" (use ${variables.map((v) => v.key).join(', ')})`
+      );
+    }
+    known[target.key] = toSI(value, target.unit, target.name);
+  }
+
+  const unknowns = variables.filter((v) => !(v.key in known));
+  if (unknowns.length === 0) {
+    throw new PhysicsError('Every variable is given: leave one out to solve for it');
+  }
+  for (let i = unknowns.length - 1; i >= 0 && unknowns.length > 1; i--) {
+    const fallback = unknowns[i];
+    if (fallback.default !== undefined) {
+      known[fallback.key] = toSI(fallback.default, fallback.unit);
+      unknowns.splice(i, 1);
+    }
+  }
+  if (unknowns.length > 1) {
+    throw new PhysicsError(
+      `Give all but one of ${variables.map((v) => v.key).join(', ')}: ${unknowns.map((v) => v.key).join(', ')} are missing`
+    );
+  }
+
+  const [unknown] = unknowns;
+  let roots: number[];
+  if (unknown === formula.output) {
+    roots = [formula.compute(known)];
+  } else {
+    const target = known[formula.output.key];
+    const residual = (x: number) => formula.compute({ ...known, [unknown.key]: x }) - target;
+    roots = findRoots(residual, searchGrid(unknown.range), Math.max(1, Math.abs(target)));
+    if (roots.length > 8) {
+      throw new PhysicsError(
+        `Any ${unknown.name} fits these values: ${unknown.key} is undetermined`
+      );
+    }
+    // Negative mirror images (v = -10 m/s for a kinetic energy) only when nothing else fits
+    if (roots.some((root) => root > 0)) roots = roots.filter((root) => root > 0);
+    // Smallest first: the flatter of two launch angles
+    roots.sort((a, b) => Math.abs(a) - Math.abs(b));
+  }
+  roots = roots.filter(Number.isFinite);
+  if (roots.length === 0) {
+    throw new PhysicsError(`No ${unknown.name} satisfies ${formula.equation} with these values`);
+  }
+
+  const solved = (v: { key: string; name: string; unit: string; symbol?: string }, si: number) => {
+    const value = round(fromSI(si, v.unit));
+    return {
+      key: v.key,
+      symbol: v.symbol ?? v.key,
+      name: v.name,
+      value,
+      unit: v.unit,
+      formatted: formatQuantity(value, v.unit),
+    };
+  };
+  const values = { ...known, [unknown.key]: roots[0] };
+
+  return {
+    formula: formula.id,
+    name: formula.name,
+    equation: formula.equation,
+    solvedFor: unknown.key,
+    result: solved(unknown, roots[0]),
+    alternatives: roots.slice(1).map((root) => solved(unknown, root)),
+    values: variables.map((v) => solved(v, values[v.key])),
+    derived: (formula.derived ?? []).map((d) => solved(d, d.compute(values))),
+  };
+}
@@ -1,174 +1,315 @@
 /**
  * Python Bridge Service
  * Executes Python scripts for advanced math/science calculations
- * Uses child_process to communicate with Python interpreter
+ * Requests go to a pool of long-lived Python workers (python/worker.py) that keep
+ * SymPy imported and talk newline-delimited JSON over stdio
  */
 
-import { spawn } from 'child_process';
+import { ChildProcess, spawn } from 'child_process';
 import path from 'path';
+import readline from 'readline';
 import { fileURLToPath } from 'url';
+import { runMathEngineThread } from './mathEngineThread.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-interface PythonResult {
+export interface PythonResult {
   success: boolean;
   result?: unknown;
   error?: string;
   latex?: string;
+  pretty?: string; // The answer drawn as 2D Unicode math (SymPy's pretty printer or services/mathPretty.ts)
   steps?: string[];
+  fallback?: boolean; // Python could not answer, the result comes from the TypeScript math engine
+  [key: string]: unknown;
 }
 
-/**
- * Execute a Python script with given arguments
- * Returns parsed JSON result from Python script's stdout
- */
-export async function executePython(
-  scriptName: string, 
-  args: Record<string, string | undefined>
-): Promise<PythonResult> {
-  return new Promise((resolve, reject) => {
-    const scriptPath = path.join(__dirname, '../python', scriptName);
-    
-    // Filter out undefined values and convert to JSON
-    const cleanArgs: Record<string, string> = {};
-    for (const [key, value] of Object.entries(args)) {
-      if (value !== undefined) {
-        cleanArgs[key] = value;
-      }
+type PythonArgs = Record<string, string | undefined>;
+
+const PYTHON_BIN = process.env.PYTHON_BIN || 'python3';
+const WORKER_SCRIPT = path.join(__dirname, '../python', 'worker.py');
+const POOL_SIZE = Math.max(1, parseInt(process.env.PYTHON_WORKERS || '2', 10));
+const MAX_QUEUED_REQUESTS = parseInt(process.env.PYTHON_MAX_QUEUE || '50', 10);
+const REQUEST_TIMEOUT_MS = parseInt(process.env.PYTHON_TIMEOUT_MS || '30000', 10);
+const STARTUP_TIMEOUT_MS = 30000; // Importing SymPy can take a while on cold disks
+const RETRY_DELAY_MS = 60000; // Wait before spawning again when Python is missing
+
+interface PythonRequest {
+  id: number;
+  script: string;
+  args: Record<string, string>;
+  resolve: (result: PythonResult | Promise<PythonResult>) => void;
+  timer?: NodeJS.Timeout;
+}
+
+interface PythonWorker {
+  process: ChildProcess;
+  ready: boolean;
+  current: PythonRequest | null;
+  startTimer?: NodeJS.Timeout;
+}
+
+interface WorkerInfo {
+  python?: string;
+  sympy?: string | null;
+}
+
+class PythonPool {
+  private workers: PythonWorker[] = [];
+  private queue: PythonRequest[] = [];
+  private nextId = 1;
+  private info: WorkerInfo = {};
+  private unavailable: { error: string; until: number } | null = null;
+  private counters = { completed: 0, failed: 0, timedOut: 0, restarts: 0 };
+
+  /**
+   * Run a script on the next free worker
+   * Never rejects: failures resolve with success=false, or with the TypeScript math
+   * engine's answer when Python itself could not answer
+   */
+  execute(script: string, args: Record<string, string>): Promise<PythonResult> {
+    if (this.unavailable && Date.now() < this.unavailable.until) {
+      return fallback(this.unavailable.error, script, args);
+    }
+    if (this.queue.length >= MAX_QUEUED_REQUESTS) {
+      return fallback('Python worker queue is full, please try again later', script, args);
+    }
+
+    this.unavailable = null;
+    this.ensureWorkers();
+
+    return new Promise((resolve) => {
+      this.queue.push({ id: this.nextId++, script, args, resolve });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Where the pool stands, without starting it: workers are spawned by the first request
+   */
+  get state(): 'idle' | 'starting' | 'ready' | 'unavailable' {
+    if (this.unavailable && Date.now() < this.unavailable.until) return 'unavailable';
+    if (this.workers.some((worker) => worker.ready)) return 'ready';
+    return this.workers.length > 0 ? 'starting' : 'idle';
+  }
+
+  stats() {
+    return {
+      workers: this.workers.length,
+      ready: this.workers.filter((worker) => worker.ready).length,
+      busy: this.workers.filter((worker) => worker.current).length,
+      queued: this.queue.length,
+      poolSize: POOL_SIZE,
+      maxQueued: MAX_QUEUED_REQUESTS,
+      timeoutMs: REQUEST_TIMEOUT_MS,
+      ...this.counters,
+    };
+  }
+
+  get workerInfo(): WorkerInfo & { error?: string } {
+    return { ...this.info, error: this.unavailable?.error };
+  }
+
+  // Top the pool up to POOL_SIZE workers
+  private ensureWorkers(): void {
+    while (this.workers.length < POOL_SIZE) {
+      this.spawnWorker();
     }
-    
-    // Spawn Python process
-    const python = spawn('python3', [scriptPath, JSON.stringify(cleanArgs)]);
-    
-    let stdout = '';
+  }
+
+  private spawnWorker(): void {
+    const child = spawn(PYTHON_BIN, [WORKER_SCRIPT], { stdio: ['pipe', 'pipe', 'pipe'] });
+    const worker: PythonWorker = { process: child, ready: false, current: null };
+    this.workers.push(worker);
+
     let stderr = '';
-    
-    python.stdout.on('data', (data) => {
-      stdout += data.toString();
+
+    worker.startTimer = setTimeout(() => {
+      this.markUnavailable(`Python worker did not start: ${stderr.trim() || 'timed out'}`);
+      child.kill('SIGKILL');
+    }, STARTUP_TIMEOUT_MS);
+
+    readline.createInterface({ input: child.stdout! }).on('line', (line) => {
+      this.handleLine(worker, line);
     });
-    
-    python.stderr.on('data', (data) => {
-      stderr += data.toString();
+
+    child.stderr?.on('data', (data) => {
+      // Keep the tail only, SymPy warnings can be chatty
+      stderr = (stderr + data.toString()).slice(-2000);
     });
-    
-    python.on('close', (code) => {
-      if (code === 0) {
-        try {
-          const result = JSON.parse(stdout);
-          resolve(result);
-        } catch {
-          resolve({ 
-            success: true, 
-            result: stdout.trim() 
-          });
-        }
-      } else {
-        // Python failed, provide helpful fallback
-        resolve({
-          success: false,
-          error: stderr || 'Python execution failed',
-          result: calculateFallback(args)
-        });
-      }
+
+    child.stdin?.on('error', () => undefined); // Reported through 'exit'
+
+    // Spawn failures (python3 missing) emit 'error' and may never emit 'exit'
+    child.on('error', (err) => {
+      this.removeWorker(worker);
+      this.markUnavailable(`Python not available: ${err.message}`);
     });
-    
-    python.on('error', (err) => {
-      // Python not available, use JavaScript fallback
-      resolve({
-        success: false,
-        error: `Python not available: ${err.message}`,
-        result: calculateFallback(args)
-      });
+
+    child.on('exit', (code, signal) => {
+      // Workers retired by a timeout were already taken out of the pool
+      const crashed = this.workers.includes(worker);
+      this.removeWorker(worker);
+
+      if (worker.current) {
+        const reason = signal ? `signal ${signal}` : `code ${code}`;
+        this.complete(
+          worker,
+          failure(stderr.trim() || `Python worker exited with ${reason}`),
+          true
+        );
+      }
+
+      if (!worker.ready && !this.unavailable) {
+        this.markUnavailable(stderr.trim() || 'Python worker failed to start');
+      } else if (crashed && !this.unavailable) {
+        this.respawn();
+      }
     });
-    
-    // Timeout after 30 seconds
-    setTimeout(() => {
-      python.kill();
-      reject(new Error('Python execution timed out'));
-    }, 30000);
-  });
+  }
+
+  private handleLine(worker: PythonWorker, line: string): void {
+    let message: PythonResult & { id?: number; ready?: boolean; python?: string; sympy?: string };
+    try {
+      message = JSON.parse(line);
+    } catch {
+      return; // Stray output, not part of the protocol
+    }
+
+    if (message.ready) {
+      clearTimeout(worker.startTimer);
+      worker.ready = true;
+      // Without SymPy the worker still answers, with an error per request
+      this.info = { python: message.python, sympy: message.sympy ?? null };
+      this.dispatch();
+      return;
+    }
+
+    if (worker.current && message.id === worker.current.id) {
+      delete message.id;
+      // The worker answers with `fallback` when SymPy is missing
+      this.complete(worker, message, !!message.fallback);
+    }
+  }
+
+  private respawn(): void {
+    this.counters.restarts++;
+    this.ensureWorkers();
+  }
+
+  private removeWorker(worker: PythonWorker): void {
+    clearTimeout(worker.startTimer);
+    this.workers = this.workers.filter((w) => w !== worker);
+  }
+
+  // Hand queued requests to idle workers
+  private dispatch(): void {
+    for (const worker of this.workers) {
+      if (!worker.ready || worker.current || this.queue.length === 0) continue;
+
+      const request = this.queue.shift()!;
+      worker.current = request;
+
+      request.timer = setTimeout(() => {
+        // A stuck computation can't be interrupted, replace the whole worker
+        this.counters.timedOut++;
+        this.removeWorker(worker);
+        worker.process.kill('SIGKILL');
+        this.complete(worker, failure('Python execution timed out'));
+        this.respawn();
+      }, REQUEST_TIMEOUT_MS);
+
+      worker.process.stdin?.write(
+        JSON.stringify({ id: request.id, script: request.script, args: request.args }) + '\n'
+      );
+    }
+  }
+
+  // Resolve the worker's current request exactly once and move on to the next one. When
+  // Python couldn't answer (`useEngine`) the TypeScript engine does; SymPy's own errors
+  // are passed through as they are
+  private complete(worker: PythonWorker, result: PythonResult, useEngine = false): void {
+    const request = worker.current;
+    if (!request) return;
+
+    clearTimeout(request.timer);
+    worker.current = null;
+
+    if (result.success) {
+      this.counters.completed++;
+    } else {
+      this.counters.failed++;
+    }
+
+    request.resolve(
+      useEngine ? fallback(result.error || 'Python failed', request.script, request.args) : result
+    );
+    this.dispatch();
+  }
+
+  // Fail everything queued and stop spawning for a while
+  private markUnavailable(error: string): void {
+    this.unavailable = { error, until: Date.now() + RETRY_DELAY_MS };
+    this.queue
+      .splice(0)
+      .forEach((request) => request.resolve(fallback(error, request.script, request.args)));
+  }
+}
+
+const failure = (error: string): PythonResult => ({ success: false, error });
+
+// Python could not answer: use the TypeScript engine where one exists, keeping Python's error
+async function fallback(
+  error: string,
+  script: string,
+  args: Record<string, string>
+): Promise<PythonResult> {
+  const limits = { timeoutMs: REQUEST_TIMEOUT_MS, maxQueued: MAX_QUEUED_REQUESTS };
+  const result = await runMathEngineThread(script, args, limits);
+  if (!result) return failure(error);
+  return { ...result, fallback: true, pythonError: error };
 }
 
+export const pythonPool = new PythonPool();
+
 /**
- * JavaScript fallback for basic math when Python is unavailable
+ * Execute a Python script with given arguments
+ * Returns the parsed JSON result from the worker
  */
-function calculateFallback(args: Record<string, string | undefined>): string | number | null {
-  const { expression, operation } = args;
-  
-  if (!expression) return null;
-  
-  try {
-    // Very basic expression evaluation (only for simple cases)
-    // In production, use a proper math library like mathjs
-    const sanitized = expression.replace(/\^/g, '**');
-    
-    switch (operation) {
-      case 'simplify':
-        // Can't simplify in JS, return as-is
-        return expression;
-      case 'solve':
-        // Can only solve very simple linear equations
-        return 'Python required for equation solving';
-      case 'integrate':
-      case 'diff':
-        return 'Python required for calculus operations';
-      default:
-        // Try to evaluate numeric expressions
-        if (/^[\d\s+\-*/.()]+$/.test(sanitized)) {
-          return Function('"use strict"; return (' + sanitized + ')')();
-        }
-        return expression;
+export async function executePython(scriptName: string, args: PythonArgs): Promise<PythonResult> {
+  // Filter out undefined values
+  const cleanArgs: Record<string, string> = {};
+  for (const [key, value] of Object.entries(args)) {
+    if (value !== undefined) {
+      cleanArgs[key] = value;
     }
-  } catch {
-    return null;
   }
+
+  return pythonPool.execute(scriptName, cleanArgs);
 }
 
 /**
- * Check if Python is available on the system
+ * Check if Python is available, as last reported by the worker pool
+ * Never starts the pool: before the first request the state is `idle` and the version unknown
  */
-export async function checkPythonAvailable(): Promise<{
+export function checkPythonAvailable(): {
   available: boolean;
+  state: PythonPool['state'];
   version?: string;
   sympyInstalled?: boolean;
-}> {
-  return new Promise((resolve) => {
-    const python = spawn('python3', ['--version']);
-    
-    let version = '';
-    
-    python.stdout.on('data', (data) => {
-      version = data.toString().trim();
-    });
-    
-    python.on('close', async (code) => {
-      if (code === 0) {
-        // Check for sympy
-        const sympy = spawn('python3', ['-c', 'import sympy; print(sympy.__version__)']);
-
-        sympy.on('close', (sympyCode) => {
-          resolve({
-            available: true,
-            version,
-            sympyInstalled: sympyCode === 0
-          });
-        });
-        
-        sympy.on('error', () => {
-          resolve({
-            available: true,
-            version,
-            sympyInstalled: false
-          });
-        });
-      } else {
-        resolve({ available: false });
-      }
-    });
-    
-    python.on('error', () => {
-      resolve({ available: false });
-    });
-  });
+  error?: string;
+  pool: ReturnType<PythonPool['stats']>;
+} {
+  const info = pythonPool.workerInfo;
+  const state = pythonPool.state;
+
+  return {
+    available: !!info.python && state !== 'unavailable',
+    state,
+    version: info.python ? `Python ${info.python}` : undefined,
+    sympyInstalled: info.python ? !!info.sympy : undefined,
+    error: info.error,
+    pool: pythonPool.stats(),
+  };
 }
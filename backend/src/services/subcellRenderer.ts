@@ -0,0 +1,172 @@
+/**
+ * Sub-cell Renderer
+ * Packs several image pixels into one terminal cell with Unicode block and Braille glyphs
+ * Half-blocks give 1x2, quadrants 2x2 and Braille patterns 2x4 pixels per cell
+ */
+
+import { colorEscape, ColorMode, Rgb } from './ansi.js';
+import { AsciiAlgorithm, binarize } from './asciiAlgorithms.js';
+
+export type SubcellCharset = 'halfblock' | 'quadrant' | 'braille';
+
+// Pixels packed into one cell, horizontally and vertically
+export const SUBCELL_LAYOUTS: Record<SubcellCharset, { columns: number; rows: number }> = {
+  halfblock: { columns: 1, rows: 2 },
+  quadrant: { columns: 2, rows: 2 },
+  braille: { columns: 2, rows: 4 },
+};
+
+export interface SubcellOptions {
+  charset: SubcellCharset;
+  algorithm?: AsciiAlgorithm;
+  invert?: boolean;
+  // RGB(A) pixels for colored output, omitted for monochrome glyphs
+  color?: { data: Buffer; channels: number; mode: ColorMode; compress: boolean };
+}
+
+// Half-block glyphs indexed by bits: top 1, bottom 2
+const HALFBLOCK_GLYPHS = ' ▀▄█';
+
+// Quadrant glyphs indexed by bits: top-left 1, top-right 2, bottom-left 4, bottom-right 8
+const QUADRANT_GLYPHS = ' ▘▝▀▖▌▞▛▗▚▐▜▄▙▟█';
+
+// Braille dot bits by [column][row], the glyph is U+2800 + bits
+const BRAILLE_BITS = [
+  [0x01, 0x02, 0x04, 0x40],
+  [0x08, 0x10, 0x20, 0x80],
+];
+
+export const isSubcellCharset = (charset: string | undefined): charset is SubcellCharset =>
+  !!charset && Object.prototype.hasOwnProperty.call(SUBCELL_LAYOUTS, charset);
+
+const pixelBit = (charset: SubcellCharset, dx: number, dy: number): number => {
+  switch (charset) {
+    case 'braille':
+      return BRAILLE_BITS[dx][dy];
+    case 'quadrant':
+      return 1 << (dy * 2 + dx);
+    case 'halfblock':
+    default:
+      return 1 << dy;
+  }
+};
+
+const glyphFor = (charset: SubcellCharset, bits: number): string => {
+  switch (charset) {
+    case 'braille':
+      return String.fromCharCode(0x2800 + bits);
+    case 'quadrant':
+      return QUADRANT_GLYPHS[bits];
+    case 'halfblock':
+    default:
+      return HALFBLOCK_GLYPHS[bits];
+  }
+};
+
+const average = (sum: Rgb, count: number): Rgb => [
+  Math.round(sum[0] / count),
+  Math.round(sum[1] / count),
+  Math.round(sum[2] / count),
+];
+
+/**
+ * Render a grayscale pixel grid (row-major) to sub-cell glyphs
+ * Width and height are in pixels, each output cell covers one layout block
+ */
+export function renderSubcells(
+  gray: Uint8Array,
+  width: number,
+  height: number,
+  options: SubcellOptions
+): string {
+  const { charset, algorithm = 'brightness', invert = false, color } = options;
+  const layout = SUBCELL_LAYOUTS[charset];
+  const columns = Math.ceil(width / layout.columns);
+  const rows = Math.ceil(height / layout.rows);
+
+  const source = invert ? gray.map((value) => 255 - value) : gray;
+  const lit = binarize(source, width, height, algorithm);
+
+  const pixelColor = (index: number): Rgb => {
+    const offset = index * color!.channels;
+    const rgb: Rgb = [color!.data[offset], color!.data[offset + 1], color!.data[offset + 2]];
+    return invert ? [255 - rgb[0], 255 - rgb[1], 255 - rgb[2]] : rgb;
+  };
+
+  let ascii = '';
+
+  for (let row = 0; row < rows; row++) {
+    let lastEscape = '';
+
+    for (let col = 0; col < columns; col++) {
+      let bits = 0;
+      const litSum: Rgb = [0, 0, 0];
+      const darkSum: Rgb = [0, 0, 0];
+      let litCount = 0;
+      let darkCount = 0;
+      const pixels: Rgb[] = [];
+
+      for (let dy = 0; dy < layout.rows; dy++) {
+        for (let dx = 0; dx < layout.columns; dx++) {
+          const x = col * layout.columns + dx;
+          const y = row * layout.rows + dy;
+          if (x >= width || y >= height) continue;
+
+          const index = y * width + x;
+          if (lit[index]) bits |= pixelBit(charset, dx, dy);
+
+          if (color) {
+            const rgb = pixelColor(index);
+            pixels[dy * layout.columns + dx] = rgb;
+            const sum = lit[index] ? litSum : darkSum;
+            sum[0] += rgb[0];
+            sum[1] += rgb[1];
+            sum[2] += rgb[2];
+            if (lit[index]) litCount++;
+            else darkCount++;
+          }
+        }
+      }
+
+      if (!color) {
+        ascii += glyphFor(charset, bits);
+        continue;
+      }
+
+      let glyph: string;
+      let escape = '';
+      const fg = (rgb: Rgb) => colorEscape(rgb[0], rgb[1], rgb[2], color.mode);
+      const bg = (rgb: Rgb) => colorEscape(rgb[0], rgb[1], rgb[2], color.mode, true);
+
+      if (charset === 'halfblock') {
+        // Upper half in the foreground, lower half in the background: full color, no threshold
+        const top = pixels[0];
+        const bottom = pixels[1] || top;
+        glyph = '▀';
+        escape = fg(top) + bg(bottom);
+      } else if (charset === 'quadrant') {
+        // Two-color cell: lit pixels in the foreground, the rest in the background
+        glyph = glyphFor(charset, bits);
+        if (litCount) escape += fg(average(litSum, litCount));
+        if (darkCount) escape += bg(average(darkSum, darkCount));
+      } else {
+        // Braille dots are too thin for a background, color the dots only
+        glyph = glyphFor(charset, bits);
+        if (litCount) escape = fg(average(litSum, litCount));
+      }
+
+      if (!color.compress) {
+        ascii += escape ? `${escape}${glyph}\x1b[0m` : glyph;
+      } else if (escape && escape !== lastEscape) {
+        ascii += escape + glyph;
+        lastEscape = escape;
+      } else {
+        ascii += glyph;
+      }
+    }
+
+    ascii += color?.compress ? '\x1b[0m\n' : '\n';
+  }
+
+  return ascii;
+}
@@ -0,0 +1,211 @@
+/**
+ * Projectile Trajectory
+ * The ideal parabola and, with a drag coefficient, the path under quadratic air drag
+ * (RK4 over a = -g·ŷ - (ρ·Cd·A / 2m)·|v|·v), drawn as a Braille plot and as animation
+ * frames with a marker at each series' position
+ */
+
+import { plotPaths } from './mathPlot.js';
+import { PhysicsError } from './physicsFormulas.js';
+import { formatNumber } from './units.js';
+
+export interface DragOptions {
+  coefficient: number; // Cd, 0.47 for a sphere
+  mass: number; // kg
+  area: number; // cross-section, m²
+  airDensity: number; // kg/m³
+}
+
+export interface TrajectoryOptions {
+  v: number; // launch speed, m/s
+  theta: number; // launch angle, radians
+  h: number; // launch height, m
+  g: number; // m/s²
+  drag?: DragOptions;
+  width?: number; // plot width in characters
+  height?: number; // plot rows
+  frames?: number;
+}
+
+export interface PathSummary {
+  label: string;
+  range: number; // m
+  maxHeight: number; // m
+  timeOfFlight: number; // s
+  impactSpeed: number; // m/s
+}
+
+export interface TrajectoryResult {
+  ideal: PathSummary;
+  drag: PathSummary | null;
+  lines: string[]; // the plot without markers
+  frames: string[]; // the plot with markers, evenly spaced in time
+}
+
+// A baseball: 145 g, 7.4 cm across, in sea-level air
+export const DEFAULT_DRAG: DragOptions = {
+  coefficient: 0.47,
+  mass: 0.145,
+  area: 0.0043,
+  airDensity: 1.225,
+};
+
+const STEPS = 4000; // integration steps over the ideal time of flight
+const MAX_STEPS = 1e6;
+const MAX_SPEED_CHANGE = 0.05; // per step, k·|v|·dt: keeps RK4 stable under strong drag
+
+interface Sample {
+  t: number;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+}
+
+const round = (value: number) => Number(value.toPrecision(6));
+// Math.max(...values) overflows the stack on long drag paths
+const highest = (values: number[]) => values.reduce((a, b) => Math.max(a, b), -Infinity);
+
+function summarize(label: string, samples: Sample[]): PathSummary {
+  const last = samples[samples.length - 1];
+  return {
+    label,
+    range: round(last.x),
+    maxHeight: round(highest(samples.map((s) => s.y))),
+    timeOfFlight: round(last.t),
+    impactSpeed: round(Math.hypot(last.vx, last.vy)),
+  };
+}
+
+// Closed form, sampled at `count` even steps up to landing plus the apex
+function idealPath({ v, theta, h, g }: TrajectoryOptions, count: number): Sample[] {
+  const [vx, vy] = [v * Math.cos(theta), v * Math.sin(theta)];
+  const flight = (vy + Math.sqrt(vy * vy + 2 * g * h)) / g;
+  const times = Array.from({ length: count }, (_, i) => (flight * i) / (count - 1));
+  if (vy > 0 && vy / g < flight) times.push(vy / g);
+  return times
+    .sort((a, b) => a - b)
+    .map((t) => ({ t, x: vx * t, y: h + vy * t - (g * t * t) / 2, vx, vy: vy - g * t }));
+}
+
+// RK4 on [x, y, vx, vy] until the projectile comes back down to y = 0, the landing
+// interpolated. Steps are at most maxDt, shorter while drag changes the speed quickly
+function dragPath(options: TrajectoryOptions, drag: DragOptions, maxDt: number): Sample[] {
+  type State = [number, number, number, number];
+  const k = (drag.airDensity * drag.coefficient * drag.area) / (2 * drag.mass);
+  const derivative = ([, , vx, vy]: State): State => {
+    const speed = Math.hypot(vx, vy);
+    return [vx, vy, -k * speed * vx, -options.g - k * speed * vy];
+  };
+  const add = (state: State, slope: State, f: number) =>
+    state.map((value, i) => value + slope[i] * f) as State;
+  const sample = (t: number, [x, y, vx, vy]: State): Sample => ({ t, x, y, vx, vy });
+
+  let t = 0;
+  let state: State = [
+    0,
+    options.h,
+    options.v * Math.cos(options.theta),
+    options.v * Math.sin(options.theta),
+  ];
+  const samples = [sample(t, state)];
+  for (let step = 0; step < MAX_STEPS; step++) {
+    const dt = Math.min(maxDt, MAX_SPEED_CHANGE / (k * Math.hypot(state[2], state[3])));
+    const k1 = derivative(state);
+    const k2 = derivative(add(state, k1, dt / 2));
+    const k3 = derivative(add(state, k2, dt / 2));
+    const k4 = derivative(add(state, k3, dt));
+    const next = state.map(
+      (value, i) => value + (dt / 6) * (k1[i] + 2 * k2[i] + 2 * k3[i] + k4[i])
+    ) as State;
+
+    if (!next.every(Number.isFinite)) {
+      throw new PhysicsError('The drag simulation became unstable, check the drag settings');
+    }
+    if (next[1] < 0) {
+      const f = state[1] / (state[1] - next[1]);
+      const landing = state.map((value, i) => value + (next[i] - value) * f) as State;
+      samples.push(sample(t + dt * f, landing));
+      return samples;
+    }
+    t += dt;
+    state = next;
+    samples.push(sample(t, state));
+  }
+  throw new PhysicsError(
+    `The projectile had not landed after ${MAX_STEPS} steps, the drag settings are too extreme`
+  );
+}
+
+// Position at time t, held at the landing point afterwards
+function positionAt(samples: Sample[], t: number): [number, number] {
+  const last = samples[samples.length - 1];
+  if (t >= last.t) return [last.x, last.y];
+  const i = samples.findIndex((s) => s.t > t);
+  const [a, b] = [samples[i - 1], samples[i]];
+  const f = (t - a.t) / (b.t - a.t);
+  return [a.x + (b.x - a.x) * f, a.y + (b.y - a.y) * f];
+}
+
+/**
+ * Simulate and draw the trajectory; with drag the two paths share the axes
+ */
+export function simulateTrajectory(options: TrajectoryOptions): TrajectoryResult {
+  const ideal = idealPath(options, 400);
+  const flight = ideal[ideal.length - 1].t;
+  if (!(flight > 0)) {
+    throw new PhysicsError('Nothing to draw: the projectile never leaves the ground');
+  }
+  const { drag: settings } = options;
+  if (
+    settings &&
+    !(settings.mass > 0 && Math.min(settings.coefficient, settings.area, settings.airDensity) >= 0)
+  ) {
+    throw new PhysicsError(
+      'Drag needs a positive mass and a coefficient, area and air density of 0 or more'
+    );
+  }
+  const drag = settings ? dragPath(options, settings, flight / STEPS) : null;
+
+  const paths = [{ label: 'ideal (no drag)', samples: ideal }];
+  if (drag && settings) {
+    paths.push({ label: `air drag (Cd ${formatNumber(settings.coefficient)})`, samples: drag });
+  }
+  // Every 10th RK4 step is plenty for the line
+  const series = paths.map(({ label, samples }) => ({
+    label,
+    points: samples
+      .filter((_, i) => i % 10 === 0 || i === samples.length - 1)
+      .map((s): [number, number] => [s.x, s.y]),
+  }));
+
+  // Fixed axes for every frame: the ground at the bottom, a little room above the apex
+  const apex = highest(paths.flatMap(({ samples }) => samples.map((s) => s.y)));
+  const reach = Math.max(...paths.map(({ samples }) => samples[samples.length - 1].x));
+  const frame = {
+    series,
+    x: [0, reach * 1.02 || 1] as [number, number],
+    y: [0, apex * 1.1 || 1] as [number, number],
+    width: options.width,
+    height: options.height,
+  };
+
+  const count = Math.min(Math.max(Math.round(options.frames ?? 40), 2), 120);
+  const duration = Math.max(...paths.map(({ samples }) => samples[samples.length - 1].t));
+  const frames = Array.from({ length: count }, (_, i) => {
+    const t = (duration * i) / (count - 1);
+    const markers = paths.map(({ samples }, index) => ({
+      series: index,
+      point: positionAt(samples, t),
+      char: '●',
+    }));
+    return [...plotPaths({ ...frame, markers }).lines, `t = ${t.toFixed(2)} s`].join('\n');
+  });
+
+  return {
+    ideal: summarize(paths[0].label, ideal),
+    drag: drag ? summarize(paths[1].label, drag) : null,
+    lines: plotPaths(frame).lines,
+    frames,
+  };
+}
@@ -0,0 +1,412 @@
+/**
+ * Units
+ * Quantities with dimensions: parsing ("72 km/h", "5 ft", "30 deg", "9.81 m/s^2"),
+ * conversion, dimension checking and formatting
+ * Values are held in SI; a dimension is the exponent vector over the SI base units
+ */
+
+// Bad unit or incompatible dimensions, the message is shown to the user
+export class UnitError extends Error {}
+
+// Exponents of m, kg, s, A, K, mol
+export type Dimension = [number, number, number, number, number, number];
+
+export interface Quantity {
+  value: number; // SI
+  dimension: Dimension;
+}
+
+interface UnitDefinition {
+  factor: number; // SI value of one unit
+  dimension: Dimension;
+  offset?: number; // SI value of the unit's zero (°C, °F)
+}
+
+const BASE_SYMBOLS = ['m', 'kg', 's', 'A', 'K', 'mol'];
+
+const dim = (m = 0, kg = 0, s = 0, A = 0, K = 0, mol = 0): Dimension => [m, kg, s, A, K, mol];
+const NONE = dim();
+const LENGTH = dim(1);
+const MASS = dim(0, 1);
+const TIME = dim(0, 0, 1);
+const VELOCITY = dim(1, 0, -1);
+const ACCELERATION = dim(1, 0, -2);
+const FORCE = dim(1, 1, -2);
+const ENERGY = dim(2, 1, -2);
+const POWER = dim(2, 1, -3);
+const PRESSURE = dim(-1, 1, -2);
+const FREQUENCY = dim(0, 0, -1);
+const VOLUME = dim(3);
+const CURRENT = dim(0, 0, 0, 1);
+const TEMPERATURE = dim(0, 0, 0, 0, 1);
+const CHARGE = dim(0, 0, 1, 1);
+const VOLTAGE = dim(2, 1, -3, -1);
+const RESISTANCE = dim(2, 1, -3, -2);
+
+const unit = (factor: number, dimension: Dimension, offset?: number): UnitDefinition => ({
+  factor,
+  dimension,
+  offset,
+});
+
+// Units that take SI prefixes (km, ms, kN, MHz, mA, ...)
+const PREFIXABLE: Record<string, UnitDefinition> = {
+  m: unit(1, LENGTH),
+  g: unit(1e-3, MASS),
+  s: unit(1, TIME),
+  A: unit(1, CURRENT),
+  K: unit(1, TEMPERATURE),
+  mol: unit(1, dim(0, 0, 0, 0, 0, 1)),
+  N: unit(1, FORCE),
+  J: unit(1, ENERGY),
+  W: unit(1, POWER),
+  Pa: unit(1, PRESSURE),
+  Hz: unit(1, FREQUENCY),
+  C: unit(1, CHARGE),
+  V: unit(1, VOLTAGE),
+  Ω: unit(1, RESISTANCE),
+  ohm: unit(1, RESISTANCE),
+  L: unit(1e-3, VOLUME),
+  l: unit(1e-3, VOLUME),
+  eV: unit(1.602176634e-19, ENERGY),
+  Wh: unit(3600, ENERGY),
+  t: unit(1000, MASS),
+};
+
+const PREFIXES: Record<string, number> = {
+  T: 1e12,
+  G: 1e9,
+  M: 1e6,
+  k: 1e3,
+  h: 1e2,
+  da: 1e1,
+  d: 1e-1,
+  c: 1e-2,
+  m: 1e-3,
+  u: 1e-6,
+  µ: 1e-6,
+  n: 1e-9,
+  p: 1e-12,
+  f: 1e-15,
+};
+
+const FOOT = 0.3048;
+const POUND = 0.45359237;
+const GRAVITY = 9.80665;
+
+// Everything else, by symbol and by name (plural forms are accepted too)
+const UNITS: Record<string, UnitDefinition> = {
+  // Length
+  meter: unit(1, LENGTH),
+  metre: unit(1, LENGTH),
+  in: unit(0.0254, LENGTH),
+  inch: unit(0.0254, LENGTH),
+  inches: unit(0.0254, LENGTH),
+  ft: unit(FOOT, LENGTH),
+  foot: unit(FOOT, LENGTH),
+  feet: unit(FOOT, LENGTH),
+  yd: unit(0.9144, LENGTH),
+  yard: unit(0.9144, LENGTH),
+  mi: unit(1609.344, LENGTH),
+  mile: unit(1609.344, LENGTH),
+  nmi: unit(1852, LENGTH),
+  au: unit(1.495978707e11, LENGTH),
+  ly: unit(9.4607304725808e15, LENGTH),
+  // Mass
+  gram: unit(1e-3, MASS),
+  tonne: unit(1000, MASS),
+  lb: unit(POUND, MASS),
+  lbs: unit(POUND, MASS),
+  pound: unit(POUND, MASS),
+  oz: unit(POUND / 16, MASS),
+  ounce: unit(POUND / 16, MASS),
+  // Time
+  sec: unit(1, TIME),
+  second: unit(1, TIME),
+  min: unit(60, TIME),
+  minute: unit(60, TIME),
+  h: unit(3600, TIME),
+  hr: unit(3600, TIME),
+  hour: unit(3600, TIME),
+  day: unit(86400, TIME),
+  week: unit(604800, TIME),
+  year: unit(31557600, TIME), // Julian year
+  yr: unit(31557600, TIME),
+  // Speed
+  mph: unit(1609.344 / 3600, VELOCITY),
+  kph: unit(1000 / 3600, VELOCITY),
+  kn: unit(1852 / 3600, VELOCITY),
+  knot: unit(1852 / 3600, VELOCITY),
+  // Acceleration
+  gee: unit(GRAVITY, ACCELERATION),
+  // Force
+  newton: unit(1, FORCE),
+  lbf: unit(POUND * GRAVITY, FORCE),
+  dyn: unit(1e-5, FORCE),
+  // Energy and power
+  joule: unit(1, ENERGY),
+  cal: unit(4.184, ENERGY),
+  kcal: unit(4184, ENERGY),
+  calorie: unit(4.184, ENERGY),
+  erg: unit(1e-7, ENERGY),
+  watt: unit(1, POWER),
+  hp: unit(745.69987158227, POWER),
+  // Pressure
+  bar: unit(1e5, PRESSURE),
+  atm: unit(101325, PRESSURE),
+  psi: unit(6894.757293168, PRESSURE),
+  mmHg: unit(133.322387415, PRESSURE),
+  torr: unit(101325 / 760, PRESSURE),
+  // Temperature
+  kelvin: unit(1, TEMPERATURE),
+  '°C': unit(1, TEMPERATURE, 273.15),
+  degC: unit(1, TEMPERATURE, 273.15),
+  celsius: unit(1, TEMPERATURE, 273.15),
+  '°F': unit(5 / 9, TEMPERATURE, 273.15 - (32 * 5) / 9),
+  degF: unit(5 / 9, TEMPERATURE, 273.15 - (32 * 5) / 9),
+  fahrenheit: unit(5 / 9, TEMPERATURE, 273.15 - (32 * 5) / 9),
+  // Angle (dimensionless, radians)
+  rad: unit(1, NONE),
+  radian: unit(1, NONE),
+  deg: unit(Math.PI / 180, NONE),
+  '°': unit(Math.PI / 180, NONE),
+  degree: unit(Math.PI / 180, NONE),
+  rev: unit(2 * Math.PI, NONE),
+  rpm: unit((2 * Math.PI) / 60, FREQUENCY),
+  // Volume
+  liter: unit(1e-3, VOLUME),
+  litre: unit(1e-3, VOLUME),
+  gal: unit(3.785411784e-3, VOLUME),
+  gallon: unit(3.785411784e-3, VOLUME),
+  '%': unit(0.01, NONE),
+};
+
+// Names shown for dimensions in messages, and the SI unit used to print them
+const NAMED_DIMENSIONS: [string, Dimension, string][] = [
+  ['dimensionless', NONE, ''],
+  ['length', LENGTH, 'm'],
+  ['mass', MASS, 'kg'],
+  ['time', TIME, 's'],
+  ['current', CURRENT, 'A'],
+  ['temperature', TEMPERATURE, 'K'],
+  ['amount', dim(0, 0, 0, 0, 0, 1), 'mol'],
+  ['velocity', VELOCITY, 'm/s'],
+  ['acceleration', ACCELERATION, 'm/s²'],
+  ['force', FORCE, 'N'],
+  ['energy', ENERGY, 'J'],
+  ['power', POWER, 'W'],
+  ['pressure', PRESSURE, 'Pa'],
+  ['frequency', FREQUENCY, 'Hz'],
+  ['area', dim(2), 'm²'],
+  ['volume', VOLUME, 'm³'],
+  ['momentum', dim(1, 1, -1), 'kg·m/s'],
+  ['charge', CHARGE, 'C'],
+  ['voltage', VOLTAGE, 'V'],
+  ['resistance', RESISTANCE, 'Ω'],
+];
+
+const SUPERSCRIPT_POWERS: Record<string, string> = { '²': '2', '³': '3', '⁻¹': '-1', '⁻²': '-2' };
+
+const sameDimension = (a: Dimension, b: Dimension) => a.every((n, i) => n === b[i]);
+
+/**
+ * "velocity", "length", or the base units (m^2·kg/s^2·K) when unnamed
+ */
+export function describeDimension(dimension: Dimension): string {
+  const named = NAMED_DIMENSIONS.find(([, d]) => sameDimension(d, dimension));
+  return named ? named[0] : siUnit(dimension);
+}
+
+/**
+ * SI unit for a dimension: N for force, m/s for velocity, kg·m^2 otherwise
+ */
+export function siUnit(dimension: Dimension): string {
+  const named = NAMED_DIMENSIONS.find(([, d]) => sameDimension(d, dimension));
+  if (named) return named[2];
+  const power = (symbol: string, n: number) => (n === 1 ? symbol : `${symbol}^${n}`);
+  const top = BASE_SYMBOLS.flatMap((symbol, i) =>
+    dimension[i] > 0 ? [power(symbol, dimension[i])] : []
+  );
+  const bottom = BASE_SYMBOLS.flatMap((symbol, i) =>
+    dimension[i] < 0 ? [power(symbol, -dimension[i])] : []
+  );
+  return `${top.join('·') || '1'}${bottom.length ? `/${bottom.join('·')}` : ''}`;
+}
+
+// One unit symbol or name: exact, singular of a plural, or prefix + prefixable unit
+function lookup(name: string): UnitDefinition | undefined {
+  const exact = UNITS[name] ?? PREFIXABLE[name] ?? UNITS[name.toLowerCase()];
+  if (exact) return exact;
+  const singular = name.replace(/(es|s)$/, '');
+  for (const candidate of [name.slice(0, -1), singular]) {
+    const plural = UNITS[candidate] ?? UNITS[candidate.toLowerCase()];
+    if (plural && name.length > 2) return plural;
+  }
+  for (const [prefix, factor] of Object.entries(PREFIXES)) {
+    const base = name.startsWith(prefix) ? PREFIXABLE[name.slice(prefix.length)] : undefined;
+    if (base && !base.offset) return { factor: factor * base.factor, dimension: base.dimension };
+  }
+  return undefined;
+}
+
+/**
+ * Unit expression to its SI factor and dimension: "km/h", "m/s^2", "kg·m²", "J/(kg*K)",
+ * "miles per hour". An offset (°C, °F) only applies to a lone temperature unit
+ */
+export function parseUnit(text: string): UnitDefinition {
+  const source = text
+    .trim()
+    .replace(/\s+/g, ' ')
+    .replace(/ per /gi, '/')
+    .replace(/\s*([*·•/^()])\s*/g, '$1');
+  if (!source) return unit(1, NONE);
+
+  let index = 0;
+  // product := factor (('*' | '·' | ' ' | '/') factor)*
+  const product = (): UnitDefinition => {
+    let result = factor();
+    for (;;) {
+      const char = source[index];
+      if (char === '/') {
+        index++;
+        const divisor = factor();
+        result = combine(result, divisor, -1);
+      } else if (char === '*' || char === '·' || char === '•' || char === ' ') {
+        index++;
+        result = combine(result, factor(), 1);
+      } else {
+        return result;
+      }
+    }
+  };
+  // factor := (name | '(' product ')') power?
+  const factor = (): UnitDefinition => {
+    let base: UnitDefinition;
+    if (source[index] === '(') {
+      index++;
+      base = product();
+      if (source[index] !== ')') throw new UnitError(`Expected ")" in unit "${text}"`);
+      index++;
+    } else {
+      const name = /^(?:°[CF]|[A-Za-zµΩ°%]+)/.exec(source.slice(index))?.[0];
+      if (!name) throw new UnitError(`Unexpected "${source[index]}" in unit "${text}"`);
+      const found = lookup(name);
+      if (!found) throw new UnitError(`Unknown unit: ${name}`);
+      index += name.length;
+      base = found;
+    }
+    const exponent = power();
+    return exponent === 1 ? base : combine(unit(1, NONE), base, exponent);
+  };
+  // power := '^' integer | superscript
+  const power = (): number => {
+    const rest = source.slice(index);
+    const caret = /^\^(-?\d+)/.exec(rest);
+    if (caret) {
+      index += caret[0].length;
+      return Number(caret[1]);
+    }
+    const superscript = Object.keys(SUPERSCRIPT_POWERS).find((s) => rest.startsWith(s));
+    if (superscript) {
+      index += superscript.length;
+      return Number(SUPERSCRIPT_POWERS[superscript]);
+    }
+    const digit = /^\d+/.exec(rest); // m2, s2
+    if (digit) {
+      index += digit[0].length;
+      return Number(digit[0]);
+    }
+    return 1;
+  };
+
+  const result = product();
+  if (index < source.length) {
+    throw new UnitError(`Unexpected "${source[index]}" in unit "${text}"`);
+  }
+  return result;
+}
+
+function combine(a: UnitDefinition, b: UnitDefinition, exponent: number): UnitDefinition {
+  return {
+    factor: a.factor * b.factor ** exponent,
+    dimension: a.dimension.map((n, i) => n + b.dimension[i] * exponent) as Dimension,
+  };
+}
+
+/**
+ * "72 km/h", "5 ft", "-40 °F", "1.5e3 kg" to SI; a bare number is dimensionless
+ */
+export function parseQuantity(text: string): Quantity {
+  const normalized = text.trim().replace(/[×x]\s*10\^?([-+]?\d+)/, 'e$1');
+  const match = /^([-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?)\s*(.*)$/i.exec(normalized);
+  if (!match) throw new UnitError(`Expected a number with a unit, got "${text}"`);
+
+  const definition = parseUnit(match[2]);
+  return {
+    value: Number(match[1]) * definition.factor + (definition.offset ?? 0),
+    dimension: definition.dimension,
+  };
+}
+
+/**
+ * SI value of `input` in the dimension of `expectedUnit`. Bare numbers are taken to be
+ * in `expectedUnit` already; anything else must have the same dimension
+ */
+export function toSI(input: unknown, expectedUnit: string, label = 'value'): number {
+  const expected = parseUnit(expectedUnit);
+  if (
+    typeof input === 'number' ||
+    /^\s*[-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?\s*$/i.test(String(input))
+  ) {
+    return Number(input) * expected.factor + (expected.offset ?? 0);
+  }
+
+  const quantity = parseQuantity(String(input));
+  if (!sameDimension(quantity.dimension, expected.dimension)) {
+    throw new UnitError(
+      `${label} needs a ${describeDimension(expected.dimension)} unit such as ${expectedUnit}, got ${input} (${describeDimension(quantity.dimension)})`
+    );
+  }
+  return quantity.value;
+}
+
+/**
+ * Quantity in the given unit, which must match its dimension
+ */
+export function convert(quantity: Quantity, toUnit: string): number {
+  const target = parseUnit(toUnit);
+  if (!sameDimension(quantity.dimension, target.dimension)) {
+    throw new UnitError(
+      `Cannot convert ${describeDimension(quantity.dimension)} to ${describeDimension(target.dimension)}`
+    );
+  }
+  return (quantity.value - (target.offset ?? 0)) / target.factor;
+}
+
+/**
+ * SI value expressed in `unit` (radians to deg, m/s to km/h)
+ */
+export function fromSI(value: number, unit: string): number {
+  const target = parseUnit(unit);
+  return (value - (target.offset ?? 0)) / target.factor;
+}
+
+/**
+ * Number for display: six significant digits, exponent form when very large or small
+ */
+export function formatNumber(value: number): string {
+  if (!Number.isFinite(value)) return String(value);
+  const magnitude = Math.abs(value);
+  if (magnitude !== 0 && (magnitude >= 1e6 || magnitude < 1e-4)) {
+    return value.toExponential(4).replace(/\.?0+e/, 'e');
+  }
+  return String(Number(value.toPrecision(6)));
+}
+
+/**
+ * "40.774 m": a value with its unit (SI unit of the dimension when not given)
+ */
+export function formatQuantity(value: number, unitText: string | Dimension): string {
+  const symbol = typeof unitText === 'string' ? unitText : siUnit(unitText);
+  return symbol ? `${formatNumber(value)} ${symbol}` : formatNumber(value);
+}
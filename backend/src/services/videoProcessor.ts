@@ -3,22 +3,26 @@
  * Handles video to ASCII conversion using FFmpeg
  */
 
-import { spawn } from 'child_process';
+import { ChildProcess, spawn } from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
 import { v4 as uuidv4 } from 'uuid';
+import { BUILTIN_RAMPS, getCharset, resolveRamp } from './charsetRegistry.js';
+import {
+  asciiGridSize,
+  AsciiCharset,
+  grayToAscii,
+  imageToAscii as bufferToAscii,
+} from './imageProcessor.js';
+import { isSubcellCharset } from './subcellRenderer.js';
 
-// ASCII character sets for different densities
-const ASCII_CHARS_DETAILED = '@%#*+=-:. ';
-const ASCII_CHARS_SIMPLE = '@#$%?*+;:,. ';
-
-interface VideoFrame {
+export interface VideoFrame {
   frameNumber: number;
   ascii: string;
-  timestamp: number;
+  timestamp: number; // seconds from the start of the clip
 }
 
-interface VideoProcessingResult {
+export interface VideoProcessingResult {
   success: boolean;
   frames?: VideoFrame[];
   totalFrames?: number;
@@ -27,28 +31,79 @@ interface VideoProcessingResult {
   error?: string;
 }
 
-interface ProcessingOptions {
+export interface ProcessingOptions {
   width?: number;
-  height?: number;
   fps?: number;
-  charset?: 'detailed' | 'simple';
+  maxFrames?: number;
+  charset?: AsciiCharset | string;
+  ramp?: string;
+  sortRamp?: boolean;
+  gamma?: number;
+  contrast?: number;
   invert?: boolean;
 }
 
+interface PixelAsciiOptions {
+  width?: number;
+  height?: number;
+  charset?: string; // Built-in or saved ramp name
+  invert?: boolean;
+}
+
+/**
+ * Parse an FFprobe frame rate such as "30000/1001" without eval
+ */
+function parseFrameRate(rate: string | undefined): number {
+  if (!rate) return 30;
+  const [num, den] = rate.split('/').map(Number);
+  const fps = den ? num / den : num;
+  return Number.isFinite(fps) && fps > 0 ? fps : 30;
+}
+
+/**
+ * Check if FFmpeg is available on the system
+ */
+export async function checkFfmpegAvailable(): Promise<{ available: boolean; version?: string }> {
+  return new Promise((resolve) => {
+    const ffmpeg = spawn('ffmpeg', ['-version']);
+
+    let version = '';
+
+    ffmpeg.stdout.on('data', (data) => {
+      version += data.toString();
+    });
+
+    ffmpeg.on('close', (code) => {
+      if (code === 0) {
+        resolve({ available: true, version: version.split('\n')[0].trim() });
+      } else {
+        resolve({ available: false });
+      }
+    });
+
+    ffmpeg.on('error', () => {
+      resolve({ available: false });
+    });
+  });
+}
+
 /**
  * Extract frames from video using FFmpeg
  */
 export async function extractFrames(
   videoPath: string,
   outputDir: string,
-  fps: number = 10
+  fps: number = 10,
+  maxFrames?: number
 ): Promise<string[]> {
   return new Promise((resolve, reject) => {
     const framePattern = path.join(outputDir, 'frame_%04d.png');
+    const limit = maxFrames ? ['-frames:v', String(maxFrames)] : [];
     
     const ffmpeg = spawn('ffmpeg', [
       '-i', videoPath,
       '-vf', `fps=${fps}`,
+      ...limit,
       '-f', 'image2',
       framePattern
     ]);
@@ -106,11 +161,13 @@ export async function getVideoMetadata(videoPath: string): Promise<{
       if (code === 0) {
         try {
           const data = JSON.parse(stdout);
-          const videoStream = data.streams?.find((s: any) => s.codec_type === 'video');
+          const videoStream = data.streams?.find(
+            (s: { codec_type?: string }) => s.codec_type === 'video'
+          );
           
           resolve({
             duration: parseFloat(data.format?.duration || '0'),
-            fps: videoStream ? eval(videoStream.r_frame_rate || '30') : 30,
+            fps: parseFrameRate(videoStream?.r_frame_rate),
             width: videoStream?.width || 640,
             height: videoStream?.height || 480
           });
@@ -135,11 +192,11 @@ export function imageToAscii(
   pixels: Buffer,
   width: number,
   height: number,
-  options: ProcessingOptions = {}
+  options: PixelAsciiOptions = {}
 ): string {
   const targetWidth = options.width || 80;
   const targetHeight = options.height || 40;
-  const chars = options.charset === 'simple' ? ASCII_CHARS_SIMPLE : ASCII_CHARS_DETAILED;
+  const chars = getCharset(options.charset) || BUILTIN_RAMPS.standard;
   const invert = options.invert || false;
 
   const scaleX = width / targetWidth;
@@ -189,20 +246,36 @@ export async function processVideo(
     const fps = options.fps || Math.min(metadata.fps, 15);
     
     // Extract frames
-    const framePaths = await extractFrames(videoPath, tempDir, fps);
+    const framePaths = await extractFrames(videoPath, tempDir, fps, options.maxFrames);
     
     if (framePaths.length === 0) {
       return { success: false, error: 'No frames extracted from video' };
     }
+
+    // Resolve (and density sort) a custom ramp once instead of per frame
+    const ramp = options.ramp ? await resolveRamp(options) : undefined;
+    
+    // Decode each PNG through Sharp with the same charsets as image conversion
+    const frames: VideoFrame[] = [];
+    for (let i = 0; i < framePaths.length; i++) {
+      const ascii = await bufferToAscii(fs.readFileSync(framePaths[i]), {
+        ...options,
+        ramp,
+        sortRamp: false,
+      });
+      frames.push({
+        frameNumber: i + 1,
+        ascii,
+        timestamp: Number((i / fps).toFixed(3)),
+      });
+    }
     
-    // Note: In a full implementation, you would process each frame through Sharp
-    // For now, return metadata about what would be processed
     return {
       success: true,
-      totalFrames: framePaths.length,
+      totalFrames: frames.length,
       fps,
       duration: metadata.duration,
-      frames: [] // Would contain actual ASCII frames
+      frames
     };
   } catch (error) {
     return {
@@ -221,6 +294,104 @@ export async function processVideo(
   }
 }
 
+/**
+ * Handle for a running FFmpeg frame stream
+ */
+export interface VideoStream {
+  fps: number;
+  width: number;
+  height: number;
+  duration: number;
+  done: Promise<number>; // resolves with the number of frames emitted
+  cancel: () => void;
+}
+
+/**
+ * Stream ASCII frames straight from an FFmpeg rawvideo pipe
+ * Frames are emitted as soon as FFmpeg decodes them, no temp PNGs are written
+ */
+export async function streamVideoFrames(
+  videoPath: string,
+  options: ProcessingOptions,
+  onFrame: (frame: VideoFrame) => void
+): Promise<VideoStream> {
+  const metadata = await getVideoMetadata(videoPath);
+  const fps = options.fps || Math.min(metadata.fps, 15);
+  // Sub-cell charsets sample several pixels per output cell
+  const { columns, rows, pixelWidth, pixelHeight } = asciiGridSize(
+    options.width || 80,
+    metadata.width,
+    metadata.height,
+    options.charset
+  );
+  const frameSize = pixelWidth * pixelHeight;
+  const ramp = isSubcellCharset(options.charset) ? undefined : await resolveRamp(options);
+  const limit = options.maxFrames ? ['-frames:v', String(options.maxFrames)] : [];
+
+  const ffmpeg: ChildProcess = spawn('ffmpeg', [
+    '-nostdin',
+    '-loglevel', 'error',
+    '-i', videoPath,
+    '-vf', `fps=${fps},scale=${pixelWidth}:${pixelHeight}`,
+    ...limit,
+    '-f', 'rawvideo',
+    '-pix_fmt', 'gray',
+    'pipe:1'
+  ]);
+
+  let cancelled = false;
+
+  const done = new Promise<number>((resolve, reject) => {
+    let pending: Buffer = Buffer.alloc(0);
+    let frameNumber = 0;
+    let stderr = '';
+
+    ffmpeg.stdout?.on('data', (chunk: Buffer) => {
+      pending = pending.length ? Buffer.concat([pending, chunk]) : chunk;
+
+      while (pending.length >= frameSize) {
+        const pixels = pending.subarray(0, frameSize);
+        pending = pending.subarray(frameSize);
+
+        onFrame({
+          frameNumber: frameNumber + 1,
+          ascii: grayToAscii(pixels, pixelWidth, pixelHeight, 1, { ...options, ramp }),
+          timestamp: Number((frameNumber / fps).toFixed(3)),
+        });
+        frameNumber++;
+      }
+    });
+
+    ffmpeg.stderr?.on('data', (data) => {
+      stderr += data.toString();
+    });
+
+    ffmpeg.on('close', (code) => {
+      if (code === 0 || cancelled) {
+        resolve(frameNumber);
+      } else {
+        reject(new Error(`FFmpeg exited with code ${code}: ${stderr}`));
+      }
+    });
+
+    ffmpeg.on('error', (err) => {
+      reject(err);
+    });
+  });
+
+  return {
+    fps,
+    width: columns,
+    height: rows,
+    duration: metadata.duration,
+    done,
+    cancel: () => {
+      cancelled = true;
+      ffmpeg.kill('SIGKILL');
+    },
+  };
+}
+
 /**
  * Create ASCII animation from video
  */
@@ -254,10 +425,12 @@ export async function createAsciiAnimation(
 }
 
 export default {
+  checkFfmpegAvailable,
   extractFrames,
   getVideoMetadata,
   imageToAscii,
   processVideo,
+  streamVideoFrames,
   createAsciiAnimation,
   videoToAsciiFrames: processVideo
 };
@@ -265,14 +438,11 @@ export default {
 // Named exports for routes
 export const videoToAsciiFrames = async (
   videoPath: string,
-  options: { width?: number; fps?: number; maxFrames?: number; charset?: string } = {}
+  options: ProcessingOptions = {}
 ): Promise<string[]> => {
-  // For now, return a placeholder since FFmpeg may not be available
-  // In production, this would process video frames
-  return [
-    'Video processing requires FFmpeg.',
-    'Install FFmpeg and try again.',
-    `File: ${videoPath}`,
-    `Options: ${JSON.stringify(options)}`
-  ];
+  const result = await processVideo(videoPath, options);
+  if (!result.success) {
+    throw new Error(result.error || 'Video processing failed');
+  }
+  return result.frames?.map((f) => f.ascii) || [];
 };
@@ -99,7 +99,7 @@ const App: React.FC<AppProps> = ({ onReady }) => {
           playSound('powerup');
         } else if (data.frames) {
           addOutput(`Converted ${data.frames.length} frames`);
-          addOutput(data.frames[0] || 'No frames generated');
+          addOutput(data.frames[0]?.ascii || 'No frames generated');
         }
       } else {
         addOutput('Error: Failed to convert file');
@@ -134,6 +134,8 @@ const App: React.FC<AppProps> = ({ onReady }) => {
                 <HologramViewer 
                   type={hologramData.type}
                   text={hologramData.text}
+                  surface={hologramData.surface}
+                  wireframe={hologramData.wireframe}
                   onClose={() => useAppStore.getState().setHologramMode(false)}
                 />
               </motion.div>
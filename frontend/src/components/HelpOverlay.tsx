@@ -18,8 +18,10 @@ const COMMANDS = [
   { cmd: 'upload', desc: 'Convert image to ASCII', example: 'upload image' },
   { cmd: 'hologram', desc: 'Enter 3D hologram mode', example: 'hologram cube' },
   { cmd: 'solve', desc: 'Solve math equations', example: 'solve sqrt(144)' },
+  { cmd: 'plot', desc: 'Graph functions in the terminal', example: 'plot sin(x)/x' },
   { cmd: 'physics', desc: 'Physics calculations', example: 'physics force 10 5' },
   { cmd: 'chemistry', desc: 'Chemistry tools', example: 'chemistry element Fe' },
+  { cmd: 'convert', desc: 'Convert units', example: 'convert 5 miles to km' },
   { cmd: 'clear', desc: 'Clear terminal', example: 'clear' },
   { cmd: 'exit', desc: 'Exit 3D mode', example: 'exit' },
 ];
@@ -1,15 +1,18 @@
 /**
  * HologramViewer - 3D Holographic Visualization Component
- * Features: Sacred Geometry, Illuminati Pyramid, DNA, Galaxy, Waves
+ * Features: Sacred Geometry, Illuminati Pyramid, DNA, Galaxy, Waves, 3D surface plots
  */
 
 import React, { useEffect, useRef, useCallback } from 'react';
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import type { SurfaceData } from '../utils/mathPlot';
 
 interface HologramViewerProps {
   type: string;
   text?: string;
+  surface?: SurfaceData;
+  wireframe?: boolean;
   onClose: () => void;
 }
 
@@ -24,7 +27,16 @@ const COLORS = {
   white: 0xffffff,
 };
 
-const HologramViewer: React.FC<HologramViewerProps> = ({ type = 'cube', text, onClose }) => {
+// Surface plot colors from lowest to highest point
+const HEIGHT_COLORS = [COLORS.purple, COLORS.secondary, COLORS.primary, COLORS.gold];
+
+const HologramViewer: React.FC<HologramViewerProps> = ({
+  type = 'cube',
+  text,
+  surface,
+  wireframe = false,
+  onClose,
+}) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const sceneRef = useRef<THREE.Scene | null>(null);
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
@@ -182,6 +194,9 @@ const HologramViewer: React.FC<HologramViewerProps> = ({ type = 'cube', text, on
         case 'icosahedron':
           createIcosahedron(hologramGroup);
           break;
+        case 'plot':
+          if (surface) createSurface(hologramGroup, surface);
+          break;
         default:
           createCube(hologramGroup);
       }
@@ -866,6 +881,86 @@ const HologramViewer: React.FC<HologramViewerProps> = ({ type = 'cube', text, on
       }
     }
 
+    function createSurface(group: THREE.Group, plot: SurfaceData) {
+      const { resolution, z, zRange } = plot;
+      const size = 6; // x-y square in world units
+      const height = 3;
+      const span = zRange[1] - zRange[0] || 1;
+      const count = resolution * resolution;
+      const positions = new Float32Array(count * 3);
+      const colors = new Float32Array(count * 3);
+      const color = new THREE.Color();
+
+      // Grid x -> world x, grid y -> world -z, height -> world y
+      for (let i = 0; i < count; i++) {
+        const row = Math.floor(i / resolution);
+        const column = i % resolution;
+        const level = z[i] === null ? 0.5 : ((z[i] as number) - zRange[0]) / span;
+
+        positions[i * 3] = (column / (resolution - 1) - 0.5) * size;
+        positions[i * 3 + 1] = (level - 0.5) * height;
+        positions[i * 3 + 2] = (0.5 - row / (resolution - 1)) * size;
+
+        // Color by height along the neon gradient
+        const scaled = level * (HEIGHT_COLORS.length - 1);
+        const stop = Math.min(Math.floor(scaled), HEIGHT_COLORS.length - 2);
+        color.lerpColors(
+          new THREE.Color(HEIGHT_COLORS[stop]),
+          new THREE.Color(HEIGHT_COLORS[stop + 1]),
+          scaled - stop
+        );
+        colors[i * 3] = color.r;
+        colors[i * 3 + 1] = color.g;
+        colors[i * 3 + 2] = color.b;
+      }
+
+      // Two triangles per grid cell, skipping cells that touch an undefined point
+      const indices: number[] = [];
+      for (let row = 0; row < resolution - 1; row++) {
+        for (let column = 0; column < resolution - 1; column++) {
+          const a = row * resolution + column;
+          const b = a + 1;
+          const c = a + resolution;
+          const d = c + 1;
+          if ([a, b, c, d].some((index) => z[index] === null)) continue;
+          indices.push(a, c, b, b, c, d);
+        }
+      }
+
+      const surfaceGeometry = new THREE.BufferGeometry();
+      surfaceGeometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+      surfaceGeometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+      surfaceGeometry.setIndex(indices);
+
+      // Translucent glowing faces under a bright wireframe
+      if (!wireframe) {
+        const faceMaterial = new THREE.MeshBasicMaterial({
+          vertexColors: true,
+          transparent: true,
+          opacity: 0.35,
+          side: THREE.DoubleSide,
+        });
+        group.add(new THREE.Mesh(surfaceGeometry, faceMaterial));
+      }
+
+      const wireMaterial = new THREE.MeshBasicMaterial({
+        vertexColors: true,
+        wireframe: true,
+        transparent: true,
+        opacity: wireframe ? 0.9 : 0.6,
+      });
+      group.add(new THREE.Mesh(surfaceGeometry, wireMaterial));
+
+      // Bounding box of the plot
+      const boxEdges = new THREE.EdgesGeometry(new THREE.BoxGeometry(size, height, size));
+      const boxMaterial = new THREE.LineBasicMaterial({
+        color: COLORS.primary,
+        transparent: true,
+        opacity: 0.25,
+      });
+      group.add(new THREE.LineSegments(boxEdges, boxMaterial));
+    }
+
     createHologram();
 
     // Animation loop
@@ -879,7 +974,8 @@ const HologramViewer: React.FC<HologramViewerProps> = ({ type = 'cube', text, on
       // Animate based on type
       if (hologramGroup) {
         // General rotation for most types
-        if (!['wave', 'galaxy'].includes(type.toLowerCase())) {
+        // Surface plots stay put so orbiting the camera reads the axes consistently
+        if (!['wave', 'galaxy', 'plot'].includes(type.toLowerCase())) {
           hologramGroup.rotation.y += 0.005;
         }
 
@@ -996,13 +1092,15 @@ const HologramViewer: React.FC<HologramViewerProps> = ({ type = 'cube', text, on
       }
       renderer.dispose();
     };
-  }, [type, text]);
+  }, [type, text, surface, wireframe]);
 
   return (
     <div className="hologram-container">
       <div ref={containerRef} className="hologram-canvas" />
       <div className="hologram-ui">
-        <div className="hologram-title">{(type || 'hologram').toUpperCase()}</div>
+        <div className="hologram-title">
+          {type === 'plot' && surface ? `z = ${surface.expression}` : (type || 'hologram').toUpperCase()}
+        </div>
         <div className="hologram-controls">
           <span>🖱️ Drag to rotate</span>
           <span>🔍 Scroll to zoom</span>
@@ -8,13 +8,76 @@ import { Terminal as XTerm } from '@xterm/xterm';
 import '@xterm/xterm/css/xterm.css';
 import React, { useEffect, useRef } from 'react';
 import { useAppStore } from '../hooks/useAppStore';
-import { asciiArtLibrary } from '../utils/asciiArt';
+import { animationFrames, asciiArtLibrary } from '../utils/asciiArt';
+import {
+  formatBalance,
+  formatElement,
+  formatMolarMass,
+  formatPeriodicTable,
+  formatStoichiometry,
+  parseMolarArgs,
+  parseStoichArgs,
+  parseTableArgs,
+  requestBalance,
+  requestElement,
+  requestMolarMass,
+  requestPeriodicTable,
+  requestStoichiometry,
+} from '../utils/chemistry';
+import {
+  formatPlot,
+  parsePlotArgs,
+  parseSurfaceArgs,
+  requestPlot,
+  requestSurface,
+  type SurfaceData,
+} from '../utils/mathPlot';
+import { formatSolution, parseSolveArgs, requestSolution } from '../utils/mathSolver';
+import {
+  findFormulaInfo,
+  formatFormula,
+  formatPhysicsHelp,
+  formatPhysicsSolution,
+  formatTrajectorySummary,
+  parsePhysicsArgs,
+  requestFormulas,
+  requestPhysicsSolve,
+  requestTrajectory,
+  wantsTrajectory,
+} from '../utils/physics';
+import { formatConversion, requestConversion } from '../utils/units';
 
 interface TerminalProps {
   onUploadRequest: (type: 'image' | 'video') => void;
   onSound: (sound: string) => void;
 }
 
+interface VideoFrame {
+  frameNumber: number;
+  ascii: string;
+  timestamp: number;
+}
+
+interface JobProgress {
+  status: string;
+  processed: number;
+  total: number;
+  percent: number;
+  etaSeconds?: number | null;
+}
+
+const EXPORT_FORMATS = ['html', 'svg', 'png', 'txt', 'ansi'];
+const ANIMATION_FORMATS = ['gif', 'apng'];
+
+// Render a job progress line, e.g. [██████░░░░] 60%  90/150 frames  ETA 4s
+const formatJobProgress = ({ status, processed, total, percent, etaSeconds }: JobProgress) => {
+  const width = 30;
+  const filled = Math.round((Math.min(Math.max(percent, 0), 100) / 100) * width);
+  const bar = `\x1b[32m${'█'.repeat(filled)}\x1b[90m${'░'.repeat(width - filled)}\x1b[0m`;
+  const eta = etaSeconds != null && status === 'running' ? `  ETA ${etaSeconds}s` : '';
+  return `[${bar}] ${String(percent).padStart(3)}%  ${processed}/${total || '?'} frames${eta}  \x1b[36m${status}\x1b[0m`;
+};
+
 // Math evaluation with proper parsing
 const evaluateMath = (expr: string): string => {
   try {
@@ -59,158 +122,6 @@ const evaluateMath = (expr: string): string => {
   }
 };
 
-// Physics formulas database
-const PHYSICS_FORMULAS: Record<
-  string,
-  { name: string; formula: string; calc: (args: number[]) => string }
-> = {
-  velocity: {
-    name: 'Velocity',
-    formula: 'v = d / t',
-    calc: ([d, t]) => `Velocity = ${(d / t).toFixed(2)} m/s`,
-  },
-  acceleration: {
-    name: 'Acceleration',
-    formula: 'a = (v - u) / t',
-    calc: ([v, u, t]) => `Acceleration = ${((v - u) / t).toFixed(2)} m/s²`,
-  },
-  force: {
-    name: "Force (Newton's 2nd Law)",
-    formula: 'F = m × a',
-    calc: ([m, a]) => `Force = ${(m * a).toFixed(2)} N`,
-  },
-  momentum: {
-    name: 'Momentum',
-    formula: 'p = m × v',
-    calc: ([m, v]) => `Momentum = ${(m * v).toFixed(2)} kg·m/s`,
-  },
-  kinetic: {
-    name: 'Kinetic Energy',
-    formula: 'KE = ½mv²',
-    calc: ([m, v]) => `Kinetic Energy = ${(0.5 * m * v * v).toFixed(2)} J`,
-  },
-  potential: {
-    name: 'Potential Energy',
-    formula: 'PE = mgh',
-    calc: ([m, h]) => `Potential Energy = ${(m * 9.81 * h).toFixed(2)} J`,
-  },
-  work: {
-    name: 'Work',
-    formula: 'W = F × d × cos(θ)',
-    calc: ([f, d, theta = 0]) =>
-      `Work = ${(f * d * Math.cos((theta * Math.PI) / 180)).toFixed(2)} J`,
-  },
-  power: {
-    name: 'Power',
-    formula: 'P = W / t',
-    calc: ([w, t]) => `Power = ${(w / t).toFixed(2)} W`,
-  },
-  projectile: {
-    name: 'Projectile Motion',
-    formula: 'R = v²sin(2θ)/g, H = v²sin²(θ)/2g',
-    calc: ([v, angle]) => {
-      const theta = (angle * Math.PI) / 180;
-      const g = 9.81;
-      const range = (v * v * Math.sin(2 * theta)) / g;
-      const maxH = (v * v * Math.sin(theta) * Math.sin(theta)) / (2 * g);
-      const time = (2 * v * Math.sin(theta)) / g;
-      return `Range: ${range.toFixed(2)}m | Max Height: ${maxH.toFixed(2)}m | Time: ${time.toFixed(2)}s`;
-    },
-  },
-  freefall: {
-    name: 'Free Fall',
-    formula: 'v = √(2gh), t = √(2h/g)',
-    calc: ([h]) => {
-      const g = 9.81;
-      const v = Math.sqrt(2 * g * h);
-      const t = Math.sqrt((2 * h) / g);
-      return `Final velocity: ${v.toFixed(2)} m/s | Time: ${t.toFixed(2)} s`;
-    },
-  },
-  ohm: {
-    name: "Ohm's Law",
-    formula: 'V = I × R',
-    calc: ([i, r]) => `Voltage = ${(i * r).toFixed(2)} V`,
-  },
-  frequency: {
-    name: 'Wave Frequency',
-    formula: 'f = v / λ',
-    calc: ([v, lambda]) => `Frequency = ${(v / lambda).toFixed(2)} Hz`,
-  },
-  gravity: {
-    name: 'Gravitational Force',
-    formula: 'F = G(m₁m₂)/r²',
-    calc: ([m1, m2, r]) => {
-      const G = 6.674e-11;
-      return `Force = ${((G * m1 * m2) / (r * r)).toExponential(3)} N`;
-    },
-  },
-  escape: {
-    name: 'Escape Velocity',
-    formula: 'v = √(2GM/r)',
-    calc: ([m, r]) => {
-      const G = 6.674e-11;
-      return `Escape velocity = ${Math.sqrt((2 * G * m) / r).toFixed(2)} m/s`;
-    },
-  },
-  centripetal: {
-    name: 'Centripetal Force',
-    formula: 'F = mv²/r',
-    calc: ([m, v, r]) => `Centripetal Force = ${((m * v * v) / r).toFixed(2)} N`,
-  },
-  pendulum: {
-    name: 'Pendulum Period',
-    formula: 'T = 2π√(L/g)',
-    calc: ([l]) => `Period = ${(2 * Math.PI * Math.sqrt(l / 9.81)).toFixed(3)} s`,
-  },
-};
-
-// Chemistry data
-const ELEMENTS: Record<string, { name: string; number: number; mass: number; category: string }> = {
-  h: { name: 'Hydrogen', number: 1, mass: 1.008, category: 'Nonmetal' },
-  he: { name: 'Helium', number: 2, mass: 4.003, category: 'Noble Gas' },
-  li: { name: 'Lithium', number: 3, mass: 6.941, category: 'Alkali Metal' },
-  be: { name: 'Beryllium', number: 4, mass: 9.012, category: 'Alkaline Earth' },
-  b: { name: 'Boron', number: 5, mass: 10.81, category: 'Metalloid' },
-  c: { name: 'Carbon', number: 6, mass: 12.011, category: 'Nonmetal' },
-  n: { name: 'Nitrogen', number: 7, mass: 14.007, category: 'Nonmetal' },
-  o: { name: 'Oxygen', number: 8, mass: 15.999, category: 'Nonmetal' },
-  f: { name: 'Fluorine', number: 9, mass: 18.998, category: 'Halogen' },
-  ne: { name: 'Neon', number: 10, mass: 20.18, category: 'Noble Gas' },
-  na: { name: 'Sodium', number: 11, mass: 22.99, category: 'Alkali Metal' },
-  mg: { name: 'Magnesium', number: 12, mass: 24.305, category: 'Alkaline Earth' },
-  al: { name: 'Aluminum', number: 13, mass: 26.982, category: 'Post-transition' },
-  si: { name: 'Silicon', number: 14, mass: 28.086, category: 'Metalloid' },
-  p: { name: 'Phosphorus', number: 15, mass: 30.974, category: 'Nonmetal' },
-  s: { name: 'Sulfur', number: 16, mass: 32.065, category: 'Nonmetal' },
-  cl: { name: 'Chlorine', number: 17, mass: 35.453, category: 'Halogen' },
-  ar: { name: 'Argon', number: 18, mass: 39.948, category: 'Noble Gas' },
-  k: { name: 'Potassium', number: 19, mass: 39.098, category: 'Alkali Metal' },
-  ca: { name: 'Calcium', number: 20, mass: 40.078, category: 'Alkaline Earth' },
-  fe: { name: 'Iron', number: 26, mass: 55.845, category: 'Transition Metal' },
-  cu: { name: 'Copper', number: 29, mass: 63.546, category: 'Transition Metal' },
-  zn: { name: 'Zinc', number: 30, mass: 65.38, category: 'Transition Metal' },
-  ag: { name: 'Silver', number: 47, mass: 107.868, category: 'Transition Metal' },
-  au: { name: 'Gold', number: 79, mass: 196.967, category: 'Transition Metal' },
-  pb: { name: 'Lead', number: 82, mass: 207.2, category: 'Post-transition' },
-  u: { name: 'Uranium', number: 92, mass: 238.029, category: 'Actinide' },
-};
-
-// Calculate molar mass from formula
-const calcMolarMass = (formula: string): number => {
-  let mass = 0;
-  const regex = /([A-Z][a-z]?)(\d*)/g;
-  let match;
-  while ((match = regex.exec(formula)) !== null) {
-    const symbol = match[1].toLowerCase();
-    const count = match[2] ? parseInt(match[2]) : 1;
-    if (ELEMENTS[symbol]) {
-      mass += ELEMENTS[symbol].mass * count;
-    }
-  }
-  return mass;
-};
-
 const Terminal: React.FC<TerminalProps> = ({ onUploadRequest: _onUploadRequest, onSound }) => {
   const termRef = useRef<HTMLDivElement>(null);
   const xtermRef = useRef<XTerm | null>(null);
@@ -220,6 +131,14 @@ const Terminal: React.FC<TerminalProps> = ({ onUploadRequest: _onUploadRequest,
   const historyIndexRef = useRef<number>(-1);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const pendingUploadType = useRef<'image' | 'video'>('image');
+  const activeJobRef = useRef<string | null>(null);
+  const pendingColorMode = useRef<string | null>(null);
+  const lastResultRef = useRef<{
+    ascii: string;
+    name: string;
+    frames?: string[];
+    fps?: number;
+  } | null>(null);
 
   const { addCommand, setHologramMode, setHologramData, triggerPowerUp } = useAppStore();
 
@@ -232,6 +151,206 @@ const Terminal: React.FC<TerminalProps> = ({ onUploadRequest: _onUploadRequest,
     }
   };
 
+  // Queue a video conversion job and play its frames over SSE at the source fps
+  // while the rest are still being decoded, with a live progress bar underneath
+  const streamVideo = async (file: File) => {
+    const formData = new FormData();
+    formData.append('type', 'video-ascii');
+    formData.append('file', file);
+    formData.append('width', '70');
+    formData.append('charset', 'blocks');
+
+    const response = await fetch('/api/jobs', { method: 'POST', body: formData });
+    const data = await response.json();
+
+    if (!response.ok) {
+      writeLine(`\x1b[31mError: ${data.error || 'Server could not process file'}\x1b[0m`);
+      if (data.message) writeLine(`\x1b[33m${data.message}\x1b[0m`);
+      return;
+    }
+
+    activeJobRef.current = data.job.id;
+    writeLine('\x1b[90m(Ctrl+C to cancel)\x1b[0m\n');
+
+    await new Promise<void>((resolve) => {
+      const source = new EventSource(data.streamUrl);
+      const queue: VideoFrame[] = [];
+      let progress: JobProgress = { status: 'queued', processed: 0, total: 0, percent: 0 };
+      let fps = 10;
+      let ended = false;
+      let played = 0;
+      let current = '';
+      const history: string[] = [];
+      let regionHeight = 0;
+      let timer: number | undefined;
+
+      // Redraw the current frame and the progress line in place
+      const draw = () => {
+        const term = xtermRef.current;
+        if (!term) return;
+        if (regionHeight > 0) term.write(`\x1b[${regionHeight}A`);
+        term.write(current);
+        term.write(`\x1b[2K${formatJobProgress(progress)}\n`);
+        regionHeight = current.split('\n').length;
+      };
+
+      const finish = (error?: string) => {
+        source.close();
+        window.clearTimeout(timer);
+        activeJobRef.current = null;
+        draw();
+        if (current)
+          lastResultRef.current = { ascii: current, name: file.name, frames: history, fps };
+        if (error) {
+          writeLine(`\x1b[31mError: ${error}\x1b[0m`);
+        } else {
+          writeLine(`\n\x1b[32mPlayed ${played} frames @ ${fps} fps\x1b[0m`);
+          onSound('powerup');
+        }
+        resolve();
+      };
+
+      // Advance one frame per tick, holding the last frame when playback catches up
+      const tick = () => {
+        const frame = queue.shift();
+        if (frame) {
+          current = frame.ascii;
+          history.push(current);
+          played++;
+        } else if (ended) {
+          return finish();
+        }
+        draw();
+        timer = window.setTimeout(tick, 1000 / fps);
+      };
+
+      source.addEventListener('progress', (e: MessageEvent) => {
+        progress = JSON.parse(e.data);
+      });
+      source.addEventListener('meta', (e: MessageEvent) => {
+        fps = JSON.parse(e.data).fps || fps;
+      });
+      source.addEventListener('frame', (e: MessageEvent) => queue.push(JSON.parse(e.data)));
+      source.addEventListener('end', (e: MessageEvent) => {
+        progress = { status: 'completed', ...JSON.parse(e.data).progress };
+        ended = true;
+        source.close();
+      });
+      source.addEventListener('cancelled', () => finish('Conversion cancelled'));
+      source.addEventListener('failed', (e: MessageEvent) => finish(JSON.parse(e.data).error));
+      source.onerror = () => {
+        if (!ended) finish('Video stream disconnected');
+      };
+
+      tick();
+    });
+  };
+
+  // Convert an uploaded image in a single request
+  const convertImage = async (file: File) => {
+    const formData = new FormData();
+    formData.append('image', file);
+    formData.append('width', '70');
+    formData.append('charset', 'blocks');
+    if (pendingColorMode.current) {
+      formData.append('color', 'true');
+      formData.append('colorMode', pendingColorMode.current);
+      formData.append('compress', 'true');
+    }
+
+    const response = await fetch('/api/image/to-ascii', {
+      method: 'POST',
+      body: formData,
+    });
+
+    if (response.ok) {
+      const data = await response.json();
+      if (data.ascii) {
+        lastResultRef.current = { ascii: data.ascii, name: file.name };
+        writeLine('\n\x1b[32m════════ ASCII ART RESULT ════════\x1b[0m\n');
+        writeLine(data.ascii);
+        writeLine('\n\x1b[32m══════════════════════════════════\x1b[0m');
+        onSound('powerup');
+      }
+    } else {
+      const data = await response.json().catch(() => ({}));
+      writeLine(`\x1b[31mError: ${data.error || 'Server could not process file'}\x1b[0m`);
+    }
+  };
+
+  // Play frames in place for a few loops, padding every frame to the tallest one
+  const playFrames = async (frames: string[], fps: number, loops = 3) => {
+    const term = xtermRef.current;
+    if (!term) return;
+
+    const height = Math.max(...frames.map((frame) => frame.split('\n').length));
+    for (let i = 0; i < frames.length * loops; i++) {
+      if (i > 0) term.write(`\x1b[${height}A`);
+      const lines = frames[i % frames.length].split('\n');
+      while (lines.length < height) lines.push('');
+      term.write(lines.map((line) => `\x1b[2K\x1b[32m${line}\x1b[0m\n`).join(''));
+      await new Promise((resolve) => window.setTimeout(resolve, 1000 / fps));
+    }
+  };
+
+  // Frames of an art piece: local animations first, then the backend library
+  const loadFrames = async (name: string): Promise<string[] | null> => {
+    if (animationFrames[name]) return animationFrames[name].map((frame) => frame.join('\n'));
+
+    try {
+      const response = await fetch(`/api/ascii/art/${encodeURIComponent(name)}?animated=true`);
+      if (response.ok) {
+        const data = await response.json();
+        return ((data.animated || [data.art]) as string[]).map((frame) => frame.replace(/^\n/, ''));
+      }
+    } catch {
+      // Backend offline, fall back to the static local art
+    }
+
+    return asciiArtLibrary[name] ? [asciiArtLibrary[name].join('\n')] : null;
+  };
+
+  // Render the last result on the backend and download it
+  // gif/apng export the whole frame sequence of the last animation or video
+  const exportResult = async (format: string) => {
+    const last = lastResultRef.current;
+    if (!last) {
+      writeLine('\x1b[31mNothing to export yet. Draw, upload or generate some art first.\x1b[0m');
+      return;
+    }
+
+    const filename = last.name.replace(/\.[^.]+$/, '');
+    const animated = ANIMATION_FORMATS.includes(format);
+    const response = await fetch(animated ? '/api/export/animation' : '/api/export', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(
+        animated
+          ? { frames: last.frames || [last.ascii], fps: last.fps, format, filename }
+          : { ascii: last.ascii, format, filename }
+      ),
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      writeLine(`\x1b[31mError: ${data.error || 'Export failed'}\x1b[0m`);
+      return;
+    }
+
+    const disposition = response.headers.get('Content-Disposition') || '';
+    const saveAs = disposition.match(/filename="([^"]+)"/)?.[1] || `ascii-oracle.${format}`;
+    const url = URL.createObjectURL(await response.blob());
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = saveAs;
+    link.click();
+    // Revoking right away can cancel the download before the browser has started it
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+
+    writeLine(`\x1b[32mSaved ${saveAs}\x1b[0m`);
+    onSound('powerup');
+  };
+
   // File upload handler
   const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -240,32 +359,10 @@ const Terminal: React.FC<TerminalProps> = ({ onUploadRequest: _onUploadRequest,
     writeLine(`\n\x1b[36mProcessing: ${file.name}...\x1b[0m`);
 
     try {
-      const formData = new FormData();
-      formData.append(pendingUploadType.current, file);
-      formData.append('width', '70');
-      formData.append('charset', 'blocks');
-
-      const endpoint =
-        pendingUploadType.current === 'image' ? '/api/image/to-ascii' : '/api/video/to-ascii';
-
-      const response = await fetch(endpoint, {
-        method: 'POST',
-        body: formData,
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        if (data.ascii) {
-          writeLine('\n\x1b[32m════════ ASCII ART RESULT ════════\x1b[0m\n');
-          writeLine(data.ascii);
-          writeLine('\n\x1b[32m══════════════════════════════════\x1b[0m');
-          onSound('powerup');
-        } else if (data.frames?.length) {
-          writeLine(`\n\x1b[32mConverted ${data.frames.length} frames:\x1b[0m`);
-          writeLine(data.frames[0]);
-        }
+      if (pendingUploadType.current === 'video') {
+        await streamVideo(file);
       } else {
-        writeLine('\x1b[31mError: Server could not process file\x1b[0m');
+        await convertImage(file);
       }
     } catch {
       writeLine('\x1b[31mError: Backend not running. Start with "npm run dev"\x1b[0m');
@@ -302,8 +399,11 @@ const Terminal: React.FC<TerminalProps> = ({ onUploadRequest: _onUploadRequest,
           '\x1b[32m║\x1b[0m \x1b[33mASCII ART\x1b[0m                                                     \x1b[32m║\x1b[0m',
           '\x1b[32m║\x1b[0m   draw <name>             Draw ASCII art (e.g., draw cat)      \x1b[32m║\x1b[0m',
           '\x1b[32m║\x1b[0m   draw --list             List all available ASCII art         \x1b[32m║\x1b[0m',
+          '\x1b[32m║\x1b[0m   draw <name> --animate   Play animation (--export gif/apng)   \x1b[32m║\x1b[0m',
           '\x1b[32m║\x1b[0m   upload image            Convert image to ASCII               \x1b[32m║\x1b[0m',
+          '\x1b[32m║\x1b[0m   upload image --color    Colored ASCII (add 256 or 16)        \x1b[32m║\x1b[0m',
           '\x1b[32m║\x1b[0m   upload video            Convert video to ASCII               \x1b[32m║\x1b[0m',
+          '\x1b[32m║\x1b[0m   export <format>         Download last art (html/svg/png/txt) \x1b[32m║\x1b[0m',
           '\x1b[32m║\x1b[0m                                                                \x1b[32m║\x1b[0m',
           '\x1b[32m║\x1b[0m \x1b[33m3D HOLOGRAMS\x1b[0m                                                  \x1b[32m║\x1b[0m',
           '\x1b[32m║\x1b[0m   hologram cube           Rotating 3D cube                     \x1b[32m║\x1b[0m',
@@ -315,6 +415,7 @@ const Terminal: React.FC<TerminalProps> = ({ onUploadRequest: _onUploadRequest,
           '\x1b[32m║\x1b[0m   hologram wave           Multi-layer wave animation           \x1b[32m║\x1b[0m',
           '\x1b[32m║\x1b[0m   hologram text <msg>     3D floating text                     \x1b[32m║\x1b[0m',
           '\x1b[32m║\x1b[0m   hologram particles      Particle sphere                      \x1b[32m║\x1b[0m',
+          '\x1b[32m║\x1b[0m   hologram plot <f(x,y)>  3D surface (--range -3..3)           \x1b[32m║\x1b[0m',
           '\x1b[32m║\x1b[0m                                                                \x1b[32m║\x1b[0m',
           '\x1b[32m║\x1b[0m \x1b[35m🔺 SACRED GEOMETRY\x1b[0m                                             \x1b[32m║\x1b[0m',
           '\x1b[32m║\x1b[0m   hologram illuminati     All-Seeing Eye Pyramid               \x1b[32m║\x1b[0m',
@@ -328,15 +429,26 @@ const Terminal: React.FC<TerminalProps> = ({ onUploadRequest: _onUploadRequest,
           '\x1b[32m║\x1b[0m   solve <expr>            Calculate expression                 \x1b[32m║\x1b[0m',
           '\x1b[32m║\x1b[0m   Examples: solve 2+2, solve sqrt(16), solve 5^2              \x1b[32m║\x1b[0m',
           '\x1b[32m║\x1b[0m            solve sin(45), solve log(100), solve pi*2          \x1b[32m║\x1b[0m',
+          '\x1b[32m║\x1b[0m   solve <eq> --steps      Symbolic solve with numbered steps   \x1b[32m║\x1b[0m',
+          '\x1b[32m║\x1b[0m   solve diff|integrate|limit|factor <expr>  (try: solve)       \x1b[32m║\x1b[0m',
+          '\x1b[32m║\x1b[0m   plot <f(x)>; <g(x)>     Braille graph (--from a --to b)      \x1b[32m║\x1b[0m',
+          '\x1b[32m║\x1b[0m   plot cos(t), sin(t)     Parametric curve (or --polar r(t))   \x1b[32m║\x1b[0m',
           '\x1b[32m║\x1b[0m                                                                \x1b[32m║\x1b[0m',
           '\x1b[32m║\x1b[0m \x1b[33mPHYSICS\x1b[0m                                                       \x1b[32m║\x1b[0m',
           '\x1b[32m║\x1b[0m   physics                 Show all physics formulas            \x1b[32m║\x1b[0m',
           '\x1b[32m║\x1b[0m   physics <type> <args>   Calculate (e.g., physics force 10 5)\x1b[32m║\x1b[0m',
+          '\x1b[32m║\x1b[0m   physics projectile 72km/h 30deg  Arguments can carry units   \x1b[32m║\x1b[0m',
+          '\x1b[32m║\x1b[0m   physics force --F 20 --a 4       Solve for any variable (m)  \x1b[32m║\x1b[0m',
+          '\x1b[32m║\x1b[0m   physics projectile 20 45 --animate  Animated path, --drag    \x1b[32m║\x1b[0m',
+          '\x1b[32m║\x1b[0m   convert <q> to <unit>   Convert units (5 miles to km)        \x1b[32m║\x1b[0m',
           '\x1b[32m║\x1b[0m                                                                \x1b[32m║\x1b[0m',
           '\x1b[32m║\x1b[0m \x1b[33mCHEMISTRY\x1b[0m                                                     \x1b[32m║\x1b[0m',
           '\x1b[32m║\x1b[0m   chemistry               Show chemistry help                  \x1b[32m║\x1b[0m',
           '\x1b[32m║\x1b[0m   chemistry element <sym> Get element info (e.g., Fe, Au)      \x1b[32m║\x1b[0m',
           '\x1b[32m║\x1b[0m   chemistry molar <form>  Calculate molar mass (e.g., H2O)     \x1b[32m║\x1b[0m',
+          '\x1b[32m║\x1b[0m   chemistry balance <eq>  Balance (e.g., H2 + O2 -> H2O)       \x1b[32m║\x1b[0m',
+          '\x1b[32m║\x1b[0m   chemistry stoich <eq>   Limiting reagent (--H2 4g --O2 32g)  \x1b[32m║\x1b[0m',
+          '\x1b[32m║\x1b[0m   chemistry table         Periodic table (--highlight, heatmap)\x1b[32m║\x1b[0m',
           '\x1b[32m║\x1b[0m                                                                \x1b[32m║\x1b[0m',
           '\x1b[32m║\x1b[0m \x1b[33mKEYBOARD SHORTCUTS\x1b[0m                                            \x1b[32m║\x1b[0m',
           '\x1b[32m║\x1b[0m   ↑/↓                     Navigate command history             \x1b[32m║\x1b[0m',
@@ -357,6 +469,9 @@ const Terminal: React.FC<TerminalProps> = ({ onUploadRequest: _onUploadRequest,
           '',
           '\x1b[33m🎨 ASCII ART\x1b[0m',
           '   draw cat | draw mario | draw --list | upload image',
+          '   upload image --color | upload image --color 256 | upload video',
+          '   export png | export svg | export html | export txt | export ansi',
+          '   draw cat --animate | draw cat --animate --export gif | export apng',
           '',
           // '\x1b[33m🤖 AI (Requires API Key)\x1b[0m',
           // '   search dragon | generate spaceship | ask what is gravity',
@@ -382,10 +497,17 @@ const Terminal: React.FC<TerminalProps> = ({ onUploadRequest: _onUploadRequest,
           '   physics velocity 100 10  \x1b[90m← v=d/t → 10m/s\x1b[0m',
           '   physics kinetic 10 5  \x1b[90m← KE=½mv² → 125J\x1b[0m',
           '   physics projectile 20 45  \x1b[90m← range, height, time\x1b[0m',
+          '   physics projectile 72km/h 30deg  \x1b[90m← units in arguments\x1b[0m',
+          '   physics force --F 20 --a 4  \x1b[90m← solve for m → 5 kg\x1b[0m',
+          '   physics projectile 20 45 --animate  \x1b[90m← animated trajectory\x1b[0m',
+          '   physics projectile 20 45 --drag 0.47  \x1b[90m← vs air drag\x1b[0m',
+          '   convert 5 miles to km | convert 100 degF to degC',
           '',
           '\x1b[33m🧪 CHEMISTRY\x1b[0m',
           '   chemistry element Fe | Au | H',
           '   chemistry molar H2O | NaCl | C6H12O6',
+          '   chemistry balance Fe + O2 -> Fe2O3',
+          '   chemistry table --highlight noble-gas',
           '',
           '\x1b[33m⌨️ SHORTCUTS\x1b[0m',
           '   ↑/↓ history | ESC exit hologram | clear screen',
@@ -416,7 +538,35 @@ const Terminal: React.FC<TerminalProps> = ({ onUploadRequest: _onUploadRequest,
         } else if (args[0]) {
           const artName = args[0].toLowerCase();
           const art = asciiArtLibrary[artName];
-          if (art) {
+
+          // --animate plays the frames, --export <gif|apng|...> downloads them
+          const animate = args.includes('--animate');
+          const exportIdx = args.indexOf('--export');
+          const exportFormat =
+            exportIdx === -1 ? null : args[exportIdx + 1]?.toLowerCase() || 'gif';
+          const fpsIdx = args.indexOf('--fps');
+          const fps = (fpsIdx !== -1 && parseFloat(args[fpsIdx + 1])) || 4;
+          const frames = animate || exportFormat ? await loadFrames(artName) : null;
+
+          if (frames) {
+            lastResultRef.current = { ascii: frames[0], name: artName, frames, fps };
+            writeLine('');
+            if (animate) {
+              await playFrames(frames, fps);
+            } else {
+              frames[0].split('\n').forEach((line) => writeLine('\x1b[32m' + line + '\x1b[0m'));
+            }
+            if (exportFormat) {
+              try {
+                await exportResult(exportFormat);
+              } catch {
+                writeLine('\x1b[31mError: Backend not running. Start with "npm run dev"\x1b[0m');
+              }
+            }
+            writeLine('');
+            onSound('powerup');
+          } else if (art) {
+            lastResultRef.current = { ascii: art.join('\n'), name: artName };
             writeLine('');
             art.forEach((line) => writeLine('\x1b[32m' + line + '\x1b[0m'));
             writeLine('');
@@ -441,6 +591,7 @@ const Terminal: React.FC<TerminalProps> = ({ onUploadRequest: _onUploadRequest,
             '\x1b[36mExamples:\x1b[0m',
             '  draw cat        Draw a cat',
             '  draw mario      Draw Mario',
+            '  draw cat --animate --export gif   Play and save as GIF',
             '  draw --list     List all available art',
             '',
           ]);
@@ -450,7 +601,16 @@ const Terminal: React.FC<TerminalProps> = ({ onUploadRequest: _onUploadRequest,
       case 'upload': {
         const uploadType = args[0] === 'video' ? 'video' : 'image';
         pendingUploadType.current = uploadType;
-        writeLine(`\n\x1b[36mOpening ${uploadType} picker...\x1b[0m`);
+
+        // --color [truecolor|256|16] selects ANSI colored output
+        const colorIdx = args.indexOf('--color');
+        const colorModes: Record<string, string> = { '256': 'ansi256', '16': 'ansi16' };
+        pendingColorMode.current =
+          colorIdx === -1 ? null : colorModes[args[colorIdx + 1]] || 'truecolor';
+
+        writeLine(
+          `\n\x1b[36mOpening ${uploadType} picker${pendingColorMode.current ? ` (${pendingColorMode.current})` : ''}...\x1b[0m`
+        );
         if (fileInputRef.current) {
           fileInputRef.current.accept = uploadType === 'image' ? 'image/*' : 'video/*';
           fileInputRef.current.click();
@@ -458,9 +618,96 @@ const Terminal: React.FC<TerminalProps> = ({ onUploadRequest: _onUploadRequest,
         return;
       }
 
+      case 'export': {
+        const formats = [...EXPORT_FORMATS, ...ANIMATION_FORMATS];
+        const format = args[0]?.toLowerCase();
+        if (!format || !formats.includes(format)) {
+          writeLines([
+            '',
+            '\x1b[33mUsage:\x1b[0m export <format>',
+            `\x1b[36mFormats:\x1b[0m ${formats.join(', ')}`,
+            '',
+            'Downloads the last drawn, uploaded or generated art.',
+            'gif/apng export every frame of the last animation or video.',
+            '',
+          ]);
+          break;
+        }
+
+        writeLine(`\n\x1b[36mExporting as ${format}...\x1b[0m`);
+        try {
+          await exportResult(format);
+        } catch {
+          writeLine('\x1b[31mError: Backend not running. Start with "npm run dev"\x1b[0m');
+        }
+        writeLine('');
+        break;
+      }
+
       case 'hologram': {
         const holoType = args[0]?.toLowerCase() || 'cube';
         const holoText = args.slice(1).join(' ') || 'HELLO';
+
+        // Surface plot of a two-variable expression, sampled by the backend
+        if (holoType === 'plot') {
+          const surfaceRequest = parseSurfaceArgs(args.slice(1));
+          if (!surfaceRequest) {
+            writeLines([
+              '',
+              '\x1b[33mUsage:\x1b[0m hologram plot <f(x, y)> [--range a..b] [--wireframe]',
+              '',
+              '\x1b[36mExamples:\x1b[0m',
+              '  hologram plot "sin(x)*cos(y)" --range -3..3',
+              '  hologram plot x^2 - y^2 --range 2 --wireframe',
+              '  hologram plot exp(-(x^2 + y^2)) --resolution 100',
+              '',
+            ]);
+            break;
+          }
+
+          try {
+            const surface = await requestSurface(surfaceRequest);
+            if (!surface.success) {
+              writeLines([
+                '',
+                `\x1b[31mError: ${surface.error || 'Could not plot surface'}\x1b[0m`,
+                '',
+              ]);
+              break;
+            }
+
+            setHologramData({
+              type: 'plot',
+              text: surfaceRequest.expression,
+              surface: surface as SurfaceData,
+              wireframe: surfaceRequest.wireframe,
+            });
+            setHologramMode(true);
+
+            const [from, to] = surface.range ?? [0, 0];
+            const [low, high] = (surface.zRange ?? [0, 0]).map((value) =>
+              Number(value.toPrecision(3))
+            );
+            writeLines([
+              '',
+              `  \x1b[36mz = ${surfaceRequest.expression}\x1b[0m`,
+              `  ${surface.variables?.join(', ')} from ${from} to ${to}, z from ${low} to ${high}`,
+              '  Colored by height: low \x1b[35m■\x1b[36m■\x1b[32m■\x1b[33m■\x1b[0m high',
+              '  Drag to orbit, scroll to zoom, ESC to exit',
+              '',
+            ]);
+            triggerPowerUp('mushroom', '3D Mode!');
+            onSound('powerup');
+          } catch {
+            writeLines([
+              '',
+              '\x1b[31mBackend not available.\x1b[0m',
+              'Start the backend: cd backend && npm run dev',
+              '',
+            ]);
+          }
+          break;
+        }
         const validHolos = [
           'cube',
           'sphere',
@@ -533,6 +780,9 @@ const Terminal: React.FC<TerminalProps> = ({ onUploadRequest: _onUploadRequest,
             '  cube, sphere, torus, pyramid, dna, galaxy',
             '  wave, text <MSG>, particles, icosahedron',
             '',
+            '\x1b[32mMATH:\x1b[0m',
+            '  plot <f(x, y)>  - 3D surface (--range -3..3, --wireframe)',
+            '',
             '\x1b[35mSACRED GEOMETRY:\x1b[0m',
             '  illuminati  - All-Seeing Eye Pyramid 🔺',
             '  sacred      - Merkaba (Star Tetrahedron) ✡',
@@ -584,6 +834,7 @@ const Terminal: React.FC<TerminalProps> = ({ onUploadRequest: _onUploadRequest,
 
             // Show ASCII art if generated
             if (searchData.asciiArt) {
+              lastResultRef.current = { ascii: searchData.asciiArt, name: searchQuery };
               writeLine('\x1b[32m═══ Generated ASCII Art ═══\x1b[0m');
               searchData.asciiArt.split('\n').forEach((line: string) => {
                 writeLine('\x1b[32m' + line + '\x1b[0m');
@@ -685,7 +936,7 @@ const Terminal: React.FC<TerminalProps> = ({ onUploadRequest: _onUploadRequest,
         break;
       }
 
-      case 'solve':
+      case 'solve': {
         if (!args[0]) {
           writeLines([
             '',
@@ -714,7 +965,32 @@ const Terminal: React.FC<TerminalProps> = ({ onUploadRequest: _onUploadRequest,
             '  solve pi*2               → 6.28318',
             '  solve (5+3)*2            → 16',
             '',
+            '\x1b[36mSymbolic (SymPy):\x1b[0m',
+            '  solve x^2 - 5x + 6 = 0               Solve an equation',
+            '  solve diff sin(x^2)                  Derivative (--order n)',
+            '  solve integrate x*exp(x)             Integral (--from a --to b)',
+            '  solve limit sin(x)/x --at 0          Limit',
+            '  solve factor x^3 - 1                 Also simplify, expand, series',
+            '  --steps                              Numbered steps with the rule used',
+            '  --var y                              Variable (default x)',
+            '',
           ]);
+          break;
+        }
+
+        // Operations, equations and --steps go to SymPy, plain arithmetic stays local
+        const solveRequest = parseSolveArgs(args);
+        if (solveRequest) {
+          try {
+            writeLines(formatSolution(solveRequest, await requestSolution(solveRequest)));
+          } catch (solveErr) {
+            writeLines([
+              '',
+              '\x1b[31mBackend not available.\x1b[0m',
+              'Start the backend: cd backend && npm run dev',
+              '',
+            ]);
+          }
         } else {
           const expr = args.join(' ');
           const result = evaluateMath(expr);
@@ -726,63 +1002,116 @@ const Terminal: React.FC<TerminalProps> = ({ onUploadRequest: _onUploadRequest,
           ]);
         }
         break;
+      }
 
-      case 'physics':
-        if (!args[0]) {
+      case 'plot': {
+        // Graph as wide as the terminal
+        const plotRequest = parsePlotArgs(args, term.cols - 2);
+        if (!plotRequest) {
           writeLines([
             '',
-            '\x1b[36m╔════════════════════════════════════════════════════════════╗\x1b[0m',
-            '\x1b[36m║                    PHYSICS CALCULATOR                      ║\x1b[0m',
-            '\x1b[36m╠════════════════════════════════════════════════════════════╣\x1b[0m',
-            '\x1b[36m║\x1b[0m \x1b[33mMECHANICS\x1b[0m                                                  \x1b[36m║\x1b[0m',
-            '\x1b[36m║\x1b[0m   velocity <d> <t>         v = d/t                         \x1b[36m║\x1b[0m',
-            '\x1b[36m║\x1b[0m   acceleration <v> <u> <t> a = (v-u)/t                     \x1b[36m║\x1b[0m',
-            '\x1b[36m║\x1b[0m   force <m> <a>            F = ma                          \x1b[36m║\x1b[0m',
-            '\x1b[36m║\x1b[0m   momentum <m> <v>         p = mv                          \x1b[36m║\x1b[0m',
-            '\x1b[36m║\x1b[0m   projectile <v> <angle>   Range, Height, Time             \x1b[36m║\x1b[0m',
-            '\x1b[36m║\x1b[0m   freefall <h>             v = √(2gh), t = √(2h/g)         \x1b[36m║\x1b[0m',
-            '\x1b[36m║\x1b[0m   centripetal <m> <v> <r>  F = mv²/r                       \x1b[36m║\x1b[0m',
-            '\x1b[36m║\x1b[0m   pendulum <L>             T = 2π√(L/g)                    \x1b[36m║\x1b[0m',
-            '\x1b[36m║\x1b[0m                                                            \x1b[36m║\x1b[0m',
-            '\x1b[36m║\x1b[0m \x1b[33mENERGY\x1b[0m                                                     \x1b[36m║\x1b[0m',
-            '\x1b[36m║\x1b[0m   kinetic <m> <v>          KE = ½mv²                       \x1b[36m║\x1b[0m',
-            '\x1b[36m║\x1b[0m   potential <m> <h>        PE = mgh                        \x1b[36m║\x1b[0m',
-            '\x1b[36m║\x1b[0m   work <F> <d> [θ]         W = Fd·cos(θ)                   \x1b[36m║\x1b[0m',
-            '\x1b[36m║\x1b[0m   power <W> <t>            P = W/t                         \x1b[36m║\x1b[0m',
-            '\x1b[36m║\x1b[0m                                                            \x1b[36m║\x1b[0m',
-            '\x1b[36m║\x1b[0m \x1b[33mWAVES & ELECTRICITY\x1b[0m                                        \x1b[36m║\x1b[0m',
-            '\x1b[36m║\x1b[0m   frequency <v> <λ>        f = v/λ                         \x1b[36m║\x1b[0m',
-            '\x1b[36m║\x1b[0m   ohm <I> <R>              V = IR                          \x1b[36m║\x1b[0m',
-            '\x1b[36m║\x1b[0m                                                            \x1b[36m║\x1b[0m',
-            '\x1b[36m║\x1b[0m \x1b[33mGRAVITATION\x1b[0m                                                \x1b[36m║\x1b[0m',
-            '\x1b[36m║\x1b[0m   gravity <m1> <m2> <r>    F = Gm₁m₂/r²                    \x1b[36m║\x1b[0m',
-            '\x1b[36m║\x1b[0m   escape <M> <r>           v = √(2GM/r)                    \x1b[36m║\x1b[0m',
-            '\x1b[36m╚════════════════════════════════════════════════════════════╝\x1b[0m',
+            '\x1b[36m╔══ FUNCTION PLOTTER ══╗\x1b[0m',
+            '',
+            '\x1b[33mUsage:\x1b[0m plot <expression>[; <expression>...] [options]',
+            '',
+            '\x1b[36mExamples:\x1b[0m',
+            '  plot sin(x)/x --from -10 --to 10     Function of x',
+            '  plot sin(x); cos(x); tan(x)          Several series, one color each',
+            '  plot cos(3t), sin(2t)                Parametric curve x(t), y(t)',
+            '  plot 1 + cos(t) --polar              Polar curve r(t)',
             '',
-            '\x1b[33mExample:\x1b[0m physics projectile 20 45',
+            '\x1b[36mOptions:\x1b[0m',
+            '  --from/--to <n>         Range of the variable (pi allowed: --to 2*pi)',
+            '  --ymin/--ymax <n>       Fix the y range (default: fit the curves)',
+            '  --var <name>            Variable (default x, or t for curves)',
+            '  --height <rows>         Plot height (default 20)',
             '',
           ]);
-        } else {
-          const physType = args[0].toLowerCase();
-          const physArgs = args.slice(1).map(Number);
+          break;
+        }
 
-          if (PHYSICS_FORMULAS[physType]) {
-            const formula = PHYSICS_FORMULAS[physType];
-            const result = formula.calc(physArgs);
-            writeLines([
-              '',
-              `\x1b[36m${formula.name}\x1b[0m`,
-              `Formula: \x1b[33m${formula.formula}\x1b[0m`,
-              '',
-              `\x1b[32m${result}\x1b[0m`,
-              '',
-            ]);
-          } else {
-            writeLine(`\x1b[31mUnknown physics calculation: ${physType}\x1b[0m`);
-            writeLine('Type \x1b[33mphysics\x1b[0m to see all available formulas.\n');
+        try {
+          writeLines(formatPlot(await requestPlot(plotRequest)));
+        } catch {
+          writeLines([
+            '',
+            '\x1b[31mBackend not available.\x1b[0m',
+            'Start the backend: cd backend && npm run dev',
+            '',
+          ]);
+        }
+        break;
+      }
+
+      case 'physics': {
+        // Formulas, help and solving all come from the backend registry
+        const physics = parsePhysicsArgs(args);
+        try {
+          if (!physics) {
+            const data = await requestFormulas();
+            writeLines(formatPhysicsHelp(data.formulas ?? []));
+            break;
+          }
+          if (physics.args.length === 0 && Object.keys(physics.values).length === 0) {
+            const data = await requestFormulas();
+            const formula = findFormulaInfo(data.formulas ?? [], physics.formula);
+            if (formula) {
+              writeLines(formatFormula(formula));
+              break;
+            }
+          }
+          if (wantsTrajectory(physics)) {
+            // Plot rows that leave room for the axes, legend and time line on screen
+            const rows = Math.min(Math.max(term.rows - 10, 8), 24);
+            const data = await requestTrajectory(physics, term.cols - 2, rows);
+            writeLines(formatPhysicsSolution(data));
+            if (!data.trajectory) break;
+            writeLines(formatTrajectorySummary(data));
+            if (physics.animate) {
+              await playFrames(data.trajectory.frames, 20, 1);
+            } else {
+              writeLines(data.trajectory.lines);
+            }
+            writeLine('');
+            break;
           }
+          writeLines(formatPhysicsSolution(await requestPhysicsSolve(physics)));
+        } catch {
+          writeLine('\x1b[31mBackend not available.\x1b[0m\n');
+        }
+        break;
+      }
+
+      case 'convert': {
+        const conversion = args.join(' ');
+        if (!conversion) {
+          writeLines([
+            '',
+            '\x1b[36m╔══ UNIT CONVERTER ══╗\x1b[0m',
+            '',
+            '\x1b[33mUsage:\x1b[0m convert <quantity> to <unit>',
+            '',
+            '\x1b[36mExamples:\x1b[0m',
+            '  convert 5 miles to km',
+            '  convert 72 km/h to m/s',
+            '  convert 100 degF to degC',
+            '  convert 9.81 m/s^2 to ft/s^2',
+            '  convert 1 kWh                   No target: shown in SI (J)',
+            '',
+            '\x1b[36mUnits:\x1b[0m SI with prefixes (km, mg, kN, MHz), ft, in, mi, lb, oz, h, mph,',
+            '       knot, deg, rad, cal, eV, hp, atm, bar, psi, degC, degF and more',
+            '',
+          ]);
+          break;
+        }
+
+        try {
+          writeLines(formatConversion(conversion, await requestConversion(conversion)));
+        } catch {
+          writeLine('\x1b[31mBackend not available.\x1b[0m\n');
         }
         break;
+      }
 
       case 'chemistry':
         if (!args[0]) {
@@ -793,50 +1122,87 @@ const Terminal: React.FC<TerminalProps> = ({ onUploadRequest: _onUploadRequest,
             '\x1b[36m╠════════════════════════════════════════════════════════════╣\x1b[0m',
             '\x1b[36m║\x1b[0m                                                            \x1b[36m║\x1b[0m',
             '\x1b[36m║\x1b[0m \x1b[33mELEMENT LOOKUP\x1b[0m                                             \x1b[36m║\x1b[0m',
-            '\x1b[36m║\x1b[0m   chemistry element <symbol>                               \x1b[36m║\x1b[0m',
+            '\x1b[36m║\x1b[0m   chemistry element <symbol | name | number>               \x1b[36m║\x1b[0m',
             '\x1b[36m║\x1b[0m   Examples: chemistry element Fe                           \x1b[36m║\x1b[0m',
-            '\x1b[36m║\x1b[0m             chemistry element Au                           \x1b[36m║\x1b[0m',
+            '\x1b[36m║\x1b[0m             chemistry element gold                         \x1b[36m║\x1b[0m',
+            '\x1b[36m║\x1b[0m             chemistry element 92                           \x1b[36m║\x1b[0m',
             '\x1b[36m║\x1b[0m                                                            \x1b[36m║\x1b[0m',
             '\x1b[36m║\x1b[0m \x1b[33mMOLAR MASS\x1b[0m                                                 \x1b[36m║\x1b[0m',
             '\x1b[36m║\x1b[0m   chemistry molar <formula>                                \x1b[36m║\x1b[0m',
             '\x1b[36m║\x1b[0m   Examples: chemistry molar H2O     → 18.015 g/mol         \x1b[36m║\x1b[0m',
             '\x1b[36m║\x1b[0m             chemistry molar NaCl    → 58.44 g/mol          \x1b[36m║\x1b[0m',
             '\x1b[36m║\x1b[0m             chemistry molar C6H12O6 → 180.16 g/mol         \x1b[36m║\x1b[0m',
+            '\x1b[36m║\x1b[0m             chemistry molar Ca(OH)2                        \x1b[36m║\x1b[0m',
+            '\x1b[36m║\x1b[0m             chemistry molar CuSO4·5H2O --tree              \x1b[36m║\x1b[0m',
+            '\x1b[36m║\x1b[0m   Groups (), [], hydrates ·, charges SO4^2-, isotopes ¹³C  \x1b[36m║\x1b[0m',
+            '\x1b[36m║\x1b[0m                                                            \x1b[36m║\x1b[0m',
+            '\x1b[36m║\x1b[0m \x1b[33mBALANCE EQUATIONS\x1b[0m                                          \x1b[36m║\x1b[0m',
+            '\x1b[36m║\x1b[0m   chemistry balance <reactants> -> <products>              \x1b[36m║\x1b[0m',
+            '\x1b[36m║\x1b[0m   Examples: chemistry balance H2 + O2 -> H2O               \x1b[36m║\x1b[0m',
+            '\x1b[36m║\x1b[0m             chemistry balance Fe3+ + Cu -> Fe2+ + Cu2+     \x1b[36m║\x1b[0m',
+            '\x1b[36m║\x1b[0m                                                            \x1b[36m║\x1b[0m',
+            '\x1b[36m║\x1b[0m \x1b[33mSTOICHIOMETRY\x1b[0m                                              \x1b[36m║\x1b[0m',
+            '\x1b[36m║\x1b[0m   chemistry stoich <equation> --<reactant> <amount> ...    \x1b[36m║\x1b[0m',
+            '\x1b[36m║\x1b[0m   Example: chemistry stoich "2H2+O2->2H2O" --H2 4g --O2 32g\x1b[36m║\x1b[0m',
+            '\x1b[36m║\x1b[0m   Amounts in g, mol or L (gas at STP); --yield 30g for %   \x1b[36m║\x1b[0m',
+            '\x1b[36m║\x1b[0m                                                            \x1b[36m║\x1b[0m',
+            '\x1b[36m║\x1b[0m \x1b[33mPERIODIC TABLE\x1b[0m                                             \x1b[36m║\x1b[0m',
+            '\x1b[36m║\x1b[0m   chemistry table                Colored by category       \x1b[36m║\x1b[0m',
+            '\x1b[36m║\x1b[0m   chemistry table --highlight halogen                      \x1b[36m║\x1b[0m',
+            '\x1b[36m║\x1b[0m   chemistry table --property electronegativity             \x1b[36m║\x1b[0m',
+            '\x1b[36m║\x1b[0m     (also mass, density, melting, boiling)                 \x1b[36m║\x1b[0m',
             '\x1b[36m║\x1b[0m                                                            \x1b[36m║\x1b[0m',
             '\x1b[36m║\x1b[0m \x1b[33mAVAILABLE ELEMENTS\x1b[0m                                         \x1b[36m║\x1b[0m',
-            '\x1b[36m║\x1b[0m   H, He, Li, Be, B, C, N, O, F, Ne, Na, Mg, Al, Si, P,    \x1b[36m║\x1b[0m',
-            '\x1b[36m║\x1b[0m   S, Cl, Ar, K, Ca, Fe, Cu, Zn, Ag, Au, Pb, U              \x1b[36m║\x1b[0m',
+            '\x1b[36m║\x1b[0m   All 118, hydrogen (1) to oganesson (118)                 \x1b[36m║\x1b[0m',
             '\x1b[36m╚════════════════════════════════════════════════════════════╝\x1b[0m',
             '',
           ]);
         } else if (args[0].toLowerCase() === 'element' && args[1]) {
-          const symbol = args[1].toLowerCase();
-          const el = ELEMENTS[symbol];
-          if (el) {
-            writeLines([
-              '',
-              `\x1b[36m╔══ ${el.name.toUpperCase()} (${args[1].toUpperCase()}) ══╗\x1b[0m`,
-              '',
-              `  Atomic Number:  \x1b[32m${el.number}\x1b[0m`,
-              `  Atomic Mass:    \x1b[32m${el.mass} u\x1b[0m`,
-              `  Category:       \x1b[33m${el.category}\x1b[0m`,
-              '',
-            ]);
-          } else {
-            writeLine(`\x1b[31mElement "${args[1]}" not found.\x1b[0m\n`);
+          // Symbol, name or atomic number
+          const query = args[1];
+          try {
+            writeLines(formatElement(query, await requestElement(query)));
+          } catch {
+            writeLine('\x1b[31mBackend not available.\x1b[0m\n');
+          }
+        } else if (args[0].toLowerCase() === 'balance' && args[1]) {
+          const equation = args.slice(1).join(' ');
+          try {
+            writeLines(formatBalance(equation, await requestBalance(equation)));
+          } catch {
+            writeLine('\x1b[31mBackend not available.\x1b[0m\n');
+          }
+        } else if (args[0].toLowerCase() === 'stoich') {
+          const stoichRequest = parseStoichArgs(args.slice(1));
+          if (!stoichRequest) {
+            writeLine(
+              '\x1b[33mUsage:\x1b[0m chemistry stoich "2H2+O2->2H2O" --H2 4g --O2 32g [--yield 30g]\n'
+            );
+            break;
+          }
+          try {
+            writeLines(formatStoichiometry(await requestStoichiometry(stoichRequest)));
+          } catch {
+            writeLine('\x1b[31mBackend not available.\x1b[0m\n');
+          }
+        } else if (args[0].toLowerCase() === 'table') {
+          const tableOptions = parseTableArgs(args.slice(1));
+          if (typeof tableOptions === 'string') {
+            writeLine(`\x1b[31m${tableOptions}\x1b[0m\n`);
+            break;
+          }
+          try {
+            writeLines(formatPeriodicTable(await requestPeriodicTable(), tableOptions));
+          } catch {
+            writeLine('\x1b[31mBackend not available.\x1b[0m\n');
           }
         } else if (args[0].toLowerCase() === 'molar' && args[1]) {
-          const formula = args[1];
-          const mass = calcMolarMass(formula);
-          if (mass > 0) {
-            writeLines([
-              '',
-              `\x1b[36mMolar Mass of ${formula}\x1b[0m`,
-              `  \x1b[32m${mass.toFixed(3)} g/mol\x1b[0m`,
-              '',
-            ]);
-          } else {
-            writeLine(`\x1b[31mCould not parse formula: ${formula}\x1b[0m\n`);
+          const molar = parseMolarArgs(args.slice(1));
+          try {
+            const molarData = await requestMolarMass(molar.formula);
+            writeLines(formatMolarMass(molar.formula, molarData, molar.tree));
+          } catch {
+            writeLine('\x1b[31mBackend not available.\x1b[0m\n');
           }
         } else {
           writeLine('\x1b[31mInvalid chemistry command. Type "chemistry" for help.\x1b[0m\n');
@@ -914,6 +1280,7 @@ const Terminal: React.FC<TerminalProps> = ({ onUploadRequest: _onUploadRequest,
           const genData = await genResponse.json();
 
           if (genData.success && genData.art) {
+            lastResultRef.current = { ascii: genData.art, name: genDescription };
             writeLine('\x1b[32m═══════ AI Generated Art ═══════\x1b[0m');
             genData.art.split('\n').forEach((line: string) => {
               writeLine('\x1b[32m' + line + '\x1b[0m');
@@ -1132,6 +1499,9 @@ const Terminal: React.FC<TerminalProps> = ({ onUploadRequest: _onUploadRequest,
         }
       } else if (ev.key === 'Escape') {
         setHologramMode(false);
+      } else if (ev.ctrlKey && ev.key === 'c' && activeJobRef.current) {
+        // Cancel the running conversion job (kills its FFmpeg process)
+        fetch(`/api/jobs/${activeJobRef.current}`, { method: 'DELETE' }).catch(() => undefined);
       } else if (!ev.altKey && !ev.ctrlKey && !ev.metaKey && key.length === 1) {
         inputRef.current += key;
         term.write(key);
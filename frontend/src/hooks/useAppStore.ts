@@ -5,6 +5,7 @@
  */
 
 import { create } from 'zustand';
+import type { SurfaceData } from '../utils/mathPlot';
 
 interface PowerUp {
   type: string;
@@ -18,6 +19,8 @@ interface HologramData {
   color?: string;
   interactive?: boolean;
   customShape?: string;
+  surface?: SurfaceData; // height grid for `hologram plot`
+  wireframe?: boolean;
 }
 
 interface AppState {
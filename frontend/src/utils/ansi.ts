@@ -0,0 +1,13 @@
+/**
+ * ASCII Oracle - ANSI Helpers
+ * Escape sequences in terminal output
+ */
+
+// Colors, styles, cursor movement
+// eslint-disable-next-line no-control-regex
+const ANSI_PATTERN = /\x1b\[[\d;?]*[A-Za-z]/g;
+
+/**
+ * Text without its ANSI escape sequences
+ */
+export const stripAnsi = (text: string): string => text.replace(ANSI_PATTERN, '');
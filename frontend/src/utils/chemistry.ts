@@ -0,0 +1,567 @@
+/**
+ * ASCII Oracle - Chemistry Client
+ * Element lookup, molar masses and equation balancing from /api/science/chemistry,
+ * which holds the periodic table; the terminal keeps no element data of its own
+ * Also draws the full table as ANSI cells, by category or as a property heatmap
+ */
+
+import { readFlags } from './mathSolver';
+
+export interface ElementData {
+  symbol: string;
+  name: string;
+  atomicNumber: number;
+  atomicMass: number;
+  category: string;
+  group: number | null;
+  period: number;
+  block: string;
+  electronConfiguration: string;
+  electronegativity: number | null;
+  density: number | null; // g/cm³
+  meltingPoint: number | null; // K
+  boilingPoint: number | null; // K
+  oxidationStates: number[];
+  isotopes: { massNumber: number; abundance: number | null }[];
+}
+
+export interface ElementResponse {
+  success?: boolean;
+  element?: ElementData;
+  error?: string;
+}
+
+export type FormulaNode =
+  | { type: 'element'; symbol: string; massNumber?: number; count: number }
+  | { type: 'group'; bracket: '(' | '['; count: number; children: FormulaNode[] };
+
+export interface MolarMassResponse {
+  success?: boolean;
+  formula?: string;
+  molarMass?: string;
+  unit?: string;
+  charge?: number;
+  counts?: Record<string, number>;
+  composition?: { element: string; count: number; mass: number; percent: number }[];
+  tree?: { coefficient: number; nodes: FormulaNode[] }[]; // hydrate parts
+  warnings?: string[];
+  error?: string;
+}
+
+export interface BalanceResponse {
+  success?: boolean;
+  original?: string;
+  balanced?: string;
+  reactants?: { formula: string; coefficient: number }[];
+  products?: { formula: string; coefficient: number }[];
+  elements?: string[];
+  error?: string;
+}
+
+export interface StoichRequest {
+  equation: string;
+  amounts: Record<string, string>; // reactant -> "4g", "0.5mol", "11.2L"
+  actualYield?: string | Record<string, string>;
+}
+
+interface Quantity {
+  moles: number;
+  grams: number;
+}
+
+export interface StoichResponse {
+  success?: boolean;
+  equation?: string;
+  extent?: number;
+  limitingReagent?: string;
+  reactants?: {
+    formula: string;
+    coefficient: number;
+    molarMass: number;
+    given: Quantity | null;
+    used: Quantity;
+    leftover: Quantity | null;
+    limiting: boolean;
+  }[];
+  products?: {
+    formula: string;
+    coefficient: number;
+    molarMass: number;
+    theoreticalYield: Quantity;
+    actualYield?: Quantity;
+    percentYield?: number;
+    warning?: string;
+  }[];
+  error?: string;
+}
+
+export interface PeriodicTableResponse {
+  success?: boolean;
+  elements?: ElementData[];
+  count?: number;
+  error?: string;
+}
+
+export type HeatmapProperty =
+  'atomicNumber' | 'atomicMass' | 'electronegativity' | 'density' | 'meltingPoint' | 'boilingPoint';
+
+export interface TableOptions {
+  highlight?: string; // category, block ("p-block") or symbols ("Fe,Co,Ni")
+  property?: HeatmapProperty;
+}
+
+/**
+ * GET an element by symbol, name or atomic number
+ */
+export const requestElement = async (query: string): Promise<ElementResponse> => {
+  const response = await fetch(`/api/science/chemistry/element/${encodeURIComponent(query)}`);
+  return response.json();
+};
+
+/**
+ * POST a formula to the molar mass calculator
+ */
+export const requestMolarMass = async (formula: string): Promise<MolarMassResponse> => {
+  const response = await fetch('/api/science/chemistry/molar-mass', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ formula }),
+  });
+  return response.json();
+};
+
+/**
+ * POST an equation to the balancer
+ */
+export const requestBalance = async (equation: string): Promise<BalanceResponse> => {
+  const response = await fetch('/api/science/chemistry/balance', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ equation }),
+  });
+  return response.json();
+};
+
+/**
+ * POST reactant amounts to the stoichiometry calculator
+ */
+export const requestStoichiometry = async (request: StoichRequest): Promise<StoichResponse> => {
+  const response = await fetch('/api/science/chemistry/stoichiometry', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+  });
+  return response.json();
+};
+
+/**
+ * GET all 118 elements
+ */
+export const requestPeriodicTable = async (): Promise<PeriodicTableResponse> => {
+  const response = await fetch('/api/science/chemistry/periodic-table');
+  return response.json();
+};
+
+const titleCase = (text: string) => text.replace(/\b[a-z]/g, (c) => c.toUpperCase());
+const signed = (n: number) => (n > 0 ? `+${n}` : String(n));
+const orUnknown = (value: number | null, unit = '') =>
+  value === null ? '\x1b[90munknown\x1b[0m' : `\x1b[32m${value}${unit}\x1b[0m`;
+
+/**
+ * Terminal lines for an element card
+ */
+export const formatElement = (query: string, data: ElementResponse): string[] => {
+  const el = data.element;
+  if (!el) return [`\x1b[31mElement "${query}" not found.\x1b[0m`, ''];
+
+  const isotopes = el.isotopes
+    .map(({ massNumber, abundance }) =>
+      abundance === null
+        ? `${el.symbol}-${massNumber}`
+        : `${el.symbol}-${massNumber} (${abundance}%)`
+    )
+    .join(', ');
+
+  return [
+    '',
+    `\x1b[36m╔══ ${el.name.toUpperCase()} (${el.symbol}) ══╗\x1b[0m`,
+    '',
+    `  Atomic Number:      \x1b[32m${el.atomicNumber}\x1b[0m`,
+    `  Atomic Mass:        \x1b[32m${el.atomicMass} u\x1b[0m`,
+    `  Category:           \x1b[33m${titleCase(el.category)}\x1b[0m`,
+    `  Group / Period:     \x1b[32m${el.group ?? '—'} / ${el.period}\x1b[0m (${el.block}-block)`,
+    `  Configuration:      \x1b[32m${el.electronConfiguration}\x1b[0m`,
+    `  Electronegativity:  ${orUnknown(el.electronegativity)}`,
+    `  Density:            ${orUnknown(el.density, ' g/cm³')}`,
+    `  Melting Point:      ${orUnknown(el.meltingPoint, ' K')}`,
+    `  Boiling Point:      ${orUnknown(el.boilingPoint, ' K')}`,
+    `  Oxidation States:   \x1b[32m${el.oxidationStates.map(signed).join(', ') || '—'}\x1b[0m`,
+    `  Isotopes:           \x1b[32m${isotopes}\x1b[0m`,
+    '',
+  ];
+};
+
+/**
+ * Terminal lines for a molar mass with its per-element breakdown
+ */
+export const formatMolarMass = (
+  formula: string,
+  data: MolarMassResponse,
+  showTree = false
+): string[] => {
+  if (!data.success || !data.composition) {
+    return [`\x1b[31m${data.error || `Could not parse formula: ${formula}`}\x1b[0m`, ''];
+  }
+
+  const charge = data.charge ? `  \x1b[90m(charge ${signed(data.charge)})\x1b[0m` : '';
+  const lines = [
+    '',
+    `\x1b[36mMolar Mass of ${data.formula ?? formula}\x1b[0m${charge}`,
+    `  \x1b[32m${data.molarMass} ${data.unit}\x1b[0m`,
+    '',
+    ...data.composition.map(({ element, count, mass, percent }) => {
+      const atoms = `${element}${count > 1 ? ` ×${count}` : ''}`.padEnd(10);
+      return `  ${atoms} ${mass.toFixed(3).padStart(10)}  \x1b[33m${percent.toFixed(2).padStart(6)}%\x1b[0m`;
+    }),
+    '',
+  ];
+
+  if (data.warnings?.length) {
+    lines.push(...data.warnings.map((warning) => `\x1b[33m⚠ ${warning}\x1b[0m`), '');
+  }
+
+  if (showTree && data.tree) {
+    lines.push('\x1b[36mParse tree\x1b[0m', `  ${data.formula ?? formula}`);
+    if (data.tree.length === 1 && data.tree[0].coefficient === 1) {
+      lines.push(...treeLines(data.tree[0].nodes, '  '));
+    } else {
+      // Hydrates get one branch per dot-separated part: CuSO4 and 5 H2O
+      data.tree.forEach(({ coefficient, nodes }, i) => {
+        const last = i === data.tree!.length - 1;
+        const text = `${coefficient > 1 ? `${coefficient} ` : ''}${nodes.map(nodeText).join('')}`;
+        lines.push(
+          `  ${last ? '└─ ' : '├─ '}${text}`,
+          ...treeLines(nodes, last ? '     ' : '  │  ')
+        );
+      });
+    }
+    lines.push('');
+  }
+  return lines;
+};
+
+const countText = (count: number) => (count > 1 ? String(count) : '');
+
+// H2O, (OH)2, 13C: a node written back as formula text
+const nodeText = (node: FormulaNode): string => {
+  if (node.type === 'element') {
+    return `${node.massNumber ?? ''}${node.symbol}${countText(node.count)}`;
+  }
+  const close = node.bracket === '(' ? ')' : ']';
+  return `${node.bracket}${node.children.map(nodeText).join('')}${close}${countText(node.count)}`;
+};
+
+// Box-drawing branches below `prefix`, one per node, groups expanded
+const treeLines = (nodes: FormulaNode[], prefix: string): string[] =>
+  nodes.flatMap((node, i) => {
+    const last = i === nodes.length - 1;
+    const label =
+      node.type === 'element'
+        ? `\x1b[32m${nodeText(node)}\x1b[0m`
+        : `${nodeText({ ...node, count: 1 })}${node.count > 1 ? ` \x1b[33m×${node.count}\x1b[0m` : ''}`;
+    const line = `${prefix}${last ? '└─ ' : '├─ '}${label}`;
+    return node.type === 'group'
+      ? [line, ...treeLines(node.children, prefix + (last ? '   ' : '│  '))]
+      : [line];
+  });
+
+/**
+ * Terminal lines for a balanced equation, or the balancer's diagnostic
+ */
+export const formatBalance = (equation: string, data: BalanceResponse): string[] => {
+  if (!data.success || !data.balanced) {
+    return [
+      '',
+      `\x1b[36m${equation}\x1b[0m`,
+      `  \x1b[31m${data.error || 'Could not balance equation'}\x1b[0m`,
+      '',
+    ];
+  }
+
+  const conserved = (data.elements ?? []).join(', ');
+  return [
+    '',
+    `\x1b[36m${data.original ?? equation}\x1b[0m`,
+    `  \x1b[32m${data.balanced}\x1b[0m`,
+    `  \x1b[90mConserved: ${conserved}\x1b[0m`,
+    '',
+  ];
+};
+
+/**
+ * `chemistry molar` arguments: the formula (a charge may follow a space, SO4 2-)
+ * and --tree
+ */
+export const parseMolarArgs = (args: string[]) => {
+  const { words, flags } = readFlags(args, []);
+  return { formula: words.join(' '), tree: flags.tree === true };
+};
+
+const AMOUNT_UNIT = /^(g|mg|kg|mol|mmol|l|ml)$/i;
+
+/**
+ * `chemistry stoich "2H2+O2->2H2O" --H2 4g --O2 32g [--yield 30g | --yield H2O=30g]`
+ * Every other --flag names a reactant; null when there is no equation
+ */
+export const parseStoichArgs = (args: string[]): StoichRequest | null => {
+  const words: string[] = [];
+  const request: StoichRequest = { equation: '', amounts: {} };
+
+  for (let i = 0; i < args.length; i++) {
+    if (!args[i].startsWith('--')) {
+      words.push(args[i]);
+      continue;
+    }
+    const [flag, inline] = args[i].slice(2).split('=', 2);
+    let value = inline ?? args[++i] ?? '';
+    // "4 g": a unit in its own word
+    if (AMOUNT_UNIT.test(args[i + 1] ?? '')) value += args[++i];
+
+    if (flag === 'yield' || flag === 'actual') {
+      const [product, amount] = value.split('=');
+      request.actualYield = amount === undefined ? value : { [product]: amount };
+    } else {
+      request.amounts[flag] = value;
+    }
+  }
+
+  request.equation = words.join(' ').replace(/["']/g, '').trim();
+  return request.equation ? request : null;
+};
+
+// Box-drawn table, first column left-aligned and the rest right-aligned
+const asciiTable = (headers: string[], rows: string[][]): string[] => {
+  const widths = headers.map((header, c) =>
+    Math.max(header.length, ...rows.map((row) => row[c].length))
+  );
+  const rule = (left: string, middle: string, right: string) =>
+    `${left}${widths.map((width) => '─'.repeat(width + 2)).join(middle)}${right}`;
+  const line = (cells: string[]) =>
+    `│${cells.map((cell, c) => ` ${c === 0 ? cell.padEnd(widths[c]) : cell.padStart(widths[c])} `).join('│')}│`;
+
+  return [
+    rule('┌', '┬', '┐'),
+    line(headers),
+    rule('├', '┼', '┤'),
+    ...rows.map(line),
+    rule('└', '┴', '┘'),
+  ];
+};
+
+const grams = (quantity?: Quantity | null) => (quantity ? quantity.grams.toFixed(3) : '—');
+
+/**
+ * Terminal lines for a stoichiometry result: one table row per species
+ */
+export const formatStoichiometry = (data: StoichResponse): string[] => {
+  if (!data.success || !data.reactants || !data.products) {
+    return [`\x1b[31m${data.error || 'Could not calculate stoichiometry'}\x1b[0m`, ''];
+  }
+
+  const hasActual = data.products.some((product) => product.actualYield);
+  const headers = ['Species', 'Coef', 'g/mol', 'Given g', 'Used g', 'Left g', 'Yield g'];
+  if (hasActual) headers.push('Actual g', '% yield');
+
+  const rows = [
+    ...data.reactants.map((r) => [
+      r.limiting ? `${r.formula} *` : r.formula,
+      String(r.coefficient),
+      r.molarMass.toFixed(3),
+      grams(r.given),
+      grams(r.used),
+      grams(r.leftover),
+      '—',
+      ...(hasActual ? ['—', '—'] : []),
+    ]),
+    ...data.products.map((p) => [
+      p.formula,
+      String(p.coefficient),
+      p.molarMass.toFixed(3),
+      '—',
+      '—',
+      '—',
+      grams(p.theoreticalYield),
+      ...(hasActual
+        ? [grams(p.actualYield), p.percentYield === undefined ? '—' : p.percentYield.toFixed(1)]
+        : []),
+    ]),
+  ];
+
+  const excess = data.reactants.filter((r) => !r.given).map((r) => r.formula);
+  const warnings = data.products.flatMap((p) => (p.warning ? [p.warning] : []));
+  return [
+    '',
+    `\x1b[36m${data.equation}\x1b[0m`,
+    '',
+    ...asciiTable(headers, rows).map((line) => `  ${line}`),
+    `  \x1b[33m* limiting reagent: ${data.limitingReagent}\x1b[0m  \x1b[90m(reaction runs ${data.extent} mol)\x1b[0m`,
+    ...(excess.length > 0
+      ? [`  \x1b[90mNo amount given for ${excess.join(', ')}: assumed in excess\x1b[0m`]
+      : []),
+    ...warnings.map((warning) => `  \x1b[33m⚠ ${warning}\x1b[0m`),
+    '',
+  ];
+};
+
+// Cell background (256-color palette) per category, legend order
+const CATEGORY_COLORS: Record<string, number> = {
+  'alkali metal': 210,
+  'alkaline earth': 216,
+  'transition metal': 222,
+  'post-transition': 151,
+  metalloid: 115,
+  nonmetal: 120,
+  halogen: 159,
+  'noble gas': 183,
+  lanthanide: 218,
+  actinide: 224,
+};
+
+// Cold to hot heatmap ramp: blue, cyan, green, yellow, red
+const HEAT_RAMP = [
+  21, 27, 33, 39, 45, 51, 50, 48, 46, 82, 118, 154, 190, 226, 220, 214, 208, 202, 196,
+];
+
+// --property names and short aliases
+const PROPERTY_ALIASES: Record<string, HeatmapProperty> = {
+  number: 'atomicNumber',
+  atomicnumber: 'atomicNumber',
+  mass: 'atomicMass',
+  atomicmass: 'atomicMass',
+  electronegativity: 'electronegativity',
+  en: 'electronegativity',
+  density: 'density',
+  melting: 'meltingPoint',
+  meltingpoint: 'meltingPoint',
+  mp: 'meltingPoint',
+  boiling: 'boilingPoint',
+  boilingpoint: 'boilingPoint',
+  bp: 'boilingPoint',
+};
+
+const PROPERTY_UNITS: Record<HeatmapProperty, string> = {
+  atomicNumber: '',
+  atomicMass: ' u',
+  electronegativity: '',
+  density: ' g/cm³',
+  meltingPoint: ' K',
+  boilingPoint: ' K',
+};
+
+const CELL = 4;
+
+const cell = (text: string, background: number) =>
+  `\x1b[48;5;${background}m\x1b[30m${text.padEnd(CELL - 1)}\x1b[0m `;
+const dimCell = (text: string) => `\x1b[90m${text.padEnd(CELL - 1)}\x1b[0m `;
+
+/**
+ * `chemistry table` arguments: --highlight <what> and --property <name>
+ * Returns an error message for an unknown property
+ */
+export const parseTableArgs = (args: string[]): TableOptions | string => {
+  const { flags } = readFlags(args, ['highlight', 'property']);
+  const options: TableOptions = {};
+
+  if (typeof flags.highlight === 'string') options.highlight = flags.highlight;
+  if (typeof flags.property === 'string') {
+    const property = PROPERTY_ALIASES[flags.property.toLowerCase().replace(/[-_\s]/g, '')];
+    if (!property) {
+      return `Unknown property "${flags.property}". Try: electronegativity, mass, density, melting, boiling`;
+    }
+    options.property = property;
+  }
+  return options;
+};
+
+// Predicate for --highlight: "halogen(s)", "noble-gas", "d-block", "Fe,Co,Ni"
+const highlighter = (highlight: string) => {
+  const text = highlight.toLowerCase().replace(/[-_]/g, ' ').trim();
+  const block = /^([spdf]) ?block$/.exec(text);
+  if (block) return (el: ElementData) => el.block === block[1];
+
+  const category = Object.keys(CATEGORY_COLORS).find(
+    (name) => name.startsWith(text) || `${name}s` === text
+  );
+  if (category) return (el: ElementData) => el.category === category;
+
+  const symbols = text.split(/[\s,]+/);
+  return (el: ElementData) => symbols.includes(el.symbol.toLowerCase());
+};
+
+/**
+ * Terminal lines for the 18-column periodic table, with the f-block rows below
+ */
+export const formatPeriodicTable = (
+  data: PeriodicTableResponse,
+  options: TableOptions = {}
+): string[] => {
+  if (!data.elements) return [`\x1b[31m${data.error || 'Periodic table unavailable'}\x1b[0m`, ''];
+  const { property, highlight } = options;
+  const isHighlighted = highlight ? highlighter(highlight) : () => true;
+
+  // Heatmap scale from the known values of the property
+  const values = data.elements
+    .map((el) => (property ? el[property] : null))
+    .filter((value): value is number => value !== null);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+
+  const render = (el: ElementData) => {
+    if (!isHighlighted(el)) return dimCell(el.symbol);
+    if (!property) return cell(el.symbol, CATEGORY_COLORS[el.category] ?? 250);
+    const value = el[property];
+    if (value === null) return cell(el.symbol, 240);
+    const t = max > min ? (value - min) / (max - min) : 0;
+    return cell(el.symbol, HEAT_RAMP[Math.round(t * (HEAT_RAMP.length - 1))]);
+  };
+
+  // Main grid: 7 periods x 18 groups; f-block rows: 2 x 14
+  const grid: (ElementData | undefined)[][] = Array.from({ length: 7 }, () => Array(18));
+  const fBlock: ElementData[][] = [[], []];
+  for (const el of data.elements) {
+    if (el.group === null) fBlock[el.period - 6]?.push(el);
+    else grid[el.period - 1][el.group - 1] = el;
+  }
+
+  const blank = ' '.repeat(CELL);
+  const groups = Array.from({ length: 18 }, (_, i) => String(i + 1).padEnd(CELL)).join('');
+  const lines = ['', `    \x1b[36m${groups}\x1b[0m`];
+  grid.forEach((row, i) => {
+    const cells = Array.from(row, (el) => (el ? render(el) : blank));
+    lines.push(`  \x1b[36m${i + 1}\x1b[0m ${cells.join('')}`);
+  });
+  lines.push('');
+  // Under groups 4-17, after a marker in the group 3 column where La and Ac sit
+  fBlock.forEach((row, i) => {
+    const marker = dimCell(i === 0 ? '*6' : '*7');
+    lines.push(`    ${blank}${blank}${marker}${row.map(render).join('')}`);
+  });
+  lines.push('');
+
+  if (property) {
+    const unit = PROPERTY_UNITS[property];
+    const ramp = HEAT_RAMP.map((color) => `\x1b[48;5;${color}m \x1b[0m`).join('');
+    lines.push(
+      `  \x1b[33m${property}\x1b[0m  ${min}${unit} ${ramp} ${max}${unit}  ${cell('', 240)}unknown`
+    );
+  } else {
+    const legend = Object.entries(CATEGORY_COLORS).map(
+      ([name, color]) => `\x1b[48;5;${color}m  \x1b[0m ${name}`
+    );
+    for (let i = 0; i < legend.length; i += 4) {
+      lines.push(`  ${legend.slice(i, i + 4).join('  ')}`);
+    }
+  }
+  lines.push('');
+  return lines;
+};
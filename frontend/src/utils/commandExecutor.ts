@@ -3,7 +3,43 @@
  */
 
 import { asciiArtLibrary } from './asciiArt';
+import {
+  formatBalance,
+  formatElement,
+  formatMolarMass,
+  formatPeriodicTable,
+  formatStoichiometry,
+  parseMolarArgs,
+  parseStoichArgs,
+  parseTableArgs,
+  requestBalance,
+  requestElement,
+  requestMolarMass,
+  requestPeriodicTable,
+  requestStoichiometry,
+} from './chemistry';
 import { CommandResult, isValidCommand, ParsedCommand } from './commandParser';
+import {
+  formatPlot,
+  parsePlotArgs,
+  parseSurfaceArgs,
+  requestPlot,
+  requestSurface,
+} from './mathPlot';
+import { formatSolution, parseSolveArgs, requestSolution } from './mathSolver';
+import {
+  findFormulaInfo,
+  formatFormula,
+  formatPhysicsHelp,
+  formatPhysicsSolution,
+  formatTrajectorySummary,
+  parsePhysicsArgs,
+  requestFormulas,
+  requestPhysicsSolve,
+  requestTrajectory,
+  wantsTrajectory,
+} from './physics';
+import { formatConversion, requestConversion } from './units';
 
 interface ExecutorContext {
   setHologramMode: (mode: boolean) => void;
@@ -38,13 +74,22 @@ export const executeCommand = async (
     case 'upload':
       return executeUpload(args);
     case 'hologram':
-      return executeHologram(args, context);
+      return args[0] === 'plot'
+        ? executeSurfacePlot(parsed.raw.split(/\s+/).slice(2), context)
+        : executeHologram(args, context);
     case 'solve':
-      return executeSolve(args);
+      // Re-read the raw words: the parser drops negative flag values (--from -1)
+      return executeSolve(parsed.raw.split(/\s+/).slice(1));
+    case 'plot':
+      return executePlot(parsed.raw.split(/\s+/).slice(1));
     case 'physics':
-      return executePhysics(args);
+      // Raw words keep --F/--a variable values, negative ones included
+      return executePhysics(parsed.raw.split(/\s+/).slice(1));
+    case 'convert':
+      return executeConvert(args);
     case 'chemistry':
-      return executeChemistry(args);
+      // Raw words keep the --highlight/--property values of `chemistry table`
+      return executeChemistry(parsed.raw.split(/\s+/).slice(1));
     case 'search':
       return executeSearch(args);
     case 'clear':
@@ -87,16 +132,67 @@ This will open a file picker to select an image.`,
 
 Usage: hologram <type>
 
-Types: cube, sphere, text, particles, wave`,
+Types: cube, sphere, text, particles, wave
+
+Surface plots of z = f(x, y), colored by height:
+  hologram plot "sin(x)*cos(y)" --range -3..3
+  --range a..b      Range of both variables (default -3..3)
+  --resolution n    Grid points per side (default 60)
+  --wireframe       Wireframe only`,
 
       solve: `SOLVE - Math solver
 
-Usage: solve <expression>
+Usage: solve [operation] <expression> [--steps] [--var x]
+
+Operations: simplify, expand, factor, solve, diff, integrate, limit, series
+Equations (containing =) are solved for the variable.
+
+Options:
+  --steps           Numbered steps, the rule used at each, boxed answer
+  --var <name>      Variable (default x)
+  --from/--to <n>   Integration bounds
+  --at <point>      Limit or series point
+  --order <n>       Derivative order
 
 Examples:
   solve 2+2
   solve sqrt(16)
-  solve 5*5`,
+  solve x^2 - 5x + 6 = 0 --steps
+  solve diff sin(x^2) --steps
+  solve integrate x*exp(x) --steps`,
+
+      plot: `PLOT - Function plotter
+
+Usage: plot <expression>[; <expression>...] [options]
+
+Draws a Braille line graph with axes and tick labels, one color per series.
+"x(t), y(t)" pairs are plotted as parametric curves.
+
+Options:
+  --from/--to <n>     Range of the variable (pi allowed: --to 2*pi)
+  --ymin/--ymax <n>   Fix the y range
+  --polar             Plot r(t) as a polar curve
+  --var <name>        Variable (default x, or t for curves)
+  --width/--height    Size in characters
+
+Examples:
+  plot sin(x)/x --from -10 --to 10
+  plot sin(x); cos(x)
+  plot cos(3t), sin(2t)
+  plot 1 + cos(t) --polar`,
+
+      convert: `CONVERT - Unit converter
+
+Usage: convert <quantity> [to <unit>]
+
+Checks that both sides are the same kind of quantity (length, speed, energy...).
+Without a target the quantity is shown in SI units.
+
+Examples:
+  convert 5 miles to km
+  convert 72 km/h to m/s
+  convert 100 degF to degC
+  convert 1 kWh`,
 
       search: `SEARCH - Search for ASCII art
 
@@ -124,6 +220,8 @@ Examples:
   upload image   Convert image to ASCII
   hologram cube  3D visualization
   solve <expr>   Math calculations
+  plot <expr>    Graph functions (try: plot sin(x)/x)
+  convert <q>    Convert units (try: convert 5 miles to km)
   search <query> Search ASCII art online
   clear          Clear screen
   about          About this app
@@ -224,6 +322,46 @@ const executeHologram = (args: string[], context: ExecutorContext): CommandResul
   };
 };
 
+// Hologram surface plot - heights sampled by the backend
+const executeSurfacePlot = async (
+  args: string[],
+  context: ExecutorContext
+): Promise<CommandResult> => {
+  const request = parseSurfaceArgs(args);
+  if (!request) {
+    return {
+      success: false,
+      output:
+        'Usage: hologram plot <f(x, y)> [--range a..b]\nExample: hologram plot "sin(x)*cos(y)"',
+      type: 'error',
+    };
+  }
+
+  try {
+    const surface = await requestSurface(request);
+    if (!surface.success) {
+      return { success: false, output: surface.error || 'Could not plot surface', type: 'error' };
+    }
+
+    context.setHologramData({
+      type: 'plot',
+      text: request.expression,
+      surface,
+      wireframe: request.wireframe,
+    });
+    context.setHologramMode(true);
+    return {
+      success: true,
+      output: `Surface plot: z = ${request.expression}\nPress ESC or type "exit" to return.`,
+      type: 'info',
+      powerUp: 'mushroom',
+      powerUpMessage: '3D Mode Activated!',
+    };
+  } catch (e) {
+    return { success: false, output: 'Backend not available for plotting', type: 'error' };
+  }
+};
+
 // Solve command - basic math
 const executeSolve = async (args: string[]): Promise<CommandResult> => {
   if (args.length === 0) {
@@ -235,23 +373,21 @@ const executeSolve = async (args: string[]): Promise<CommandResult> => {
   }
 
   const expression = args.join(' ');
+  const request = parseSolveArgs(args) ?? {
+    operation: 'simplify' as const,
+    expression,
+    variable: 'x',
+    steps: false,
+  };
 
   try {
-    // Try backend first
-    const response = await fetch('/api/math/solve', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ expression }),
-    });
-
-    if (response.ok) {
-      const data = await response.json();
-      return {
-        success: true,
-        output: `Expression: ${expression}\nResult: ${data.result}`,
-        type: 'info',
-      };
-    }
+    // Try backend first; its errors (unknown function, no solution) are final
+    const data = await requestSolution(request);
+    return {
+      success: data.success,
+      output: formatSolution(request, data).join('\n'),
+      type: data.success ? 'math' : 'error',
+    };
   } catch (e) {
     // Backend not available, try basic eval
   }
@@ -275,65 +411,70 @@ const executeSolve = async (args: string[]): Promise<CommandResult> => {
   }
 };
 
-// Physics command
-const executePhysics = async (args: string[]): Promise<CommandResult> => {
-  if (args.length === 0) {
+// Plot command - graph drawn by the backend
+const executePlot = async (args: string[]): Promise<CommandResult> => {
+  const request = parsePlotArgs(args);
+  if (!request) {
     return {
-      success: true,
-      output: `PHYSICS Calculator
-
-Available calculations:
-  physics projectile <velocity> <angle>
-  physics freefall <height>
-  physics momentum <mass> <velocity>
-
-Example: physics projectile 20 45`,
-      type: 'info',
+      success: false,
+      output: 'Usage: plot <expression>\nExample: plot sin(x)/x --from -10 --to 10',
+      type: 'error',
     };
   }
 
-  const calcType = args[0].toLowerCase();
-
-  if (calcType === 'projectile' && args.length >= 3) {
-    const v = parseFloat(args[1]);
-    const angle = parseFloat(args[2]) * (Math.PI / 180);
-    const g = 9.81;
-    const range = (v * v * Math.sin(2 * angle)) / g;
-    const maxHeight = (v * v * Math.sin(angle) * Math.sin(angle)) / (2 * g);
-    const time = (2 * v * Math.sin(angle)) / g;
-
+  try {
+    const data = await requestPlot(request);
     return {
-      success: true,
-      output: `Projectile Motion (v=${args[1]}m/s, θ=${args[2]}°)
-
-Range: ${range.toFixed(2)} m
-Max Height: ${maxHeight.toFixed(2)} m
-Flight Time: ${time.toFixed(2)} s`,
-      type: 'info',
+      success: data.success,
+      output: formatPlot(data),
+      type: data.success ? 'math' : 'error',
     };
+  } catch (e) {
+    return { success: false, output: 'Backend not available for plotting', type: 'error' };
   }
+};
 
-  if (calcType === 'freefall' && args.length >= 2) {
-    const h = parseFloat(args[1]);
-    const g = 9.81;
-    const time = Math.sqrt((2 * h) / g);
-    const velocity = g * time;
+// Physics command
+const executePhysics = async (args: string[]): Promise<CommandResult> => {
+  const physics = parsePhysicsArgs(args);
+  try {
+    if (!physics) {
+      const data = await requestFormulas();
+      return {
+        success: true,
+        output: formatPhysicsHelp(data.formulas ?? []).join('\n'),
+        type: 'info',
+      };
+    }
+    if (physics.args.length === 0 && Object.keys(physics.values).length === 0) {
+      const data = await requestFormulas();
+      const formula = findFormulaInfo(data.formulas ?? [], physics.formula);
+      if (formula)
+        return { success: true, output: formatFormula(formula).join('\n'), type: 'info' };
+    }
+    if (wantsTrajectory(physics)) {
+      // No animation outside the terminal: the plot alone
+      const data = await requestTrajectory(physics, 78, 20);
+      const lines = formatPhysicsSolution(data);
+      if (data.trajectory) {
+        lines.push(...formatTrajectorySummary(data), ...data.trajectory.lines);
+      }
+      return {
+        success: Boolean(data.success),
+        output: lines.join('\n'),
+        type: data.success ? 'info' : 'error',
+      };
+    }
 
+    const data = await requestPhysicsSolve(physics);
     return {
-      success: true,
-      output: `Free Fall (h=${h}m)
-
-Time to ground: ${time.toFixed(2)} s
-Final velocity: ${velocity.toFixed(2)} m/s`,
-      type: 'info',
+      success: Boolean(data.success),
+      output: formatPhysicsSolution(data).join('\n'),
+      type: data.success ? 'info' : 'error',
     };
+  } catch (e) {
+    return { success: false, output: 'Backend not available for physics', type: 'error' };
   }
-
-  return {
-    success: false,
-    output: 'Invalid physics calculation. Type "physics" for help.',
-    type: 'error',
-  };
 };
 
 // Chemistry command
@@ -344,8 +485,15 @@ const executeChemistry = async (args: string[]): Promise<CommandResult> => {
       output: `CHEMISTRY Tools
 
 Available commands:
-  chemistry element <symbol>   Element info
-  chemistry molar <formula>    Molar mass
+  chemistry element <symbol>   Element info (symbol, name or number)
+  chemistry molar <formula>    Molar mass and mass percent (--tree: parse tree)
+                               Ca(OH)2, CuSO4·5H2O, SO4^2-, [13C]O2
+  chemistry balance <equation> Balance, e.g. H2 + O2 -> H2O or Fe3+ + Cu -> Fe2+ + Cu2+
+  chemistry stoich <equation> --<reactant> <amount> [--yield <amount>]
+                               Limiting reagent and yields; amounts in g, mol or L at STP
+  chemistry table              Periodic table colored by category
+    --highlight <what>         Category, block (p-block) or symbols (Fe,Co,Ni)
+    --property <name>          Heatmap: electronegativity, mass, density, melting, boiling
 
 Example: chemistry element Fe`,
       type: 'info',
@@ -354,24 +502,68 @@ Example: chemistry element Fe`,
 
   const subCmd = args[0].toLowerCase();
 
-  if (subCmd === 'element' && args[1]) {
-    const elements: Record<string, string> = {
-      h: 'Hydrogen (H) - Atomic #1, Mass: 1.008',
-      he: 'Helium (He) - Atomic #2, Mass: 4.003',
-      c: 'Carbon (C) - Atomic #6, Mass: 12.011',
-      n: 'Nitrogen (N) - Atomic #7, Mass: 14.007',
-      o: 'Oxygen (O) - Atomic #8, Mass: 15.999',
-      fe: 'Iron (Fe) - Atomic #26, Mass: 55.845',
-      au: 'Gold (Au) - Atomic #79, Mass: 196.967',
-      ag: 'Silver (Ag) - Atomic #47, Mass: 107.868',
-    };
+  try {
+    if (subCmd === 'element' && args[1]) {
+      const query = args[1];
+      const data = await requestElement(query);
+      return {
+        success: Boolean(data.element),
+        output: formatElement(query, data).join('\n'),
+        type: data.element ? 'info' : 'error',
+      };
+    }
 
-    const el = args[1].toLowerCase();
-    return {
-      success: true,
-      output: elements[el] || `Element "${args[1]}" not in database.`,
-      type: 'info',
-    };
+    if (subCmd === 'balance' && args[1]) {
+      const equation = args.slice(1).join(' ');
+      const data = await requestBalance(equation);
+      return {
+        success: Boolean(data.success),
+        output: formatBalance(equation, data).join('\n'),
+        type: data.success ? 'info' : 'error',
+      };
+    }
+
+    if (subCmd === 'stoich') {
+      const request = parseStoichArgs(args.slice(1));
+      if (!request) {
+        return {
+          success: false,
+          output: 'Usage: chemistry stoich "2H2+O2->2H2O" --H2 4g --O2 32g [--yield 30g]',
+          type: 'error',
+        };
+      }
+      const data = await requestStoichiometry(request);
+      return {
+        success: Boolean(data.success),
+        output: formatStoichiometry(data).join('\n'),
+        type: data.success ? 'info' : 'error',
+      };
+    }
+
+    if (subCmd === 'table') {
+      const options = parseTableArgs(args.slice(1));
+      if (typeof options === 'string') {
+        return { success: false, output: options, type: 'error' };
+      }
+      const data = await requestPeriodicTable();
+      return {
+        success: Boolean(data.elements),
+        output: formatPeriodicTable(data, options).join('\n'),
+        type: data.elements ? 'info' : 'error',
+      };
+    }
+
+    if (subCmd === 'molar' && args[1]) {
+      const { formula, tree } = parseMolarArgs(args.slice(1));
+      const data = await requestMolarMass(formula);
+      return {
+        success: Boolean(data.success),
+        output: formatMolarMass(formula, data, tree).join('\n'),
+        type: data.success ? 'info' : 'error',
+      };
+    }
+  } catch (e) {
+    return { success: false, output: 'Backend not available for chemistry', type: 'error' };
   }
 
   return {
@@ -381,6 +573,29 @@ Example: chemistry element Fe`,
   };
 };
 
+// Convert command
+const executeConvert = async (args: string[]): Promise<CommandResult> => {
+  if (args.length === 0) {
+    return {
+      success: false,
+      output: 'Usage: convert <quantity> to <unit>\nExample: convert 5 miles to km',
+      type: 'error',
+    };
+  }
+
+  const conversion = args.join(' ');
+  try {
+    const data = await requestConversion(conversion);
+    return {
+      success: Boolean(data.success),
+      output: formatConversion(conversion, data).join('\n'),
+      type: data.success ? 'info' : 'error',
+    };
+  } catch (e) {
+    return { success: false, output: 'Backend not available for unit conversion', type: 'error' };
+  }
+};
+
 // Search command
 const executeSearch = async (args: string[]): Promise<CommandResult> => {
   if (args.length === 0) {
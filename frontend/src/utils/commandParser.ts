@@ -117,8 +117,10 @@ export const isValidCommand = (command: string): boolean => {
     'upload',
     'hologram',
     'solve',
+    'plot',
     'physics',
     'chemistry',
+    'convert',
     'search',
     'clear',
     'exit',
@@ -143,8 +145,10 @@ export const getSuggestions = (partial: string): string[] => {
     'hologram text "HELLO"',
     'solve integral x^2 dx',
     'solve equation x^2+5x+6=0',
+    'plot sin(x)/x --from -10 --to 10',
     'physics projectile --velocity 20 --angle 45',
     'chemistry balance H2+O2->H2O',
+    'convert 5 miles to km',
     'search mario ascii art',
     'clear',
     'exit',
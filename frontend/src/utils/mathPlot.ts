@@ -0,0 +1,154 @@
+/**
+ * ASCII Oracle - Plot Client
+ * Parses `plot` arguments and calls /api/math/plot, which draws the Braille graph,
+ * and fetches the height grids behind `hologram plot` surfaces
+ */
+
+import { readFlags } from './mathSolver';
+
+export type PlotMode = 'function' | 'parametric' | 'polar';
+
+export interface PlotRequest {
+  expressions: string[];
+  mode?: PlotMode; // parametric is detected from "x(t), y(t)" when omitted
+  variable?: string;
+  from?: string;
+  to?: string;
+  ymin?: string;
+  ymax?: string;
+  width?: number;
+  height?: number;
+}
+
+export interface PlotResponse {
+  success: boolean;
+  lines?: string[];
+  mode?: PlotMode;
+  variable?: string;
+  domain?: [number, number];
+  error?: string;
+}
+
+const VALUE_FLAGS = ['var', 'variable', 'from', 'to', 'ymin', 'ymax', 'width', 'height'];
+
+/**
+ * Terminal arguments to a plot request; series are separated by ";"
+ * `width` is the terminal width, used unless --width is given
+ */
+export const parsePlotArgs = (args: string[], width?: number): PlotRequest | null => {
+  const { words, flags } = readFlags(args, VALUE_FLAGS);
+  const expressions = words
+    .join(' ')
+    .split(';')
+    .map((text) => text.trim())
+    .filter(Boolean);
+  if (expressions.length === 0) return null;
+
+  const value = (name: string) => (typeof flags[name] === 'string' ? flags[name] : undefined);
+  const size = (name: string) => (value(name) !== undefined ? Number(value(name)) : undefined);
+
+  return {
+    expressions,
+    mode: flags.polar ? 'polar' : flags.parametric ? 'parametric' : undefined,
+    variable: value('var') ?? value('variable'),
+    from: value('from'),
+    to: value('to'),
+    ymin: value('ymin'),
+    ymax: value('ymax'),
+    width: size('width') ?? width,
+    height: size('height'),
+  };
+};
+
+/**
+ * POST the request to the plot API
+ */
+export const requestPlot = async (request: PlotRequest): Promise<PlotResponse> => {
+  const response = await fetch('/api/math/plot', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+  });
+  return response.json();
+};
+
+const formatNumber = (value: number) => String(Number(value.toPrecision(4)));
+
+/**
+ * Terminal lines for a plot: the range of the variable, then the graph and legend
+ */
+export const formatPlot = (data: PlotResponse): string[] => {
+  if (!data.success || !data.lines) {
+    return ['', `\x1b[31mError: ${data.error || 'Could not plot expression'}\x1b[0m`, ''];
+  }
+
+  const [from, to] = data.domain ?? [0, 0];
+  const kind = data.mode === 'function' ? '' : ` (${data.mode})`;
+  return [
+    '',
+    `  \x1b[36m${data.variable} from ${formatNumber(from)} to ${formatNumber(to)}${kind}\x1b[0m`,
+    '',
+    ...data.lines,
+    '',
+  ];
+};
+
+export interface SurfaceRequest {
+  expression: string;
+  from?: string;
+  to?: string;
+  resolution?: number;
+  wireframe: boolean; // wireframe only, no translucent faces
+}
+
+/**
+ * Heights of z = f(x, y) on a resolution x resolution grid, row by row
+ */
+export interface SurfaceData {
+  expression: string;
+  variables: [string, string];
+  range: [number, number];
+  resolution: number;
+  z: (number | null)[];
+  zRange: [number, number];
+}
+
+export interface SurfaceResponse extends Partial<SurfaceData> {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * `hologram plot` arguments: the expression (quotes optional), --range a..b
+ * (or --range n for -n..n), --resolution n and --wireframe
+ */
+export const parseSurfaceArgs = (args: string[]): SurfaceRequest | null => {
+  const { words, flags } = readFlags(args, ['range', 'resolution']);
+  const expression = words
+    .join(' ')
+    .replace(/^["']|["']$/g, '')
+    .trim();
+  if (!expression) return null;
+
+  const range = typeof flags.range === 'string' ? flags.range : undefined;
+  const [from, to] = range?.includes('..')
+    ? range.split('..')
+    : range
+      ? [`-(${range})`, range]
+      : [];
+  const resolution = typeof flags.resolution === 'string' ? Number(flags.resolution) : undefined;
+
+  return { expression, from, to, resolution, wireframe: flags.wireframe === true };
+};
+
+/**
+ * POST the request to the surface API
+ */
+export const requestSurface = async (request: SurfaceRequest): Promise<SurfaceResponse> => {
+  const response = await fetch('/api/math/surface', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...request, wireframe: undefined }),
+  });
+  return response.json();
+};
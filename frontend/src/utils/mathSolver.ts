@@ -0,0 +1,226 @@
+/**
+ * ASCII Oracle - Symbolic Math Client
+ * Parses `solve` arguments, calls /api/math/solve and formats the answer,
+ * with numbered rule-by-rule steps when --steps is given
+ */
+
+import { stripAnsi } from './ansi';
+
+export type MathOperation =
+  'simplify' | 'expand' | 'factor' | 'solve' | 'diff' | 'integrate' | 'limit' | 'series';
+
+export interface SolveRequest {
+  operation: MathOperation;
+  expression: string;
+  variable: string;
+  steps: boolean;
+  lower?: string;
+  upper?: string;
+  point?: string;
+  order?: string;
+}
+
+export interface MathSolution {
+  success: boolean;
+  result?: unknown;
+  pretty?: string; // 2D Unicode rendering of the answer
+  steps?: string[];
+  error?: string;
+  fallback?: boolean;
+}
+
+// First word of `solve <word> ...` -> operation
+const OPERATION_ALIASES: Record<string, MathOperation> = {
+  simplify: 'simplify',
+  expand: 'expand',
+  factor: 'factor',
+  solve: 'solve',
+  diff: 'diff',
+  derivative: 'diff',
+  d: 'diff',
+  integrate: 'integrate',
+  integral: 'integrate',
+  int: 'integrate',
+  limit: 'limit',
+  lim: 'limit',
+  series: 'series',
+  taylor: 'series',
+};
+
+// Flags that take a value, and the request field they fill
+const VALUE_FLAGS: Record<string, 'variable' | 'lower' | 'upper' | 'point' | 'order'> = {
+  var: 'variable',
+  variable: 'variable',
+  from: 'lower',
+  to: 'upper',
+  at: 'point',
+  order: 'order',
+};
+
+const visibleLength = (text: string) => stripAnsi(text).length;
+
+/**
+ * Words and flags of a command line: `--name value`, `--name=value` or a bare `--name`
+ */
+export const readFlags = (args: string[], valueFlags: string[]) => {
+  const words: string[] = [];
+  const flags: Record<string, string | true> = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const [flag, inline] = arg.startsWith('--') ? arg.slice(2).split('=', 2) : [];
+
+    if (!flag) {
+      words.push(arg);
+    } else if (valueFlags.includes(flag)) {
+      // Values may be negative (--from -1), so take the next word whatever it is
+      const value = inline ?? args[++i];
+      if (value !== undefined) flags[flag] = value;
+    } else {
+      flags[flag] = true;
+    }
+  }
+  return { words, flags };
+};
+
+/**
+ * Terminal arguments to a symbolic request, null for plain arithmetic
+ * (no operation word, no equation and no --steps) that is evaluated locally
+ */
+export const parseSolveArgs = (args: string[]): SolveRequest | null => {
+  const { words, flags } = readFlags(args, Object.keys(VALUE_FLAGS));
+  const request: Omit<SolveRequest, 'operation' | 'expression'> = {
+    variable: 'x',
+    steps: flags.steps === true,
+  };
+  for (const [flag, field] of Object.entries(VALUE_FLAGS)) {
+    const value = flags[flag];
+    if (typeof value === 'string') request[field] = value;
+  }
+
+  const alias = OPERATION_ALIASES[words[0]?.toLowerCase()];
+  const expression = (alias ? words.slice(1) : words).join(' ');
+  if (!expression) return null;
+
+  const operation =
+    alias ?? (expression.includes('=') ? 'solve' : request.steps ? 'simplify' : null);
+  return operation ? { ...request, operation, expression } : null;
+};
+
+/**
+ * POST the request to the math API
+ */
+export const requestSolution = async (request: SolveRequest): Promise<MathSolution> => {
+  const response = await fetch('/api/math/solve', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...request, steps: undefined }),
+  });
+  return response.json();
+};
+
+// One line per solution: "x = 2" or "x = 2, y = 1"
+const formatResult = (request: SolveRequest, result: unknown): string[] => {
+  if (Array.isArray(result)) {
+    if (result.length === 0) return ['No solution'];
+    return result.map((item) =>
+      typeof item === 'object' && item !== null
+        ? Object.entries(item)
+            .map(([name, value]) => `${name} = ${value}`)
+            .join(', ')
+        : `${request.variable} = ${item}`
+    );
+  }
+
+  const indefinite = request.operation === 'integrate' && request.lower === undefined;
+  return [`${String(result)}${indefinite ? ' + C' : ''}`];
+};
+
+// What is being computed, e.g. "∫ x*sin(x) dx" or "Solve x^2 = 4 for x"
+const describe = ({
+  operation,
+  expression,
+  variable,
+  lower,
+  upper,
+  point,
+  order,
+}: SolveRequest) => {
+  switch (operation) {
+    case 'solve':
+      // Systems are solved for every symbol unless --var lists them
+      return /[,;]/.test(expression)
+        ? `Solve ${expression}`
+        : `Solve ${expression} for ${variable}`;
+    case 'diff': {
+      const power = order && order !== '1' ? `^${order}` : '';
+      return `d${power}/d${variable}${power} [${expression}]`;
+    }
+    case 'integrate': {
+      const bounds = lower !== undefined ? `[${lower}, ${upper ?? '?'}]` : '';
+      return `∫${bounds} ${expression} d${variable}`;
+    }
+    case 'limit':
+      return `lim ${variable}→${point ?? 0} ${expression}`;
+    case 'series':
+      return `Series of ${expression} at ${variable} = ${point ?? 0}`;
+    default:
+      return `${operation[0].toUpperCase()}${operation.slice(1)} ${expression}`;
+  }
+};
+
+/**
+ * "Chain rule: d/dx[sin(x**2)] = ..." -> rule and detail
+ */
+export const splitStep = (step: string): { rule: string; detail: string } => {
+  const colon = step.indexOf(': ');
+  return colon < 0
+    ? { rule: step, detail: '' }
+    : { rule: step.slice(0, colon), detail: step.slice(colon + 2) };
+};
+
+/**
+ * Lines framed in a double-line box
+ */
+export const boxLines = (lines: string[]): string[] => {
+  const width = Math.max(...lines.map(visibleLength));
+  return [
+    `╔${'═'.repeat(width + 2)}╗`,
+    ...lines.map((line) => `║ ${line}${' '.repeat(width - visibleLength(line))} ║`),
+    `╚${'═'.repeat(width + 2)}╝`,
+  ];
+};
+
+/**
+ * Terminal lines for an answer: the answer alone, or numbered steps and a boxed answer
+ */
+export const formatSolution = (request: SolveRequest, data: MathSolution): string[] => {
+  if (!data.success) {
+    return ['', `\x1b[31mError: ${data.error || 'Could not solve expression'}\x1b[0m`, ''];
+  }
+
+  const lines = ['', `  \x1b[36m${describe(request)}\x1b[0m`];
+  // Drawn formula when the backend sent one, "x = 2" style lines otherwise
+  const answer = data.pretty ? data.pretty.split('\n') : formatResult(request, data.result);
+
+  if (!request.steps && data.pretty) {
+    lines.push('', ...answer.map((line) => `  \x1b[32m${line}\x1b[0m`));
+  } else if (!request.steps) {
+    lines.push(...answer.map((line) => `  \x1b[33m=\x1b[0m \x1b[32m${line}\x1b[0m`));
+  } else {
+    lines.push('');
+    (data.steps ?? []).forEach((step, i) => {
+      const { rule, detail } = splitStep(step);
+      const number = `${i + 1}.`.padStart(4);
+      lines.push(`${number} \x1b[33m${rule}\x1b[0m`);
+      if (detail) lines.push(`       ${detail}`);
+    });
+    lines.push('', ...boxLines(answer).map((line) => `  \x1b[32m${line}\x1b[0m`));
+  }
+
+  if (data.fallback) {
+    lines.push('', '  \x1b[90m(SymPy unavailable: answered by the built-in math engine)\x1b[0m');
+  }
+  lines.push('');
+  return lines;
+};
@@ -0,0 +1,303 @@
+/**
+ * ASCII Oracle - Physics Client
+ * Formulas come from the registry at /api/science/physics, which also solves them;
+ * the help text and variable lists here are built from it rather than kept locally
+ */
+
+export interface PhysicsVariable {
+  key: string;
+  symbol: string;
+  name: string;
+  unit: string;
+  aliases?: string[];
+  default?: number;
+}
+
+export interface PhysicsFormulaInfo {
+  id: string;
+  aliases?: string[];
+  name: string;
+  category: string;
+  equation: string;
+  description: string;
+  output: PhysicsVariable;
+  inputs: PhysicsVariable[];
+  derived: { key: string; name: string; unit: string }[];
+}
+
+export interface FormulasResponse {
+  success?: boolean;
+  formulas?: PhysicsFormulaInfo[];
+  error?: string;
+}
+
+export interface SolvedValue {
+  key: string;
+  symbol: string;
+  name: string;
+  value: number;
+  unit: string;
+  formatted: string;
+}
+
+export interface PhysicsSolveResponse {
+  success?: boolean;
+  formula?: string;
+  name?: string;
+  equation?: string;
+  solvedFor?: string;
+  result?: SolvedValue;
+  alternatives?: SolvedValue[];
+  values?: SolvedValue[];
+  derived?: SolvedValue[];
+  error?: string;
+}
+
+export interface PathSummary {
+  label: string;
+  range: number;
+  maxHeight: number;
+  timeOfFlight: number;
+  impactSpeed: number;
+}
+
+export interface TrajectoryResponse extends PhysicsSolveResponse {
+  trajectory?: {
+    ideal: PathSummary;
+    drag: PathSummary | null;
+    lines: string[];
+    frames: string[];
+  };
+}
+
+export interface PhysicsRequest {
+  formula: string;
+  args: string[]; // positional, in the formula's input order
+  values: Record<string, string>; // --key value
+  animate?: boolean; // --animate
+  plot?: boolean; // --plot
+}
+
+// Switches that take no value; --drag may go either way
+const SWITCHES = ['animate', 'plot'];
+
+const CATEGORY_TITLES: Record<string, string> = {
+  mechanics: 'MECHANICS',
+  energy: 'ENERGY',
+  waves: 'WAVES',
+  electricity: 'ELECTRICITY',
+  gravitation: 'GRAVITATION',
+};
+
+/**
+ * GET the formula registry
+ */
+export const requestFormulas = async (): Promise<FormulasResponse> => {
+  const response = await fetch('/api/science/physics/formulas');
+  return response.json();
+};
+
+/**
+ * POST the known values of a formula; the backend solves for the one left out
+ */
+export const requestPhysicsSolve = async (
+  request: PhysicsRequest
+): Promise<PhysicsSolveResponse> => {
+  const response = await fetch(`/api/science/physics/${encodeURIComponent(request.formula)}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ args: request.args, values: request.values }),
+  });
+  return response.json();
+};
+
+/**
+ * POST projectile values with the terminal size; the backend solves them and draws
+ * the path (plus the drag path with --drag) as a plot and animation frames
+ */
+export const requestTrajectory = async (
+  request: PhysicsRequest,
+  width: number,
+  height: number
+): Promise<TrajectoryResponse> => {
+  const response = await fetch('/api/science/physics/projectile/trajectory', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ args: request.args, values: request.values, width, height }),
+  });
+  return response.json();
+};
+
+/**
+ * Whether a request asks for the trajectory plot rather than just the numbers
+ */
+export const wantsTrajectory = (request: PhysicsRequest) =>
+  request.formula === 'projectile' &&
+  Boolean(request.animate || request.plot || 'drag' in request.values);
+
+/**
+ * `physics force 10 5` or `physics force --F 20 --a 4`: every --flag is a variable
+ * and takes the next word (negative values and units included: --a -2, --v 72km/h).
+ * --animate and --plot are switches; a bare --drag uses the default coefficient.
+ * Null without a formula name
+ */
+export const parsePhysicsArgs = (args: string[]): PhysicsRequest | null => {
+  const words: string[] = [];
+  const values: Record<string, string> = {};
+  const switches = new Set<string>();
+
+  for (let i = 0; i < args.length; i++) {
+    if (!args[i].startsWith('--')) {
+      words.push(args[i]);
+      continue;
+    }
+    const [flag, inline] = args[i].slice(2).split('=', 2);
+    if (SWITCHES.includes(flag)) {
+      switches.add(flag);
+      continue;
+    }
+    const next = args[i + 1];
+    if (inline === undefined && flag === 'drag' && (next === undefined || next.startsWith('--'))) {
+      values.drag = '';
+      continue;
+    }
+    const value = inline ?? args[++i];
+    if (value !== undefined) values[flag] = value;
+  }
+
+  if (!words[0]) return null;
+  return {
+    formula: words[0].toLowerCase(),
+    args: words.slice(1),
+    values,
+    animate: switches.has('animate'),
+    plot: switches.has('plot'),
+  };
+};
+
+/**
+ * Registry entry by id or alias
+ */
+export const findFormulaInfo = (formulas: PhysicsFormulaInfo[], name: string) =>
+  formulas.find((f) => f.id === name || f.aliases?.includes(name));
+
+// `projectile <v> <theta> [h] [g]`: optional where the registry has a default
+const usage = (formula: PhysicsFormulaInfo) =>
+  [
+    formula.id,
+    ...formula.inputs.map((v) => (v.default === undefined ? `<${v.key}>` : `[${v.key}]`)),
+  ].join(' ');
+
+/**
+ * Terminal lines listing every formula by category
+ */
+export const formatPhysicsHelp = (formulas: PhysicsFormulaInfo[]): string[] => {
+  const lines = ['', '\x1b[36m╔══ PHYSICS CALCULATOR ══╗\x1b[0m'];
+  const width = Math.max(...formulas.map((f) => usage(f).length)) + 2;
+
+  for (const [category, title] of Object.entries(CATEGORY_TITLES)) {
+    const inCategory = formulas.filter((f) => f.category === category);
+    if (inCategory.length === 0) continue;
+    lines.push('', `\x1b[33m${title}\x1b[0m`);
+    for (const formula of inCategory) {
+      lines.push(`  ${usage(formula).padEnd(width)}\x1b[90m${formula.equation}\x1b[0m`);
+    }
+  }
+
+  return [
+    ...lines,
+    '',
+    '\x1b[36mUsage:\x1b[0m',
+    '  physics projectile 20 45             Values in order; plain numbers are SI',
+    '  physics projectile 72km/h 30deg      Values may carry units',
+    '  physics force --F 20 --a 4           Solve for the variable left out (m)',
+    '  physics projectile 20 45 --animate   Animate the trajectory (--plot to draw it)',
+    '  physics projectile 20 45 --drag 0.47 Overlay air drag (--mass --area --density)',
+    '  physics projectile                   Variables, units and defaults',
+    '',
+  ];
+};
+
+/**
+ * Terminal lines describing one formula's variables
+ */
+export const formatFormula = (formula: PhysicsFormulaInfo): string[] => {
+  const variable = (v: PhysicsVariable) => {
+    const flag = `--${v.key}`.padEnd(9);
+    const fallback = v.default === undefined ? '' : `, default ${v.default}`;
+    return `  ${flag} ${v.symbol.padEnd(3)} ${v.name} (${v.unit}${fallback})`;
+  };
+
+  return [
+    '',
+    `\x1b[36m${formula.name}\x1b[0m  ${formula.description}`,
+    `Formula: \x1b[33m${formula.equation}\x1b[0m`,
+    '',
+    `\x1b[33mUsage:\x1b[0m physics ${usage(formula)}`,
+    '',
+    variable(formula.output),
+    ...formula.inputs.map(variable),
+    ...(formula.derived.length
+      ? ['', `\x1b[90mAlso gives: ${formula.derived.map((d) => d.name).join(', ')}\x1b[0m`]
+      : []),
+    '',
+    `\x1b[90mGive all but one with --flags to solve for it: physics ${formula.id} --${formula.output.key} <value> ...\x1b[0m`,
+    '',
+  ];
+};
+
+/**
+ * Terminal lines for a solved formula: the answer, the values used and derived
+ * quantities
+ */
+export const formatPhysicsSolution = (data: PhysicsSolveResponse): string[] => {
+  if (!data.success || !data.result) {
+    return [
+      '',
+      `\x1b[31m${data.error || 'Could not solve'}\x1b[0m`,
+      'Type \x1b[33mphysics\x1b[0m to see all available formulas.',
+      '',
+    ];
+  }
+
+  const { result } = data;
+  const given = (data.values ?? [])
+    .filter((v) => v.key !== data.solvedFor)
+    .map((v) => `${v.symbol} = ${v.formatted}`)
+    .join(', ');
+  const width = Math.max(0, ...(data.derived ?? []).map((d) => d.name.length)) + 2;
+
+  return [
+    '',
+    `\x1b[36m${data.name}\x1b[0m`,
+    `Formula: \x1b[33m${data.equation}\x1b[0m`,
+    `\x1b[90mGiven: ${given}\x1b[0m`,
+    '',
+    `\x1b[32m${result.symbol} = ${result.formatted}\x1b[0m  (${result.name})`,
+    ...(data.alternatives ?? []).map((alt) => `\x1b[32m  or ${alt.formatted}\x1b[0m`),
+    ...(data.derived ?? []).map((d) => `  ${d.name.padEnd(width)}${d.formatted}`),
+    '',
+  ];
+};
+
+/**
+ * Terminal lines comparing the ideal path with the drag path; nothing without drag,
+ * where the solution already has the same numbers
+ */
+export const formatTrajectorySummary = (data: TrajectoryResponse): string[] => {
+  if (!data.trajectory?.drag) return [];
+  const paths = [data.trajectory.ideal, data.trajectory.drag];
+  const row = (name: string, unit: string, value: (p: PathSummary) => number) =>
+    `  ${name.padEnd(16)}${paths.map((p) => `${value(p)} ${unit}`.padEnd(22)).join('')}`.trimEnd();
+
+  const header = paths.map((p) => p.label.padEnd(22)).join('');
+
+  return [
+    `\x1b[90m  ${''.padEnd(16)}${header.trimEnd()}\x1b[0m`,
+    row('Range', 'm', (p) => p.range),
+    row('Max height', 'm', (p) => p.maxHeight),
+    row('Time of flight', 's', (p) => p.timeOfFlight),
+    row('Impact speed', 'm/s', (p) => p.impactSpeed),
+    '',
+  ];
+};
@@ -0,0 +1,48 @@
+/**
+ * ASCII Oracle - Units Client
+ * Unit conversion through /api/science/convert ("5 miles to km")
+ */
+
+export interface ConversionResponse {
+  success?: boolean;
+  input?: string;
+  value?: number;
+  unit?: string;
+  formatted?: string;
+  si?: { value: number; unit: string; formatted: string };
+  dimension?: string;
+  error?: string;
+}
+
+/**
+ * POST "5 miles to km" (or just "5 miles", shown in SI) to the converter
+ */
+export const requestConversion = async (expression: string): Promise<ConversionResponse> => {
+  const response = await fetch('/api/science/convert', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ expression }),
+  });
+  return response.json();
+};
+
+/**
+ * Terminal lines for a conversion, or the converter's error
+ */
+export const formatConversion = (expression: string, data: ConversionResponse): string[] => {
+  if (!data.success || data.formatted === undefined) {
+    return [
+      '',
+      `\x1b[36m${expression}\x1b[0m`,
+      `  \x1b[31m${data.error || 'Could not convert'}\x1b[0m`,
+      '',
+    ];
+  }
+
+  const lines = ['', `\x1b[36m${data.input}\x1b[0m = \x1b[32m${data.formatted}\x1b[0m`];
+  if (data.si && data.si.unit !== data.unit) {
+    lines.push(`  \x1b[90mSI: ${data.si.formatted}\x1b[0m`);
+  }
+  lines.push(`  \x1b[90mDimension: ${data.dimension}\x1b[0m`, '');
+  return lines;
+};